@@ -0,0 +1,461 @@
+import { ATTACHMENT_MIME_TYPES } from './AttachmentStore';
+
+/**
+ * JSON Schemas for the relay HTTP API request bodies
+ */
+
+const hex = { type: 'string', pattern: '^(0x)?[0-9a-fA-F]+$', maxLength: 256 } as const;
+const id = { type: 'string', minLength: 1, maxLength: 256 } as const;
+// 32 bytes, e.g. a SHA-256 digest or raw X25519 key
+const hex32 = { type: 'string', pattern: '^[0-9a-fA-F]{64}$' } as const;
+const mimeType = { type: 'string', enum: Object.keys(ATTACHMENT_MIME_TYPES) } as const;
+
+export const messagePayloadSchema = {
+    type: 'object',
+    required: ['content', 'senderCommit', 'cardId', 'senderAddress', 'senderPublicKey', 'senderKeyType', 'signature', 'timestamp', 'nonce'],
+    properties: {
+        content: { type: 'string', maxLength: 65536 },
+        contentCommitment: hex32,
+        senderCommit: hex,
+        cardId: id,
+        senderAddress: hex,
+        senderPublicKey: hex,
+        senderKeyType: { type: 'string', enum: ['ed25519', 'secp256k1'] },
+        signature: hex,
+        timestamp: { type: 'integer', minimum: 0 },
+        nonce: { type: 'string', pattern: '^[0-9a-fA-F]{32,64}$' },
+        // 5-digit code as shown to users, or the full 32-byte route code
+        routeCode: { type: 'string', pattern: '^([0-9]{5}|(0x)?[0-9a-fA-F]{64})$' },
+        attachments: {
+            type: 'array',
+            maxItems: 20,
+            items: {
+                type: 'object',
+                required: ['hash', 'mimeType', 'size'],
+                properties: {
+                    hash: { type: 'string', pattern: '^[0-9a-f]{64}$' },
+                    mimeType,
+                    size: { type: 'integer', minimum: 1 },
+                    filename: { type: 'string', minLength: 1, maxLength: 255 }
+                },
+                additionalProperties: false
+            }
+        }
+    },
+    additionalProperties: false
+} as const;
+
+export const verifyBondSchema = {
+    type: 'object',
+    required: ['cardId', 'senderCommit', 'message'],
+    properties: {
+        cardId: id,
+        senderCommit: hex,
+        message: messagePayloadSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const forwardMessageSchema = {
+    type: 'object',
+    required: ['message', 'verification'],
+    properties: {
+        message: messagePayloadSchema,
+        verification: {
+            type: 'object',
+            required: ['verified', 'forwardingAttestation'],
+            properties: {
+                verified: { type: 'boolean', const: true },
+                bondId: hex,
+                forwardingAttestation: { type: 'string', minLength: 1, maxLength: 4096 }
+            },
+            additionalProperties: false
+        }
+    },
+    additionalProperties: false
+} as const;
+
+export const cardAdminProofSchema = {
+    type: 'object',
+    required: ['publicKey', 'keyType', 'signature'],
+    properties: {
+        publicKey: hex,
+        keyType: { type: 'string', enum: ['ed25519', 'secp256k1'] },
+        signature: hex
+    },
+    additionalProperties: false
+} as const;
+
+// Reads of a card's metadata, signed by the card admin for the moment of the request
+export const cardReadSchema = {
+    type: 'object',
+    required: ['adminProof', 'timestamp'],
+    properties: {
+        adminProof: cardAdminProofSchema,
+        timestamp: { type: 'integer', minimum: 0 }
+    },
+    additionalProperties: false
+} as const;
+
+export const attestAbuseSchema = {
+    type: 'object',
+    required: ['cardId', 'senderCommit', 'evidenceHash', 'attestor', 'attestorProof'],
+    properties: {
+        cardId: id,
+        senderCommit: hex,
+        evidenceHash: hex,
+        attestor: id,
+        challengeWindowHours: { type: 'number', minimum: 1, maximum: 720 },
+        attestorProof: cardAdminProofSchema,
+        reveal: {
+            type: 'object',
+            required: ['plaintext', 'salt'],
+            properties: {
+                plaintext: { type: 'string', maxLength: 65536 },
+                salt: hex32
+            },
+            additionalProperties: false
+        }
+    },
+    additionalProperties: false
+} as const;
+
+export const disputeAttestationSchema = {
+    type: 'object',
+    required: ['counterEvidenceHash', 'senderProof'],
+    properties: {
+        counterEvidenceHash: hex,
+        senderProof: {
+            type: 'object',
+            required: ['senderDid', 'salt'],
+            properties: {
+                senderDid: id,
+                salt: id
+            },
+            additionalProperties: false
+        }
+    },
+    additionalProperties: false
+} as const;
+
+export const resolveDisputeSchema = {
+    type: 'object',
+    required: ['decision', 'resolverProof'],
+    properties: {
+        decision: { type: 'string', enum: ['UPHOLD', 'DISMISS'] },
+        resolverProof: cardAdminProofSchema,
+        graceHours: { type: 'number', minimum: 0, maximum: 720 }
+    },
+    additionalProperties: false
+} as const;
+
+export const engagementSchema = {
+    type: 'object',
+    required: ['cardId', 'senderCommit', 'engagementType'],
+    properties: {
+        cardId: id,
+        senderCommit: hex,
+        engagementType: { type: 'string', enum: ['REPLY', 'ACCEPT', 'POSITIVE_FEEDBACK'] },
+        /** Proves the reply came from the recipient, which opens a conversation thread */
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const threadMessageSchema = {
+    type: 'object',
+    required: ['message'],
+    properties: {
+        message: messagePayloadSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const threadReplySchema = {
+    type: 'object',
+    required: ['content', 'nonce', 'timestamp', 'adminProof'],
+    properties: {
+        content: { type: 'string', maxLength: 65536 },
+        contentCommitment: hex32,
+        nonce: { type: 'string', pattern: '^[0-9a-fA-F]{32,64}$' },
+        timestamp: { type: 'integer', minimum: 0 },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const threadReadSchema = {
+    type: 'object',
+    required: ['timestamp', 'proof'],
+    properties: {
+        timestamp: { type: 'integer', minimum: 0 },
+        cursor: { type: 'string', minLength: 1, maxLength: 64 },
+        limit: { type: 'integer', minimum: 1, maximum: 200 },
+        /** Signed by the intro's sender key or the card admin */
+        proof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const threadCloseSchema = {
+    type: 'object',
+    required: ['adminProof'],
+    properties: {
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const senderCommitmentSchema = {
+    type: 'object',
+    required: ['cardId', 'senderDid', 'salt'],
+    properties: {
+        cardId: id,
+        senderDid: id,
+        salt: id
+    },
+    additionalProperties: false
+} as const;
+
+export const senderNullifierSchema = {
+    type: 'object',
+    required: ['cardId', 'walletSignature'],
+    properties: {
+        cardId: id,
+        // Wallet signature over `NoirCard-Nullifier-<cardId>`
+        walletSignature: { type: 'string', minLength: 1, maxLength: 1024 }
+    },
+    additionalProperties: false
+} as const;
+
+export const emailRegistrationSchema = {
+    type: 'object',
+    required: ['emailAddress', 'adminProof'],
+    properties: {
+        emailAddress: { type: 'string', minLength: 3, maxLength: 254, pattern: '^[^\\s@]+@[^\\s@]+$' },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const cardEncryptionKeySchema = {
+    type: 'object',
+    required: ['publicKey', 'adminProof'],
+    properties: {
+        publicKey: hex32,
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const cardRateQuotaSchema = {
+    type: 'object',
+    required: ['perCard', 'perSender', 'adminProof'],
+    properties: {
+        perCard: { type: 'integer', minimum: 1, maximum: 100000 },
+        perSender: { type: 'integer', minimum: 1, maximum: 10000 },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const quorumPolicySchema = {
+    type: 'object',
+    required: ['threshold', 'windowHours', 'adminProof'],
+    properties: {
+        threshold: { type: 'integer', minimum: 1, maximum: 16 },
+        windowHours: { type: 'integer', minimum: 1, maximum: 720 },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const attestationWithdrawalSchema = {
+    type: 'object',
+    required: ['attestorProof'],
+    properties: {
+        attestorProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+const termListSchema = {
+    type: 'array',
+    maxItems: 200,
+    items: { type: 'string', minLength: 1, maxLength: 200 }
+} as const;
+
+export const moderationPolicySchema = {
+    type: 'object',
+    required: ['policy', 'adminProof'],
+    properties: {
+        policy: {
+            type: 'object',
+            properties: {
+                rejectKeywords: termListSchema,
+                quarantineKeywords: termListSchema,
+                rejectPatterns: termListSchema,
+                quarantinePatterns: termListSchema,
+                links: { type: 'string', enum: ['ALLOW', 'QUARANTINE', 'REJECT'] },
+                allowedLinkDomains: termListSchema,
+                classifierQuarantineScore: { type: 'number', minimum: 0, maximum: 1 },
+                classifierRejectScore: { type: 'number', minimum: 0, maximum: 1 }
+            },
+            additionalProperties: false
+        },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const attachmentPolicySchema = {
+    type: 'object',
+    required: ['policy', 'adminProof'],
+    properties: {
+        policy: {
+            type: 'object',
+            properties: {
+                enabled: { type: 'boolean' },
+                maxBytes: { type: 'integer', minimum: 1 },
+                allowedMimeTypes: { type: 'array', items: mimeType, uniqueItems: true },
+                minBondAmount: { type: 'string', pattern: '^[1-9][0-9]*$' }
+            },
+            additionalProperties: false
+        },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+// Sent as JSON in the X-Sender-Proof header, since the upload body is the raw attachment
+export const attachmentUploadProofSchema = {
+    type: 'object',
+    required: ['publicKey', 'keyType', 'signature', 'nonce', 'timestamp'],
+    properties: {
+        ...cardAdminProofSchema.properties,
+        nonce: { type: 'string', pattern: '^[0-9a-fA-F]{32,64}$' },
+        timestamp: { type: 'integer', minimum: 0 }
+    },
+    additionalProperties: false
+} as const;
+
+export const attachmentDownloadSchema = {
+    type: 'object',
+    required: ['adminProof', 'timestamp'],
+    properties: {
+        adminProof: cardAdminProofSchema,
+        timestamp: { type: 'integer', minimum: 0 }
+    },
+    additionalProperties: false
+} as const;
+
+export const quarantineActionSchema = {
+    type: 'object',
+    required: ['adminProof'],
+    properties: {
+        adminProof: cardAdminProofSchema,
+        challengeWindowHours: { type: 'integer', minimum: 1, maximum: 168 }
+    },
+    additionalProperties: false
+} as const;
+
+export const spamReportSchema = {
+    type: 'object',
+    required: ['adminProof'],
+    properties: {
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const evidenceExportSchema = {
+    type: 'object',
+    required: ['requester'],
+    properties: {
+        requester: {
+            type: 'object',
+            required: ['publicKey', 'keyType', 'signature', 'encryptionPublicKey'],
+            properties: {
+                ...cardAdminProofSchema.properties,
+                encryptionPublicKey: hex32
+            },
+            additionalProperties: false
+        }
+    },
+    additionalProperties: false
+} as const;
+
+export const mailboxPullSchema = {
+    type: 'object',
+    required: ['adminProof', 'timestamp'],
+    properties: {
+        adminProof: cardAdminProofSchema,
+        timestamp: { type: 'integer', minimum: 0 },
+        cursor: { type: 'string', minLength: 1, maxLength: 64 },
+        limit: { type: 'integer', minimum: 1, maximum: 100 }
+    },
+    additionalProperties: false
+} as const;
+
+export const mailboxActionSchema = {
+    type: 'object',
+    required: ['adminProof'],
+    properties: {
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const cardErasureSchema = {
+    type: 'object',
+    required: ['adminProof'],
+    properties: {
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
+
+export const senderErasureSchema = {
+    type: 'object',
+    required: ['cardId', 'senderProof'],
+    properties: {
+        cardId: id,
+        senderProof: disputeAttestationSchema.properties.senderProof
+    },
+    additionalProperties: false
+} as const;
+
+export const emailActionSchema = {
+    type: 'object',
+    required: ['token'],
+    properties: {
+        token: { type: 'string', minLength: 1, maxLength: 2048 }
+    }
+} as const;
+
+export const pushSubscriptionSchema = {
+    type: 'object',
+    required: ['subscription', 'adminProof'],
+    properties: {
+        subscription: {
+            type: 'object',
+            required: ['endpoint', 'keys'],
+            properties: {
+                endpoint: { type: 'string', pattern: '^https://', maxLength: 2048 },
+                expirationTime: { type: ['number', 'null'] },
+                keys: {
+                    type: 'object',
+                    required: ['p256dh', 'auth'],
+                    properties: {
+                        p256dh: { type: 'string', minLength: 1, maxLength: 256 },
+                        auth: { type: 'string', minLength: 1, maxLength: 64 }
+                    },
+                    additionalProperties: false
+                }
+            },
+            additionalProperties: false
+        },
+        adminProof: cardAdminProofSchema
+    },
+    additionalProperties: false
+} as const;
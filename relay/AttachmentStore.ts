@@ -0,0 +1,328 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import winston from 'winston';
+
+import { EncryptedEnvelope, EvidenceKeyring } from './EvidenceKeyring';
+import { RelayStore } from './storage';
+
+/**
+ * Attachment Store - content-addressed, encrypted blobs referenced by messages
+ *
+ * Senders upload an image, PDF or vCard for a card they hold a bond with and
+ * get back its SHA-256; messages reference blobs by that hash, and the hash
+ * list is covered by the message signature, the evidence record and both
+ * receipts. The same bytes uploaded twice are stored once. Blobs are sealed
+ * with the evidence keyring and written to a local directory, while their
+ * metadata lives in the relay store with the retention lifetime; files whose
+ * metadata has lapsed are pruned by the hourly cleanup.
+ *
+ * Each card has an attachment policy: whether it accepts attachments, the
+ * largest size and which MIME types, and optionally the smallest bond that
+ * may carry them. A card can only download blobs delivered to it.
+ */
+
+export type AttachmentKind = 'image' | 'pdf' | 'vcard';
+
+/** MIME types the relay accepts at all; cards may narrow the list */
+export const ATTACHMENT_MIME_TYPES: Record<string, AttachmentKind> = {
+    'image/png': 'image',
+    'image/jpeg': 'image',
+    'image/gif': 'image',
+    'image/webp': 'image',
+    'application/pdf': 'pdf',
+    'text/vcard': 'vcard'
+};
+
+export interface AttachmentRef {
+    /** SHA-256 of the uploaded bytes, hex */
+    hash: string;
+    mimeType: string;
+    size: number;
+    filename?: string;
+}
+
+export interface StoredAttachment {
+    hash: string;
+    mimeType: string;
+    size: number;
+    storedAt: number;
+}
+
+export interface CardAttachmentPolicy {
+    enabled: boolean;
+    maxBytes: number;
+    allowedMimeTypes: string[];
+    /** Smallest bond amount (base units) whose messages may carry attachments */
+    minBondAmount?: string;
+}
+
+export type AttachmentRejection =
+    | 'ATTACHMENTS_DISABLED'
+    | 'TOO_MANY_ATTACHMENTS'
+    | 'ATTACHMENT_TOO_LARGE'
+    | 'ATTACHMENT_TYPE_NOT_ALLOWED'
+    | 'ATTACHMENT_CONTENT_MISMATCH'
+    | 'ATTACHMENT_NOT_FOUND'
+    | 'ATTACHMENT_MISMATCH';
+
+export interface AttachmentUpload {
+    attachment?: StoredAttachment;
+    reason?: AttachmentRejection;
+}
+
+export interface AttachmentStoreOptions {
+    directory?: string;
+    /** Largest blob accepted for any card */
+    maxBytes?: number;
+    maxPerMessage?: number;
+    /** How long a blob is kept after its last upload or delivery */
+    retentionSeconds?: number;
+    /** Policy for cards that have not set one */
+    defaultPolicy?: CardAttachmentPolicy;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export class AttachmentStore {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private keyring: EvidenceKeyring;
+    private readonly directory: string;
+    private readonly maxBytes: number;
+    private readonly maxPerMessage: number;
+    private readonly retentionSeconds: number;
+    private readonly defaultPolicy: CardAttachmentPolicy;
+
+    constructor(store: RelayStore, logger: winston.Logger, keyring: EvidenceKeyring, options: AttachmentStoreOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.keyring = keyring;
+        this.directory = options.directory || './data/attachments';
+        this.maxBytes = options.maxBytes || 10 * 1024 * 1024;
+        this.maxPerMessage = options.maxPerMessage || 5;
+        this.retentionSeconds = options.retentionSeconds || 30 * 24 * 3600;
+        this.defaultPolicy = options.defaultPolicy || {
+            enabled: true,
+            maxBytes: 5 * 1024 * 1024,
+            allowedMimeTypes: Object.keys(ATTACHMENT_MIME_TYPES)
+        };
+    }
+
+    async getPolicy(cardId: string): Promise<CardAttachmentPolicy> {
+        const stored = await this.store.get(`attachment_policy:${cardId}`);
+        const policy = stored ? { ...this.defaultPolicy, ...JSON.parse(stored) } : { ...this.defaultPolicy };
+        return { ...policy, maxBytes: Math.min(policy.maxBytes, this.maxBytes) };
+    }
+
+    async setPolicy(cardId: string, policy: Partial<CardAttachmentPolicy>): Promise<void> {
+        await this.store.set(`attachment_policy:${cardId}`, JSON.stringify(policy));
+    }
+
+    /**
+     * Store a blob for a card under the card's policy; the declared type must match the bytes
+     */
+    async put(cardId: string, mimeType: string, data: Buffer): Promise<AttachmentUpload> {
+        const policy = await this.getPolicy(cardId);
+        const rejection = this.checkPolicy(policy, mimeType, data.length);
+        if (rejection) {
+            return { reason: rejection };
+        }
+        if (sniffAttachmentKind(data) !== ATTACHMENT_MIME_TYPES[mimeType]) {
+            return { reason: 'ATTACHMENT_CONTENT_MISMATCH' };
+        }
+
+        const hash = createHash('sha256').update(data).digest('hex');
+        const existing = await this.getMeta(hash);
+        if (existing) {
+            if (existing.mimeType !== mimeType) {
+                return { reason: 'ATTACHMENT_MISMATCH' };
+            }
+            await this.store.expire(this.metaKey(hash), this.retentionSeconds);
+            return { attachment: existing };
+        }
+
+        const path = this.blobPath(hash);
+        await mkdir(join(this.directory, hash.substring(0, 2)), { recursive: true });
+        await writeFile(`${path}.tmp`, JSON.stringify(this.keyring.seal(data, this.context(hash))));
+
+        // Metadata goes first so a concurrent prune never sees the finished blob without it
+        const attachment: StoredAttachment = { hash, mimeType, size: data.length, storedAt: Date.now() };
+        await this.store.set(this.metaKey(hash), JSON.stringify(attachment), this.retentionSeconds);
+        await rename(`${path}.tmp`, path);
+
+        this.logger.info('Attachment stored', { cardId, hash, mimeType, size: data.length });
+        return { attachment };
+    }
+
+    /**
+     * Reason a message's attachment list is unacceptable for the card, or null
+     */
+    async check(cardId: string, refs: AttachmentRef[]): Promise<AttachmentRejection | null> {
+        if (refs.length > this.maxPerMessage) {
+            return 'TOO_MANY_ATTACHMENTS';
+        }
+
+        const policy = await this.getPolicy(cardId);
+        for (const ref of refs) {
+            const rejection = this.checkPolicy(policy, ref.mimeType, ref.size);
+            if (rejection) {
+                return rejection;
+            }
+
+            const stored = await this.getMeta(ref.hash);
+            if (!stored) {
+                return 'ATTACHMENT_NOT_FOUND';
+            }
+            if (stored.mimeType !== ref.mimeType || stored.size !== ref.size) {
+                return 'ATTACHMENT_MISMATCH';
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Let a card download the blobs of a message delivered to it, and keep them for the retention period
+     */
+    async grant(cardId: string, refs: AttachmentRef[]): Promise<void> {
+        for (const ref of refs) {
+            await this.store.set(this.accessKey(cardId, ref.hash), String(Date.now()), this.retentionSeconds);
+            await this.store.expire(this.metaKey(ref.hash), this.retentionSeconds);
+        }
+    }
+
+    /**
+     * Blob contents for a card it was delivered to, or null
+     */
+    async read(cardId: string, hash: string): Promise<{ attachment: StoredAttachment; data: Buffer } | null> {
+        if (!HASH_PATTERN.test(hash) || !await this.store.get(this.accessKey(cardId, hash))) {
+            return null;
+        }
+        const attachment = await this.getMeta(hash);
+        if (!attachment) {
+            return null;
+        }
+
+        try {
+            const envelope = JSON.parse(await readFile(this.blobPath(hash), 'utf8')) as EncryptedEnvelope;
+            return { attachment, data: this.keyring.open(envelope, this.context(hash)) };
+        } catch (error) {
+            this.logger.error('Attachment blob unreadable', { hash, error: (error as Error).message });
+            return null;
+        }
+    }
+
+    /**
+     * Delete blob files whose metadata has expired; returns how many were removed
+     */
+    async prune(): Promise<number> {
+        let removed = 0;
+        let shards: string[];
+        try {
+            shards = await readdir(this.directory);
+        } catch {
+            return 0;
+        }
+
+        for (const shard of shards) {
+            for (const name of await readdir(join(this.directory, shard)).catch(() => [] as string[])) {
+                // In-flight uploads are still being written
+                if (name.endsWith('.tmp') || (HASH_PATTERN.test(name) && await this.getMeta(name))) {
+                    continue;
+                }
+                await unlink(join(this.directory, shard, name)).catch(() => undefined);
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            this.logger.info('Pruned expired attachment blobs', { removed });
+        }
+        return removed;
+    }
+
+    /**
+     * Re-wrap blob data keys under the keyring's active master key after rotation
+     */
+    async rewrap(): Promise<{ rewrapped: number; failed: number }> {
+        let rewrapped = 0;
+        let failed = 0;
+        const shards = await readdir(this.directory).catch(() => [] as string[]);
+
+        for (const shard of shards) {
+            for (const name of await readdir(join(this.directory, shard)).catch(() => [] as string[])) {
+                if (!HASH_PATTERN.test(name)) {
+                    continue;
+                }
+                const path = join(this.directory, shard, name);
+                try {
+                    const updated = this.keyring.rewrap(JSON.parse(await readFile(path, 'utf8')) as EncryptedEnvelope);
+                    if (updated) {
+                        // Written aside and renamed so a reader never sees a partial blob
+                        await writeFile(`${path}.rewrap.tmp`, JSON.stringify(updated));
+                        await rename(`${path}.rewrap.tmp`, path);
+                        rewrapped++;
+                    }
+                } catch (error) {
+                    failed++;
+                    this.logger.error('Attachment re-wrap failed', { hash: name, error: (error as Error).message });
+                }
+            }
+        }
+        return { rewrapped, failed };
+    }
+
+    private checkPolicy(policy: CardAttachmentPolicy, mimeType: string, size: number): AttachmentRejection | null {
+        if (!policy.enabled) {
+            return 'ATTACHMENTS_DISABLED';
+        }
+        if (!ATTACHMENT_MIME_TYPES[mimeType] || !policy.allowedMimeTypes.includes(mimeType)) {
+            return 'ATTACHMENT_TYPE_NOT_ALLOWED';
+        }
+        if (size > policy.maxBytes) {
+            return 'ATTACHMENT_TOO_LARGE';
+        }
+        return null;
+    }
+
+    private async getMeta(hash: string): Promise<StoredAttachment | null> {
+        const stored = await this.store.get(this.metaKey(hash));
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    private blobPath(hash: string): string {
+        return join(this.directory, hash.substring(0, 2), hash);
+    }
+
+    private context(hash: string): string {
+        return `attachment:${hash}`;
+    }
+
+    private metaKey(hash: string): string {
+        return `attachment:${hash}`;
+    }
+
+    private accessKey(cardId: string, hash: string): string {
+        return `attachment_access:${cardId}:${hash}`;
+    }
+}
+
+/**
+ * Kind of file the bytes start like, so a declared MIME type cannot smuggle other content
+ */
+export function sniffAttachmentKind(data: Buffer): AttachmentKind | null {
+    const ascii = data.subarray(0, 16).toString('latin1');
+    if (data.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex'))
+        || data.subarray(0, 3).equals(Buffer.from('ffd8ff', 'hex'))
+        || ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')
+        || (ascii.startsWith('RIFF') && ascii.substring(8, 12) === 'WEBP')) {
+        return 'image';
+    }
+    if (ascii.startsWith('%PDF-')) {
+        return 'pdf';
+    }
+    if (/^\uFEFF?\s*BEGIN:VCARD/i.test(data.subarray(0, 64).toString('utf8'))) {
+        return 'vcard';
+    }
+    return null;
+}
@@ -0,0 +1,233 @@
+import winston from 'winston';
+
+import { RelayStore } from './storage';
+
+/**
+ * Attestation Quorum - M-of-N guardian agreement before a bond is slashed
+ *
+ * Votes are collected per (cardId, evidenceHash) in a round that opens with
+ * the first vote and closes after the card's window. Each distinct attestor
+ * (admin or guardian address) counts once, however often it votes, so a
+ * single compromised key can never reach a threshold above one on its own.
+ * Attestors may withdraw until the threshold is met; a withdrawal is final
+ * for the round, so a captured attestation proof cannot re-add the vote.
+ *
+ * Reaching the threshold is claimed with setIfAbsent, so exactly one vote
+ * (across relay instances) sees REACHED and queues the slash. The claim
+ * outlives the round, so the same evidence cannot be slashed twice by
+ * opening a new round after the window.
+ */
+
+export interface QuorumPolicy {
+    /** Distinct attestors needed (M) */
+    threshold: number;
+    /** Hours from the first vote in which the threshold must be met */
+    windowHours: number;
+}
+
+export interface QuorumRound {
+    cardId: string;
+    senderCommit: string;
+    evidenceHash: string;
+    bondId: string;
+}
+
+export interface QuorumStatus extends QuorumRound {
+    state: 'PENDING' | 'REACHED';
+    threshold: number;
+    /** Attestors whose votes stand, in voting order */
+    attestors: string[];
+    openedAt: number;
+    windowEndsAt: number;
+    reachedAt?: number;
+}
+
+export type QuorumVoteOutcome = 'PENDING' | 'REACHED' | 'ALREADY_REACHED' | 'VOTE_WITHDRAWN' | 'SENDER_MISMATCH';
+
+export interface QuorumVote {
+    outcome: QuorumVoteOutcome;
+    status: QuorumStatus;
+}
+
+export type QuorumWithdrawalOutcome = 'WITHDRAWN' | 'ROUND_NOT_FOUND' | 'NOT_ATTESTED' | 'QUORUM_REACHED';
+
+export interface AttestationQuorumOptions {
+    /** Policy for cards that have not set one; a threshold of 1 slashes on the first attestation */
+    defaultPolicy?: QuorumPolicy;
+    /** How long a reached quorum is remembered */
+    reachedTtlSeconds?: number;
+}
+
+interface RoundMeta {
+    senderCommit: string;
+    bondId: string;
+    threshold: number;
+    openedAt: number;
+    windowEndsAt: number;
+}
+
+interface ReachedClaim {
+    reachedAt: number;
+    attestors: string[];
+}
+
+const WITHDRAWN = 'withdrawn:';
+
+export class AttestationQuorum {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private readonly defaultPolicy: QuorumPolicy;
+    private readonly reachedTtlSeconds: number;
+
+    constructor(store: RelayStore, logger: winston.Logger, options: AttestationQuorumOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.defaultPolicy = options.defaultPolicy || { threshold: 1, windowHours: 72 };
+        this.reachedTtlSeconds = options.reachedTtlSeconds ?? 30 * 24 * 3600;
+    }
+
+    async getPolicy(cardId: string): Promise<QuorumPolicy> {
+        const stored = await this.store.get(this.policyKey(cardId));
+        return stored ? JSON.parse(stored) : { ...this.defaultPolicy };
+    }
+
+    async setPolicy(cardId: string, policy: QuorumPolicy): Promise<void> {
+        await this.store.set(this.policyKey(cardId), JSON.stringify({ threshold: policy.threshold, windowHours: policy.windowHours }));
+    }
+
+    /**
+     * Count an attestor's vote, opening a round under the card's current policy if none is open
+     */
+    async vote(round: QuorumRound, attestor: string): Promise<QuorumVote> {
+        const { cardId, evidenceHash } = round;
+        const voter = voterId(attestor);
+        const now = Date.now();
+
+        const reached = await this.getStatus(cardId, evidenceHash);
+        if (reached?.state === 'REACHED') {
+            return { outcome: 'ALREADY_REACHED', status: reached };
+        }
+
+        const policy = await this.getPolicy(cardId);
+        const opened: RoundMeta = {
+            senderCommit: round.senderCommit,
+            bondId: round.bondId,
+            threshold: policy.threshold,
+            openedAt: now,
+            windowEndsAt: now + policy.windowHours * 3600 * 1000
+        };
+        const windowSeconds = policy.windowHours * 3600;
+        const meta = await this.store.setIfAbsent(this.roundKey(cardId, evidenceHash), JSON.stringify(opened), windowSeconds)
+            ? opened
+            : await this.readMeta(cardId, evidenceHash) || opened;
+
+        if (meta.senderCommit !== round.senderCommit) {
+            return { outcome: 'SENDER_MISMATCH', status: await this.statusOf(cardId, evidenceHash, meta) };
+        }
+
+        const votesKey = this.votesKey(cardId, evidenceHash);
+        const previous = await this.store.hashGet(votesKey, voter);
+        if (previous?.startsWith(WITHDRAWN)) {
+            return { outcome: 'VOTE_WITHDRAWN', status: await this.statusOf(cardId, evidenceHash, meta) };
+        }
+        if (!previous) {
+            await this.store.hashSet(votesKey, { [voter]: String(now) });
+            await this.store.expire(votesKey, Math.max(1, Math.ceil((meta.windowEndsAt - now) / 1000)));
+        }
+
+        const status = await this.statusOf(cardId, evidenceHash, meta);
+        if (status.attestors.length < meta.threshold) {
+            this.logger.info('Attestation recorded pending quorum', {
+                cardId,
+                evidenceHash,
+                attestations: status.attestors.length,
+                threshold: meta.threshold
+            });
+            return { outcome: 'PENDING', status };
+        }
+
+        const claim: ReachedClaim = { reachedAt: now, attestors: status.attestors };
+        if (!await this.store.setIfAbsent(this.reachedKey(cardId, evidenceHash), JSON.stringify(claim), this.reachedTtlSeconds)) {
+            return { outcome: 'ALREADY_REACHED', status: (await this.getStatus(cardId, evidenceHash))! };
+        }
+        await this.store.expire(this.roundKey(cardId, evidenceHash), this.reachedTtlSeconds);
+        await this.store.expire(votesKey, this.reachedTtlSeconds);
+
+        this.logger.info('Attestation quorum reached', { cardId, evidenceHash, attestors: status.attestors.length });
+        return { outcome: 'REACHED', status: { ...status, state: 'REACHED', reachedAt: now } };
+    }
+
+    /**
+     * Take back a vote while the round is still short of its threshold
+     */
+    async withdraw(cardId: string, evidenceHash: string, attestor: string): Promise<QuorumWithdrawalOutcome> {
+        if (await this.store.get(this.reachedKey(cardId, evidenceHash))) {
+            return 'QUORUM_REACHED';
+        }
+        if (!await this.readMeta(cardId, evidenceHash)) {
+            return 'ROUND_NOT_FOUND';
+        }
+
+        const voter = voterId(attestor);
+        const votesKey = this.votesKey(cardId, evidenceHash);
+        const previous = await this.store.hashGet(votesKey, voter);
+        if (!previous || previous.startsWith(WITHDRAWN)) {
+            return 'NOT_ATTESTED';
+        }
+
+        await this.store.hashSet(votesKey, { [voter]: `${WITHDRAWN}${Date.now()}` });
+        this.logger.info('Attestation withdrawn', { cardId, evidenceHash });
+        return 'WITHDRAWN';
+    }
+
+    async getStatus(cardId: string, evidenceHash: string): Promise<QuorumStatus | null> {
+        const meta = await this.readMeta(cardId, evidenceHash);
+        return meta ? await this.statusOf(cardId, evidenceHash, meta) : null;
+    }
+
+    private async statusOf(cardId: string, evidenceHash: string, meta: RoundMeta): Promise<QuorumStatus> {
+        const { senderCommit, bondId, threshold, openedAt, windowEndsAt } = meta;
+        const round = { cardId, senderCommit, evidenceHash, bondId, threshold, openedAt, windowEndsAt };
+
+        const stored = await this.store.get(this.reachedKey(cardId, evidenceHash));
+        if (stored) {
+            const claim = JSON.parse(stored) as ReachedClaim;
+            return { ...round, state: 'REACHED', attestors: claim.attestors, reachedAt: claim.reachedAt };
+        }
+
+        const votes = await this.store.hashGetAll(this.votesKey(cardId, evidenceHash));
+        const attestors = Object.entries(votes)
+            .filter(([, value]) => !value.startsWith(WITHDRAWN))
+            .sort(([, a], [, b]) => Number(a) - Number(b))
+            .map(([voter]) => voter);
+        return { ...round, state: 'PENDING', attestors };
+    }
+
+    private async readMeta(cardId: string, evidenceHash: string): Promise<RoundMeta | null> {
+        const stored = await this.store.get(this.roundKey(cardId, evidenceHash));
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    private policyKey(cardId: string): string {
+        return `quorum_policy:${cardId}`;
+    }
+
+    private roundKey(cardId: string, evidenceHash: string): string {
+        return `attestation_quorum:${cardId}:${evidenceHash}`;
+    }
+
+    private votesKey(cardId: string, evidenceHash: string): string {
+        return `attestation_votes:${cardId}:${evidenceHash}`;
+    }
+
+    private reachedKey(cardId: string, evidenceHash: string): string {
+        return `attestation_quorum_reached:${cardId}:${evidenceHash}`;
+    }
+}
+
+/**
+ * Addresses are compared without 0x and case, so one key cannot vote twice under two spellings
+ */
+function voterId(attestor: string): string {
+    return attestor.replace(/^0x/i, '').toLowerCase();
+}
@@ -0,0 +1,434 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import winston from 'winston';
+
+import { canonicalize, ReceiptSigner, verifyReceipt } from './RelayReceipts';
+import { RelayStore } from './storage';
+
+/**
+ * Audit Log - hash-chained, append-only record of relay decisions
+ *
+ * Each entry commits to the hash of the one before it, so editing, removing
+ * or reordering any entry breaks every later link. Periodic checkpoints sign
+ * the Merkle root of the entries since the previous checkpoint together with
+ * the head hash; once a checkpoint has been fetched by a third party, even a
+ * rewrite of the whole chain is detectable. `verifyAuditLog` checks entries
+ * and checkpoints with nothing but the relay's receipt public keys.
+ *
+ * Entries hold hashes and outcome codes only, never message content. Card
+ * and sender identifiers are recorded as keyed hashes under a random key per
+ * subject; erasing a subject deletes its key, so its entries can no longer
+ * be linked to it while the chain stays intact. Entries and subject keys
+ * expire after the retention period, oldest first; checkpoints name no one
+ * and are kept. Appends are optimistic: an entry claims its sequence number
+ * with setIfAbsent, so relay instances sharing a store extend a single chain.
+ */
+
+export type AuditEventType =
+    | 'VERIFICATION'
+    | 'FORWARD'
+    | 'ATTESTATION'
+    | 'DISPUTE'
+    | 'DISPUTE_RESOLUTION'
+    | 'SLASH'
+    | 'REFUND'
+    | 'THREAD'
+    | 'SPAM_REPORT'
+    | 'ERASURE';
+
+export type AuditData = Record<string, string | number | boolean | null>;
+
+export interface AuditEntry {
+    /** Starts at 1 and increases by one per entry */
+    seq: number;
+    timestamp: number;
+    type: AuditEventType;
+    data: AuditData;
+    prevHash: string;
+    hash: string;
+}
+
+export interface AuditCheckpoint {
+    fromSeq: number;
+    toSeq: number;
+    /** Merkle root over the hashes of entries fromSeq..toSeq */
+    merkleRoot: string;
+    /** Hash of entry toSeq */
+    headHash: string;
+    publishedAt: number;
+    /** 'audit-checkpoint' receipt whose claims are the fields above */
+    receipt: string;
+}
+
+export type AuditProblemReason = 'GAP' | 'EDITED_ENTRY' | 'BROKEN_CHAIN' | 'CHECKPOINT_MISMATCH' | 'INVALID_CHECKPOINT';
+
+export interface AuditProblem {
+    seq: number;
+    reason: AuditProblemReason;
+}
+
+export interface AuditVerification {
+    valid: boolean;
+    problems: AuditProblem[];
+    /** Highest sequence number covered by a valid checkpoint */
+    checkpointedThrough: number;
+}
+
+export interface AuditLogOptions {
+    /** Keys the store lookup of each subject's key, so the lookup does not name the subject either */
+    subjectLookupKey: Buffer;
+    /** How long entries are kept; unset keeps them */
+    retentionSeconds?: number;
+}
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+const ENTRY_CONTEXT = 'selectconnect:audit:v1\n';
+const HEAD_KEY = 'audit_head';
+const CHECKPOINT_HEAD_KEY = 'audit_checkpoint_head';
+// Identifier fields and the fields their keyed hashes are recorded under
+const SUBJECT_FIELDS: [string, string][] = [['cardId', 'cardHash'], ['senderCommit', 'senderHash']];
+
+/**
+ * Hash of an entry's content and its link to the previous entry
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+    const { seq, timestamp, type, data, prevHash } = entry;
+    return createHash('sha256')
+        .update(ENTRY_CONTEXT)
+        .update(canonicalize({ seq, timestamp, type, data, prevHash }))
+        .digest('hex');
+}
+
+/**
+ * Merkle root over entry hashes; leaves and nodes are domain-separated and an odd node is carried up unpaired
+ */
+export function auditMerkleRoot(entryHashes: string[]): string {
+    if (entryHashes.length === 0) {
+        return AUDIT_GENESIS_HASH;
+    }
+
+    let level = entryHashes.map(hash => sha256(Buffer.from([0]), Buffer.from(hash, 'hex')));
+    while (level.length > 1) {
+        const next: Buffer[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? sha256(Buffer.from([1]), level[i], level[i + 1]) : level[i]);
+        }
+        level = next;
+    }
+    return level[0].toString('hex');
+}
+
+/**
+ * Check a run of entries (ascending) and the checkpoints covering them
+ */
+export function verifyAuditLog(
+    entries: AuditEntry[],
+    checkpoints: AuditCheckpoint[],
+    relayPublicKeys: Record<string, string>
+): AuditVerification {
+    const problems: AuditProblem[] = [];
+    // Recomputed hashes, so an edit is caught by the checkpoint even if the stored hash was left alone
+    const hashes = new Map<number, string>();
+
+    entries.forEach((entry, i) => {
+        const previous = entries[i - 1];
+        if (previous && entry.seq !== previous.seq + 1) {
+            problems.push({ seq: previous.seq + 1, reason: 'GAP' });
+        }
+        const hash = hashAuditEntry(entry);
+        if (hash !== entry.hash) {
+            problems.push({ seq: entry.seq, reason: 'EDITED_ENTRY' });
+        }
+
+        const expectedPrev = previous?.seq === entry.seq - 1
+            ? previous.hash
+            : entry.seq === 1 ? AUDIT_GENESIS_HASH : undefined;
+        if (expectedPrev !== undefined && entry.prevHash !== expectedPrev) {
+            problems.push({ seq: entry.seq, reason: 'BROKEN_CHAIN' });
+        }
+        hashes.set(entry.seq, hash);
+    });
+
+    let checkpointedThrough = 0;
+    checkpoints.forEach((checkpoint, i) => {
+        const previous = checkpoints[i - 1];
+        if (previous && checkpoint.fromSeq !== previous.toSeq + 1) {
+            problems.push({ seq: previous.toSeq + 1, reason: 'GAP' });
+        }
+
+        const verification = verifyReceipt(checkpoint.receipt, relayPublicKeys);
+        const { receipt: _receipt, ...fields } = checkpoint;
+        if (!verification.valid
+            || verification.receipt!.type !== 'audit-checkpoint'
+            || canonicalize(verification.receipt!.claims) !== canonicalize(fields)) {
+            problems.push({ seq: checkpoint.fromSeq, reason: 'INVALID_CHECKPOINT' });
+            return;
+        }
+
+        const covered: string[] = [];
+        let missing: number | undefined;
+        for (let seq = checkpoint.fromSeq; seq <= checkpoint.toSeq; seq++) {
+            const hash = hashes.get(seq);
+            if (hash) {
+                covered.push(hash);
+            } else if (missing === undefined) {
+                missing = seq;
+            }
+        }
+        if (covered.length === 0) {
+            // Range not supplied; nothing to compare it with
+            return;
+        }
+        if (missing !== undefined) {
+            problems.push({ seq: missing, reason: 'GAP' });
+            return;
+        }
+
+        if (auditMerkleRoot(covered) !== checkpoint.merkleRoot || covered[covered.length - 1] !== checkpoint.headHash) {
+            problems.push({ seq: checkpoint.fromSeq, reason: 'CHECKPOINT_MISMATCH' });
+            return;
+        }
+        checkpointedThrough = Math.max(checkpointedThrough, checkpoint.toSeq);
+    });
+
+    return { valid: problems.length === 0, problems, checkpointedThrough };
+}
+
+interface ChainHead {
+    seq: number;
+    hash: string;
+}
+
+export class AuditLog {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private receiptSigner: ReceiptSigner;
+    private subjectLookupKey: Buffer;
+    private retentionSeconds?: number;
+    // Appends from this process run one at a time; other instances are handled by setIfAbsent
+    private tail: Promise<unknown> = Promise.resolve();
+    private readonly MAX_APPEND_ATTEMPTS = 10;
+
+    constructor(store: RelayStore, logger: winston.Logger, receiptSigner: ReceiptSigner, options: AuditLogOptions) {
+        this.store = store;
+        this.logger = logger;
+        this.receiptSigner = receiptSigner;
+        this.subjectLookupKey = options.subjectLookupKey;
+        this.retentionSeconds = options.retentionSeconds;
+    }
+
+    /**
+     * Apply a reloaded retention period to entries appended from now on
+     */
+    configure(retentionSeconds?: number): void {
+        this.retentionSeconds = retentionSeconds;
+    }
+
+    /**
+     * Append a decision; failures are logged rather than failing the decision itself
+     * cardId and senderCommit fields are recorded as cardHash and senderHash
+     */
+    async record(type: AuditEventType, data: AuditData): Promise<AuditEntry | null> {
+        const append = this.tail.then(async () => this.append(type, await this.pseudonymize(data)));
+        this.tail = append.catch(() => undefined);
+
+        try {
+            return await append;
+        } catch (error) {
+            this.logger.error('Audit log append failed', { type, error: (error as Error).message });
+            return null;
+        }
+    }
+
+    async getEntry(seq: number): Promise<AuditEntry | null> {
+        const stored = await this.store.get(this.entryKey(seq));
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    /**
+     * Consecutive entries starting at fromSeq, or at the oldest one still kept
+     */
+    async getEntries(fromSeq: number, limit: number): Promise<AuditEntry[]> {
+        const entries: AuditEntry[] = [];
+        for (let seq = await this.firstRetained(Math.max(1, fromSeq)); entries.length < limit; seq++) {
+            const entry = await this.getEntry(seq);
+            if (!entry) {
+                break;
+            }
+            entries.push(entry);
+        }
+        return entries;
+    }
+
+    /**
+     * Keyed hash a subject's entries record it under; stable until the subject is forgotten
+     */
+    async subjectHash(identifier: string): Promise<string> {
+        const lookup = this.subjectKey(identifier);
+        await this.store.setIfAbsent(lookup, randomBytes(32).toString('hex'));
+        if (this.retentionSeconds) {
+            // Outlives the newest entry that names the subject
+            await this.store.expire(lookup, this.retentionSeconds);
+        }
+        const key = (await this.store.get(lookup))!;
+        return createHmac('sha256', Buffer.from(key, 'hex')).update(identifier).digest('hex');
+    }
+
+    /**
+     * Delete a subject's key, after which its entries cannot be linked to it
+     */
+    async forget(identifier: string): Promise<void> {
+        await this.store.delete(this.subjectKey(identifier));
+    }
+
+    /**
+     * Sign the Merkle root of entries appended since the last checkpoint; null when there are none
+     */
+    async publishCheckpoint(): Promise<AuditCheckpoint | null> {
+        const last = await this.latestCheckpoint();
+        const fromSeq = last ? last.toSeq + 1 : 1;
+        const head = await this.readHead();
+        if (head.seq < fromSeq) {
+            return null;
+        }
+
+        const entries = await this.getEntries(fromSeq, head.seq - fromSeq + 1);
+        if (entries.length === 0 || entries[0].seq !== fromSeq) {
+            // The range expired before it was checkpointed; the next checkpoint cannot follow on from it
+            this.logger.warn('Audit entries expired before their checkpoint', { fromSeq });
+            return null;
+        }
+        const fields = {
+            fromSeq,
+            toSeq: entries[entries.length - 1].seq,
+            merkleRoot: auditMerkleRoot(entries.map(entry => entry.hash)),
+            headHash: entries[entries.length - 1].hash,
+            publishedAt: Date.now()
+        };
+        const checkpoint: AuditCheckpoint = { ...fields, receipt: this.receiptSigner.sign('audit-checkpoint', fields) };
+
+        // Another instance may have checkpointed the same range first
+        if (!await this.store.setIfAbsent(this.checkpointKey(fromSeq), JSON.stringify(checkpoint))) {
+            return null;
+        }
+        await this.store.set(CHECKPOINT_HEAD_KEY, String(fromSeq));
+
+        this.logger.info('Audit checkpoint published', { fromSeq, toSeq: fields.toSeq, merkleRoot: fields.merkleRoot });
+        return checkpoint;
+    }
+
+    /**
+     * Consecutive checkpoints, starting with the one that begins at fromSeq
+     */
+    async getCheckpoints(fromSeq: number, limit: number): Promise<AuditCheckpoint[]> {
+        const checkpoints: AuditCheckpoint[] = [];
+        let next = Math.max(1, fromSeq);
+        while (checkpoints.length < limit) {
+            const checkpoint = await this.getCheckpoint(next);
+            if (!checkpoint) {
+                break;
+            }
+            checkpoints.push(checkpoint);
+            next = checkpoint.toSeq + 1;
+        }
+        return checkpoints;
+    }
+
+    private async append(type: AuditEventType, data: AuditData): Promise<AuditEntry> {
+        for (let attempt = 0; attempt < this.MAX_APPEND_ATTEMPTS; attempt++) {
+            const head = await this.readHead();
+            const unsealed = { seq: head.seq + 1, timestamp: Date.now(), type, data, prevHash: head.hash };
+            const entry: AuditEntry = { ...unsealed, hash: hashAuditEntry(unsealed) };
+
+            if (await this.store.setIfAbsent(this.entryKey(entry.seq), JSON.stringify(entry), this.retentionSeconds)) {
+                await this.store.set(HEAD_KEY, JSON.stringify({ seq: entry.seq, hash: entry.hash }));
+                return entry;
+            }
+        }
+        throw new Error('Audit log head kept moving');
+    }
+
+    /**
+     * Last entry of the chain; the stored head can lag behind appends by other instances
+     */
+    private async readHead(): Promise<ChainHead> {
+        const stored = await this.store.get(HEAD_KEY);
+        let head: ChainHead = stored ? JSON.parse(stored) : { seq: 0, hash: AUDIT_GENESIS_HASH };
+
+        for (;;) {
+            const next = await this.getEntry(head.seq + 1);
+            if (!next) {
+                return head;
+            }
+            head = { seq: next.seq, hash: next.hash };
+        }
+    }
+
+    private async pseudonymize(data: AuditData): Promise<AuditData> {
+        const recorded = { ...data };
+        for (const [field, hashField] of SUBJECT_FIELDS) {
+            if (field in recorded) {
+                const value = recorded[field];
+                delete recorded[field];
+                recorded[hashField] = typeof value === 'string' ? await this.subjectHash(value) : null;
+            }
+        }
+        return recorded;
+    }
+
+    /**
+     * First entry from seq on that has not expired; entries expire oldest first
+     */
+    private async firstRetained(seq: number): Promise<number> {
+        if (await this.getEntry(seq)) {
+            return seq;
+        }
+        const head = await this.readHead();
+        let low = seq;
+        let high = head.seq + 1;
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            if (await this.getEntry(mid)) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return low;
+    }
+
+    private async latestCheckpoint(): Promise<AuditCheckpoint | null> {
+        const stored = await this.store.get(CHECKPOINT_HEAD_KEY);
+        let latest = stored ? await this.getCheckpoint(parseInt(stored)) : null;
+
+        for (;;) {
+            const next = await this.getCheckpoint(latest ? latest.toSeq + 1 : 1);
+            if (!next) {
+                return latest;
+            }
+            latest = next;
+        }
+    }
+
+    private async getCheckpoint(fromSeq: number): Promise<AuditCheckpoint | null> {
+        const stored = await this.store.get(this.checkpointKey(fromSeq));
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    private subjectKey(identifier: string): string {
+        return `audit_subject:${createHmac('sha256', this.subjectLookupKey).update(identifier).digest('hex')}`;
+    }
+
+    private entryKey(seq: number): string {
+        return `audit_entry:${seq}`;
+    }
+
+    private checkpointKey(fromSeq: number): string {
+        return `audit_checkpoint:${fromSeq}`;
+    }
+}
+
+function sha256(...parts: Buffer[]): Buffer {
+    const hash = createHash('sha256');
+    parts.forEach(part => hash.update(part));
+    return hash.digest();
+}
@@ -0,0 +1,279 @@
+import winston from 'winston';
+
+import { SenderReputation } from './RateLimiter';
+import { RelayStore } from './storage';
+
+/**
+ * Bond Cache - read-through cache of bond status per (cardId, senderCommit)
+ *
+ * A lookup answers from the store when it can and otherwise loads the
+ * status from the AbuseEscrow contract once: concurrent misses in this
+ * process share one load, and a short fill lock makes other relay instances
+ * wait for the entry instead of loading it again. Pairs without an active
+ * bond are cached too, for a shorter time, so unbonded senders cannot push
+ * every message through to the proof network.
+ *
+ * Every entry records when it was fetched and when it goes stale. A positive
+ * entry never outlives the soonest expiry of the bonds behind it, and
+ * contract events (bond posted, refunded, slashed or expired) drop the
+ * entries they affect; a slash changes the sender's reputation, so it drops
+ * the sender's entries for every card. An event that lands while a load for
+ * the pair is in flight bumps the pair's generation, and the load then skips
+ * writing its now stale answer. Each instance subscribes to the events itself,
+ * so generations are kept in process.
+ */
+
+export interface BondStatus {
+    active: boolean;
+    reputation?: SenderReputation;
+    /** Soonest expiry (ms) among the pair's active bonds, when known */
+    expiresAt?: number;
+}
+
+export interface BondCacheEntry extends BondStatus {
+    fetchedAt: number;
+    /** Entry is not used after this time (ms), whatever the store's TTL */
+    staleAfter: number;
+}
+
+export type BondLookupSource = 'HIT' | 'NEGATIVE_HIT' | 'MISS' | 'COALESCED';
+
+export interface BondLookup {
+    status: BondStatus;
+    source: BondLookupSource;
+    /** How old the answer is; 0 when it was just loaded */
+    ageMs: number;
+}
+
+export type BondEventType = 'POSTED' | 'REFUNDED' | 'SLASHED' | 'EXPIRED';
+
+export interface BondEvent {
+    type: BondEventType;
+    cardId: string;
+    senderCommit: string;
+    bondId?: string;
+}
+
+/**
+ * Subscribes a listener to AbuseEscrow bond events and returns an unsubscribe function
+ */
+export type BondEventSource = (listener: (event: BondEvent) => void) => () => void;
+
+/**
+ * Reads a pair's bond status from the contract
+ */
+export type BondStatusLoader = (cardId: string, senderCommit: string) => Promise<BondStatus>;
+
+export interface BondCacheOptions {
+    /** Longest a positive entry is trusted */
+    cacheTtlSeconds?: number;
+    /** Longest a "no active bond" entry is trusted */
+    negativeCacheTtlSeconds?: number;
+}
+
+export interface BondCacheStats {
+    hits: number;
+    negativeHits: number;
+    misses: number;
+    /** Lookups answered by a load another caller had already started */
+    coalesced: number;
+    invalidations: number;
+    /** Share of lookups that did not load from the contract */
+    hitRatio: number;
+}
+
+export class BondCache {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private loadStatus: BondStatusLoader;
+    private cacheTtlSeconds: number;
+    private negativeCacheTtlSeconds: number;
+    private inFlight: Map<string, Promise<BondStatus>> = new Map();
+    /** Invalidations seen per key while its load was in flight */
+    private generations: Map<string, number> = new Map();
+    private counts = { hits: 0, negativeHits: 0, misses: 0, coalesced: 0, invalidations: 0 };
+    private readonly FILL_LOCK_SECONDS = 10;
+    private readonly FILL_WAIT_MS = 2000;
+    private readonly FILL_POLL_MS = 50;
+
+    constructor(store: RelayStore, logger: winston.Logger, loadStatus: BondStatusLoader, options: BondCacheOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.loadStatus = loadStatus;
+        this.cacheTtlSeconds = options.cacheTtlSeconds ?? 300;
+        this.negativeCacheTtlSeconds = options.negativeCacheTtlSeconds ?? 60;
+    }
+
+    /**
+     * Apply reloaded settings; statistics and loads in flight are kept
+     */
+    configure(options: BondCacheOptions): void {
+        this.cacheTtlSeconds = options.cacheTtlSeconds ?? this.cacheTtlSeconds;
+        this.negativeCacheTtlSeconds = options.negativeCacheTtlSeconds ?? this.negativeCacheTtlSeconds;
+    }
+
+    /**
+     * Bond status for a pair, loading it from the contract on a miss
+     */
+    async lookup(cardId: string, senderCommit: string): Promise<BondLookup> {
+        const key = this.cacheKey(cardId, senderCommit);
+        const now = Date.now();
+
+        const cached = await this.readEntry(key, now);
+        if (cached) {
+            this.counts[cached.active ? 'hits' : 'negativeHits']++;
+            return { status: this.statusOf(cached), source: cached.active ? 'HIT' : 'NEGATIVE_HIT', ageMs: now - cached.fetchedAt };
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            this.counts.coalesced++;
+            return { status: await pending, source: 'COALESCED', ageMs: 0 };
+        }
+
+        const fill = this.fill(key, cardId, senderCommit);
+        const shared = fill.then(lookup => lookup.status);
+        // A failed load is reported to every waiter, not as an unhandled rejection
+        shared.catch(() => undefined);
+        this.inFlight.set(key, shared);
+        try {
+            const lookup = await fill;
+            this.counts[lookup.source === 'COALESCED' ? 'coalesced' : 'misses']++;
+            return lookup;
+        } finally {
+            this.inFlight.delete(key);
+            this.generations.delete(key);
+        }
+    }
+
+    /**
+     * Drop the entries a contract event makes stale
+     */
+    async handleEvent(event: BondEvent): Promise<void> {
+        if (event.type === 'SLASHED') {
+            await this.invalidateSender(event.senderCommit);
+        } else {
+            await this.invalidate(event.cardId, event.senderCommit);
+        }
+        this.logger.debug('Bond cache invalidated by contract event', { ...event });
+    }
+
+    async invalidate(cardId: string, senderCommit: string): Promise<void> {
+        const key = this.cacheKey(cardId, senderCommit);
+        this.bumpGeneration(key);
+        await this.store.delete(key);
+        this.counts.invalidations++;
+    }
+
+    /**
+     * Drop a sender's entries for every card
+     */
+    async invalidateSender(senderCommit: string): Promise<void> {
+        for (const key of this.inFlight.keys()) {
+            if (key.endsWith(`:${senderCommit}`)) {
+                this.bumpGeneration(key);
+            }
+        }
+        for await (const keys of this.store.scan(`bond:*:${senderCommit}`, 100)) {
+            if (keys.length > 0) {
+                await this.store.delete(...keys);
+                this.counts.invalidations += keys.length;
+            }
+        }
+    }
+
+    getStats(): BondCacheStats {
+        const { hits, negativeHits, misses, coalesced } = this.counts;
+        const lookups = hits + negativeHits + misses + coalesced;
+        return { ...this.counts, hitRatio: lookups === 0 ? 0 : (lookups - misses) / lookups };
+    }
+
+    /**
+     * Load under the fill lock; without the lock, wait for the holder's entry and load only if it never appears
+     */
+    private async fill(key: string, cardId: string, senderCommit: string): Promise<BondLookup> {
+        const generation = this.generations.get(key) || 0;
+        const lockKey = `bond_fill:${cardId}:${senderCommit}`;
+        const locked = await this.store.setIfAbsent(lockKey, String(Date.now()), this.FILL_LOCK_SECONDS);
+
+        if (!locked) {
+            const deadline = Date.now() + this.FILL_WAIT_MS;
+            while (Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, this.FILL_POLL_MS));
+                const now = Date.now();
+                const filled = await this.readEntry(key, now);
+                if (filled) {
+                    return { status: this.statusOf(filled), source: 'COALESCED', ageMs: now - filled.fetchedAt };
+                }
+            }
+            this.logger.warn('Bond cache fill lock held too long; loading directly', { cardId, senderCommit });
+        }
+
+        try {
+            const status = await this.loadStatus(cardId, senderCommit);
+            if ((this.generations.get(key) || 0) === generation) {
+                await this.writeEntry(key, status);
+            } else {
+                this.logger.debug('Bond cache load raced an invalidation; not caching it', { cardId, senderCommit });
+            }
+            return { status, source: 'MISS', ageMs: 0 };
+        } finally {
+            if (locked) {
+                await this.store.delete(lockKey);
+            }
+        }
+    }
+
+    /**
+     * Mark a load in flight for the key as stale; keys without one have nothing to protect
+     */
+    private bumpGeneration(key: string): void {
+        if (this.inFlight.has(key)) {
+            this.generations.set(key, (this.generations.get(key) || 0) + 1);
+        }
+    }
+
+    private async writeEntry(key: string, status: BondStatus): Promise<void> {
+        const now = Date.now();
+        let ttl = status.active ? this.cacheTtlSeconds : this.negativeCacheTtlSeconds;
+        if (status.active && status.expiresAt !== undefined) {
+            // Never cache a positive answer past the first bond expiry
+            ttl = Math.min(ttl, Math.floor((status.expiresAt - now) / 1000));
+        }
+        if (ttl <= 0) {
+            return;
+        }
+
+        const entry: BondCacheEntry = { ...status, fetchedAt: now, staleAfter: now + ttl * 1000 };
+        await this.store.set(key, JSON.stringify(entry), ttl);
+    }
+
+    /**
+     * Stored entry if it is still fresh and no bond behind it has expired
+     */
+    private async readEntry(key: string, now: number): Promise<BondCacheEntry | null> {
+        const stored = await this.store.get(key);
+        if (!stored) {
+            return null;
+        }
+
+        const entry = JSON.parse(stored) as Partial<BondCacheEntry>;
+        if (typeof entry.staleAfter !== 'number' || typeof entry.fetchedAt !== 'number' || now >= entry.staleAfter) {
+            // Stale, or written before entries carried their bounds
+            return null;
+        }
+        if (entry.active && entry.expiresAt !== undefined && now >= entry.expiresAt) {
+            return null;
+        }
+        return entry as BondCacheEntry;
+    }
+
+    private statusOf(entry: BondCacheEntry): BondStatus {
+        const { active, reputation, expiresAt } = entry;
+        return { active, reputation, expiresAt };
+    }
+
+    private cacheKey(cardId: string, senderCommit: string): string {
+        return `bond:${cardId}:${senderCommit}`;
+    }
+}
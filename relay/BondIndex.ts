@@ -0,0 +1,244 @@
+import winston from 'winston';
+
+import { BondEvent, BondEventType } from './BondCache';
+import { RelayStore } from './storage';
+
+/**
+ * Bond Index - resolves on-chain bond IDs for (cardId, senderCommit) pairs
+ *
+ * The AbuseEscrow `bond_meta` ledger is keyed by bondId only, so the relay
+ * keeps a cached view of the live bonds per pair. A pair may hold
+ * several concurrent bonds; they are ordered by expiry so the bond that
+ * expires first is the one that backs (and answers for) the next message.
+ *
+ * Pair views are cut from one shared snapshot of the ledger, so a miss reads
+ * bond_meta at most once per snapshot lifetime across all pairs. The ledger
+ * only holds hashed card and sender keys; pairs the relay has looked up are
+ * remembered by those keys, which lets a ledger poll name the pairs whose
+ * bonds were posted, refunded, slashed or expired since the last poll.
+ */
+
+export interface BondMetaEntry {
+    bondId: string;
+    cardId: string;
+    senderCommit: string;
+    amount: string;
+    expiresAt: number;
+    refunded: boolean;
+    slashed: boolean;
+}
+
+/**
+ * One bond_meta entry as stored on chain, under hashed card and sender keys
+ */
+export interface BondLedgerRow {
+    bondId: string;
+    cardKey: string;
+    senderKey: string;
+    amount: string;
+    expiresAt: number;
+    refunded: boolean;
+    slashed: boolean;
+}
+
+/**
+ * Reads the whole bond_meta ledger
+ */
+export type BondLedgerReader = () => Promise<BondLedgerRow[]>;
+
+/**
+ * Hashes a cardId or senderCommit the way the contract keys bond_meta
+ */
+export type BondKeyHasher = (value: string) => string;
+
+interface LedgerSnapshot {
+    fetchedAt: number;
+    rows: BondLedgerRow[];
+}
+
+export class BondIndex {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private readLedger: BondLedgerReader;
+    private hashKey: BondKeyHasher;
+    /** Ledger load in flight, shared by concurrent misses */
+    private loading?: Promise<LedgerSnapshot>;
+    /** What the last poll saw; each instance diffs against its own */
+    private polled?: LedgerSnapshot;
+    private readonly CACHE_TTL = 300; // 5 minutes
+    private readonly LEDGER_TTL = 60;
+    private readonly PAIR_TTL = 86400;
+
+    constructor(store: RelayStore, logger: winston.Logger, readLedger: BondLedgerReader, hashKey: BondKeyHasher) {
+        this.store = store;
+        this.logger = logger;
+        this.readLedger = readLedger;
+        this.hashKey = hashKey;
+    }
+
+    /**
+     * List active bonds for a pair, soonest-expiring first
+     */
+    async getActiveBonds(cardId: string, senderCommit: string): Promise<BondMetaEntry[]> {
+        const cacheKey = this.cacheKey(cardId, senderCommit);
+        const now = Date.now();
+
+        const cached = await this.store.get(cacheKey);
+        if (cached) {
+            const bonds = (JSON.parse(cached) as BondMetaEntry[]).filter(bond => bond.expiresAt > now);
+            if (bonds.length > 0) {
+                return bonds;
+            }
+        }
+
+        const cardKey = this.hashKey(cardId);
+        const senderKey = this.hashKey(senderCommit);
+        await this.store.set(this.pairKey(cardKey, senderKey), `${cardId}:${senderCommit}`, this.PAIR_TTL);
+
+        const { rows } = await this.ledger();
+        const bonds = rows
+            .filter(row => row.cardKey === cardKey && row.senderKey === senderKey)
+            .filter(row => !row.refunded && !row.slashed && row.expiresAt > now)
+            .sort((a, b) => a.expiresAt - b.expiresAt)
+            .map(({ bondId, amount, expiresAt, refunded, slashed }) => ({ bondId, cardId, senderCommit, amount, expiresAt, refunded, slashed }));
+
+        if (bonds.length > 0) {
+            // Never cache past the first expiry so a stale bond is not handed out
+            const ttl = Math.min(this.CACHE_TTL, Math.floor((bonds[0].expiresAt - now) / 1000));
+            if (ttl > 0) {
+                await this.store.set(cacheKey, JSON.stringify(bonds), ttl);
+            }
+            await Promise.all(bonds.map(bond =>
+                this.store.set(this.bondKey(bond.bondId), `${cardId}:${senderCommit}`, this.CACHE_TTL)
+            ));
+        }
+
+        this.logger.debug('Bond index refreshed from ledger', { cardId, senderCommit, activeBonds: bonds.length });
+        return bonds;
+    }
+
+    /**
+     * Resolve the bond that currently backs messages from a sender to a card
+     */
+    async resolveBondId(cardId: string, senderCommit: string): Promise<string | null> {
+        const bonds = await this.getActiveBonds(cardId, senderCommit);
+        return bonds.length > 0 ? bonds[0].bondId : null;
+    }
+
+    /**
+     * A bond's ledger entry, refunded, slashed or expired included
+     */
+    async getBond(bondId: string): Promise<BondLedgerRow | null> {
+        const { rows } = await this.ledger();
+        return rows.find(row => row.bondId === bondId) || null;
+    }
+
+    /**
+     * Read the ledger afresh and report changes since the previous poll for pairs the relay has looked up
+     * The first poll only records a baseline
+     */
+    async poll(): Promise<BondEvent[]> {
+        const snapshot = await this.loadLedger();
+        const previous = this.polled;
+        this.polled = snapshot;
+        if (!previous) {
+            return [];
+        }
+
+        const before = new Map(previous.rows.map(row => [row.bondId, row]));
+        const events: BondEvent[] = [];
+        for (const row of snapshot.rows) {
+            const type = this.changeOf(before.get(row.bondId), row, previous.fetchedAt, snapshot.fetchedAt);
+            if (!type) {
+                continue;
+            }
+            const pair = await this.store.get(this.pairKey(row.cardKey, row.senderKey));
+            if (pair) {
+                const [cardId, senderCommit] = pair.split(':');
+                events.push({ type, cardId, senderCommit, bondId: row.bondId });
+            }
+        }
+        return events;
+    }
+
+    /**
+     * Drop the cached view for a pair (after a refund, slash or new bond)
+     */
+    async invalidate(cardId: string, senderCommit: string): Promise<void> {
+        await this.store.delete(this.cacheKey(cardId, senderCommit));
+    }
+
+    /**
+     * Drop the cached view that contains a given bond
+     */
+    async invalidateBond(bondId: string): Promise<void> {
+        const pair = await this.store.get(this.bondKey(bondId));
+        if (pair) {
+            const [cardId, senderCommit] = pair.split(':');
+            await this.store.delete(this.cacheKey(cardId, senderCommit), this.bondKey(bondId));
+        }
+    }
+
+    /**
+     * Drop the ledger snapshot, for changes reported before a poll could see them
+     */
+    async invalidateLedger(): Promise<void> {
+        await this.store.delete(this.ledgerKey());
+    }
+
+    private changeOf(before: BondLedgerRow | undefined, row: BondLedgerRow, previousAt: number, now: number): BondEventType | undefined {
+        if (!before) {
+            return 'POSTED';
+        }
+        if (row.slashed && !before.slashed) {
+            return 'SLASHED';
+        }
+        if (row.refunded && !before.refunded) {
+            return 'REFUNDED';
+        }
+        if (!row.refunded && !row.slashed && row.expiresAt > previousAt && row.expiresAt <= now) {
+            return 'EXPIRED';
+        }
+        return undefined;
+    }
+
+    /**
+     * Shared ledger snapshot, loaded once per lifetime however many pairs miss
+     */
+    private async ledger(): Promise<LedgerSnapshot> {
+        const stored = await this.store.get(this.ledgerKey());
+        if (stored) {
+            return JSON.parse(stored) as LedgerSnapshot;
+        }
+        return await this.loadLedger();
+    }
+
+    private async loadLedger(): Promise<LedgerSnapshot> {
+        if (!this.loading) {
+            this.loading = (async () => {
+                const snapshot = { fetchedAt: Date.now(), rows: await this.readLedger() };
+                await this.store.set(this.ledgerKey(), JSON.stringify(snapshot), this.LEDGER_TTL);
+                return snapshot;
+            })().finally(() => {
+                this.loading = undefined;
+            });
+        }
+        return await this.loading;
+    }
+
+    private cacheKey(cardId: string, senderCommit: string): string {
+        return `bond_index:${cardId}:${senderCommit}`;
+    }
+
+    private bondKey(bondId: string): string {
+        return `bond_index:bond:${bondId}`;
+    }
+
+    private pairKey(cardKey: string, senderKey: string): string {
+        return `bond_index:pair:${cardKey}:${senderKey}`;
+    }
+
+    private ledgerKey(): string {
+        return 'bond_index:ledger';
+    }
+}
@@ -0,0 +1,244 @@
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+
+import { EncryptedEnvelope, EvidenceKeyring } from './EvidenceKeyring';
+import { RelayStore } from './storage';
+
+/**
+ * Conversation Threads - follow-ups between a sender and a card after a reply
+ *
+ * A bonded intro is a single message. When the recipient replies, a thread
+ * opens for the (cardId, senderCommit) pair under the bond that carried the
+ * intro, and further messages in either direction flow through it without
+ * another bond check. The thread is bound to the key that signed the intro,
+ * remembered when the intro was delivered, so only that sender can write as
+ * the SENDER side.
+ *
+ * Threads expire on their own clock, independent of the bond, and each side
+ * has its own per-window message limit. Closing is final; a later reply by
+ * the recipient opens a new thread. Messages are sealed with the evidence
+ * keyring under their own keys, like mailbox payloads, so key rotation can
+ * re-wrap them; a per-thread stream orders them and its IDs page through it.
+ */
+
+export type ThreadState = 'OPEN' | 'CLOSED';
+
+/** Which side wrote a message */
+export type ThreadDirection = 'SENDER' | 'RECIPIENT';
+
+export interface ConversationThread {
+    threadId: string;
+    cardId: string;
+    senderCommit: string;
+    /** Bond that carried the intro the recipient replied to */
+    bondId: string;
+    /** Address of the key that signed the intro; follow-ups must come from it */
+    senderAddress: string;
+    state: ThreadState;
+    openedAt: number;
+    expiresAt: number;
+    closedAt?: number;
+}
+
+export interface ThreadMessage<T> {
+    /** Stream ID; pass as cursor to read what follows */
+    messageId: string;
+    direction: ThreadDirection;
+    sentAt: number;
+    message: T;
+}
+
+export interface ThreadPage<T> {
+    messages: ThreadMessage<T>[];
+    /** Pass back to fetch the next page; absent on the last page */
+    cursor?: string;
+}
+
+export interface ThreadRateDecision {
+    allowed: boolean;
+    /** Seconds until the side may write again */
+    retryAfter?: number;
+}
+
+export interface ConversationThreadOptions {
+    /** Lifetime of a thread from the reply that opened it */
+    ttlSeconds?: number;
+    /** Messages each side may send per window */
+    messagesPerWindow?: number;
+    windowSeconds?: number;
+    /** Messages kept per thread; the oldest are trimmed first */
+    maxMessages?: number;
+}
+
+export class ConversationThreads {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private keyring: EvidenceKeyring;
+    private readonly ttlSeconds: number;
+    private readonly messagesPerWindow: number;
+    private readonly windowSeconds: number;
+    private readonly maxMessages: number;
+
+    constructor(store: RelayStore, logger: winston.Logger, keyring: EvidenceKeyring, options: ConversationThreadOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.keyring = keyring;
+        this.ttlSeconds = options.ttlSeconds || 7 * 24 * 3600;
+        this.messagesPerWindow = options.messagesPerWindow || 20;
+        this.windowSeconds = options.windowSeconds || 3600;
+        this.maxMessages = options.maxMessages || 500;
+    }
+
+    /**
+     * Remember which key sent a delivered intro, so a thread opened by a reply can be bound to it
+     */
+    async rememberSender(cardId: string, senderCommit: string, senderAddress: string): Promise<void> {
+        await this.store.set(this.senderKey(cardId, senderCommit), senderAddress.replace(/^0x/i, '').toLowerCase(), this.ttlSeconds);
+    }
+
+    /**
+     * Open a thread for the pair, or return the one already open; null when no intro from the pair was delivered
+     */
+    async open(cardId: string, senderCommit: string, bondId: string): Promise<ConversationThread | null> {
+        const existingId = await this.store.get(this.pairKey(cardId, senderCommit));
+        const existing = existingId ? await this.get(existingId) : null;
+        if (existing?.state === 'OPEN') {
+            return existing;
+        }
+
+        const senderAddress = await this.store.get(this.senderKey(cardId, senderCommit));
+        if (!senderAddress) {
+            this.logger.warn('No delivered intro to bind a thread to', { cardId, senderCommit });
+            return null;
+        }
+
+        const openedAt = Date.now();
+        const thread: ConversationThread = {
+            threadId: randomBytes(16).toString('hex'),
+            cardId,
+            senderCommit,
+            bondId,
+            senderAddress,
+            state: 'OPEN',
+            openedAt,
+            expiresAt: openedAt + this.ttlSeconds * 1000
+        };
+        await this.store.set(this.threadKey(thread.threadId), JSON.stringify(thread), this.ttlSeconds);
+        await this.store.set(this.pairKey(cardId, senderCommit), thread.threadId, this.ttlSeconds);
+
+        this.logger.info('Conversation thread opened', { threadId: thread.threadId, cardId, senderCommit, bondId });
+        return thread;
+    }
+
+    /**
+     * Thread record, or null once it has expired
+     */
+    async get(threadId: string): Promise<ConversationThread | null> {
+        const stored = await this.store.get(this.threadKey(threadId));
+        if (!stored) {
+            return null;
+        }
+        const thread = JSON.parse(stored) as ConversationThread;
+        return thread.expiresAt > Date.now() ? thread : null;
+    }
+
+    /**
+     * Close a thread for good; the record stays (CLOSED) until the thread would have expired
+     */
+    async close(threadId: string): Promise<ConversationThread | null> {
+        const thread = await this.get(threadId);
+        if (!thread) {
+            return null;
+        }
+        if (thread.state === 'CLOSED') {
+            return thread;
+        }
+
+        thread.state = 'CLOSED';
+        thread.closedAt = Date.now();
+        await this.store.replace(this.threadKey(threadId), JSON.stringify(thread));
+
+        this.logger.info('Conversation thread closed', { threadId, cardId: thread.cardId });
+        return thread;
+    }
+
+    /**
+     * Count a message from one side against its per-window limit
+     */
+    async consume(threadId: string, direction: ThreadDirection): Promise<ThreadRateDecision> {
+        const windowMs = this.windowSeconds * 1000;
+        const window = Math.floor(Date.now() / windowMs);
+        const count = await this.store.increment(`thread_rate:${threadId}:${direction}:${window}`, this.windowSeconds);
+
+        if (count > this.messagesPerWindow) {
+            return { allowed: false, retryAfter: Math.max(1, Math.ceil(((window + 1) * windowMs - Date.now()) / 1000)) };
+        }
+        return { allowed: true };
+    }
+
+    async append<T>(thread: ConversationThread, direction: ThreadDirection, message: T): Promise<ThreadMessage<T>> {
+        const sentAt = Date.now();
+        const ttl = Math.max(1, Math.ceil((thread.expiresAt - sentAt) / 1000));
+        const sealed = this.keyring.seal(Buffer.from(JSON.stringify(message)), `thread:${thread.threadId}`);
+        const messagesKey = this.messagesKey(thread.threadId);
+
+        // Stored before the stream entry so a reader never sees an entry without its payload
+        const payloadId = randomBytes(16).toString('hex');
+        await this.store.set(this.payloadKey(thread.threadId, payloadId), JSON.stringify(sealed), ttl);
+
+        const messageId = await this.store.appendToStream(
+            messagesKey,
+            { direction, sentAt: String(sentAt), payloadId },
+            this.maxMessages
+        );
+        await this.store.expire(messagesKey, ttl);
+
+        return { messageId, direction, sentAt, message };
+    }
+
+    /**
+     * Page through a thread's messages, oldest first, after the given cursor
+     */
+    async read<T>(threadId: string, cursor: string | undefined, limit: number): Promise<ThreadPage<T>> {
+        const entries = await this.store.readStream(this.messagesKey(threadId), cursor, limit);
+
+        const messages: ThreadMessage<T>[] = [];
+        for (const entry of entries) {
+            const stored = await this.store.get(this.payloadKey(threadId, entry.fields.payloadId));
+            if (!stored) {
+                continue;
+            }
+            messages.push({
+                messageId: entry.id,
+                direction: entry.fields.direction as ThreadDirection,
+                sentAt: Number(entry.fields.sentAt),
+                message: JSON.parse(this.keyring.open(JSON.parse(stored) as EncryptedEnvelope, `thread:${threadId}`).toString('utf8')) as T
+            });
+        }
+
+        return {
+            messages,
+            cursor: entries.length === limit ? entries[entries.length - 1].id : undefined
+        };
+    }
+
+    private threadKey(threadId: string): string {
+        return `thread:${threadId}`;
+    }
+
+    private pairKey(cardId: string, senderCommit: string): string {
+        return `thread_pair:${cardId}:${senderCommit}`;
+    }
+
+    private senderKey(cardId: string, senderCommit: string): string {
+        return `thread_sender:${cardId}:${senderCommit}`;
+    }
+
+    private messagesKey(threadId: string): string {
+        return `thread_messages:${threadId}`;
+    }
+
+    private payloadKey(threadId: string, payloadId: string): string {
+        return `thread_payload:${threadId}:${payloadId}`;
+    }
+}
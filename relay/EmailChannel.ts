@@ -0,0 +1,227 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import nodemailer from 'nodemailer';
+import winston from 'winston';
+
+/**
+ * Email Delivery Channel - forwards bonded intros to the card holder's inbox
+ *
+ * Mail is always sent from a per-card pseudonymous alias, so neither the
+ * sender nor anything in the message reveals the card holder's real address.
+ * Every email carries two signed action links (report abuse, reply) that the
+ * relay API turns back into attestAbuse / handleRecipientEngagement calls.
+ */
+
+export type EmailAction = 'report' | 'reply';
+
+export interface EmailActionClaims {
+    action: EmailAction;
+    cardId: string;
+    senderCommit: string;
+    evidenceHash: string;
+    expiresAt: number;
+    nonce: string;
+}
+
+/**
+ * Minimal SMTP transport surface; a nodemailer Transporter satisfies it
+ */
+export interface EmailTransport {
+    sendMail(mail: {
+        from: string;
+        to: string;
+        subject: string;
+        text: string;
+        html: string;
+        headers?: Record<string, string>;
+    }): Promise<{ messageId: string }>;
+}
+
+export interface EmailChannelOptions {
+    transport: EmailTransport;
+    aliasDomain: string;
+    publicUrl: string;
+    linkSecret: string;
+    subjectTemplate?: string;
+    linkTtlSeconds?: number;
+}
+
+export interface EmailMessage {
+    content: string;
+    senderCommit: string;
+    cardId: string;
+    timestamp: number;
+}
+
+export interface EmailDelivery {
+    success: boolean;
+    deliveryId: string;
+    status: 'SENT';
+    messageId: string;
+}
+
+const DEFAULT_SUBJECT = 'New bonded intro for {{alias}}';
+
+export class EmailChannel {
+    private transport: EmailTransport;
+    private logger: winston.Logger;
+    private aliasDomain: string;
+    private publicUrl: string;
+    private linkSecret: string;
+    private subjectTemplate: string;
+    private readonly LINK_TTL: number;
+
+    constructor(options: EmailChannelOptions, logger: winston.Logger) {
+        this.transport = options.transport;
+        this.logger = logger;
+        this.aliasDomain = options.aliasDomain;
+        this.publicUrl = options.publicUrl.replace(/\/+$/, '');
+        this.linkSecret = options.linkSecret;
+        this.subjectTemplate = options.subjectTemplate || DEFAULT_SUBJECT;
+        this.LINK_TTL = options.linkTtlSeconds || 7 * 24 * 3600; // 7 days
+    }
+
+    /**
+     * Build an SMTP-backed channel from SMTP_* and RELAY_* environment variables
+     * (defaults target a local SMTP sink such as MailHog on port 1025)
+     */
+    static fromEnv(linkSecret: string, logger: winston.Logger): EmailChannel {
+        const transport = nodemailer.createTransport({
+            host: process.env.SMTP_HOST || 'localhost',
+            port: parseInt(process.env.SMTP_PORT || '1025'),
+            secure: process.env.SMTP_SECURE === 'true',
+            auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' }
+                : undefined
+        });
+
+        return new EmailChannel({
+            transport,
+            aliasDomain: process.env.RELAY_EMAIL_DOMAIN || 'relay.selectconnect.pro',
+            publicUrl: process.env.RELAY_PUBLIC_URL || 'http://localhost:3001',
+            linkSecret,
+            subjectTemplate: process.env.RELAY_EMAIL_SUBJECT
+        }, logger);
+    }
+
+    /**
+     * Stable pseudonymous sender alias for a card
+     */
+    aliasFor(cardId: string): string {
+        const tag = createHmac('sha256', this.linkSecret).update(`alias:${cardId}`).digest('hex').substring(0, 12);
+        return `card-${tag}@${this.aliasDomain}`;
+    }
+
+    /**
+     * Send a forwarded message to the card holder's private address
+     */
+    async send(recipientAddress: string, message: EmailMessage, evidenceHash: string): Promise<EmailDelivery> {
+        const alias = this.aliasFor(message.cardId);
+        const deliveryId = randomBytes(16).toString('hex');
+        const reportUrl = this.actionUrl('report', message, evidenceHash);
+        const replyUrl = this.actionUrl('reply', message, evidenceHash);
+        const vars = {
+            alias,
+            sender: message.senderCommit.substring(0, 8),
+            date: new Date(message.timestamp).toISOString()
+        };
+
+        const text = [
+            `You received a bonded intro (sender ${vars.sender}, ${vars.date}):`,
+            '',
+            message.content,
+            '',
+            `Reply: ${replyUrl}`,
+            `Report abuse: ${reportUrl}`
+        ].join('\n');
+
+        const html = [
+            `<p>You received a bonded intro (sender <code>${escapeHtml(vars.sender)}</code>, ${escapeHtml(vars.date)}):</p>`,
+            `<blockquote>${escapeHtml(message.content).replace(/\n/g, '<br>')}</blockquote>`,
+            `<p><a href="${escapeHtml(replyUrl)}">Reply</a> &middot; <a href="${escapeHtml(reportUrl)}">Report abuse</a></p>`
+        ].join('\n');
+
+        const info = await this.transport.sendMail({
+            from: `SelectConnect <${alias}>`,
+            to: recipientAddress,
+            subject: renderTemplate(this.subjectTemplate, vars),
+            text,
+            html,
+            headers: {
+                'X-SelectConnect-Delivery': deliveryId,
+                'List-Unsubscribe': `<${reportUrl}>`
+            }
+        });
+
+        this.logger.debug('Email delivered to card alias', { cardId: message.cardId, deliveryId, alias });
+
+        return { success: true, deliveryId, status: 'SENT', messageId: info.messageId };
+    }
+
+    /**
+     * Create a signed, expiring action token for an email link
+     */
+    createActionToken(action: EmailAction, cardId: string, senderCommit: string, evidenceHash: string): string {
+        const claims: EmailActionClaims = {
+            action,
+            cardId,
+            senderCommit,
+            evidenceHash,
+            expiresAt: Date.now() + this.LINK_TTL * 1000,
+            nonce: randomBytes(8).toString('hex')
+        };
+        const body = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        return `${body}.${this.sign(body)}`;
+    }
+
+    /**
+     * Verify an action token's signature and expiry
+     */
+    verifyActionToken(token: string): EmailActionClaims | null {
+        const [body, signature] = token.split('.');
+        if (!body || !signature) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.sign(body), 'base64url');
+        const actual = Buffer.from(signature, 'base64url');
+        if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        try {
+            const claims: EmailActionClaims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+            return claims.expiresAt > Date.now() ? claims : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Fingerprint used to make each action token single-use
+     */
+    tokenFingerprint(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+
+    private actionUrl(action: EmailAction, message: EmailMessage, evidenceHash: string): string {
+        const token = this.createActionToken(action, message.cardId, message.senderCommit, evidenceHash);
+        return `${this.publicUrl}/v1/email-actions/${action}?token=${encodeURIComponent(token)}`;
+    }
+
+    private sign(body: string): string {
+        return createHmac('sha256', this.linkSecret).update(`email-action:${body}`).digest('base64url');
+    }
+}
+
+function renderTemplate(template: string, vars: Record<string, string>): string {
+    return template.replace(/\{\{(\w+)\}\}/g, (match, name) => (name in vars ? vars[name] : match));
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,217 @@
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createPrivateKey,
+    diffieHellman,
+    generateKeyPairSync,
+    randomBytes
+} from 'crypto';
+
+import { ReceiptSigner, verifyReceipt } from './RelayReceipts';
+import type { AttestationRecord, Evidence } from './RelayService';
+import {
+    ContentReveal,
+    deriveKey,
+    verifyContentReveal,
+    x25519PublicKey,
+    X25519_PKCS8_PREFIX,
+    X25519_SPKI_PREFIX
+} from './SealedContent';
+
+/**
+ * Evidence Bundles - sealed, self-verifying evidence exports for arbitration
+ *
+ * The relay decrypts stored evidence, gathers the receipts and attestation
+ * records that reference it and encrypts the lot to an X25519 key supplied by
+ * the requester (ephemeral ECDH, HKDF-SHA256, AES-256-GCM). A signed manifest
+ * receipt binds the evidence hash, card, requester and ciphertext digest, so
+ * the archive can be checked with `verifyEvidenceBundle` before it is opened
+ * and nothing in it can be swapped without breaking the relay signature.
+ */
+
+export interface EvidenceBundleContents {
+    evidenceHash: string;
+    evidence: Evidence;
+    receipts: {
+        senderReceipt?: string;
+        recipientReceipt?: string;
+    };
+    attestations: AttestationRecord[];
+    /** Plaintext the recipient revealed for sealed content, checked against the evidence commitment */
+    reveal?: ContentReveal;
+    exportedAt: number;
+}
+
+export interface EvidenceBundle {
+    format: 'selectconnect-evidence-bundle';
+    version: 1;
+    evidenceHash: string;
+    cardId: string;
+    /** Address of the card admin or guardian the bundle was exported for */
+    requester: string;
+    encryptionPublicKey: string;
+    /** Relay receipt keys at export time; pin these out of band before trusting them */
+    relayPublicKeys: Record<string, string>;
+    /** Relay receipt over the fields above and the ciphertext digest */
+    manifest: string;
+    encryption: {
+        algorithm: 'X25519-HKDF-SHA256-AES-256-GCM';
+        ephemeralPublicKey: string;
+        iv: string;
+        authTag: string;
+        ciphertext: string;
+    };
+}
+
+export type BundleFailureReason =
+    | 'MALFORMED_BUNDLE'
+    | 'INVALID_MANIFEST'
+    | 'MANIFEST_MISMATCH'
+    | 'DECRYPTION_FAILED'
+    | 'CONTENTS_MISMATCH';
+
+export interface BundleVerification {
+    valid: boolean;
+    reason?: BundleFailureReason;
+}
+
+const HKDF_INFO = 'selectconnect:evidence-bundle:v1';
+
+/**
+ * Encrypt bundle contents to the requester and sign the manifest (relay side)
+ */
+export function sealEvidenceBundle(
+    contents: EvidenceBundleContents,
+    recipient: { cardId: string; requester: string; encryptionPublicKey: string },
+    signer: ReceiptSigner
+): EvidenceBundle {
+    const recipientKey = Buffer.from(recipient.encryptionPublicKey, 'hex');
+    if (recipientKey.length !== 32) {
+        throw new Error('Encryption public key must be a 32-byte X25519 key');
+    }
+
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralPublicKey = (ephemeral.publicKey.export({ format: 'der', type: 'spki' }) as Buffer)
+        .subarray(X25519_SPKI_PREFIX.length);
+    const shared = diffieHellman({ privateKey: ephemeral.privateKey, publicKey: x25519PublicKey(recipientKey) });
+    const key = deriveKey(shared, ephemeralPublicKey, recipientKey, HKDF_INFO);
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(contents), 'utf8'), cipher.final()]);
+
+    const bundle: Omit<EvidenceBundle, 'manifest'> = {
+        format: 'selectconnect-evidence-bundle',
+        version: 1,
+        evidenceHash: contents.evidenceHash,
+        cardId: recipient.cardId,
+        requester: recipient.requester,
+        encryptionPublicKey: recipient.encryptionPublicKey,
+        relayPublicKeys: signer.getPublicKeys(),
+        encryption: {
+            algorithm: 'X25519-HKDF-SHA256-AES-256-GCM',
+            ephemeralPublicKey: ephemeralPublicKey.toString('hex'),
+            iv: iv.toString('base64'),
+            authTag: cipher.getAuthTag().toString('base64'),
+            ciphertext: ciphertext.toString('base64')
+        }
+    };
+
+    return { ...bundle, manifest: signer.sign('evidence-bundle', manifestClaims(bundle, contents.exportedAt)) };
+}
+
+/**
+ * Check the manifest signature and that it matches the archive (no private key needed)
+ */
+export function verifyEvidenceBundle(
+    bundle: EvidenceBundle,
+    trustedRelayKeys: Record<string, string> = bundle.relayPublicKeys
+): BundleVerification {
+    if (!bundle || bundle.format !== 'selectconnect-evidence-bundle' || bundle.version !== 1 || !bundle.encryption) {
+        return { valid: false, reason: 'MALFORMED_BUNDLE' };
+    }
+
+    const manifest = verifyReceipt(bundle.manifest, trustedRelayKeys);
+    if (!manifest.valid || manifest.receipt!.type !== 'evidence-bundle') {
+        return { valid: false, reason: 'INVALID_MANIFEST' };
+    }
+
+    const expected = manifestClaims(bundle, Number(manifest.receipt!.claims.exportedAt));
+    const signed = manifest.receipt!.claims;
+    if (Object.keys(expected).some(field => signed[field] !== expected[field as keyof typeof expected])) {
+        return { valid: false, reason: 'MANIFEST_MISMATCH' };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Verify, decrypt and cross-check a bundle with the requester's X25519 private key
+ */
+export function openEvidenceBundle(
+    bundle: EvidenceBundle,
+    encryptionPrivateKeyHex: string,
+    trustedRelayKeys: Record<string, string> = bundle.relayPublicKeys
+): { contents?: EvidenceBundleContents } & BundleVerification {
+    const verification = verifyEvidenceBundle(bundle, trustedRelayKeys);
+    if (!verification.valid) {
+        return verification;
+    }
+
+    let contents: EvidenceBundleContents;
+    try {
+        const privateKey = createPrivateKey({
+            key: Buffer.concat([X25519_PKCS8_PREFIX, Buffer.from(encryptionPrivateKeyHex, 'hex')]),
+            format: 'der',
+            type: 'pkcs8'
+        });
+        const ephemeralPublicKey = Buffer.from(bundle.encryption.ephemeralPublicKey, 'hex');
+        const shared = diffieHellman({ privateKey, publicKey: x25519PublicKey(ephemeralPublicKey) });
+        const key = deriveKey(shared, ephemeralPublicKey, Buffer.from(bundle.encryptionPublicKey, 'hex'), HKDF_INFO);
+
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(bundle.encryption.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(bundle.encryption.authTag, 'base64'));
+        const plaintext = Buffer.concat([
+            decipher.update(Buffer.from(bundle.encryption.ciphertext, 'base64')),
+            decipher.final()
+        ]);
+        contents = JSON.parse(plaintext.toString('utf8'));
+    } catch {
+        return { valid: false, reason: 'DECRYPTION_FAILED' };
+    }
+
+    // Everything inside must describe the same evidence the manifest was signed for
+    const receiptsMatch = [contents.receipts.senderReceipt, contents.receipts.recipientReceipt]
+        .filter((receipt): receipt is string => Boolean(receipt))
+        .every(receipt => {
+            const check = verifyReceipt(receipt, trustedRelayKeys);
+            return check.valid && check.receipt!.claims.evidenceHash === bundle.evidenceHash;
+        });
+    const consistent = contents.evidenceHash === bundle.evidenceHash
+        && contents.evidence.cardId === bundle.cardId
+        && contents.attestations.every(attestation => attestation.evidenceHash === bundle.evidenceHash)
+        && (!contents.reveal || verifyContentReveal(contents.evidence.contentCommitment || '', contents.reveal));
+
+    if (!receiptsMatch || !consistent) {
+        return { valid: false, reason: 'CONTENTS_MISMATCH' };
+    }
+
+    return { valid: true, contents };
+}
+
+function manifestClaims(bundle: Omit<EvidenceBundle, 'manifest'>, exportedAt: number) {
+    return {
+        evidenceHash: bundle.evidenceHash,
+        cardId: bundle.cardId,
+        requester: bundle.requester,
+        encryptionPublicKey: bundle.encryptionPublicKey,
+        ephemeralPublicKey: bundle.encryption.ephemeralPublicKey,
+        ciphertextSha256: createHash('sha256')
+            .update(bundle.encryption.iv)
+            .update(bundle.encryption.authTag)
+            .update(bundle.encryption.ciphertext)
+            .digest('hex'),
+        exportedAt
+    };
+}
@@ -0,0 +1,159 @@
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+
+/**
+ * Envelope encryption for relay evidence at rest
+ *
+ * Every evidence record gets a fresh AES-256-GCM data key. The data key is
+ * wrapped by the active relay master key and stored next to the ciphertext
+ * together with the master key ID, so master keys can be rotated by
+ * re-wrapping data keys without touching the evidence ciphertext itself.
+ */
+
+export interface EncryptedEnvelope {
+    version: 1;
+    algorithm: 'AES-256-GCM';
+    keyId: string;
+    wrappedKey: string; // base64(iv | authTag | encrypted data key)
+    iv: string;
+    authTag: string;
+    ciphertext: string;
+    timestamp: number;
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export class EvidenceKeyring {
+    private masterKeys: Map<string, Buffer>;
+    private activeKeyId: string;
+
+    constructor(masterKeys: Record<string, Buffer>, activeKeyId: string) {
+        this.masterKeys = new Map(Object.entries(masterKeys));
+
+        for (const [keyId, key] of this.masterKeys) {
+            if (key.length !== KEY_LENGTH) {
+                throw new Error(`Evidence master key ${keyId} must be ${KEY_LENGTH} bytes`);
+            }
+        }
+        if (!this.masterKeys.has(activeKeyId)) {
+            throw new Error(`Active evidence master key ${activeKeyId} is not in the keyring`);
+        }
+        this.activeKeyId = activeKeyId;
+    }
+
+    /**
+     * Build a keyring from RELAY_EVIDENCE_MASTER_KEYS ("kid:hex,kid:hex") and
+     * RELAY_EVIDENCE_ACTIVE_KEY, falling back to a key derived from the relay secret
+     */
+    static fromEnv(relayPrivateKey: string): EvidenceKeyring {
+        const configured = process.env.RELAY_EVIDENCE_MASTER_KEYS;
+
+        if (!configured) {
+            const derived = Buffer.from(
+                hkdfSync('sha256', relayPrivateKey, Buffer.alloc(0), 'selectconnect:evidence:v1', KEY_LENGTH)
+            );
+            return new EvidenceKeyring({ 'relay-derived-v1': derived }, 'relay-derived-v1');
+        }
+
+        const keys: Record<string, Buffer> = {};
+        for (const entry of configured.split(',').map(e => e.trim()).filter(Boolean)) {
+            const [keyId, hexKey] = entry.split(':');
+            if (!keyId || !hexKey) {
+                throw new Error(`Malformed evidence master key entry: ${entry}`);
+            }
+            keys[keyId] = Buffer.from(hexKey, 'hex');
+        }
+
+        const activeKeyId = process.env.RELAY_EVIDENCE_ACTIVE_KEY || Object.keys(keys)[Object.keys(keys).length - 1];
+        return new EvidenceKeyring(keys, activeKeyId);
+    }
+
+    getActiveKeyId(): string {
+        return this.activeKeyId;
+    }
+
+    hasRetiredKeys(): boolean {
+        return this.masterKeys.size > 1;
+    }
+
+    /**
+     * Encrypt a plaintext under a fresh data key bound to the given context
+     */
+    seal(plaintext: Buffer, context: string): EncryptedEnvelope {
+        const dataKey = randomBytes(KEY_LENGTH);
+        const iv = randomBytes(IV_LENGTH);
+
+        const cipher = createCipheriv('aes-256-gcm', dataKey, iv);
+        cipher.setAAD(Buffer.from(context));
+        const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+        return {
+            version: 1,
+            algorithm: 'AES-256-GCM',
+            keyId: this.activeKeyId,
+            wrappedKey: this.wrapDataKey(dataKey, this.activeKeyId),
+            iv: iv.toString('base64'),
+            authTag: cipher.getAuthTag().toString('base64'),
+            ciphertext: ciphertext.toString('base64'),
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Decrypt an envelope; throws if the record or its context was tampered with
+     */
+    open(envelope: EncryptedEnvelope, context: string): Buffer {
+        const dataKey = this.unwrapDataKey(envelope.wrappedKey, envelope.keyId);
+
+        const decipher = createDecipheriv('aes-256-gcm', dataKey, Buffer.from(envelope.iv, 'base64'));
+        decipher.setAAD(Buffer.from(context));
+        decipher.setAuthTag(Buffer.from(envelope.authTag, 'base64'));
+
+        return Buffer.concat([
+            decipher.update(Buffer.from(envelope.ciphertext, 'base64')),
+            decipher.final()
+        ]);
+    }
+
+    /**
+     * Re-wrap an envelope's data key under the active master key
+     * Returns null when the envelope is already current
+     */
+    rewrap(envelope: EncryptedEnvelope): EncryptedEnvelope | null {
+        if (envelope.keyId === this.activeKeyId) {
+            return null;
+        }
+
+        const dataKey = this.unwrapDataKey(envelope.wrappedKey, envelope.keyId);
+        return {
+            ...envelope,
+            keyId: this.activeKeyId,
+            wrappedKey: this.wrapDataKey(dataKey, this.activeKeyId)
+        };
+    }
+
+    private wrapDataKey(dataKey: Buffer, keyId: string): string {
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv('aes-256-gcm', this.getMasterKey(keyId), iv);
+        cipher.setAAD(Buffer.from(keyId));
+        const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+        return Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64');
+    }
+
+    private unwrapDataKey(wrappedKey: string, keyId: string): Buffer {
+        const raw = Buffer.from(wrappedKey, 'base64');
+        const decipher = createDecipheriv('aes-256-gcm', this.getMasterKey(keyId), raw.subarray(0, IV_LENGTH));
+        decipher.setAAD(Buffer.from(keyId));
+        decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+        return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+    }
+
+    private getMasterKey(keyId: string): Buffer {
+        const key = this.masterKeys.get(keyId);
+        if (!key) {
+            throw new Error(`Unknown evidence master key: ${keyId}`);
+        }
+        return key;
+    }
+}
@@ -0,0 +1,312 @@
+import { createHash, randomBytes } from 'crypto';
+import { Server } from 'http';
+import winston from 'winston';
+import WebSocket, { WebSocketServer } from 'ws';
+
+import { AttachmentRef } from './AttachmentStore';
+import { verifyCardAdminProof } from './SignatureVerifier';
+import { RelayStore } from './storage';
+
+/**
+ * In-App Delivery Gateway - real-time WebSocket channel for card holders
+ *
+ * Protocol (JSON frames):
+ * - server -> client  { type: 'challenge', nonce }
+ * - client -> server  { type: 'subscribe', cardId, publicKey, keyType, signature }
+ *     signature covers sha256(`selectconnect:subscribe:<cardId>:<nonce>`) and the
+ *     key must derive the card's admin address
+ * - server -> client  { type: 'subscribed', cardId } | { type: 'error', code }
+ * - server -> client  { type: 'message', cardId, deliveryId, message }
+ * - client -> server  { type: 'ack', deliveryId }
+ *
+ * Delivery returns as soon as the message is sent; the client's ack arrives
+ * later, updates the delivery status and is reported to `onAcknowledged`.
+ * Messages are appended to a per-card stream and replayed on the next
+ * subscription until they are acknowledged, unless the caller keeps them
+ * itself (`queueIfOffline: false`), in which case nothing is replayed and a
+ * delivery to a card with no live subscriber fails with status OFFLINE; such
+ * callers resend their own copies from `onSubscribed`.
+ */
+
+export type InAppDeliveryStatus = 'ACKNOWLEDGED' | 'SENT' | 'QUEUED' | 'OFFLINE';
+
+export interface InAppDelivery {
+    success: boolean;
+    deliveryId: string;
+    status: InAppDeliveryStatus;
+}
+
+export interface InAppMessage {
+    content: string;
+    /** Set when content is a sealed envelope the client opens with the card's key */
+    contentCommitment?: string;
+    /** Blobs the client downloads from the relay */
+    attachments?: AttachmentRef[];
+    senderCommit: string;
+    cardId: string;
+    timestamp: number;
+}
+
+export interface InAppDeliveryOptions {
+    /** Keep the message for replay until acknowledged (default); false when the caller keeps it */
+    queueIfOffline?: boolean;
+    /** Caller's ID for the message, handed back with its ack */
+    reference?: string;
+}
+
+export interface InAppGatewayOptions {
+    /** Called once a client acknowledges a delivery */
+    onAcknowledged?: (cardId: string, deliveryId: string, reference?: string) => Promise<void>;
+    /** Called once a client subscribes to a card, after the gateway's own queue is replayed */
+    onSubscribed?: (cardId: string) => Promise<void>;
+}
+
+interface GatewaySocket extends WebSocket {
+    nonce: string;
+    cardIds: Set<string>;
+    alive: boolean;
+}
+
+export class InAppGateway {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private getCardAdmin: (cardId: string) => Promise<string>;
+    private onAcknowledged?: InAppGatewayOptions['onAcknowledged'];
+    private onSubscribed?: InAppGatewayOptions['onSubscribed'];
+    private wss?: WebSocketServer;
+    private heartbeat?: NodeJS.Timeout;
+    private subscribers: Map<string, Set<GatewaySocket>> = new Map();
+    private readonly STREAM_TTL = 30 * 24 * 3600; // 30 days
+    private readonly STREAM_MAX_LENGTH = 1000;
+    private readonly REPLAY_BATCH = 100;
+
+    constructor(
+        store: RelayStore,
+        logger: winston.Logger,
+        getCardAdmin: (cardId: string) => Promise<string>,
+        options: InAppGatewayOptions = {}
+    ) {
+        this.store = store;
+        this.logger = logger;
+        this.getCardAdmin = getCardAdmin;
+        this.onAcknowledged = options.onAcknowledged;
+        this.onSubscribed = options.onSubscribed;
+    }
+
+    /**
+     * Accept WebSocket upgrades on an existing HTTP server
+     */
+    attach(server: Server, path: string = '/v1/ws'): void {
+        this.wss = new WebSocketServer({ server, path });
+        this.wss.on('connection', (socket: WebSocket) => this.onConnection(socket as GatewaySocket));
+
+        this.heartbeat = setInterval(() => {
+            for (const socket of this.wss!.clients as Set<GatewaySocket>) {
+                if (!socket.alive) {
+                    socket.terminate();
+                    continue;
+                }
+                socket.alive = false;
+                socket.ping();
+            }
+        }, 30000);
+
+        this.logger.info('In-app delivery gateway attached', { path });
+    }
+
+    async close(): Promise<void> {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+        }
+        if (this.wss) {
+            for (const socket of this.wss.clients) {
+                socket.terminate();
+            }
+            await new Promise<void>(resolve => this.wss!.close(() => resolve()));
+            this.wss = undefined;
+        }
+    }
+
+    /**
+     * Send a message live if the card holder is connected, otherwise queue it (by default)
+     * Does not wait for the ack; poll getDeliveryStatus or use onAcknowledged
+     */
+    async deliver(message: InAppMessage, options: InAppDeliveryOptions = {}): Promise<InAppDelivery> {
+        const deliveryId = randomBytes(16).toString('hex');
+        const sockets = this.subscribers.get(message.cardId);
+        const live = sockets !== undefined && sockets.size > 0;
+
+        if (!live && options.queueIfOffline === false) {
+            return { success: false, deliveryId, status: 'OFFLINE' };
+        }
+
+        const status = live ? 'SENT' : 'QUEUED';
+        await this.recordStatus(deliveryId, message.cardId, status, options.reference);
+        if (options.queueIfOffline !== false) {
+            // Stored before sending so an immediate ack finds the copy to drop
+            await this.enqueue(deliveryId, message);
+        }
+        if (live) {
+            this.broadcast(sockets, { type: 'message', cardId: message.cardId, deliveryId, message });
+        }
+
+        return { success: true, deliveryId, status };
+    }
+
+    /**
+     * Current status of an earlier delivery, including acks received after the fact
+     */
+    async getDeliveryStatus(deliveryId: string): Promise<InAppDeliveryStatus | null> {
+        const status = await this.store.hashGet(this.deliveryKey(deliveryId), 'status');
+        return (status as InAppDeliveryStatus) || null;
+    }
+
+    private onConnection(socket: GatewaySocket): void {
+        socket.nonce = randomBytes(32).toString('hex');
+        socket.cardIds = new Set();
+        socket.alive = true;
+
+        socket.on('pong', () => {
+            socket.alive = true;
+        });
+        socket.on('message', (data: WebSocket.RawData) => {
+            this.onFrame(socket, data).catch(error => {
+                this.logger.error('In-app gateway frame handling failed', { error: (error as Error).message });
+                this.send(socket, { type: 'error', code: 'INTERNAL_ERROR' });
+            });
+        });
+        socket.on('close', () => {
+            for (const cardId of socket.cardIds) {
+                this.subscribers.get(cardId)?.delete(socket);
+            }
+        });
+
+        this.send(socket, { type: 'challenge', nonce: socket.nonce });
+    }
+
+    private async onFrame(socket: GatewaySocket, data: WebSocket.RawData): Promise<void> {
+        let frame: any;
+        try {
+            frame = JSON.parse(data.toString());
+        } catch {
+            this.send(socket, { type: 'error', code: 'MALFORMED_FRAME' });
+            return;
+        }
+
+        switch (frame.type) {
+            case 'subscribe':
+                await this.onSubscribe(socket, frame);
+                break;
+            case 'ack':
+                await this.onAck(socket, String(frame.deliveryId));
+                break;
+            default:
+                this.send(socket, { type: 'error', code: 'UNKNOWN_FRAME' });
+        }
+    }
+
+    private async onSubscribe(socket: GatewaySocket, frame: any): Promise<void> {
+        const { cardId, publicKey, keyType, signature } = frame;
+
+        if (typeof cardId !== 'string') {
+            this.send(socket, { type: 'error', code: 'INVALID_SUBSCRIPTION' });
+            return;
+        }
+
+        const cardAdmin = await this.getCardAdmin(cardId);
+        const challenge = createHash('sha256').update(`selectconnect:subscribe:${cardId}:${socket.nonce}`).digest('hex');
+
+        if (!verifyCardAdminProof({ publicKey, keyType, signature }, challenge, cardAdmin)) {
+            this.logger.warn('In-app subscription rejected', { cardId });
+            this.send(socket, { type: 'error', code: 'UNAUTHORIZED_SUBSCRIPTION', cardId });
+            return;
+        }
+
+        socket.cardIds.add(cardId);
+        if (!this.subscribers.has(cardId)) {
+            this.subscribers.set(cardId, new Set());
+        }
+        this.subscribers.get(cardId)!.add(socket);
+
+        this.send(socket, { type: 'subscribed', cardId });
+        await this.replay(socket, cardId);
+        await this.onSubscribed?.(cardId);
+    }
+
+    private async onAck(socket: GatewaySocket, deliveryId: string): Promise<void> {
+        const record = await this.store.hashGetAll(this.deliveryKey(deliveryId));
+        if (!record.cardId || !socket.cardIds.has(record.cardId)) {
+            this.send(socket, { type: 'error', code: 'UNKNOWN_DELIVERY', deliveryId });
+            return;
+        }
+
+        if (record.status === 'ACKNOWLEDGED') {
+            return;
+        }
+        if (record.streamId) {
+            await this.store.deleteFromStream(this.streamKey(record.cardId), record.streamId);
+        }
+        await this.recordStatus(deliveryId, record.cardId, 'ACKNOWLEDGED');
+
+        await this.onAcknowledged?.(record.cardId, deliveryId, record.reference);
+    }
+
+    /**
+     * Send every queued message for a card to a freshly subscribed socket
+     */
+    private async replay(socket: GatewaySocket, cardId: string): Promise<void> {
+        let after: string | undefined;
+
+        while (true) {
+            const entries = await this.store.readStream(this.streamKey(cardId), after, this.REPLAY_BATCH);
+            for (const { id, fields } of entries) {
+                this.send(socket, {
+                    type: 'message',
+                    cardId,
+                    deliveryId: fields.deliveryId,
+                    message: JSON.parse(fields.message)
+                });
+                after = id;
+            }
+            if (entries.length < this.REPLAY_BATCH) {
+                break;
+            }
+        }
+    }
+
+    private async enqueue(deliveryId: string, message: InAppMessage): Promise<void> {
+        const streamKey = this.streamKey(message.cardId);
+        const streamId = await this.store.appendToStream(streamKey, {
+            deliveryId,
+            message: JSON.stringify(message)
+        }, this.STREAM_MAX_LENGTH);
+        await this.store.expire(streamKey, this.STREAM_TTL);
+        await this.store.hashSet(this.deliveryKey(deliveryId), { streamId });
+    }
+
+    private async recordStatus(deliveryId: string, cardId: string, status: InAppDeliveryStatus, reference?: string): Promise<void> {
+        const key = this.deliveryKey(deliveryId);
+        await this.store.hashSet(key, { cardId, status, updatedAt: Date.now().toString(), ...(reference && { reference }) });
+        await this.store.expire(key, this.STREAM_TTL);
+    }
+
+    private broadcast(sockets: Set<GatewaySocket>, frame: object): void {
+        for (const socket of sockets) {
+            this.send(socket, frame);
+        }
+    }
+
+    private send(socket: WebSocket, frame: object): void {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(frame));
+        }
+    }
+
+    private streamKey(cardId: string): string {
+        return `inapp:${cardId}`;
+    }
+
+    private deliveryKey(deliveryId: string): string {
+        return `delivery:${deliveryId}`;
+    }
+}
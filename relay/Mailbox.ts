@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+
+import { EncryptedEnvelope, EvidenceKeyring } from './EvidenceKeyring';
+import { RelayStore } from './storage';
+
+/**
+ * Mailbox - durable per-card store-and-forward queue
+ *
+ * Every forwarded message is written here before any channel is tried, so
+ * it survives channel outages and relay restarts. Payloads are sealed with
+ * the evidence keyring; the card's pending list is a stream so recipients can
+ * page through it with the stream ID as cursor. A message stays pending until
+ * the recipient acknowledges or deletes it, or its retention lapses. Status
+ * records outlive the payload by a grace period so a message that was never
+ * delivered can still be reported as EXPIRED.
+ */
+
+export type MailboxStatus = 'QUEUED' | 'DELIVERED' | 'EXPIRED';
+
+export interface MailboxOptions {
+    /** How long undelivered and unacknowledged messages are kept */
+    retentionSeconds?: number;
+    /** Pending messages kept per card; the oldest are trimmed first */
+    maxMessagesPerCard?: number;
+}
+
+export interface MailboxEntry {
+    messageId: string;
+    cardId: string;
+    senderCommit: string;
+    evidenceHash: string;
+    status: MailboxStatus;
+    /** Delivery attempts across all channels */
+    attempts: number;
+    /** Channel that delivered the message */
+    channel?: string;
+    deliveryId?: string;
+    receivedAt: number;
+    expiresAt: number;
+    deliveredAt?: number;
+    acknowledgedAt?: number;
+}
+
+export interface MailboxMessage<T> extends MailboxEntry {
+    message: T;
+}
+
+export interface MailboxPage<T> {
+    messages: MailboxMessage<T>[];
+    /** Pass back to fetch the next page; absent on the last page */
+    cursor?: string;
+}
+
+interface StoredEntry extends Omit<MailboxEntry, 'status'> {
+    status: Exclude<MailboxStatus, 'EXPIRED'>;
+    streamId: string;
+}
+
+export class Mailbox {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private keyring: EvidenceKeyring;
+    private readonly retentionSeconds: number;
+    private readonly maxMessagesPerCard: number;
+    private readonly STATUS_GRACE = 7 * 24 * 3600; // 7 days
+
+    constructor(store: RelayStore, logger: winston.Logger, keyring: EvidenceKeyring, options: MailboxOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.keyring = keyring;
+        this.retentionSeconds = options.retentionSeconds || 7 * 24 * 3600;
+        this.maxMessagesPerCard = options.maxMessagesPerCard || 1000;
+    }
+
+    /**
+     * Store a message for a card before delivery is attempted
+     */
+    async enqueue<T>(cardId: string, senderCommit: string, evidenceHash: string, message: T): Promise<MailboxEntry> {
+        const messageId = randomBytes(16).toString('hex');
+        const receivedAt = Date.now();
+
+        const sealed = this.keyring.seal(Buffer.from(JSON.stringify(message)), `mailbox:${messageId}`);
+        await this.store.set(this.payloadKey(messageId), JSON.stringify(sealed), this.retentionSeconds);
+
+        const streamId = await this.store.appendToStream(this.indexKey(cardId), { messageId }, this.maxMessagesPerCard);
+        await this.store.expire(this.indexKey(cardId), this.retentionSeconds);
+
+        const entry: StoredEntry = {
+            messageId,
+            cardId,
+            senderCommit,
+            evidenceHash,
+            status: 'QUEUED',
+            attempts: 0,
+            receivedAt,
+            expiresAt: receivedAt + this.retentionSeconds * 1000,
+            streamId
+        };
+        await this.store.set(this.entryKey(messageId), JSON.stringify(entry), this.retentionSeconds + this.STATUS_GRACE);
+
+        return this.present(entry);
+    }
+
+    async get(messageId: string): Promise<MailboxEntry | null> {
+        const entry = await this.read(messageId);
+        return entry ? this.present(entry) : null;
+    }
+
+    async getPayload<T>(messageId: string): Promise<T | null> {
+        const stored = await this.store.get(this.payloadKey(messageId));
+        if (!stored) {
+            return null;
+        }
+        const payload = this.keyring.open(JSON.parse(stored) as EncryptedEnvelope, `mailbox:${messageId}`);
+        return JSON.parse(payload.toString('utf8'));
+    }
+
+    /**
+     * Count a delivery attempt; pass the channel result when one accepted the message
+     */
+    async recordAttempt(messageId: string, delivery?: { channel: string; deliveryId?: string }): Promise<MailboxEntry | null> {
+        const entry = await this.read(messageId);
+        if (!entry) {
+            return null;
+        }
+
+        entry.attempts++;
+        if (delivery && entry.status === 'QUEUED') {
+            entry.status = 'DELIVERED';
+            entry.channel = delivery.channel;
+            entry.deliveryId = delivery.deliveryId;
+            entry.deliveredAt = Date.now();
+        }
+
+        await this.store.replace(this.entryKey(messageId), JSON.stringify(entry));
+        return this.present(entry);
+    }
+
+    /**
+     * Pending (unacknowledged) messages for a card, oldest first
+     */
+    async pull<T>(cardId: string, cursor?: string, limit: number = 50): Promise<MailboxPage<T>> {
+        const streamEntries = await this.store.readStream(this.indexKey(cardId), cursor, limit);
+        const messages: MailboxMessage<T>[] = [];
+        const now = Date.now();
+
+        for (const { id, fields } of streamEntries) {
+            const entry = await this.read(fields.messageId);
+            const message = entry && entry.expiresAt > now ? await this.getPayload<T>(fields.messageId) : null;
+
+            if (!entry || !message) {
+                // Retention lapsed (or the entry was trimmed); drop it from the pending list
+                await this.store.deleteFromStream(this.indexKey(cardId), id);
+                continue;
+            }
+            messages.push({ ...this.present(entry), message });
+        }
+
+        return {
+            messages,
+            cursor: streamEntries.length === limit ? streamEntries[streamEntries.length - 1].id : undefined
+        };
+    }
+
+    /**
+     * Mark a message as received by the recipient and drop its payload
+     */
+    async acknowledge(cardId: string, messageId: string): Promise<MailboxEntry | null> {
+        const entry = await this.read(messageId);
+        if (!entry || entry.cardId !== cardId) {
+            return null;
+        }
+
+        if (!entry.acknowledgedAt) {
+            const now = Date.now();
+            entry.status = 'DELIVERED';
+            entry.deliveredAt = entry.deliveredAt || now;
+            entry.acknowledgedAt = now;
+            await this.store.replace(this.entryKey(messageId), JSON.stringify(entry));
+            await this.store.deleteFromStream(this.indexKey(cardId), entry.streamId);
+            await this.store.delete(this.payloadKey(messageId));
+        }
+
+        return this.present(entry);
+    }
+
+    /**
+     * Remove a message and its status record entirely
+     */
+    async remove(cardId: string, messageId: string): Promise<boolean> {
+        const entry = await this.read(messageId);
+        if (!entry || entry.cardId !== cardId) {
+            return false;
+        }
+
+        await this.store.deleteFromStream(this.indexKey(cardId), entry.streamId);
+        await this.store.delete(this.entryKey(messageId), this.payloadKey(messageId));
+        this.logger.info('Mailbox message deleted', { cardId, messageId });
+        return true;
+    }
+
+    private async read(messageId: string): Promise<StoredEntry | null> {
+        const stored = await this.store.get(this.entryKey(messageId));
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    /**
+     * Public view of an entry: undelivered messages past retention are EXPIRED
+     */
+    private present(entry: StoredEntry): MailboxEntry {
+        const { streamId, ...rest } = entry;
+        return entry.status === 'QUEUED' && entry.expiresAt <= Date.now()
+            ? { ...rest, status: 'EXPIRED' }
+            : rest;
+    }
+
+    private entryKey(messageId: string): string {
+        return `mailbox:${messageId}`;
+    }
+
+    private payloadKey(messageId: string): string {
+        return `mailbox_payload:${messageId}`;
+    }
+
+    private indexKey(cardId: string): string {
+        return `mailbox_index:${cardId}`;
+    }
+}
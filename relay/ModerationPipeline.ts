@@ -0,0 +1,382 @@
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+
+import { EncryptedEnvelope, EvidenceKeyring } from './EvidenceKeyring';
+import { RelayStore } from './storage';
+
+/**
+ * Moderation Pipeline - screens verified messages before they are delivered
+ *
+ * Analyzers run in order against the card's moderation policy. The first
+ * REJECT stops the chain; otherwise the first QUARANTINE wins and the
+ * message is held, sealed with the evidence keyring, until the card admin
+ * releases it or turns it into an abuse attestation. An analyzer that throws
+ * quarantines the message rather than letting it through.
+ *
+ * Card admins supply their own regular expressions, so patterns are length
+ * capped, refused when a quantified group contains another quantifier (the
+ * shape behind catastrophic backtracking), compiled once and only run
+ * against the start of long messages.
+ */
+
+export type ModerationVerdict = 'ALLOW' | 'QUARANTINE' | 'REJECT';
+
+export interface ModerationInput {
+    cardId: string;
+    senderCommit: string;
+    content: string;
+}
+
+export interface AnalyzerResult {
+    verdict: ModerationVerdict;
+    reason?: string;
+}
+
+export interface ModerationDecision extends AnalyzerResult {
+    /** Analyzer that produced the verdict; absent when every analyzer allowed the message */
+    analyzer?: string;
+}
+
+export type LinkPolicy = 'ALLOW' | 'QUARANTINE' | 'REJECT';
+
+export interface CardModerationPolicy {
+    rejectKeywords: string[];
+    quarantineKeywords: string[];
+    /** Case-insensitive regular expressions */
+    rejectPatterns: string[];
+    quarantinePatterns: string[];
+    links: LinkPolicy;
+    /** Domains (and their subdomains) exempt from the link policy */
+    allowedLinkDomains: string[];
+    classifierQuarantineScore: number;
+    classifierRejectScore: number;
+}
+
+export interface ContentAnalyzer {
+    readonly name: string;
+    analyze(input: ModerationInput, policy: CardModerationPolicy): Promise<AnalyzerResult>;
+}
+
+/**
+ * Local model scoring how abusive a message is, from 0 (benign) to 1
+ */
+export interface ContentClassifier {
+    classify(content: string): Promise<{ label: string; score: number }>;
+}
+
+export interface QuarantinedMessage {
+    quarantineId: string;
+    cardId: string;
+    senderCommit: string;
+    evidenceHash: string;
+    reason?: string;
+    analyzer?: string;
+    /** Set for a follow-up held back from an open conversation thread */
+    threadId?: string;
+    quarantinedAt: number;
+}
+
+export const DEFAULT_MODERATION_POLICY: CardModerationPolicy = {
+    rejectKeywords: [],
+    quarantineKeywords: [],
+    rejectPatterns: [],
+    quarantinePatterns: [],
+    links: 'ALLOW',
+    allowedLinkDomains: [],
+    classifierQuarantineScore: 0.7,
+    classifierRejectScore: 0.95
+};
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+
+const MAX_PATTERN_LENGTH = 200;
+// Patterns only see this many characters of a message
+const MAX_PATTERN_INPUT_LENGTH = 10_000;
+const MAX_COMPILED_PATTERNS = 1000;
+
+/**
+ * Compile a card admin's pattern, throwing a SyntaxError for invalid or unsafe ones
+ */
+export function compileModerationPattern(pattern: string): RegExp {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+        throw new SyntaxError(`Moderation pattern longer than ${MAX_PATTERN_LENGTH} characters`);
+    }
+    if (hasNestedQuantifier(pattern)) {
+        throw new SyntaxError(`Moderation pattern has a nested quantifier: ${pattern}`);
+    }
+    return new RegExp(pattern, 'i');
+}
+
+/**
+ * Whether a quantified group contains another quantifier, as in (a+)+ or (\w*x?){2,}
+ */
+function hasNestedQuantifier(pattern: string): boolean {
+    // One entry per open group: whether anything inside it is quantified
+    const groups: boolean[] = [];
+    const isQuantifier = (char: string | undefined) => char === '*' || char === '+' || char === '?' || char === '{';
+
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+                if (pattern[i] === '\\') {
+                    i++;
+                }
+            }
+        } else if (char === '(') {
+            groups.push(false);
+            if (pattern[i + 1] === '?') {
+                i++; // (?:, (?=, (?<name> and friends are not quantifiers
+            }
+        } else if (char === ')') {
+            const inner = groups.pop() || false;
+            const quantified = isQuantifier(pattern[i + 1]);
+            if (inner && quantified) {
+                return true;
+            }
+            if ((inner || quantified) && groups.length > 0) {
+                groups[groups.length - 1] = true;
+            }
+        } else if (isQuantifier(char) && groups.length > 0) {
+            groups[groups.length - 1] = true;
+        }
+    }
+    return false;
+}
+
+export class KeywordAnalyzer implements ContentAnalyzer {
+    readonly name = 'keywords';
+    private compiled: Map<string, RegExp> = new Map();
+
+    async analyze(input: ModerationInput, policy: CardModerationPolicy): Promise<AnalyzerResult> {
+        const content = input.content.toLowerCase();
+        const scanned = input.content.substring(0, MAX_PATTERN_INPUT_LENGTH);
+
+        if (policy.rejectKeywords.some(keyword => content.includes(keyword.toLowerCase()))) {
+            return { verdict: 'REJECT', reason: 'BLOCKED_KEYWORD' };
+        }
+        if (policy.rejectPatterns.some(pattern => this.compile(pattern).test(scanned))) {
+            return { verdict: 'REJECT', reason: 'BLOCKED_PATTERN' };
+        }
+
+        if (policy.quarantineKeywords.some(keyword => content.includes(keyword.toLowerCase()))) {
+            return { verdict: 'QUARANTINE', reason: 'FLAGGED_KEYWORD' };
+        }
+        if (policy.quarantinePatterns.some(pattern => this.compile(pattern).test(scanned))) {
+            return { verdict: 'QUARANTINE', reason: 'FLAGGED_PATTERN' };
+        }
+
+        return { verdict: 'ALLOW' };
+    }
+
+    /**
+     * Patterns are compiled the first time a policy uses them, not per message
+     */
+    private compile(pattern: string): RegExp {
+        let regex = this.compiled.get(pattern);
+        if (!regex) {
+            if (this.compiled.size >= MAX_COMPILED_PATTERNS) {
+                this.compiled.clear();
+            }
+            regex = compileModerationPattern(pattern);
+            this.compiled.set(pattern, regex);
+        }
+        return regex;
+    }
+}
+
+export class LinkAnalyzer implements ContentAnalyzer {
+    readonly name = 'links';
+
+    async analyze(input: ModerationInput, policy: CardModerationPolicy): Promise<AnalyzerResult> {
+        if (policy.links === 'ALLOW') {
+            return { verdict: 'ALLOW' };
+        }
+
+        const links = input.content.match(URL_PATTERN) || [];
+        const disallowed = links.filter(link => !this.isAllowedDomain(link, policy.allowedLinkDomains));
+
+        return disallowed.length > 0
+            ? { verdict: policy.links, reason: 'CONTAINS_LINK' }
+            : { verdict: 'ALLOW' };
+    }
+
+    private isAllowedDomain(link: string, allowedDomains: string[]): boolean {
+        let hostname: string;
+        try {
+            hostname = new URL(link.startsWith('www.') ? `https://${link}` : link).hostname.toLowerCase();
+        } catch {
+            return false;
+        }
+        return allowedDomains.some(domain => {
+            const allowed = domain.toLowerCase();
+            return hostname === allowed || hostname.endsWith(`.${allowed}`);
+        });
+    }
+}
+
+export class ClassifierAnalyzer implements ContentAnalyzer {
+    readonly name = 'classifier';
+    private classifier: ContentClassifier;
+
+    constructor(classifier: ContentClassifier) {
+        this.classifier = classifier;
+    }
+
+    async analyze(input: ModerationInput, policy: CardModerationPolicy): Promise<AnalyzerResult> {
+        const { label, score } = await this.classifier.classify(input.content);
+
+        if (score >= policy.classifierRejectScore) {
+            return { verdict: 'REJECT', reason: `CLASSIFIED_${label.toUpperCase()}` };
+        }
+        if (score >= policy.classifierQuarantineScore) {
+            return { verdict: 'QUARANTINE', reason: `CLASSIFIED_${label.toUpperCase()}` };
+        }
+        return { verdict: 'ALLOW' };
+    }
+}
+
+export class ModerationPipeline {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private keyring: EvidenceKeyring;
+    private analyzers: ContentAnalyzer[];
+    private readonly QUARANTINE_TTL = 30 * 24 * 3600; // 30 days
+
+    constructor(store: RelayStore, logger: winston.Logger, keyring: EvidenceKeyring, analyzers: ContentAnalyzer[]) {
+        this.store = store;
+        this.logger = logger;
+        this.keyring = keyring;
+        this.analyzers = analyzers;
+    }
+
+    /**
+     * Default chain: keyword/regex lists, link detection, then the classifier if one is configured
+     */
+    static defaultAnalyzers(classifier?: ContentClassifier): ContentAnalyzer[] {
+        const analyzers: ContentAnalyzer[] = [new KeywordAnalyzer(), new LinkAnalyzer()];
+        if (classifier) {
+            analyzers.push(new ClassifierAnalyzer(classifier));
+        }
+        return analyzers;
+    }
+
+    async evaluate(input: ModerationInput): Promise<ModerationDecision> {
+        const policy = await this.getPolicy(input.cardId);
+        let quarantine: ModerationDecision | undefined;
+
+        for (const analyzer of this.analyzers) {
+            let result: AnalyzerResult;
+            try {
+                result = await analyzer.analyze(input, policy);
+            } catch (error) {
+                this.logger.error('Moderation analyzer failed', {
+                    analyzer: analyzer.name,
+                    cardId: input.cardId,
+                    error: (error as Error).message
+                });
+                result = { verdict: 'QUARANTINE', reason: 'ANALYZER_ERROR' };
+            }
+
+            if (result.verdict === 'REJECT') {
+                return { ...result, analyzer: analyzer.name };
+            }
+            if (result.verdict === 'QUARANTINE' && !quarantine) {
+                quarantine = { ...result, analyzer: analyzer.name };
+            }
+        }
+
+        return quarantine || { verdict: 'ALLOW' };
+    }
+
+    async getPolicy(cardId: string): Promise<CardModerationPolicy> {
+        const stored = await this.store.get(`moderation_policy:${cardId}`);
+        return stored ? { ...DEFAULT_MODERATION_POLICY, ...JSON.parse(stored) } : DEFAULT_MODERATION_POLICY;
+    }
+
+    async setPolicy(cardId: string, policy: Partial<CardModerationPolicy>): Promise<void> {
+        for (const pattern of [...(policy.rejectPatterns || []), ...(policy.quarantinePatterns || [])]) {
+            compileModerationPattern(pattern); // throws on invalid or unsafe patterns before anything is stored
+        }
+        await this.store.set(`moderation_policy:${cardId}`, JSON.stringify(policy));
+    }
+
+    /**
+     * Hold a message for the card admin; the payload is sealed like evidence
+     */
+    async quarantine<T>(
+        input: ModerationInput,
+        evidenceHash: string,
+        decision: ModerationDecision,
+        payload: T,
+        threadId?: string
+    ): Promise<QuarantinedMessage> {
+        const quarantineId = randomBytes(16).toString('hex');
+        const record: QuarantinedMessage = {
+            quarantineId,
+            cardId: input.cardId,
+            senderCommit: input.senderCommit,
+            evidenceHash,
+            reason: decision.reason,
+            analyzer: decision.analyzer,
+            ...(threadId && { threadId }),
+            quarantinedAt: Date.now()
+        };
+
+        const sealed = this.keyring.seal(Buffer.from(JSON.stringify(payload)), `quarantine:${quarantineId}`);
+        await this.store.set(`quarantine_payload:${quarantineId}`, JSON.stringify(sealed), this.QUARANTINE_TTL);
+        await this.store.set(`quarantine:${quarantineId}`, JSON.stringify(record), this.QUARANTINE_TTL);
+        await this.store.addToSet(`quarantine_index:${input.cardId}`, quarantineId);
+
+        this.logger.info('Message quarantined', { quarantineId, cardId: input.cardId, reason: decision.reason });
+        return record;
+    }
+
+    /**
+     * Held messages for a card (metadata only), dropping any whose retention has lapsed
+     */
+    async list(cardId: string): Promise<QuarantinedMessage[]> {
+        const held: QuarantinedMessage[] = [];
+
+        for (const quarantineId of await this.store.getSetMembers(`quarantine_index:${cardId}`)) {
+            const stored = await this.store.get(`quarantine:${quarantineId}`);
+            if (stored) {
+                held.push(JSON.parse(stored));
+            } else {
+                await this.store.removeFromSet(`quarantine_index:${cardId}`, quarantineId);
+            }
+        }
+
+        return held.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+    }
+
+    /**
+     * Remove a held message and return it with its payload, or null if it is gone
+     */
+    async take<T>(cardId: string, quarantineId: string): Promise<{ record: QuarantinedMessage; payload: T } | null> {
+        const [storedRecord, storedPayload] = await Promise.all([
+            this.store.get(`quarantine:${quarantineId}`),
+            this.store.get(`quarantine_payload:${quarantineId}`)
+        ]);
+        if (!storedRecord || !storedPayload) {
+            return null;
+        }
+
+        const record = JSON.parse(storedRecord) as QuarantinedMessage;
+        if (record.cardId !== cardId) {
+            return null;
+        }
+
+        // Deleting first makes release/report single-use even under concurrent calls
+        if (await this.store.delete(`quarantine:${quarantineId}`) === 0) {
+            return null;
+        }
+        await this.store.delete(`quarantine_payload:${quarantineId}`);
+        await this.store.removeFromSet(`quarantine_index:${cardId}`, quarantineId);
+
+        const payload = this.keyring.open(JSON.parse(storedPayload) as EncryptedEnvelope, `quarantine:${quarantineId}`);
+        return { record, payload: JSON.parse(payload.toString('utf8')) };
+    }
+}
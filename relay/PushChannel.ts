@@ -0,0 +1,246 @@
+import { createHash, randomBytes } from 'crypto';
+import winston from 'winston';
+import webpush, { PushSubscription, RequestDetails, VapidKeys } from 'web-push';
+
+import { EncryptedEnvelope, EvidenceKeyring } from './EvidenceKeyring';
+import { RelayStore } from './storage';
+
+/**
+ * Web Push Delivery Channel - notifies card holders' browsers and devices
+ *
+ * Payloads are encrypted to each subscription's keys with aes128gcm
+ * (RFC 8291 / RFC 8188) and authenticated to the push service with VAPID
+ * (RFC 8292). Subscriptions the push service reports as gone (404/410) are
+ * pruned. The HTTP hop to the push service goes through an injectable
+ * PushSender so tests can point it at a local stand-in.
+ */
+
+export interface PushRequest {
+    endpoint: string;
+    method: 'POST';
+    headers: Record<string, string>;
+    body: Buffer | null;
+}
+
+/**
+ * Performs the HTTP request to a push service and reports its status code
+ */
+export type PushSender = (request: PushRequest) => Promise<{ statusCode: number }>;
+
+export interface PushChannelOptions {
+    sender?: PushSender;
+    vapidKeys?: VapidKeys;
+    vapidSubject?: string;
+    ttlSeconds?: number;
+}
+
+export interface PushMessage {
+    content: string;
+    contentCommitment?: string;
+    senderCommit: string;
+    cardId: string;
+    timestamp: number;
+}
+
+export interface PushDelivery {
+    success: boolean;
+    deliveryId: string;
+    status: 'SENT';
+    accepted: number;
+    pruned: number;
+}
+
+// One 4096-byte aes128gcm record (RFC 8291) less its 86-byte header, 16-byte tag and padding delimiter
+const MAX_PAYLOAD_BYTES = 4096 - 86 - 16 - 1;
+
+/**
+ * Thrown for push service responses worth retrying (429 and 5xx)
+ */
+class TransientPushError extends Error {
+    constructor(readonly statusCode: number) {
+        super(`Push service responded with ${statusCode}`);
+    }
+}
+
+export class PushChannel {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private keyring: EvidenceKeyring;
+    private retry: <T>(operation: () => Promise<T>) => Promise<T>;
+    private sender: PushSender;
+    private vapidKeys?: VapidKeys;
+    private vapidSubject: string;
+    private readonly TTL: number;
+
+    constructor(
+        store: RelayStore,
+        logger: winston.Logger,
+        keyring: EvidenceKeyring,
+        retry: <T>(operation: () => Promise<T>) => Promise<T>,
+        options: PushChannelOptions = {}
+    ) {
+        this.store = store;
+        this.logger = logger;
+        this.keyring = keyring;
+        this.retry = retry;
+        this.sender = options.sender || defaultPushSender;
+        this.vapidKeys = options.vapidKeys || readVapidKeysFromEnv();
+        this.vapidSubject = options.vapidSubject || process.env.VAPID_SUBJECT || 'mailto:relay@selectconnect.pro';
+        this.TTL = options.ttlSeconds || 24 * 3600; // 24 hours
+    }
+
+    /**
+     * VAPID application server key that clients pass to pushManager.subscribe()
+     */
+    async getPublicKey(): Promise<string> {
+        return (await this.getVapidKeys()).publicKey;
+    }
+
+    async subscribe(cardId: string, subscription: PushSubscription): Promise<void> {
+        await this.store.hashSet(this.subscriptionsKey(cardId), {
+            [this.endpointId(subscription.endpoint)]: JSON.stringify(subscription)
+        });
+        this.logger.info('Push subscription registered', { cardId });
+    }
+
+    async unsubscribe(cardId: string, endpoint: string): Promise<void> {
+        await this.store.hashDelete(this.subscriptionsKey(cardId), this.endpointId(endpoint));
+    }
+
+    /**
+     * Push a message to every subscription registered for the card
+     */
+    async send(message: PushMessage): Promise<PushDelivery> {
+        const stored = await this.store.hashGetAll(this.subscriptionsKey(message.cardId));
+        const subscriptions = Object.values(stored).map(value => JSON.parse(value) as PushSubscription);
+        if (subscriptions.length === 0) {
+            throw new Error('No push subscriptions registered for card');
+        }
+
+        const deliveryId = randomBytes(16).toString('hex');
+        const notification = {
+            type: 'bonded-intro',
+            deliveryId,
+            cardId: message.cardId,
+            senderCommit: message.senderCommit,
+            timestamp: message.timestamp,
+            preview: ''
+        };
+        // Sealed content is only readable on the recipient's device, so it gets no preview
+        if (!message.contentCommitment) {
+            notification.preview = truncatePreview(message.content, MAX_PAYLOAD_BYTES - Buffer.byteLength(JSON.stringify(notification)));
+        }
+        const payload = JSON.stringify(notification);
+
+        const vapidKeys = await this.getVapidKeys();
+        let accepted = 0;
+        let pruned = 0;
+
+        for (const subscription of subscriptions) {
+            try {
+                const request = webpush.generateRequestDetails(subscription, payload, {
+                    vapidDetails: { subject: this.vapidSubject, ...vapidKeys },
+                    contentEncoding: 'aes128gcm',
+                    TTL: this.TTL,
+                    urgency: 'high'
+                });
+
+                const statusCode = await this.retry(async () => {
+                    const response = await this.sender(toPushRequest(request));
+                    if (response.statusCode === 429 || response.statusCode >= 500) {
+                        throw new TransientPushError(response.statusCode);
+                    }
+                    return response.statusCode;
+                });
+
+                if (statusCode === 404 || statusCode === 410) {
+                    await this.unsubscribe(message.cardId, subscription.endpoint);
+                    pruned++;
+                } else if (statusCode >= 200 && statusCode < 300) {
+                    accepted++;
+                } else {
+                    this.logger.warn('Push service rejected notification', { cardId: message.cardId, statusCode });
+                }
+            } catch (error) {
+                this.logger.error('Push delivery failed', {
+                    cardId: message.cardId,
+                    error: (error as Error).message
+                });
+            }
+        }
+
+        if (pruned > 0) {
+            this.logger.info('Pruned expired push subscriptions', { cardId: message.cardId, pruned });
+        }
+
+        return { success: accepted > 0, deliveryId, status: 'SENT', accepted, pruned };
+    }
+
+    /**
+     * Use configured VAPID keys, or generate a relay-wide pair once and keep it sealed in the store
+     */
+    private async getVapidKeys(): Promise<VapidKeys> {
+        if (this.vapidKeys) {
+            return this.vapidKeys;
+        }
+
+        const generated = webpush.generateVAPIDKeys();
+        const sealed = this.keyring.seal(Buffer.from(JSON.stringify(generated)), 'push:vapid');
+        await this.store.setIfAbsent('push:vapid', JSON.stringify(sealed));
+
+        // Another relay instance may have won the race; always use the stored pair
+        const stored = JSON.parse((await this.store.get('push:vapid'))!) as EncryptedEnvelope;
+        this.vapidKeys = JSON.parse(this.keyring.open(stored, 'push:vapid').toString('utf8')) as VapidKeys;
+        return this.vapidKeys;
+    }
+
+    private subscriptionsKey(cardId: string): string {
+        return `push_subs:${cardId}`;
+    }
+
+    private endpointId(endpoint: string): string {
+        return createHash('sha256').update(endpoint).digest('hex');
+    }
+}
+
+function readVapidKeysFromEnv(): VapidKeys | undefined {
+    const publicKey = process.env.VAPID_PUBLIC_KEY;
+    const privateKey = process.env.VAPID_PRIVATE_KEY;
+    return publicKey && privateKey ? { publicKey, privateKey } : undefined;
+}
+
+/**
+ * Longest prefix of whole code points whose JSON-escaped UTF-8 form fits in maxBytes
+ */
+function truncatePreview(content: string, maxBytes: number): string {
+    let bytes = 0;
+    let preview = '';
+    for (const char of content) {
+        bytes += Buffer.byteLength(JSON.stringify(char)) - 2;
+        if (bytes > maxBytes) {
+            break;
+        }
+        preview += char;
+    }
+    return preview;
+}
+
+function toPushRequest(details: RequestDetails): PushRequest {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(details.headers)) {
+        headers[name] = String(value);
+    }
+    return { endpoint: details.endpoint, method: details.method, headers, body: details.body };
+}
+
+/**
+ * Default sender: plain HTTPS POST to the subscription endpoint
+ */
+const defaultPushSender: PushSender = async request => {
+    const response = await fetch(request.endpoint, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body ? new Uint8Array(request.body) : undefined
+    });
+    return { statusCode: response.status };
+};
@@ -0,0 +1,259 @@
+import winston from 'winston';
+
+import { RelayStore } from './storage';
+
+/**
+ * Rate Limiter - sliding-window limits per sender, per card and per pair
+ *
+ * Each scope keeps one counter per fixed window; the current rate is the
+ * current window plus the previous window weighted by how much of it still
+ * overlaps the sliding window. This avoids the burst a fixed window allows
+ * at its boundary while needing only counters from the store.
+ *
+ * Sender limits come from reputation tiers derived from the on-chain
+ * (totalBonds, slashedCount) tuple and the spam reports recipients filed
+ * against the sender through privacy routes. Card limits are a relay default that the
+ * card admin can override, which also caps what any single sender may send
+ * to that card. Attachment uploads count their bytes, in the same windows,
+ * against a per-sender and a per-card byte quota.
+ */
+
+export type RateLimitScope = 'sender' | 'card' | 'pair';
+
+export interface SenderReputation {
+    totalBonds: number;
+    slashedCount: number;
+    /** Spam reports the relay submitted on-chain for this sender */
+    spamReports?: number;
+}
+
+export interface ReputationTier {
+    name: string;
+    minTotalBonds: number;
+    maxSlashedCount: number;
+    /** Unlimited when unset */
+    maxSpamReports?: number;
+    /** Messages per window across all cards */
+    senderLimit: number;
+    /** Messages per window to any one card */
+    pairLimit: number;
+}
+
+export interface CardRateQuota {
+    /** Messages per window from all senders combined */
+    perCard: number;
+    /** Messages per window from any one sender */
+    perSender: number;
+}
+
+export interface UploadByteQuota {
+    /** Attachment bytes per window from one sender across all cards */
+    perSender: number;
+    /** Attachment bytes per window to one card from all senders */
+    perCard: number;
+}
+
+export interface RateLimiterOptions {
+    windowSeconds?: number;
+    /** Checked in order; the first matching tier applies */
+    tiers?: ReputationTier[];
+    defaultCardQuota?: CardRateQuota;
+    uploadQuota?: UploadByteQuota;
+    /** Reject messages when the store cannot be read instead of letting them through */
+    failClosed?: boolean;
+}
+
+export interface RateLimitDecision {
+    allowed: boolean;
+    tier: string;
+    /** Scope that rejected the message */
+    scope?: RateLimitScope;
+    /** Seconds until the message would be accepted */
+    retryAfter?: number;
+}
+
+export interface UploadQuotaDecision {
+    allowed: boolean;
+    /** Quota that rejected the upload */
+    scope?: RateLimitScope;
+    /** Seconds until the upload would be accepted; unset when it is larger than the quota itself */
+    retryAfter?: number;
+}
+
+export const DEFAULT_REPUTATION_TIERS: ReputationTier[] = [
+    { name: 'TRUSTED', minTotalBonds: 20, maxSlashedCount: 0, maxSpamReports: 0, senderLimit: 30, pairLimit: 5 },
+    { name: 'ESTABLISHED', minTotalBonds: 3, maxSlashedCount: 0, maxSpamReports: 2, senderLimit: 10, pairLimit: 3 },
+    { name: 'NEW', minTotalBonds: 0, maxSlashedCount: 0, maxSpamReports: 2, senderLimit: 5, pairLimit: 2 },
+    { name: 'PROBATION', minTotalBonds: 0, maxSlashedCount: 2, senderLimit: 3, pairLimit: 1 },
+    { name: 'RESTRICTED', minTotalBonds: 0, maxSlashedCount: Number.MAX_SAFE_INTEGER, senderLimit: 1, pairLimit: 1 }
+];
+
+interface ScopeCheck {
+    scope: RateLimitScope;
+    key: string;
+    limit: number;
+}
+
+export class RateLimiter {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private readonly windowMs: number;
+    private readonly tiers: ReputationTier[];
+    private readonly defaultCardQuota: CardRateQuota;
+    private readonly uploadQuota: UploadByteQuota;
+    private readonly failClosed: boolean;
+
+    constructor(store: RelayStore, logger: winston.Logger, options: RateLimiterOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.windowMs = (options.windowSeconds || 3600) * 1000;
+        this.tiers = options.tiers || DEFAULT_REPUTATION_TIERS;
+        this.defaultCardQuota = options.defaultCardQuota || { perCard: 100, perSender: 5 };
+        this.uploadQuota = options.uploadQuota || { perSender: 50 * 1024 * 1024, perCard: 200 * 1024 * 1024 };
+        this.failClosed = options.failClosed || false;
+    }
+
+    /**
+     * Count the message against the sender, card and pair scopes
+     */
+    async consume(cardId: string, senderCommit: string, reputation: SenderReputation): Promise<RateLimitDecision> {
+        const tier = this.tierFor(reputation);
+
+        try {
+            const rejected = await this.count(await this.scopesFor(cardId, senderCommit, tier), 1);
+            if (rejected) {
+                this.logger.debug('Rate limit exceeded', { cardId, senderCommit, tier: tier.name, scope: rejected.scope });
+                return { allowed: false, tier: tier.name, ...rejected };
+            }
+
+            return { allowed: true, tier: tier.name };
+
+        } catch (error) {
+            this.logger.error('Rate limiting check failed', {
+                error: (error as Error).message,
+                cardId,
+                senderCommit,
+                failClosed: this.failClosed
+            });
+
+            return this.failClosed
+                ? { allowed: false, tier: tier.name, retryAfter: 60 }
+                : { allowed: true, tier: tier.name };
+        }
+    }
+
+    /**
+     * Count an attachment upload's bytes against the sender's and the card's byte quotas, like consume
+     */
+    async consumeBytes(cardId: string, senderCommit: string, bytes: number): Promise<UploadQuotaDecision> {
+        const scopes: ScopeCheck[] = [
+            { scope: 'sender', key: `rate:upload_sender:${senderCommit}`, limit: this.uploadQuota.perSender },
+            { scope: 'card', key: `rate:upload_card:${cardId}`, limit: this.uploadQuota.perCard }
+        ];
+        const oversized = scopes.find(check => bytes > check.limit);
+        if (oversized) {
+            return { allowed: false, scope: oversized.scope };
+        }
+
+        try {
+            const rejected = await this.count(scopes, bytes);
+            if (rejected) {
+                this.logger.debug('Upload quota exceeded', { cardId, senderCommit, bytes, scope: rejected.scope });
+                return { allowed: false, ...rejected };
+            }
+
+            return { allowed: true };
+
+        } catch (error) {
+            this.logger.error('Upload quota check failed', {
+                error: (error as Error).message,
+                cardId,
+                senderCommit,
+                failClosed: this.failClosed
+            });
+
+            return this.failClosed ? { allowed: false, retryAfter: 60 } : { allowed: true };
+        }
+    }
+
+    tierFor(reputation: SenderReputation): ReputationTier {
+        return this.tiers.find(tier =>
+            reputation.totalBonds >= tier.minTotalBonds
+            && reputation.slashedCount <= tier.maxSlashedCount
+            && (reputation.spamReports || 0) <= (tier.maxSpamReports ?? Number.MAX_SAFE_INTEGER)
+        ) || this.tiers[this.tiers.length - 1];
+    }
+
+    async getCardQuota(cardId: string): Promise<CardRateQuota> {
+        const stored = await this.store.get(`rate_quota:${cardId}`);
+        return stored ? JSON.parse(stored) : this.defaultCardQuota;
+    }
+
+    async setCardQuota(cardId: string, quota: CardRateQuota): Promise<void> {
+        await this.store.set(`rate_quota:${cardId}`, JSON.stringify(quota));
+    }
+
+    /**
+     * Add amount to every scope's current window, taking it back out if any scope is over its limit
+     *
+     * Counting before comparing means relay instances sharing a store see each
+     * other's requests, so concurrent requests cannot all pass the same last slot.
+     */
+    private async count(scopes: ScopeCheck[], amount: number): Promise<{ scope: RateLimitScope; retryAfter: number } | undefined> {
+        const now = Date.now();
+        const window = Math.floor(now / this.windowMs);
+        const ttlSeconds = Math.ceil((2 * this.windowMs) / 1000);
+        const counts = await Promise.all(scopes.map(check => this.store.increment(`${check.key}:${window}`, ttlSeconds, amount)));
+        let rejected: { scope: RateLimitScope; retryAfter: number } | undefined;
+
+        for (const [i, check] of scopes.entries()) {
+            // Everything counted in this window before this request
+            const retryAfter = await this.retryAfter(check, now, counts[i] - amount, amount);
+            if (retryAfter > 0 && (!rejected || retryAfter > rejected.retryAfter)) {
+                rejected = { scope: check.scope, retryAfter };
+            }
+        }
+
+        if (rejected) {
+            await Promise.all(scopes.map(check => this.store.decrement(`${check.key}:${window}`, amount)));
+        }
+        return rejected;
+    }
+
+    private async scopesFor(cardId: string, senderCommit: string, tier: ReputationTier): Promise<ScopeCheck[]> {
+        const quota = await this.getCardQuota(cardId);
+        return [
+            { scope: 'sender', key: `rate:sender:${senderCommit}`, limit: tier.senderLimit },
+            { scope: 'card', key: `rate:card:${cardId}`, limit: quota.perCard },
+            { scope: 'pair', key: `rate:pair:${cardId}:${senderCommit}`, limit: Math.min(tier.pairLimit, quota.perSender) }
+        ];
+    }
+
+    /**
+     * Milliseconds-precise wait (rounded up to seconds) until the sliding
+     * count leaves room for amount more, assuming no further requests; 0 if allowed now
+     */
+    private async retryAfter(check: ScopeCheck, now: number, current: number, amount: number): Promise<number> {
+        const window = Math.floor(now / this.windowMs);
+        const elapsed = now - window * this.windowMs;
+        const previous = parseInt((await this.store.get(`${check.key}:${window - 1}`)) || '0');
+        // Room for amount means the count before it stays below limit - amount + 1
+        const limit = check.limit - amount + 1;
+
+        const estimate = previous * (this.windowMs - elapsed) / this.windowMs + current;
+        if (estimate < limit) {
+            return 0;
+        }
+
+        let waitMs: number;
+        if (current < limit) {
+            // The previous window's share decays below the headroom left in this one
+            waitMs = (this.windowMs - elapsed) - (limit - current) * this.windowMs / previous;
+        } else {
+            // This window alone is full: wait until its share decays inside the next one
+            waitMs = (this.windowMs - elapsed) + this.windowMs * (1 - limit / current);
+        }
+
+        return Math.max(1, Math.ceil((waitMs + 1) / 1000));
+    }
+}
@@ -0,0 +1,454 @@
+import { readFileSync } from 'fs';
+import Ajv, { ErrorObject } from 'ajv';
+import { RedisOptions } from 'ioredis';
+
+import { ATTACHMENT_MIME_TYPES, CardAttachmentPolicy } from './AttachmentStore';
+import { CardRateQuota, ReputationTier, UploadByteQuota } from './RateLimiter';
+import { DEFAULT_RETENTION_POLICIES, RetentionClass, RetentionPolicy } from './RetentionEngine';
+
+/**
+ * Relay Config - typed, validated settings for SelectConnectRelay
+ *
+ * Settings are layered: built-in defaults, then an optional JSON file
+ * (RELAY_CONFIG_FILE), then individual environment variables. The merged
+ * result is validated against a JSON Schema that rejects unknown keys, so a
+ * typo in the file fails startup instead of silently using a default.
+ * Storage and server settings are structural and read once at startup;
+ * everything else can be reloaded into a running relay.
+ */
+
+export interface RelayConfig {
+    storage: {
+        backend: 'redis' | 'memory';
+        /** Shared by the store and the Bull job queues */
+        redis: {
+            host: string;
+            port: number;
+            password?: string;
+            db: number;
+            tls: boolean;
+        };
+        /** Local directory holding encrypted attachment blobs */
+        attachmentDirectory: string;
+    };
+    server: {
+        port: number;
+        corsOrigin?: string;
+        /** Bearer token for the operator routes (retention reports, audit entries); they stay closed without one */
+        operatorToken?: string;
+    };
+    bonds: {
+        /** How long a positive bond check is cached; never past the bond's expiry */
+        cacheTtlSeconds: number;
+        /** How long a "no active bond" answer is cached */
+        negativeCacheTtlSeconds: number;
+        /** How often bond_meta is polled for posted, refunded, slashed and expired bonds when no event source is given */
+        ledgerPollSeconds: number;
+        /** Required bond when the card policy has none or cannot be read */
+        defaultRequiredAmount: string;
+    };
+    contractCalls: {
+        maxRetries: number;
+        /** First retry delay, doubling per attempt */
+        retryDelayMs: number;
+    };
+    messages: {
+        /** Validity of forwarding attestations and signed card-admin requests */
+        maxAgeSeconds: number;
+        /** Accepted difference between a message timestamp and the relay clock, either way */
+        clockSkewSeconds: number;
+    };
+    attestations: {
+        defaultChallengeWindowHours: number;
+        /** Distinct guardians that must attest before a slash, for cards without their own policy */
+        defaultQuorumThreshold: number;
+        /** Hours from the first attestation in which the quorum must be reached */
+        defaultQuorumWindowHours: number;
+    };
+    delivery: {
+        maxAttempts: number;
+        /** First mailbox redelivery delay, doubling per attempt */
+        retryDelayMs: number;
+    };
+    mailbox: {
+        retentionSeconds: number;
+        maxMessagesPerCard: number;
+    };
+    threads: {
+        /** Lifetime of a conversation thread from the reply that opened it */
+        ttlSeconds: number;
+        /** Messages each side of a thread may send per window */
+        messagesPerWindow: number;
+        windowSeconds: number;
+        maxMessages: number;
+    };
+    attachments: {
+        /** Largest blob accepted for any card */
+        maxBytes: number;
+        maxPerMessage: number;
+        /** How long a blob is kept after its last upload or delivery */
+        retentionSeconds: number;
+        /** Policy for cards that have not set their own */
+        defaultPolicy: CardAttachmentPolicy;
+    };
+    rateLimits: {
+        windowSeconds: number;
+        defaultCardQuota: CardRateQuota;
+        /** Attachment bytes per window */
+        uploadQuota: UploadByteQuota;
+        failClosed: boolean;
+        tiers?: ReputationTier[];
+    };
+    retention: {
+        /** The evidence policy is also the lifetime evidence is written with */
+        policies: Record<RetentionClass, RetentionPolicy>;
+        scanBatchSize: number;
+        reportRetentionSeconds: number;
+    };
+}
+
+/**
+ * Raised when the configuration file or environment holds invalid settings
+ */
+export class RelayConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid relay configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.name = 'RelayConfigError';
+        this.problems = problems;
+    }
+}
+
+export interface LoadRelayConfigOptions {
+    /** JSON config file; defaults to RELAY_CONFIG_FILE */
+    file?: string;
+    env?: NodeJS.ProcessEnv;
+}
+
+// Sections that need a restart to change
+const STRUCTURAL_SECTIONS: (keyof RelayConfig)[] = ['storage', 'server'];
+
+type EnvType = 'string' | 'integer' | 'boolean' | 'days';
+
+// Environment variable, config path, and how to read the value
+const ENV_OVERRIDES: [string, string, EnvType][] = [
+    ['RELAY_STORAGE', 'storage.backend', 'string'],
+    ['REDIS_HOST', 'storage.redis.host', 'string'],
+    ['REDIS_PORT', 'storage.redis.port', 'integer'],
+    ['REDIS_PASSWORD', 'storage.redis.password', 'string'],
+    ['REDIS_DB', 'storage.redis.db', 'integer'],
+    ['REDIS_TLS', 'storage.redis.tls', 'boolean'],
+    ['RELAY_ATTACHMENT_DIR', 'storage.attachmentDirectory', 'string'],
+    ['RELAY_PORT', 'server.port', 'integer'],
+    ['RELAY_CORS_ORIGIN', 'server.corsOrigin', 'string'],
+    ['RELAY_OPERATOR_TOKEN', 'server.operatorToken', 'string'],
+    ['RELAY_BOND_CACHE_TTL_SECONDS', 'bonds.cacheTtlSeconds', 'integer'],
+    ['RELAY_BOND_NEGATIVE_CACHE_TTL_SECONDS', 'bonds.negativeCacheTtlSeconds', 'integer'],
+    ['RELAY_BOND_LEDGER_POLL_SECONDS', 'bonds.ledgerPollSeconds', 'integer'],
+    ['RELAY_DEFAULT_BOND_AMOUNT', 'bonds.defaultRequiredAmount', 'string'],
+    ['RELAY_CONTRACT_MAX_RETRIES', 'contractCalls.maxRetries', 'integer'],
+    ['RELAY_CONTRACT_RETRY_DELAY_MS', 'contractCalls.retryDelayMs', 'integer'],
+    ['RELAY_MESSAGE_MAX_AGE_SECONDS', 'messages.maxAgeSeconds', 'integer'],
+    ['RELAY_CLOCK_SKEW_SECONDS', 'messages.clockSkewSeconds', 'integer'],
+    ['RELAY_CHALLENGE_WINDOW_HOURS', 'attestations.defaultChallengeWindowHours', 'integer'],
+    ['RELAY_ATTESTATION_QUORUM', 'attestations.defaultQuorumThreshold', 'integer'],
+    ['RELAY_ATTESTATION_QUORUM_WINDOW_HOURS', 'attestations.defaultQuorumWindowHours', 'integer'],
+    ['RELAY_DELIVERY_MAX_ATTEMPTS', 'delivery.maxAttempts', 'integer'],
+    ['RELAY_MAILBOX_RETENTION_DAYS', 'mailbox.retentionSeconds', 'days'],
+    ['RELAY_THREAD_TTL_DAYS', 'threads.ttlSeconds', 'days'],
+    ['RELAY_THREAD_RATE_LIMIT', 'threads.messagesPerWindow', 'integer'],
+    ['RELAY_ATTACHMENT_MAX_BYTES', 'attachments.maxBytes', 'integer'],
+    ['RELAY_UPLOAD_QUOTA_PER_SENDER_BYTES', 'rateLimits.uploadQuota.perSender', 'integer'],
+    ['RELAY_UPLOAD_QUOTA_PER_CARD_BYTES', 'rateLimits.uploadQuota.perCard', 'integer'],
+    ['RELAY_RATE_LIMIT_FAIL_CLOSED', 'rateLimits.failClosed', 'boolean'],
+    ['RELAY_EVIDENCE_RETENTION_DAYS', 'retention.policies.evidence.maxAgeSeconds', 'days'],
+    ['RELAY_AUDIT_RETENTION_DAYS', 'retention.policies.audit.maxAgeSeconds', 'days']
+];
+
+export function defaultRelayConfig(): RelayConfig {
+    return {
+        storage: {
+            backend: 'redis',
+            redis: { host: 'localhost', port: 6379, db: 0, tls: false },
+            attachmentDirectory: './data/attachments'
+        },
+        server: { port: 3001 },
+        bonds: { cacheTtlSeconds: 300, negativeCacheTtlSeconds: 60, ledgerPollSeconds: 15, defaultRequiredAmount: '1000000' },
+        contractCalls: { maxRetries: 3, retryDelayMs: 1000 },
+        messages: { maxAgeSeconds: 300, clockSkewSeconds: 600 },
+        attestations: { defaultChallengeWindowHours: 24, defaultQuorumThreshold: 1, defaultQuorumWindowHours: 72 },
+        delivery: { maxAttempts: 8, retryDelayMs: 60000 },
+        mailbox: { retentionSeconds: 7 * 24 * 3600, maxMessagesPerCard: 1000 },
+        threads: { ttlSeconds: 14 * 24 * 3600, messagesPerWindow: 20, windowSeconds: 3600, maxMessages: 500 },
+        attachments: {
+            maxBytes: 10 * 1024 * 1024,
+            maxPerMessage: 5,
+            retentionSeconds: 30 * 24 * 3600,
+            defaultPolicy: {
+                enabled: true,
+                maxBytes: 5 * 1024 * 1024,
+                allowedMimeTypes: Object.keys(ATTACHMENT_MIME_TYPES)
+            }
+        },
+        rateLimits: {
+            windowSeconds: 3600,
+            defaultCardQuota: { perCard: 100, perSender: 5 },
+            uploadQuota: { perSender: 50 * 1024 * 1024, perCard: 200 * 1024 * 1024 },
+            failClosed: false
+        },
+        retention: {
+            policies: JSON.parse(JSON.stringify(DEFAULT_RETENTION_POLICIES)),
+            scanBatchSize: 100,
+            reportRetentionSeconds: 400 * 24 * 3600
+        }
+    };
+}
+
+/**
+ * Build the relay configuration from defaults, the config file and the environment
+ */
+export function loadRelayConfig(options: LoadRelayConfigOptions = {}): RelayConfig {
+    const env = options.env || process.env;
+    const file = options.file || env.RELAY_CONFIG_FILE;
+    const config = defaultRelayConfig();
+
+    if (file) {
+        let contents: unknown;
+        try {
+            contents = JSON.parse(readFileSync(file, 'utf8'));
+        } catch (error) {
+            throw new RelayConfigError([`cannot read config file ${file}: ${(error as Error).message}`]);
+        }
+        if (!isPlainObject(contents)) {
+            throw new RelayConfigError([`config file ${file} must contain a JSON object`]);
+        }
+        merge(config, contents);
+    }
+
+    const sources: Record<string, string> = {};
+    for (const [name, path, type] of ENV_OVERRIDES) {
+        const raw = env[name];
+        if (raw === undefined || raw === '') {
+            continue;
+        }
+        setPath(config, path, parseEnvValue(raw, type));
+        sources[path] = name;
+    }
+
+    validateRelayConfig(config, sources);
+    return config;
+}
+
+/**
+ * Throw a RelayConfigError listing every invalid setting
+ */
+export function validateRelayConfig(config: RelayConfig, sources: Record<string, string> = {}): void {
+    if (validator(config)) {
+        return;
+    }
+
+    throw new RelayConfigError((validator.errors || []).map(error => describe(error, sources)));
+}
+
+/**
+ * Structural settings that differ between two configs and so need a restart
+ */
+export function structuralChanges(current: RelayConfig, next: RelayConfig): string[] {
+    return STRUCTURAL_SECTIONS.flatMap(section => {
+        const before = flatten(current[section]);
+        const after = flatten(next[section]);
+        return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+            .filter(path => before[path] !== after[path])
+            .map(path => `${section}.${path}`);
+    });
+}
+
+/**
+ * Connection options for ioredis and Bull
+ */
+export function redisOptions(config: RelayConfig): RedisOptions {
+    const { host, port, password, db, tls } = config.storage.redis;
+    return {
+        host,
+        port,
+        password,
+        db,
+        ...(tls && { tls: {} }),
+        maxRetriesPerRequest: 3
+    };
+}
+
+const positiveInteger = { type: 'integer', minimum: 1 } as const;
+const retentionPolicySchema = {
+    type: 'object',
+    required: ['maxAgeSeconds', 'enabled'],
+    properties: {
+        maxAgeSeconds: positiveInteger,
+        enabled: { type: 'boolean' }
+    },
+    additionalProperties: false
+} as const;
+
+const section = (properties: Record<string, object>, optional: string[] = []) => ({
+    type: 'object',
+    required: Object.keys(properties).filter(key => !optional.includes(key)),
+    properties,
+    additionalProperties: false
+});
+
+const relayConfigSchema = section({
+    storage: section({
+        backend: { enum: ['redis', 'memory'] },
+        redis: section({
+            host: { type: 'string', minLength: 1 },
+            port: { type: 'integer', minimum: 1, maximum: 65535 },
+            password: { type: 'string' },
+            db: { type: 'integer', minimum: 0 },
+            tls: { type: 'boolean' }
+        }, ['password']),
+        attachmentDirectory: { type: 'string', minLength: 1 }
+    }),
+    server: section({
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        corsOrigin: { type: 'string', minLength: 1 },
+        operatorToken: { type: 'string', minLength: 16 }
+    }, ['corsOrigin', 'operatorToken']),
+    bonds: section({
+        cacheTtlSeconds: positiveInteger,
+        negativeCacheTtlSeconds: positiveInteger,
+        ledgerPollSeconds: positiveInteger,
+        defaultRequiredAmount: { type: 'string', pattern: '^[1-9][0-9]*$' }
+    }),
+    contractCalls: section({
+        maxRetries: { type: 'integer', minimum: 1, maximum: 10 },
+        retryDelayMs: { type: 'integer', minimum: 0 }
+    }),
+    messages: section({
+        maxAgeSeconds: positiveInteger,
+        clockSkewSeconds: positiveInteger
+    }),
+    attestations: section({
+        defaultChallengeWindowHours: { type: 'integer', minimum: 1, maximum: 168 },
+        defaultQuorumThreshold: { type: 'integer', minimum: 1, maximum: 16 },
+        defaultQuorumWindowHours: { type: 'integer', minimum: 1, maximum: 720 }
+    }),
+    delivery: section({
+        maxAttempts: { type: 'integer', minimum: 1, maximum: 50 },
+        retryDelayMs: positiveInteger
+    }),
+    mailbox: section({
+        retentionSeconds: positiveInteger,
+        maxMessagesPerCard: positiveInteger
+    }),
+    threads: section({
+        ttlSeconds: positiveInteger,
+        messagesPerWindow: positiveInteger,
+        windowSeconds: positiveInteger,
+        maxMessages: positiveInteger
+    }),
+    attachments: section({
+        maxBytes: { type: 'integer', minimum: 1, maximum: 100 * 1024 * 1024 },
+        maxPerMessage: { type: 'integer', minimum: 1, maximum: 20 },
+        retentionSeconds: positiveInteger,
+        defaultPolicy: section({
+            enabled: { type: 'boolean' },
+            maxBytes: positiveInteger,
+            allowedMimeTypes: { type: 'array', items: { enum: Object.keys(ATTACHMENT_MIME_TYPES) }, uniqueItems: true },
+            minBondAmount: { type: 'string', pattern: '^[1-9][0-9]*$' }
+        }, ['minBondAmount'])
+    }),
+    rateLimits: section({
+        windowSeconds: positiveInteger,
+        defaultCardQuota: section({
+            perCard: positiveInteger,
+            perSender: positiveInteger
+        }),
+        uploadQuota: section({
+            perSender: positiveInteger,
+            perCard: positiveInteger
+        }),
+        failClosed: { type: 'boolean' },
+        tiers: {
+            type: 'array',
+            minItems: 1,
+            items: section({
+                name: { type: 'string', minLength: 1 },
+                minTotalBonds: { type: 'integer', minimum: 0 },
+                maxSlashedCount: { type: 'integer', minimum: 0 },
+                maxSpamReports: { type: 'integer', minimum: 0 },
+                senderLimit: positiveInteger,
+                pairLimit: positiveInteger
+            }, ['maxSpamReports'])
+        }
+    }, ['tiers']),
+    retention: section({
+        policies: section(Object.fromEntries(
+            Object.keys(DEFAULT_RETENTION_POLICIES).map(cls => [cls, retentionPolicySchema])
+        )),
+        scanBatchSize: { type: 'integer', minimum: 1, maximum: 10000 },
+        reportRetentionSeconds: positiveInteger
+    })
+});
+
+const validator = new Ajv({ allErrors: true }).compile<RelayConfig>(relayConfigSchema);
+
+function describe(error: ErrorObject, sources: Record<string, string>): string {
+    const segments = error.instancePath.split('/').filter(Boolean);
+    if (error.keyword === 'additionalProperties') {
+        segments.push(error.params.additionalProperty);
+        return `${segments.join('.')}: unknown setting`;
+    }
+    if (error.keyword === 'required') {
+        segments.push(error.params.missingProperty);
+    }
+
+    const path = segments.join('.') || '(root)';
+    const source = sources[path] ? ` (from ${sources[path]})` : '';
+    const allowed = error.keyword === 'enum' ? ` (${error.params.allowedValues.join(', ')})` : '';
+    return `${path}${source}: ${error.message}${allowed}`;
+}
+
+// Values that do not parse are passed through as strings so validation reports them
+function parseEnvValue(raw: string, type: EnvType): unknown {
+    switch (type) {
+        case 'integer':
+            return /^-?\d+$/.test(raw) ? parseInt(raw, 10) : raw;
+        case 'days':
+            return /^-?\d+$/.test(raw) ? parseInt(raw, 10) * 24 * 3600 : raw;
+        case 'boolean':
+            return raw === 'true' ? true : raw === 'false' ? false : raw;
+        default:
+            return raw;
+    }
+}
+
+function merge(target: Record<string, any>, source: Record<string, unknown>): void {
+    for (const [key, value] of Object.entries(source)) {
+        if (isPlainObject(value) && isPlainObject(target[key])) {
+            merge(target[key], value);
+        } else {
+            target[key] = value;
+        }
+    }
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce((node, key) => node[key], target);
+    parent[keys[keys.length - 1]] = value;
+}
+
+function flatten(value: unknown, prefix: string = ''): Record<string, unknown> {
+    if (!isPlainObject(value)) {
+        return { [prefix]: value };
+    }
+    return Object.entries(value).reduce((leaves, [key, child]) => ({
+        ...leaves,
+        ...flatten(child, prefix ? `${prefix}.${key}` : key)
+    }), {} as Record<string, unknown>);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,113 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+import { JobQueue } from './storage';
+
+/**
+ * Relay Metrics - Prometheus instrumentation for SelectConnectRelay
+ *
+ * Each relay owns its own registry so several instances (or tests) in one
+ * process do not collide. Queue depth is read from the job queues at scrape
+ * time rather than tracked incrementally, so it survives relay restarts.
+ */
+
+export type JobState = 'waiting' | 'active' | 'delayed' | 'failed';
+
+const JOB_STATES: JobState[] = ['waiting', 'active', 'delayed', 'failed'];
+
+export class RelayMetrics {
+    readonly registry: Registry;
+    readonly verifications: Counter<'reason'>;
+    readonly bondCacheLookups: Counter<'result'>;
+    readonly forwards: Counter<'channel' | 'outcome'>;
+    readonly contractCallDuration: Histogram<'outcome'>;
+    readonly contractCallRetries: Counter;
+    readonly rateLimitHits: Counter<'scope'>;
+    readonly cleanupKeysRemoved: Counter;
+    readonly moderationVerdicts: Counter<'verdict' | 'analyzer'>;
+
+    constructor(queues: Record<string, JobQueue>) {
+        this.registry = new Registry();
+        collectDefaultMetrics({ register: this.registry, prefix: 'relay_' });
+
+        this.verifications = new Counter({
+            name: 'relay_bond_verifications_total',
+            help: 'Bond verification outcomes; reason is VERIFIED on success',
+            labelNames: ['reason'],
+            registers: [this.registry]
+        });
+
+        this.bondCacheLookups = new Counter({
+            name: 'relay_bond_cache_lookups_total',
+            help: 'Bond status lookups by result (HIT, NEGATIVE_HIT, MISS, COALESCED); only MISS reaches the contract',
+            labelNames: ['result'],
+            registers: [this.registry]
+        });
+
+        this.forwards = new Counter({
+            name: 'relay_forwards_total',
+            help: 'Forwarded messages by delivery channel and outcome',
+            labelNames: ['channel', 'outcome'],
+            registers: [this.registry]
+        });
+
+        this.contractCallDuration = new Histogram({
+            name: 'relay_contract_call_duration_seconds',
+            help: 'Latency of retried operations, including backoff between attempts',
+            labelNames: ['outcome'],
+            buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+            registers: [this.registry]
+        });
+
+        this.contractCallRetries = new Counter({
+            name: 'relay_contract_call_retries_total',
+            help: 'Attempts repeated by retryOperation after a failure',
+            registers: [this.registry]
+        });
+
+        this.rateLimitHits = new Counter({
+            name: 'relay_rate_limit_hits_total',
+            help: 'Verifications rejected by the rate limiter, by scope (sender, card, pair)',
+            labelNames: ['scope'],
+            registers: [this.registry]
+        });
+
+        this.cleanupKeysRemoved = new Counter({
+            name: 'relay_cleanup_keys_removed_total',
+            help: 'Keys deleted by the hourly retention run',
+            registers: [this.registry]
+        });
+
+        this.moderationVerdicts = new Counter({
+            name: 'relay_moderation_verdicts_total',
+            help: 'Moderation verdicts by the analyzer that decided them (none when allowed)',
+            labelNames: ['verdict', 'analyzer'],
+            registers: [this.registry]
+        });
+
+        new Gauge({
+            name: 'relay_queue_jobs',
+            help: 'Jobs per queue and state (waiting, active, delayed, failed)',
+            labelNames: ['queue', 'state'],
+            registers: [this.registry],
+            async collect() {
+                for (const [queue, jobQueue] of Object.entries(queues)) {
+                    const counts = await jobQueue.getCounts();
+                    for (const state of JOB_STATES) {
+                        this.set({ queue, state }, counts[state]);
+                    }
+                }
+            }
+        });
+    }
+
+    get contentType(): string {
+        return this.registry.contentType;
+    }
+
+    /**
+     * Render every metric in the Prometheus text exposition format
+     */
+    async render(): Promise<string> {
+        return await this.registry.metrics();
+    }
+}
@@ -0,0 +1,186 @@
+import { createHash, createPrivateKey, createPublicKey, hkdfSync, KeyObject, sign, verify } from 'crypto';
+
+/**
+ * Relay Receipts - Ed25519-signed statements that the relay handled a message
+ *
+ * A receipt is `scr1.<payload>.<signature>` where the payload is the
+ * base64url of a canonical JSON object (keys sorted, no whitespace) holding
+ * the version, receipt type, signing key ID and claims. The signature covers
+ * a domain-separated copy of those exact payload bytes, so anyone holding the
+ * relay's published public keys can verify a receipt offline with
+ * `verifyReceipt` and nothing else from this codebase.
+ */
+
+export type ReceiptType =
+    | 'forwarding-attestation'
+    | 'sender-receipt'
+    | 'recipient-receipt'
+    | 'evidence-bundle'
+    | 'audit-checkpoint';
+
+export type ReceiptClaims = Record<string, string | number>;
+
+export interface DecodedReceipt {
+    version: 1;
+    type: ReceiptType;
+    keyId: string;
+    claims: ReceiptClaims;
+}
+
+export type ReceiptFailureReason = 'MALFORMED_RECEIPT' | 'UNSUPPORTED_VERSION' | 'UNKNOWN_KEY_ID' | 'INVALID_SIGNATURE';
+
+export interface ReceiptVerification {
+    valid: boolean;
+    reason?: ReceiptFailureReason;
+    receipt?: DecodedReceipt;
+}
+
+const RECEIPT_PREFIX = 'scr1';
+const SIGNING_CONTEXT = 'selectconnect:receipt:v1\n';
+
+// DER prefixes wrapping raw 32-byte Ed25519 keys as PKCS#8 / SubjectPublicKeyInfo
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Deterministic JSON: object keys sorted, no insignificant whitespace
+ */
+export function canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalize).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Key ID for a raw Ed25519 public key: first 8 bytes of its SHA-256, hex
+ */
+export function receiptKeyId(publicKeyHex: string): string {
+    return createHash('sha256').update(Buffer.from(publicKeyHex, 'hex')).digest('hex').substring(0, 16);
+}
+
+/**
+ * Verify a relay receipt against the relay's published public keys (keyId -> raw hex key)
+ */
+export function verifyReceipt(receipt: string, relayPublicKeys: Record<string, string>): ReceiptVerification {
+    const parts = typeof receipt === 'string' ? receipt.split('.') : [];
+    if (parts.length !== 3) {
+        return { valid: false, reason: 'MALFORMED_RECEIPT' };
+    }
+    if (parts[0] !== RECEIPT_PREFIX) {
+        return { valid: false, reason: 'UNSUPPORTED_VERSION' };
+    }
+
+    let decoded: DecodedReceipt;
+    let payloadBytes: Buffer;
+    try {
+        payloadBytes = Buffer.from(parts[1], 'base64url');
+        decoded = JSON.parse(payloadBytes.toString('utf8'));
+    } catch {
+        return { valid: false, reason: 'MALFORMED_RECEIPT' };
+    }
+
+    if (!decoded || typeof decoded !== 'object' || typeof decoded.keyId !== 'string' || typeof decoded.claims !== 'object') {
+        return { valid: false, reason: 'MALFORMED_RECEIPT' };
+    }
+    if (decoded.version !== 1) {
+        return { valid: false, reason: 'UNSUPPORTED_VERSION' };
+    }
+    // Only the canonical encoding is accepted, so one statement has exactly one receipt form
+    if (canonicalize(decoded) !== payloadBytes.toString('utf8')) {
+        return { valid: false, reason: 'MALFORMED_RECEIPT' };
+    }
+
+    const publicKeyHex = relayPublicKeys[decoded.keyId];
+    if (!publicKeyHex) {
+        return { valid: false, reason: 'UNKNOWN_KEY_ID' };
+    }
+
+    try {
+        const publicKey = createPublicKey({
+            key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKeyHex, 'hex')]),
+            format: 'der',
+            type: 'spki'
+        });
+        const signed = Buffer.concat([Buffer.from(SIGNING_CONTEXT), payloadBytes]);
+        if (!verify(null, signed, publicKey, Buffer.from(parts[2], 'base64url'))) {
+            return { valid: false, reason: 'INVALID_SIGNATURE' };
+        }
+    } catch {
+        return { valid: false, reason: 'INVALID_SIGNATURE' };
+    }
+
+    return { valid: true, receipt: decoded };
+}
+
+/**
+ * Issues receipts with the relay's Ed25519 signing key
+ */
+export class ReceiptSigner {
+    private privateKey: KeyObject;
+    private keyId: string;
+    private publicKeyHex: string;
+    private retiredPublicKeys: Record<string, string>;
+
+    constructor(seed: Buffer, retiredPublicKeys: Record<string, string> = {}) {
+        if (seed.length !== 32) {
+            throw new Error('Receipt signing key must be a 32-byte Ed25519 seed');
+        }
+        this.privateKey = createPrivateKey({
+            key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+            format: 'der',
+            type: 'pkcs8'
+        });
+        this.publicKeyHex = (createPublicKey(this.privateKey).export({ format: 'der', type: 'spki' }) as Buffer)
+            .subarray(ED25519_SPKI_PREFIX.length)
+            .toString('hex');
+        this.keyId = receiptKeyId(this.publicKeyHex);
+        this.retiredPublicKeys = retiredPublicKeys;
+    }
+
+    /**
+     * Build a signer from RELAY_RECEIPT_SIGNING_KEY (hex seed) and RELAY_RECEIPT_RETIRED_KEYS
+     * ("kid:hex,kid:hex"), falling back to a seed derived from the relay secret
+     */
+    static fromEnv(relayPrivateKey: string): ReceiptSigner {
+        const configured = process.env.RELAY_RECEIPT_SIGNING_KEY;
+        const seed = configured
+            ? Buffer.from(configured, 'hex')
+            : Buffer.from(hkdfSync('sha256', relayPrivateKey, Buffer.alloc(0), 'selectconnect:receipts:v1', 32));
+
+        const retired: Record<string, string> = {};
+        for (const entry of (process.env.RELAY_RECEIPT_RETIRED_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+            const [keyId, publicKeyHex] = entry.split(':');
+            if (!keyId || !publicKeyHex) {
+                throw new Error(`Malformed retired receipt key entry: ${entry}`);
+            }
+            retired[keyId] = publicKeyHex;
+        }
+
+        return new ReceiptSigner(seed, retired);
+    }
+
+    getKeyId(): string {
+        return this.keyId;
+    }
+
+    /**
+     * Public keys receipts may be verified against, including retired ones
+     */
+    getPublicKeys(): Record<string, string> {
+        return { ...this.retiredPublicKeys, [this.keyId]: this.publicKeyHex };
+    }
+
+    sign(type: ReceiptType, claims: ReceiptClaims): string {
+        const payload = Buffer.from(canonicalize({ version: 1, type, keyId: this.keyId, claims } as DecodedReceipt));
+        const signature = sign(null, Buffer.concat([Buffer.from(SIGNING_CONTEXT), payload]), this.privateKey);
+        return `${RECEIPT_PREFIX}.${payload.toString('base64url')}.${signature.toString('base64url')}`;
+    }
+}
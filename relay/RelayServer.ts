@@ -0,0 +1,680 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import Ajv, { ValidateFunction } from 'ajv';
+import type { MidnightSigner } from '@midnight-ntwrk/midnight-js-sdk';
+
+import { AttachmentUploadProof, MessagePayload, SelectConnectRelay } from './RelayService';
+import {
+    attachmentDownloadSchema,
+    attachmentUploadProofSchema,
+    attachmentPolicySchema,
+    attestAbuseSchema,
+    attestationWithdrawalSchema,
+    cardEncryptionKeySchema,
+    cardErasureSchema,
+    cardReadSchema,
+    cardRateQuotaSchema,
+    disputeAttestationSchema,
+    emailActionSchema,
+    emailRegistrationSchema,
+    engagementSchema,
+    evidenceExportSchema,
+    forwardMessageSchema,
+    mailboxActionSchema,
+    mailboxPullSchema,
+    moderationPolicySchema,
+    pushSubscriptionSchema,
+    quarantineActionSchema,
+    quorumPolicySchema,
+    resolveDisputeSchema,
+    senderCommitmentSchema,
+    senderErasureSchema,
+    senderNullifierSchema,
+    spamReportSchema,
+    threadCloseSchema,
+    threadMessageSchema,
+    threadReadSchema,
+    threadReplySchema,
+    verifyBondSchema
+} from './ApiSchemas';
+
+/**
+ * SelectConnect Relay HTTP API
+ *
+ * REST front-end for SelectConnectRelay used by the mobile and web clients.
+ * Request bodies are validated against JSON Schemas before they reach the
+ * relay, and every failure is returned in the same typed error envelope.
+ * The process entry point, which needs the Midnight SDK, is relay/main.ts.
+ */
+
+export interface ApiErrorBody {
+    error: {
+        code: string;
+        message: string;
+        details?: unknown;
+    };
+}
+
+/**
+ * Error raised by route handlers and rendered as an ApiErrorBody
+ */
+export class RelayApiError extends Error {
+    readonly status: number;
+    readonly code: string;
+    readonly details?: unknown;
+
+    constructor(status: number, code: string, message: string, details?: unknown) {
+        super(message);
+        this.name = 'RelayApiError';
+        this.status = status;
+        this.code = code;
+        this.details = details;
+    }
+}
+
+// HTTP status for relay failure reasons; anything unlisted is a 422
+const REASON_STATUS: Record<string, number> = {
+    NO_ACTIVE_BOND: 402,
+    INVALID_SIGNATURE: 401,
+    UNKNOWN_KEY_TYPE: 400,
+    KEY_MISMATCH: 401,
+    RATE_LIMITED: 429,
+    REPLAYED: 409,
+    STALE: 400,
+    INVALID_NONCE: 400,
+    UNAUTHORIZED_ATTESTOR: 403,
+    ATTESTOR_PROOF_REQUIRED: 401,
+    QUORUM_ALREADY_REACHED: 409,
+    QUORUM_REACHED: 409,
+    ATTESTATION_WITHDRAWN: 409,
+    EVIDENCE_SENDER_MISMATCH: 409,
+    ROUND_NOT_FOUND: 404,
+    NOT_ATTESTED: 404,
+    ATTACHMENTS_DISABLED: 403,
+    TOO_MANY_ATTACHMENTS: 400,
+    ATTACHMENT_TOO_LARGE: 413,
+    ATTACHMENT_TYPE_NOT_ALLOWED: 415,
+    ATTACHMENT_CONTENT_MISMATCH: 415,
+    ATTACHMENT_NOT_FOUND: 404,
+    ATTACHMENT_MISMATCH: 409,
+    ATTACHMENT_BOND_TOO_LOW: 402,
+    UPLOAD_QUOTA_EXCEEDED: 429,
+    ROUTE_INTERACTION_NOT_FOUND: 404,
+    THREAD_NOT_FOUND: 404,
+    THREAD_CLOSED: 409,
+    THREAD_MISMATCH: 403,
+    UNAUTHORIZED_THREAD_SENDER: 403,
+    UNAUTHORIZED_THREAD_READER: 403,
+    UNAUTHORIZED_RESOLVER: 403,
+    INVALID_SENDER_PROOF: 403,
+    BOND_NOT_FOUND: 404,
+    ATTESTATION_NOT_FOUND: 404,
+    ALREADY_DISPUTED: 409,
+    NOT_DISPUTED: 409,
+    CHALLENGE_WINDOW_CLOSED: 409,
+    INVALID_ACTION_TOKEN: 401,
+    ACTION_ALREADY_USED: 409,
+    MESSAGE_REJECTED: 422,
+    UNAUTHORIZED_CARD_ADMIN: 403,
+    QUARANTINE_NOT_FOUND: 404,
+    MAILBOX_MESSAGE_NOT_FOUND: 404,
+    INVALID_SEALED_CONTENT: 400,
+    STALE_ENCRYPTION_KEY: 409,
+    STALE_REQUEST: 401,
+    EVIDENCE_NOT_FOUND: 404,
+    INVALID_REQUESTER_PROOF: 401,
+    UNAUTHORIZED_REQUESTER: 403,
+    VERIFICATION_ERROR: 500,
+    FORWARDING_ERROR: 500,
+    ATTESTATION_ERROR: 500,
+    DISPUTE_ERROR: 500,
+    EXPORT_ERROR: 500
+};
+
+export class RelayServer {
+    private relay: SelectConnectRelay;
+    private app: express.Express;
+    private server?: Server;
+    private ajv: Ajv;
+    /** Bearer token for the operator routes; they refuse every request without one */
+    private operatorToken?: string;
+
+    constructor(relay: SelectConnectRelay, corsOrigin?: string, operatorToken?: string) {
+        this.relay = relay;
+        this.operatorToken = operatorToken;
+        this.ajv = new Ajv({ allErrors: true });
+        this.app = express();
+
+        this.app.disable('x-powered-by');
+        this.app.use(express.json({ limit: '128kb' }));
+        if (corsOrigin) {
+            this.app.use((req, res, next) => {
+                res.setHeader('Access-Control-Allow-Origin', corsOrigin);
+                res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Sender-Commit, X-Sender-Proof');
+                res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+                if (req.method === 'OPTIONS') {
+                    res.sendStatus(204);
+                    return;
+                }
+                next();
+            });
+        }
+
+        this.registerRoutes();
+
+        this.app.use((req, res) => {
+            this.sendError(res, new RelayApiError(404, 'NOT_FOUND', `No route for ${req.method} ${req.path}`));
+        });
+        this.app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
+            this.sendError(res, error);
+        });
+    }
+
+    /**
+     * Express application, exposed for embedding and tests
+     */
+    getApp(): express.Express {
+        return this.app;
+    }
+
+    async start(port: number): Promise<void> {
+        await new Promise<void>(resolve => {
+            this.server = this.app.listen(port, () => resolve());
+        });
+        this.relay.attachRealtimeGateway(this.server!);
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+        await this.relay.detachRealtimeGateway();
+        await new Promise<void>((resolve, reject) => {
+            this.server!.close(error => (error ? reject(error) : resolve()));
+        });
+        this.server = undefined;
+    }
+
+    private registerRoutes(): void {
+        this.app.get('/healthz', this.handle(async (req, res) => {
+            const health = await this.relay.checkHealth();
+            res.status(health.healthy ? 200 : 503).json(health);
+        }));
+
+        this.app.get('/v1/receipts/keys', this.handle(async (req, res) => {
+            res.json({ keys: this.relay.getReceiptPublicKeys() });
+        }));
+
+        this.app.get('/metrics', this.handle(async (req, res) => {
+            const metrics = await this.relay.getMetrics();
+            res.type(metrics.contentType).send(metrics.body);
+        }));
+
+        this.app.post('/v1/bonds/verify', this.validate(verifyBondSchema), this.handle(async (req, res) => {
+            const { cardId, senderCommit, message } = req.body;
+            const result = await this.relay.verifyBondForMessage(cardId, senderCommit, message);
+            this.sendResult(res, result.verified, result);
+        }));
+
+        this.app.post('/v1/messages/forward', this.validate(forwardMessageSchema), this.handle(async (req, res) => {
+            const message: MessagePayload = req.body.message;
+            const { verification } = req.body;
+
+            // Never trust a client-supplied verification result without the relay's own attestation
+            if (!this.relay.checkForwardingAttestation(message, verification.forwardingAttestation)) {
+                throw new RelayApiError(401, 'INVALID_FORWARDING_ATTESTATION', 'Forwarding attestation is invalid or expired');
+            }
+
+            const result = await this.relay.forwardMessage(message, verification);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/threads/:threadId/messages', this.validate(threadMessageSchema), this.handle(async (req, res) => {
+            const result = await this.relay.forwardThreadMessage(req.params.threadId, req.body.message);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/threads/:threadId/replies', this.validate(threadReplySchema), this.handle(async (req, res) => {
+            const { adminProof, ...reply } = req.body;
+            const result = await this.relay.replyInThread(req.params.threadId, reply, adminProof);
+            this.sendResult(res, result.success, result, 201);
+        }));
+
+        this.app.post('/v1/threads/:threadId/read', this.validate(threadReadSchema), this.handle(async (req, res) => {
+            const result = await this.relay.readThread(req.params.threadId, req.body);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/threads/:threadId/close', this.validate(threadCloseSchema), this.handle(async (req, res) => {
+            const result = await this.relay.closeThread(req.params.threadId, req.body.adminProof);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/attestations', this.validate(attestAbuseSchema), this.handle(async (req, res) => {
+            const { cardId, senderCommit, evidenceHash, attestor, challengeWindowHours, reveal, attestorProof } = req.body;
+            const result = await this.relay.attestAbuse(cardId, senderCommit, evidenceHash, attestor, challengeWindowHours, reveal, attestorProof);
+            // Pending quorum votes are accepted but nothing is scheduled yet
+            this.sendResult(res, result.success, result, result.pending ? 202 : 201);
+        }));
+
+        this.app.post('/v1/attestations/:attestationId/dispute', this.validate(disputeAttestationSchema), this.handle(async (req, res) => {
+            const { counterEvidenceHash, senderProof } = req.body;
+            const result = await this.relay.disputeAttestation(req.params.attestationId, counterEvidenceHash, senderProof);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/attestations/:attestationId/resolve', this.validate(resolveDisputeSchema), this.handle(async (req, res) => {
+            const { decision, resolverProof, graceHours } = req.body;
+            const result = await this.relay.resolveDispute(req.params.attestationId, decision, resolverProof, graceHours);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.get('/v1/deliveries/:deliveryId', this.handle(async (req, res) => {
+            const status = await this.relay.getDeliveryStatus(req.params.deliveryId);
+            if (!status) {
+                throw new RelayApiError(404, 'DELIVERY_NOT_FOUND', 'No delivery with that ID');
+            }
+            res.json({ deliveryId: req.params.deliveryId, status });
+        }));
+
+        this.app.post('/v1/cards/:cardId/mailbox/pull', this.validate(mailboxPullSchema), this.handle(async (req, res) => {
+            const { adminProof, timestamp, cursor, limit } = req.body;
+            const result = await this.relay.pullMailbox(req.params.cardId, adminProof, timestamp, cursor, limit);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/cards/:cardId/mailbox/:messageId/status', this.validate(cardReadSchema), this.handle(async (req, res) => {
+            const { cardId, messageId } = req.params;
+            const result = await this.relay.getMailboxStatus(cardId, messageId, req.body.adminProof, req.body.timestamp);
+            if (!result.success) {
+                this.sendResult(res, false, result);
+                return;
+            }
+            res.json(result.delivery);
+        }));
+
+        this.app.post('/v1/cards/:cardId/mailbox/:messageId/ack', this.validate(mailboxActionSchema), this.handle(async (req, res) => {
+            const { cardId, messageId } = req.params;
+            const result = await this.relay.acknowledgeMailboxMessage(cardId, messageId, req.body.adminProof);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.delete('/v1/cards/:cardId/mailbox/:messageId', this.validate(mailboxActionSchema), this.handle(async (req, res) => {
+            const { cardId, messageId } = req.params;
+            const result = await this.relay.deleteMailboxMessage(cardId, messageId, req.body.adminProof);
+            if (!result.success) {
+                this.sendResult(res, false, result);
+                return;
+            }
+            res.status(204).end();
+        }));
+
+        this.app.post('/v1/cards/:cardId/erase', this.validate(cardErasureSchema), this.handle(async (req, res) => {
+            const result = await this.relay.eraseCardData(req.params.cardId, req.body.adminProof);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/senders/:senderCommit/erase', this.validate(senderErasureSchema), this.handle(async (req, res) => {
+            const { cardId, senderProof } = req.body;
+            const result = await this.relay.eraseSenderData(cardId, req.params.senderCommit, senderProof);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.get('/v1/retention/reports', this.requireOperator(), this.handle(async (req, res) => {
+            const cursor = req.query.cursor ? String(req.query.cursor) : undefined;
+            res.json(await this.relay.listRetentionReports(cursor, this.queryInt(req.query.limit, 20, 1, 100)));
+        }));
+
+        this.app.get('/v1/retention/reports/:reportId', this.requireOperator(), this.handle(async (req, res) => {
+            const report = await this.relay.getRetentionReport(req.params.reportId);
+            if (!report) {
+                throw new RelayApiError(404, 'RETENTION_REPORT_NOT_FOUND', 'No retention report with that ID');
+            }
+            res.json(report);
+        }));
+
+        this.app.get('/v1/audit/entries', this.requireOperator(), this.handle(async (req, res) => {
+            const fromSeq = this.queryInt(req.query.from, 1, 1, Number.MAX_SAFE_INTEGER);
+            res.json({ entries: await this.relay.getAuditEntries(fromSeq, this.queryInt(req.query.limit, 100, 1, 1000)) });
+        }));
+
+        this.app.get('/v1/audit/checkpoints', this.handle(async (req, res) => {
+            const fromSeq = this.queryInt(req.query.from, 1, 1, Number.MAX_SAFE_INTEGER);
+            res.json({ checkpoints: await this.relay.getAuditCheckpoints(fromSeq, this.queryInt(req.query.limit, 100, 1, 1000)) });
+        }));
+
+        this.app.post('/v1/cards/:cardId/disputes/read', this.validate(cardReadSchema), this.handle(async (req, res) => {
+            const result = await this.relay.getPendingDisputes(req.params.cardId, req.body.adminProof, req.body.timestamp);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/cards/:cardId/email', this.validate(emailRegistrationSchema), this.handle(async (req, res) => {
+            const { emailAddress, adminProof } = req.body;
+            const registered = await this.relay.registerEmailRecipient(req.params.cardId, emailAddress, adminProof);
+            if (!registered) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        this.app.get('/v1/cards/:cardId/encryption-key', this.handle(async (req, res) => {
+            const key = await this.relay.getCardEncryptionKey(req.params.cardId);
+            if (!key) {
+                throw new RelayApiError(404, 'ENCRYPTION_KEY_NOT_FOUND', 'Card has not published an encryption key');
+            }
+            res.json(key);
+        }));
+
+        this.app.put('/v1/cards/:cardId/encryption-key', this.validate(cardEncryptionKeySchema), this.handle(async (req, res) => {
+            const { publicKey, adminProof } = req.body;
+            const registered = await this.relay.registerCardEncryptionKey(req.params.cardId, publicKey, adminProof);
+            if (!registered) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        this.app.get('/v1/cards/:cardId/rate-quota', this.handle(async (req, res) => {
+            res.json(await this.relay.getCardRateQuota(req.params.cardId));
+        }));
+
+        this.app.put('/v1/cards/:cardId/rate-quota', this.validate(cardRateQuotaSchema), this.handle(async (req, res) => {
+            const { perCard, perSender, adminProof } = req.body;
+            const updated = await this.relay.setCardRateQuota(req.params.cardId, { perCard, perSender }, adminProof);
+            if (!updated) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        this.app.get('/v1/cards/:cardId/quorum-policy', this.handle(async (req, res) => {
+            res.json(await this.relay.getQuorumPolicy(req.params.cardId));
+        }));
+
+        this.app.put('/v1/cards/:cardId/quorum-policy', this.validate(quorumPolicySchema), this.handle(async (req, res) => {
+            const { threshold, windowHours, adminProof } = req.body;
+            const updated = await this.relay.setQuorumPolicy(req.params.cardId, { threshold, windowHours }, adminProof);
+            if (!updated) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        this.app.get('/v1/cards/:cardId/attestation-quorums/:evidenceHash', this.handle(async (req, res) => {
+            const quorum = await this.relay.getAttestationQuorum(req.params.cardId, req.params.evidenceHash);
+            if (!quorum) {
+                throw new RelayApiError(404, 'ROUND_NOT_FOUND', 'No attestations are pending or recorded for this evidence');
+            }
+            res.json(quorum);
+        }));
+
+        this.app.post(
+            '/v1/cards/:cardId/attestation-quorums/:evidenceHash/withdraw',
+            this.validate(attestationWithdrawalSchema),
+            this.handle(async (req, res) => {
+                const { cardId, evidenceHash } = req.params;
+                const result = await this.relay.withdrawAttestation(cardId, evidenceHash, req.body.attestorProof);
+                this.sendResult(res, result.success, result);
+            })
+        );
+
+        this.app.get('/v1/cards/:cardId/attachment-policy', this.handle(async (req, res) => {
+            res.json(await this.relay.getAttachmentPolicy(req.params.cardId));
+        }));
+
+        this.app.put('/v1/cards/:cardId/attachment-policy', this.validate(attachmentPolicySchema), this.handle(async (req, res) => {
+            const { policy, adminProof } = req.body;
+            const updated = await this.relay.setAttachmentPolicy(req.params.cardId, policy, adminProof);
+            if (!updated) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        // Raw bytes with the attachment's MIME type as Content-Type; the sender's commitment names the bond
+        // and the X-Sender-Proof header carries the sender's signed upload proof as JSON
+        const checkUploadProof: ValidateFunction = this.ajv.compile(attachmentUploadProofSchema);
+        this.app.post(
+            '/v1/cards/:cardId/attachments',
+            express.raw({ type: () => true, limit: this.relay.getConfig().attachments.maxBytes }),
+            this.handle(async (req, res) => {
+                const senderCommit = req.get('X-Sender-Commit');
+                if (!senderCommit || !/^(0x)?[0-9a-fA-F]{1,256}$/.test(senderCommit) || !Buffer.isBuffer(req.body)) {
+                    throw new RelayApiError(400, 'VALIDATION_ERROR', 'Send the attachment bytes with an X-Sender-Commit header');
+                }
+                const proofHeader = req.get('X-Sender-Proof');
+                if (!proofHeader) {
+                    throw new RelayApiError(401, 'SENDER_PROOF_REQUIRED', 'X-Sender-Proof is required');
+                }
+                let proof: unknown;
+                try {
+                    proof = JSON.parse(proofHeader);
+                } catch {
+                    proof = undefined;
+                }
+                if (!checkUploadProof(proof)) {
+                    throw new RelayApiError(400, 'VALIDATION_ERROR', 'X-Sender-Proof failed validation', checkUploadProof.errors);
+                }
+                const mimeType = (req.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+                const result = await this.relay.uploadAttachment(req.params.cardId, senderCommit, mimeType, req.body, proof as AttachmentUploadProof);
+                this.sendResult(res, result.success, result, 201);
+            })
+        );
+
+        this.app.post(
+            '/v1/cards/:cardId/attachments/:hash/download',
+            this.validate(attachmentDownloadSchema),
+            this.handle(async (req, res) => {
+                const { cardId, hash } = req.params;
+                const result = await this.relay.downloadAttachment(cardId, hash, req.body.adminProof, req.body.timestamp);
+                if (!result.success) {
+                    this.sendResult(res, false, result);
+                    return;
+                }
+                res.setHeader('Content-Type', result.attachment!.mimeType);
+                res.setHeader('Content-Disposition', 'attachment');
+                res.setHeader('X-Content-Type-Options', 'nosniff');
+                res.send(result.data);
+            })
+        );
+
+        this.app.post('/v1/cards/:cardId/moderation-policy/read', this.validate(cardReadSchema), this.handle(async (req, res) => {
+            const result = await this.relay.getModerationPolicy(req.params.cardId, req.body.adminProof, req.body.timestamp);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.put('/v1/cards/:cardId/moderation-policy', this.validate(moderationPolicySchema), this.handle(async (req, res) => {
+            const { policy, adminProof } = req.body;
+            let updated: boolean;
+            try {
+                updated = await this.relay.setModerationPolicy(req.params.cardId, policy, adminProof);
+            } catch (error) {
+                if (error instanceof SyntaxError) {
+                    throw new RelayApiError(400, 'INVALID_PATTERN', error.message);
+                }
+                throw error;
+            }
+            if (!updated) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        this.app.post('/v1/cards/:cardId/quarantine/read', this.validate(cardReadSchema), this.handle(async (req, res) => {
+            const result = await this.relay.getQuarantinedMessages(req.params.cardId, req.body.adminProof, req.body.timestamp);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/cards/:cardId/quarantine/:quarantineId/release', this.validate(quarantineActionSchema), this.handle(async (req, res) => {
+            const { cardId, quarantineId } = req.params;
+            const result = await this.relay.releaseQuarantinedMessage(cardId, quarantineId, req.body.adminProof);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.post('/v1/cards/:cardId/quarantine/:quarantineId/report', this.validate(quarantineActionSchema), this.handle(async (req, res) => {
+            const { cardId, quarantineId } = req.params;
+            const { adminProof, challengeWindowHours } = req.body;
+            const result = await this.relay.reportQuarantinedMessage(cardId, quarantineId, adminProof, challengeWindowHours);
+            this.sendResult(res, result.success, result, 201);
+        }));
+
+        this.app.post('/v1/evidence/:evidenceHash/report-spam', this.validate(spamReportSchema), this.handle(async (req, res) => {
+            const result = await this.relay.reportSpam(req.params.evidenceHash, req.body.adminProof);
+            this.sendResult(res, result.success, result, 202);
+        }));
+
+        this.app.post('/v1/evidence/:evidenceHash/export', this.validate(evidenceExportSchema), this.handle(async (req, res) => {
+            const result = await this.relay.exportEvidenceBundle(req.params.evidenceHash, req.body.requester);
+            this.sendResult(res, result.success, result);
+        }));
+
+        this.app.get('/v1/push/vapid-public-key', this.handle(async (req, res) => {
+            res.json({ publicKey: await this.relay.getPushPublicKey() });
+        }));
+
+        this.app.post('/v1/cards/:cardId/push-subscriptions', this.validate(pushSubscriptionSchema), this.handle(async (req, res) => {
+            const { subscription, adminProof } = req.body;
+            const registered = await this.relay.registerPushSubscription(req.params.cardId, subscription, adminProof);
+            if (!registered) {
+                throw new RelayApiError(403, 'UNAUTHORIZED_CARD_ADMIN', 'Admin proof does not match the card admin');
+            }
+            res.status(204).end();
+        }));
+
+        // Email links land on a confirmation page so link scanners cannot trigger actions with a GET
+        this.app.get('/v1/email-actions/:action(report|reply)', this.handle(async (req, res) => {
+            const token = String(req.query.token || '');
+            const label = req.params.action === 'report' ? 'Report this message as abuse' : 'Reply to this intro';
+            res.type('html').send(
+                `<!doctype html><form method="post"><input type="hidden" name="token" value="${token.replace(/[^A-Za-z0-9._-]/g, '')}">` +
+                `<button type="submit">${label}</button></form>`
+            );
+        }));
+
+        this.app.post(
+            '/v1/email-actions/:action(report|reply)',
+            express.urlencoded({ extended: false, limit: '8kb' }),
+            this.validate(emailActionSchema),
+            this.handle(async (req, res) => {
+                const result = await this.relay.handleEmailAction(req.params.action as 'report' | 'reply', req.body.token);
+                this.sendResult(res, result.success, result);
+            })
+        );
+
+        this.app.post('/v1/engagements', this.validate(engagementSchema), this.handle(async (req, res) => {
+            const { cardId, senderCommit, engagementType, adminProof } = req.body;
+            const thread = await this.relay.handleRecipientEngagement(cardId, senderCommit, engagementType, adminProof);
+            res.status(202).json(thread ? { accepted: true, thread } : { accepted: true });
+        }));
+
+        this.app.post('/v1/commitments/sender', this.validate(senderCommitmentSchema), this.handle(async (req, res) => {
+            const { cardId, senderDid, salt } = req.body;
+            res.json({ senderCommit: this.relay.generateSenderCommitment(cardId, senderDid, salt) });
+        }));
+
+        this.app.post('/v1/nullifiers/sender', this.validate(senderNullifierSchema), this.handle(async (req, res) => {
+            const { cardId, walletSignature } = req.body;
+            // The client signs with its own wallet; the relay only derives the nullifier from that signature
+            const signer = { signMessage: async () => walletSignature } as unknown as MidnightSigner;
+            res.json({ senderNullifier: await this.relay.generateSenderNullifier(signer, cardId) });
+        }));
+    }
+
+    /**
+     * Require the operator's bearer token
+     */
+    private requireOperator() {
+        return (req: Request, res: Response, next: NextFunction) => {
+            const presented = /^Bearer (.+)$/.exec(req.get('Authorization') || '')?.[1];
+            // Compared as digests so the comparison takes the same time whatever the lengths
+            const matches = this.operatorToken !== undefined && presented !== undefined && timingSafeEqual(
+                createHash('sha256').update(presented).digest(),
+                createHash('sha256').update(this.operatorToken).digest()
+            );
+            if (!matches) {
+                next(new RelayApiError(401, 'OPERATOR_AUTH_REQUIRED', 'Operator bearer token is required'));
+                return;
+            }
+            next();
+        };
+    }
+
+    /**
+     * Validate the request body against a JSON Schema
+     */
+    private validate(schema: object) {
+        const check: ValidateFunction = this.ajv.compile(schema);
+        return (req: Request, res: Response, next: NextFunction) => {
+            if (!check(req.body)) {
+                // A request without its signed proof is unauthenticated rather than malformed
+                const missingProof = check.errors?.find(error =>
+                    error.keyword === 'required' && error.instancePath === '' && /Proof$/.test(error.params.missingProperty)
+                );
+                if (missingProof) {
+                    const code = `${missingProof.params.missingProperty.replace(/([A-Z])/g, '_$1').toUpperCase()}_REQUIRED`;
+                    next(new RelayApiError(401, code, `${missingProof.params.missingProperty} is required`));
+                    return;
+                }
+                next(new RelayApiError(400, 'VALIDATION_ERROR', 'Request body failed validation', check.errors));
+                return;
+            }
+            next();
+        };
+    }
+
+    /**
+     * Integer query parameter clamped to [min, max]; missing or malformed values use the fallback
+     */
+    private queryInt(value: unknown, fallback: number, min: number, max: number): number {
+        const parsed = parseInt(String(value ?? ''), 10);
+        return Number.isFinite(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+    }
+
+    /**
+     * Forward async handler rejections to the error middleware
+     */
+    private handle(handler: (req: Request, res: Response) => Promise<void>) {
+        return (req: Request, res: Response, next: NextFunction) => {
+            handler(req, res).catch(next);
+        };
+    }
+
+    private sendResult(
+        res: Response,
+        ok: boolean,
+        result: { reason?: string; error?: string; retryAfter?: number },
+        successStatus: number = 200
+    ): void {
+        if (ok) {
+            res.status(successStatus).json(result);
+            return;
+        }
+
+        const code = result.reason || 'RELAY_ERROR';
+        if (result.retryAfter !== undefined) {
+            res.setHeader('Retry-After', String(result.retryAfter));
+        }
+        const { reason, error, ...details } = result;
+        throw new RelayApiError(REASON_STATUS[code] || 422, code, error || code, details);
+    }
+
+    private sendError(res: Response, error: Error): void {
+        const apiError = error instanceof RelayApiError
+            ? error
+            : (error as { type?: string }).type === 'entity.parse.failed'
+                ? new RelayApiError(400, 'MALFORMED_JSON', 'Request body is not valid JSON')
+                : (error as { type?: string }).type === 'entity.too.large'
+                    ? new RelayApiError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large')
+                    : new RelayApiError(500, 'INTERNAL_ERROR', 'Internal relay error');
+
+        const body: ApiErrorBody = {
+            error: {
+                code: apiError.code,
+                message: apiError.message,
+                ...(apiError.details !== undefined && { details: apiError.details })
+            }
+        };
+        res.status(apiError.status).json(body);
+    }
+}
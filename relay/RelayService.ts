@@ -10,11 +10,74 @@ import {
 } from '@midnight-ntwrk/midnight-js-sdk';
 import { zkCrypto } from '@midnight-ntwrk/zk-crypto';
 
-import { createHash, createHmac, randomBytes } from 'crypto';
-import Bull from 'bull';
-import Redis, { RedisOptions } from 'ioredis';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
 import winston from 'winston';
 import * as cron from 'node-cron';
+import { Server } from 'http';
+import {
+    CardAdminProof,
+    SignatureFailureReason,
+    verifyCardAdminProof,
+    verifyProofSigner,
+    verifySenderSignature
+} from './SignatureVerifier';
+import { EncryptedEnvelope, EvidenceKeyring } from './EvidenceKeyring';
+import { EvidenceBundle, sealEvidenceBundle } from './EvidenceBundle';
+import { AuditCheckpoint, AuditEntry, AuditLog } from './AuditLog';
+import { Mailbox, MailboxEntry, MailboxMessage, MailboxStatus } from './Mailbox';
+import { ContentReveal, encryptionKeyId, parseSealedEnvelope, verifyContentReveal } from './SealedContent';
+import { BondIndex, BondLedgerRow } from './BondIndex';
+import { AttachmentRef, AttachmentStore, CardAttachmentPolicy, StoredAttachment } from './AttachmentStore';
+import { ConversationThread, ConversationThreads, ThreadPage } from './ConversationThreads';
+import { AttestationQuorum, QuorumPolicy, QuorumStatus, QuorumVoteOutcome } from './AttestationQuorum';
+import { BondCache, BondCacheStats, BondEvent, BondEventSource, BondStatus } from './BondCache';
+import { InAppDeliveryStatus, InAppGateway } from './InAppGateway';
+import { EmailAction, EmailChannel } from './EmailChannel';
+import { PushChannel, PushSender } from './PushChannel';
+import { PushSubscription } from 'web-push';
+import { RelayMetrics } from './RelayMetrics';
+import { canonicalize, ReceiptSigner, verifyReceipt } from './RelayReceipts';
+import {
+    CardModerationPolicy,
+    ContentAnalyzer,
+    ContentClassifier,
+    ModerationDecision,
+    ModerationPipeline,
+    QuarantinedMessage
+} from './ModerationPipeline';
+import { CardRateQuota, RateLimitDecision, RateLimiter, SenderReputation } from './RateLimiter';
+import { ReplayFailureReason, ReplayGuard } from './ReplayGuard';
+import { RetentionEngine, RetentionReport, RetentionReportPage } from './RetentionEngine';
+import { defaultRelayConfig, redisOptions, RelayConfig, structuralChanges, validateRelayConfig } from './RelayConfig';
+import { createMemoryBackend, createRedisBackend, JobQueue, QueuedJob, RelayBackend, RelayStore } from './storage';
+
+/**
+ * JSON logs on the console and in relay-error.log / relay-combined.log
+ */
+export function createRelayLogger(): winston.Logger {
+    return winston.createLogger({
+        level: 'info',
+        format: winston.format.combine(
+            winston.format.timestamp(),
+            winston.format.errors({ stack: true }),
+            winston.format.json()
+        ),
+        transports: [
+            new winston.transports.File({ filename: 'relay-error.log', level: 'error' }),
+            new winston.transports.File({ filename: 'relay-combined.log' }),
+            new winston.transports.Console({
+                format: winston.format.simple()
+            })
+        ]
+    });
+}
+
+/**
+ * Verification failures that anyone can cause without the sender's signature, so they are not audited
+ */
+const UNSIGNED_VERIFICATION_FAILURES = [
+    'NO_ACTIVE_BOND', 'STALE', 'INVALID_SIGNATURE', 'UNKNOWN_KEY_TYPE', 'KEY_MISMATCH', 'INVALID_NONCE', 'REPLAYED', 'VERIFICATION_ERROR'
+];
 
 /**
  * SelectConnect Relay Service - Production-Ready Implementation
@@ -22,72 +85,176 @@ import * as cron from 'node-cron';
  * This service handles secure message forwarding with abuse bond verification
  * Built for Midnight blockchain with modern best practices:
  * - Persistent job queues for reliable bond slashing
- * - Redis caching for performance and reliability
+ * - Pluggable storage (Redis or in-memory) for caching and job state
  * - Comprehensive error handling and retry logic
  * - Secure secret key derivation and management
- * - Encrypted evidence storage
+ * - Envelope-encrypted evidence storage with master key rotation
  */
 export class SelectConnectRelay {
     private midnightProvider: MidnightProvider;
     private abuseEscrowContract: Contract;
     private selectConnectContract: Contract;
     private relayPrivateKey: string;
-    private redis: Redis;
-    private bondSlashingQueue: Bull.Queue;
+    private store: RelayStore;
+    private bondSlashingQueue: JobQueue;
+    private evidenceRewrapQueue: JobQueue;
+    private mailboxDeliveryQueue: JobQueue;
+    private privacyRouteQueue: JobQueue;
+    private cleanupTask?: cron.ScheduledTask;
+    private auditCheckpointTask?: cron.ScheduledTask;
+    private metrics: RelayMetrics;
+    private moderation: ModerationPipeline;
+    // Rebuilt by applyConfig, which the constructor calls
+    private rateLimiter!: RateLimiter;
+    private replayGuard!: ReplayGuard;
+    private mailbox!: Mailbox;
+    private retention!: RetentionEngine;
+    private quorum!: AttestationQuorum;
+    private threads!: ConversationThreads;
+    private attachments!: AttachmentStore;
+    private evidenceKeyring: EvidenceKeyring;
+    private receiptSigner: ReceiptSigner;
+    private audit: AuditLog;
+    private bondIndex: BondIndex;
+    private bondCache: BondCache;
+    private unsubscribeBondEvents?: () => void;
+    private inAppGateway: InAppGateway;
+    private emailChannel: EmailChannel;
+    private pushChannel: PushChannel;
     private logger: winston.Logger;
-    private readonly CACHE_TTL = 300; // 5 minutes
-    private readonly MAX_RETRIES = 3;
-    private readonly RETRY_DELAY = 1000; // 1 second
+    private config: RelayConfig;
+    // Sent by email and push in place of sealed content, which only the card's own client can open
+    private readonly SEALED_CONTENT_NOTICE = 'This intro is end-to-end encrypted. Open SelectConnect to read it.';
 
     constructor(
         midnightProvider: MidnightProvider,
         abuseEscrowAddress: string,
         noirCardAddress: string,
         relayPrivateKey: string,
-        redisConfig?: RedisOptions
+        options: RelayOptions = {}
     ) {
         this.midnightProvider = midnightProvider;
         this.relayPrivateKey = relayPrivateKey;
+        this.evidenceKeyring = options.evidenceKeyring || EvidenceKeyring.fromEnv(relayPrivateKey);
+        this.receiptSigner = options.receiptSigner || ReceiptSigner.fromEnv(relayPrivateKey);
+        const channels = options.channels || {};
         
-        // Initialize Redis for caching and job queues
-        this.redis = new Redis(
-            redisConfig || {
-                host: (process.env.REDIS_HOST as string) || 'localhost',
-                port: parseInt((process.env.REDIS_PORT as string) || '6379'),
-                maxRetriesPerRequest: 3,
-            }
-        );
+        this.config = options.config || defaultRelayConfig();
+        validateRelayConfig(this.config);
+        
+        // Initialize storage and job queues; the store and Bull share one Redis configuration
+        const backend = options.backend || (this.config.storage.backend === 'memory'
+            ? createMemoryBackend()
+            : createRedisBackend(redisOptions(this.config)));
+        this.store = backend.store;
         
         // Initialize logger
-        this.logger = winston.createLogger({
-            level: 'info',
-            format: winston.format.combine(
-                winston.format.timestamp(),
-                winston.format.errors({ stack: true }),
-                winston.format.json()
-            ),
-            transports: [
-                new winston.transports.File({ filename: 'relay-error.log', level: 'error' }),
-                new winston.transports.File({ filename: 'relay-combined.log' }),
-                new winston.transports.Console({
-                    format: winston.format.simple()
-                })
-            ]
+        this.logger = options.logger || createRelayLogger();
+        
+        // Initialize hash-chained audit log; checkpoints are signed with the receipt key and
+        // the lookup of each subject's key with a key derived from the relay secret
+        this.audit = new AuditLog(this.store, this.logger, this.receiptSigner, {
+            subjectLookupKey: createHmac('sha256', relayPrivateKey).update('selectconnect:audit-subjects').digest()
         });
         
-        // Initialize job queue for bond slashing
-        this.bondSlashingQueue = new Bull('bond slashing', {
-            redis: redisConfig || { host: 'localhost', port: 6379 }
+        // Initialize read-through bond status cache in front of hasActiveBond and getSenderReputation
+        this.bondCache = new BondCache(this.store, this.logger, this.loadBondStatus.bind(this), this.config.bonds);
+        
+        // Initialize rate limiter, replay guard, mailbox and retention engine from reloadable settings
+        this.applyConfig();
+        
+        // Initialize moderation chain run between verification and delivery
+        this.moderation = new ModerationPipeline(
+            this.store,
+            this.logger,
+            this.evidenceKeyring,
+            options.moderation?.analyzers || ModerationPipeline.defaultAnalyzers(options.moderation?.classifier)
+        );
+        
+        // Initialize bond index backed by the AbuseEscrow bond_meta ledger
+        this.bondIndex = new BondIndex(this.store, this.logger, this.readBondLedger.bind(this), this.hashToBytes32.bind(this));
+        
+        // Initialize WebSocket gateway for the in-app delivery channel
+        // Acks arrive after forwarding returns; they settle the message's mailbox entry
+        // The mailbox, not the gateway, holds messages for offline holders, so a new subscriber is sent them from there
+        this.inAppGateway = new InAppGateway(this.store, this.logger, this.getCardAdmin.bind(this), {
+            onAcknowledged: async (cardId, deliveryId, messageId) => {
+                if (messageId) {
+                    await this.mailbox.acknowledge(cardId, messageId);
+                }
+            },
+            onSubscribed: async cardId => {
+                try {
+                    await this.deliverMailboxInApp(cardId);
+                } catch (error) {
+                    // Whatever was not sent stays in the mailbox for the retry job and pulls
+                    this.logger.error('Mailbox flush to new subscriber failed', { cardId, error: (error as Error).message });
+                }
+            }
         });
         
+        // Initialize email channel; action links are signed with a key derived from the relay secret
+        this.emailChannel = channels.email || EmailChannel.fromEnv(
+            createHmac('sha256', relayPrivateKey).update('selectconnect:email-links').digest('hex'),
+            this.logger
+        );
+        
+        // Initialize Web Push channel; retries go through retryOperation
+        this.pushChannel = new PushChannel(
+            this.store,
+            this.logger,
+            this.evidenceKeyring,
+            this.retryOperation.bind(this),
+            { sender: channels.pushSender }
+        );
+        
+        // Initialize job queue for bond slashing
+        this.bondSlashingQueue = backend.createQueue('bond slashing');
+        
         // Process bond slashing jobs
         this.bondSlashingQueue.process('slashBond', this.processBondSlashing.bind(this));
         
+        // Initialize job queue for re-wrapping evidence keys after master key rotation
+        this.evidenceRewrapQueue = backend.createQueue('evidence rewrap');
+        this.evidenceRewrapQueue.process('rewrapEvidence', this.processEvidenceRewrap.bind(this));
+        
+        // Initialize job queue retrying mailbox messages no channel accepted
+        this.mailboxDeliveryQueue = backend.createQueue('mailbox delivery');
+        this.mailboxDeliveryQueue.process('deliverMessage', this.processMailboxDelivery.bind(this));
+        
+        // Initialize job queue for privacy route calls: recording interactions and submitting spam reports
+        this.privacyRouteQueue = backend.createQueue('privacy routes');
+        this.privacyRouteQueue.process('accessRoute', this.processRouteAccess.bind(this));
+        this.privacyRouteQueue.process('reportSpam', this.processSpamReport.bind(this));
+        
+        // Initialize Prometheus metrics; queue depth is read at scrape time
+        this.metrics = new RelayMetrics({
+            bond_slashing: this.bondSlashingQueue,
+            evidence_rewrap: this.evidenceRewrapQueue,
+            mailbox_delivery: this.mailboxDeliveryQueue,
+            privacy_routes: this.privacyRouteQueue
+        });
+        
+        if (this.evidenceKeyring.hasRetiredKeys()) {
+            this.scheduleEvidenceRewrap().catch(error => {
+                this.logger.error('Failed to schedule evidence re-wrap', { error });
+            });
+        }
+        
         // Initialize contracts
         this.initializeContracts(abuseEscrowAddress, noirCardAddress);
         
-        // Start cleanup cron job
+        // Drop cached bond status when the chain watcher reports bond events; without one, poll bond_meta
+        const onBondEvent = (event: BondEvent) => {
+            this.handleBondEvent(event).catch(error => {
+                this.logger.error('Failed to apply bond event', { ...event, error: (error as Error).message });
+            });
+        };
+        this.unsubscribeBondEvents = options.bondEvents ? options.bondEvents(onBondEvent) : this.watchBondLedger();
+        
+        // Start hourly retention and audit checkpoint jobs
         this.startCleanupJob();
+        this.startAuditCheckpointJob();
     }
 
     /**
@@ -104,11 +271,105 @@ export class SelectConnectRelay {
         }
     }
     
+    /**
+     * Apply a new configuration to the running relay; storage and server settings need a restart
+     * Returns the structural settings that changed and were not applied
+     */
+    reloadConfig(config: RelayConfig): string[] {
+        validateRelayConfig(config);
+        
+        const pending = structuralChanges(this.config, config);
+        this.config = { ...config, storage: this.config.storage, server: this.config.server };
+        this.applyConfig();
+        
+        if (pending.length > 0) {
+            this.logger.warn('Configuration changes need a restart to take effect', { settings: pending });
+        }
+        this.logger.info('Relay configuration reloaded');
+        return pending;
+    }
+    
+    getConfig(): RelayConfig {
+        return this.config;
+    }
+    
+    /**
+     * (Re)build the store-backed components whose settings are reloadable; they keep no state of their own
+     */
+    private applyConfig(): void {
+        const { bonds, attestations, rateLimits, messages, mailbox, threads, attachments, retention } = this.config;
+        
+        // Bond cache TTLs; the cache itself (and its statistics) outlives reloads
+        this.bondCache.configure(bonds);
+        
+        // Sliding-window rate limiter (per sender, per card, per pair)
+        this.rateLimiter = new RateLimiter(this.store, this.logger, rateLimits);
+        
+        // Nonce registry rejecting replayed and stale messages
+        this.replayGuard = new ReplayGuard(this.store, this.logger, {
+            clockSkewSeconds: messages.clockSkewSeconds,
+            maxAgeSeconds: messages.maxAgeSeconds
+        });
+        
+        // Per-card mailbox that holds messages until they are delivered or pulled
+        this.mailbox = new Mailbox(this.store, this.logger, this.evidenceKeyring, mailbox);
+        
+        // Follow-up threads opened by a recipient's reply, with their own expiry and limits
+        this.threads = new ConversationThreads(this.store, this.logger, this.evidenceKeyring, threads);
+        
+        // Encrypted attachment blobs on local disk, under per-card size, type and bond policies
+        this.attachments = new AttachmentStore(this.store, this.logger, this.evidenceKeyring, {
+            ...attachments,
+            directory: this.config.storage.attachmentDirectory
+        });
+        
+        // Retention policies and erasure; evidence is read to match its card and sender
+        this.retention = new RetentionEngine(this.store, this.logger, this.decryptEvidence.bind(this), retention);
+        this.audit.configure(retention.policies.audit.enabled ? retention.policies.audit.maxAgeSeconds : undefined);
+        
+        // Per-card M-of-N guardian quorum; a reached quorum is remembered as long as its evidence
+        this.quorum = new AttestationQuorum(this.store, this.logger, {
+            defaultPolicy: { threshold: attestations.defaultQuorumThreshold, windowHours: attestations.defaultQuorumWindowHours },
+            reachedTtlSeconds: this.evidenceTtl()
+        });
+    }
+    
+    /**
+     * Poll bond_meta every bonds.ledgerPollSeconds (read each round, so reloads apply) and apply what changed
+     * Returns a function that stops polling
+     */
+    private watchBondLedger(): () => void {
+        let timer: NodeJS.Timeout | undefined;
+        let stopped = false;
+        
+        const schedule = () => {
+            timer = setTimeout(async () => {
+                try {
+                    for (const event of await this.bondIndex.poll()) {
+                        await this.applyBondEvent(event);
+                    }
+                } catch (error) {
+                    this.logger.error('Bond ledger poll failed', { error: (error as Error).message });
+                }
+                if (!stopped) {
+                    schedule();
+                }
+            }, this.config.bonds.ledgerPollSeconds * 1000);
+            timer.unref();
+        };
+        schedule();
+        
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    }
+    
     /**
      * Start cleanup job for expired data
      */
     private startCleanupJob(): void {
-        cron.schedule('0 * * * *', async () => {
+        this.cleanupTask = cron.schedule('0 * * * *', async () => {
             try {
                 await this.cleanupExpiredData();
             } catch (error) {
@@ -117,15 +378,41 @@ export class SelectConnectRelay {
         });
     }
     
+    /**
+     * Publish a signed audit checkpoint every 15 minutes
+     */
+    private startAuditCheckpointJob(): void {
+        this.auditCheckpointTask = cron.schedule('*/15 * * * *', async () => {
+            try {
+                await this.audit.publishCheckpoint();
+            } catch (error) {
+                this.logger.error('Audit checkpoint failed', { error });
+            }
+        });
+    }
+    
     /**
      * Process bond slashing jobs from queue
      */
-    private async processBondSlashing(job: Bull.Job): Promise<void> {
+    private async processBondSlashing(job: QueuedJob): Promise<void> {
         const { bondId, evidenceHash, senderCommit, cardId, attestationId } = job.data;
         
         try {
+            const attestation = await this.getAttestationRecord(attestationId);
+            if (attestation && (attestation.disputeState === 'DISPUTED' || attestation.disputeState === 'DISMISSED')) {
+                this.logger.info('Skipping slash for disputed attestation', {
+                    bondId,
+                    attestationId,
+                    disputeState: attestation.disputeState
+                });
+                await this.audit.record('SLASH', { attestationId, bondId, evidenceHash, outcome: 'SKIPPED', disputeState: attestation.disputeState });
+                return;
+            }
+            
             const senderNull = this.hashToBytes32(`${senderCommit}-${cardId}-nullifier`);
             await this.abuseEscrowContract.call('slashBond', [bondId, evidenceHash, senderNull]);
+            await this.handleBondEvent({ type: 'SLASHED', cardId, senderCommit, bondId });
+            await this.audit.record('SLASH', { attestationId, bondId, evidenceHash, outcome: 'SLASHED', attempt: job.attemptsMade + 1 });
             
             this.logger.info('Bond slashed successfully', {
                 bondId,
@@ -140,28 +427,235 @@ export class SelectConnectRelay {
                 attestationId,
                 stack: (error as Error).stack
             });
+            await this.audit.record('SLASH', { attestationId, bondId, evidenceHash, outcome: 'FAILED', attempt: job.attemptsMade + 1 });
             throw error;
         }
     }
     
+    /**
+     * Record the on-chain interaction for a message that arrived through a privacy route
+     *
+     * accessViaPrivacyRoute does not return the interaction it creates, so the
+     * relay reads interaction_tracking afterwards and claims the newest
+     * unclaimed entry for the route and sender. A retry after the circuit
+     * succeeded goes straight to the lookup, so one message creates one
+     * interaction.
+     */
+    private async processRouteAccess(job: QueuedJob): Promise<void> {
+        const { evidenceHash, cardId, senderCommit, routeCode } = job.data;
+        const routeKey = this.routeCodeToBytes32(routeCode);
+        const senderKey = this.hashToBytes32(senderCommit);
+        const accessedKey = `route_accessed:${evidenceHash}`;
+        
+        if (!await this.store.get(accessedKey)) {
+            const access = this.parseRouteAccess(
+                await this.selectConnectContract.call('accessViaPrivacyRoute', [routeKey, senderKey])
+            );
+            if (access.cardId !== this.hashToBytes32(cardId)) {
+                this.logger.warn('Privacy route belongs to another card; interaction not recorded', { cardId, evidenceHash });
+                return;
+            }
+            if (!access.isTrackable) {
+                this.logger.debug('Privacy route is not trackable', { cardId, evidenceHash });
+                return;
+            }
+            await this.store.set(accessedKey, String(Date.now()), this.evidenceTtl());
+        }
+        
+        const interactions = await this.selectConnectContract.call('queryLedger', ['interaction_tracking']);
+        // interaction_tracking: interactionId -> (routeCode, senderCommit, timestamp, interactionType, reportedAsSpam)
+        const entries: [string, any[]][] = interactions instanceof Map ? Array.from(interactions.entries()) : interactions;
+        const candidates = entries
+            .filter(([, meta]) => meta[0] === routeKey && meta[1] === senderKey && !meta[4])
+            .sort(([, a], [, b]) => Number(b[2]) - Number(a[2]));
+        
+        for (const [id] of candidates) {
+            if (!await this.store.setIfAbsent(`route_interaction_claim:${id}`, evidenceHash, this.evidenceTtl())) {
+                continue;
+            }
+            const interaction: RouteInteraction = { interactionId: id, routeCode: routeKey, cardId, senderCommit, recordedAt: Date.now() };
+            await this.store.set(`route_interaction:${evidenceHash}`, JSON.stringify(interaction), this.evidenceTtl());
+            this.logger.info('Privacy route interaction recorded', { cardId, evidenceHash, interactionId: id });
+            return;
+        }
+        
+        // The access transaction may not be visible in the ledger yet
+        throw new Error('Interaction not found in interaction_tracking');
+    }
+    
+    /**
+     * Submit reportSpamViaRoute for a recorded interaction and count the report against the sender
+     */
+    private async processSpamReport(job: QueuedJob): Promise<void> {
+        const { evidenceHash } = job.data;
+        const interaction = await this.getRouteInteraction(evidenceHash);
+        if (!interaction) {
+            this.logger.warn('Spam report dropped; route interaction expired or erased', { evidenceHash });
+            return;
+        }
+        const { interactionId, routeCode, cardId, senderCommit } = interaction;
+        
+        try {
+            await this.selectConnectContract.call('reportSpamViaRoute', [
+                routeCode,
+                this.hashToBytes32(senderCommit),
+                interactionId,
+                evidenceHash
+            ]);
+        } catch (error) {
+            if (!/already reported/i.test((error as Error).message)) {
+                this.logger.error('Spam report submission failed', { error: (error as Error).message, interactionId, evidenceHash });
+                await this.audit.record('SPAM_REPORT', { cardId, senderCommit, evidenceHash, interactionId, outcome: 'FAILED', attempt: job.attemptsMade + 1 });
+                throw error;
+            }
+            // Submitted by an earlier attempt whose confirmation was lost; still counted below
+        }
+        
+        if (await this.store.setIfAbsent(`spam_report_counted:${interactionId}`, String(Date.now()), this.evidenceTtl())) {
+            await this.store.increment(`spam_reports:${senderCommit}`, this.evidenceTtl());
+            // Cached reputation is stale until the next bond lookup reloads it
+            await this.bondCache.invalidateSender(senderCommit);
+        }
+        await this.store.set(`spam_report:${interactionId}`, 'SUBMITTED', this.evidenceTtl());
+        await this.audit.record('SPAM_REPORT', { cardId, senderCommit, evidenceHash, interactionId, outcome: 'SUBMITTED', attempt: job.attemptsMade + 1 });
+        this.logger.info('Spam report submitted on-chain', { cardId, interactionId, evidenceHash });
+    }
+    
+    /**
+     * Retry the card's channels for a message still waiting in its mailbox
+     */
+    private async processMailboxDelivery(job: QueuedJob): Promise<void> {
+        const { messageId, evidenceHash } = job.data;
+        
+        const entry = await this.mailbox.get(messageId);
+        if (!entry || entry.status !== 'QUEUED') {
+            // Delivered, acknowledged, deleted or expired since the last attempt
+            return;
+        }
+        
+        const messagePayload = await this.mailbox.getPayload<MessagePayload>(messageId);
+        if (!messagePayload) {
+            return;
+        }
+        
+        const result = await this.attemptDelivery(messageId, messagePayload, evidenceHash);
+        if (result.status === 'QUEUED') {
+            throw new Error('No delivery channel accepted the message');
+        }
+    }
+    
+    /**
+     * Read every bond_meta entry from the AbuseEscrow ledger
+     */
+    private async readBondLedger(): Promise<BondLedgerRow[]> {
+        const bondMeta = await this.retryOperation(async () => {
+            return await this.abuseEscrowContract.call('queryLedger', ['bond_meta']);
+        });
+        
+        // bond_meta: bondId -> (cardId, senderCommit, amount, expiresAt, refunded, slashed)
+        const entries: [string, any[]][] = bondMeta instanceof Map ? Array.from(bondMeta.entries()) : bondMeta;
+        
+        return entries.map(([bondId, [cardKey, senderKey, amount, expiresAt, refunded, slashed]]) => ({
+            bondId,
+            cardKey,
+            senderKey,
+            amount: amount.toString(),
+            expiresAt: Number(expiresAt),
+            refunded: Boolean(refunded),
+            slashed: Boolean(slashed)
+        }));
+    }
+    
+    /**
+     * Re-wrap evidence data keys under the active master key
+     * Walks evidence:* incrementally and also seals legacy base64 records; attachment blobs on disk follow
+     */
+    private async processEvidenceRewrap(job: QueuedJob): Promise<void> {
+        const activeKeyId = this.evidenceKeyring.getActiveKeyId();
+        let rewrapped = 0;
+        let failed = 0;
+        
+        // Content reveals, registered email addresses, the VAPID key pair, quarantined, mailbox and thread messages share the keyring
+        for (const pattern of [
+            'evidence:*', 'evidence_reveal:*', 'email_recipient:*', 'push:vapid',
+            'quarantine_payload:*', 'mailbox_payload:*', 'thread_payload:*'
+        ]) {
+            for await (const keys of this.store.scan(pattern, 100)) {
+                for (const key of keys) {
+                    try {
+                        const stored = await this.store.get(key);
+                        if (!stored) {
+                            continue;
+                        }
+                        
+                        const record = JSON.parse(stored);
+                        const updated = record.algorithm === 'base64'
+                            ? this.evidenceKeyring.seal(Buffer.from(record.encrypted, 'base64'), key.slice('evidence:'.length))
+                            : this.evidenceKeyring.rewrap(record as EncryptedEnvelope);
+                        
+                        if (updated) {
+                            await this.store.replace(key, JSON.stringify(updated));
+                            rewrapped++;
+                        }
+                    } catch (error) {
+                        failed++;
+                        this.logger.error('Evidence re-wrap failed', { key, error: (error as Error).message });
+                    }
+                }
+            }
+        }
+        
+        const blobs = await this.attachments.rewrap();
+        rewrapped += blobs.rewrapped;
+        failed += blobs.failed;
+        
+        this.logger.info('Evidence re-wrap completed', { jobId: job.id, activeKeyId, rewrapped, failed });
+        
+        if (failed > 0) {
+            throw new Error(`Failed to re-wrap ${failed} evidence records`);
+        }
+    }
+    
+    /**
+     * Queue a background re-wrap of stored evidence after master key rotation
+     */
+    async scheduleEvidenceRewrap(): Promise<void> {
+        await this.evidenceRewrapQueue.add('rewrapEvidence', {
+            activeKeyId: this.evidenceKeyring.getActiveKeyId()
+        }, {
+            jobId: `rewrap:${this.evidenceKeyring.getActiveKeyId()}`,
+            attempts: 3,
+            backoff: {
+                type: 'exponential',
+                delay: 60000
+            }
+        });
+    }
+    
     /**
      * Retry operation with exponential backoff
      */
     private async retryOperation<T>(operation: () => Promise<T>): Promise<T> {
         let lastError: Error | undefined;
+        const endTimer = this.metrics.contractCallDuration.startTimer();
+        
+        const { maxRetries, retryDelayMs } = this.config.contractCalls;
         
-        for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+        for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
-                return await operation();
+                const result = await operation();
+                endTimer({ outcome: 'success' });
+                return result;
             } catch (error) {
                 lastError = error as Error;
                 
-                if (attempt === this.MAX_RETRIES) {
+                if (attempt === maxRetries) {
                     break;
                 }
                 
-                const delay = this.RETRY_DELAY * Math.pow(2, attempt - 1);
-                this.logger.debug(`Retry attempt ${attempt}/${this.MAX_RETRIES} failed, retrying in ${delay}ms`, {
+                const delay = retryDelayMs * Math.pow(2, attempt - 1);
+                this.metrics.contractCallRetries.inc();
+                this.logger.debug(`Retry attempt ${attempt}/${maxRetries} failed, retrying in ${delay}ms`, {
                     error: (error as Error).message
                 });
                 
@@ -169,6 +663,7 @@ export class SelectConnectRelay {
             }
         }
         
+        endTimer({ outcome: 'failure' });
         throw lastError || new Error('Operation failed after retries');
     }
     
@@ -185,131 +680,717 @@ export class SelectConnectRelay {
     private hashMessage(payload: MessagePayload): string {
         const messageData = {
             content: payload.content,
+            contentCommitment: payload.contentCommitment,
             senderCommit: payload.senderCommit,
             cardId: payload.cardId,
-            timestamp: payload.timestamp
+            timestamp: payload.timestamp,
+            nonce: payload.nonce,
+            routeCode: payload.routeCode,
+            attachments: payload.attachments?.map(({ hash, mimeType, size, filename }) => ({ hash, mimeType, size, filename }))
         };
         return createHash('sha256').update(JSON.stringify(messageData)).digest('hex');
     }
     
     /**
-     * Clean up expired cache entries and attestations
+     * Enforce the retention policies; evidence under open dispute is kept
      */
     private async cleanupExpiredData(): Promise<void> {
         try {
-            const keys = await this.redis.keys('attestation:*');
-            let cleaned = 0;
-            
-            for (const key of keys) {
-                const ttl = await this.redis.ttl(key);
-                if (ttl <= 0) {
-                    await this.redis.del(key);
-                    cleaned++;
-                }
+            await this.attachments.prune();
+            const report = await this.retention.enforcePolicies();
+            if (report) {
+                const removed = Object.values(report.classes).reduce((sum, counts) => sum + (counts?.deleted || 0), 0);
+                this.metrics.cleanupKeysRemoved.inc(removed);
             }
-            
-            this.logger.info('Cleanup completed', { keysRemoved: cleaned });
         } catch (error) {
             this.logger.error('Cleanup failed', { error });
         }
     }
     
     /**
-     * Generate sender commitment with proper cryptographic security
+     * Report availability of the store, the slashing queue and the Midnight contracts
      */
-    generateSenderCommitment(cardId: string, senderDid: string, salt: string): string {
-        const hmac = createHmac('sha256', salt);
-        hmac.update(cardId);
-        hmac.update(senderDid);
-        return hmac.digest('hex');
+    async checkHealth(): Promise<RelayHealth> {
+        const probe = (check: Promise<unknown>) => Promise.race([
+            check.then(() => true),
+            new Promise<boolean>(resolve => setTimeout(() => resolve(false), 2000))
+        ]).catch(() => false);
+        
+        const [store, queue] = await Promise.all([
+            probe(this.store.ping()),
+            probe(this.bondSlashingQueue.isReady())
+        ]);
+        const contracts = Boolean(this.abuseEscrowContract && this.selectConnectContract);
+        
+        return {
+            healthy: store && queue && contracts,
+            store,
+            queue,
+            contracts,
+            timestamp: Date.now()
+        };
     }
-
+    
     /**
-     * Generate sender nullifier using proper PRF construction
+     * Serve the in-app delivery channel over WebSockets on the given HTTP server
      */
-    async generateSenderNullifier(userWallet: MidnightSigner, cardId: string): Promise<string> {
-        try {
-            const message = `NoirCard-Nullifier-${cardId}`;
-            const signature = await userWallet.signMessage(message);
-            const secretKey = createHash('sha256').update(signature).digest();
-            
-            return createHmac('sha256', secretKey).update(cardId).digest('hex');
-        } catch (error) {
-            this.logger.error('Failed to generate sender nullifier', { error, cardId });
-            throw new Error('Nullifier generation failed');
+    attachRealtimeGateway(server: Server): void {
+        this.inAppGateway.attach(server);
+    }
+    
+    async detachRealtimeGateway(): Promise<void> {
+        await this.inAppGateway.close();
+    }
+    
+    /**
+     * Prometheus text exposition of the relay's metrics
+     */
+    async getMetrics(): Promise<{ contentType: string; body: string }> {
+        return { contentType: this.metrics.contentType, body: await this.metrics.render() };
+    }
+    
+    /**
+     * Stop background work and release the store and job queues
+     */
+    async close(): Promise<void> {
+        this.unsubscribeBondEvents?.();
+        this.cleanupTask?.stop();
+        this.auditCheckpointTask?.stop();
+        await this.bondSlashingQueue.close();
+        await this.evidenceRewrapQueue.close();
+        await this.mailboxDeliveryQueue.close();
+        await this.privacyRouteQueue.close();
+        await this.store.close();
+    }
+    
+    /**
+     * Look up the latest status of an in-app delivery (acks may arrive after forwarding)
+     */
+    async getDeliveryStatus(deliveryId: string): Promise<InAppDeliveryStatus | null> {
+        return await this.inAppGateway.getDeliveryStatus(deliveryId);
+    }
+    
+    /**
+     * Current state of a forwarded message (QUEUED, DELIVERED or EXPIRED) by its mailbox ID
+     * The card admin signs sha256(`selectconnect:read:<cardId>:mailbox:<messageId>:<timestamp>`)
+     */
+    async getMailboxStatus(cardId: string, messageId: string, adminProof: CardAdminProof, timestamp: number): Promise<MailboxActionResult> {
+        const refused = await this.checkCardRead(cardId, `mailbox:${messageId}`, adminProof, timestamp);
+        if (refused) {
+            return { success: false, reason: refused };
+        }
+        
+        const entry = await this.mailbox.get(messageId);
+        if (!entry || entry.cardId !== cardId) {
+            return { success: false, reason: 'MAILBOX_MESSAGE_NOT_FOUND' };
         }
+        return { success: true, delivery: this.toDeliveryResult(messageId, entry) };
     }
-
+    
     /**
-     * Verify bond status with comprehensive caching and error handling
+     * Page through a card's unacknowledged messages, oldest first
+     * The card admin signs sha256(`selectconnect:mailbox:<cardId>:pull:<timestamp>`) within messages.maxAgeSeconds of the timestamp
      */
-    async verifyBondForMessage(
+    async pullMailbox(
         cardId: string,
-        senderCommit: string,
-        messagePayload: MessagePayload
-    ): Promise<BondVerificationResult> {
-        const cacheKey = `bond:${cardId}:${senderCommit}`;
+        adminProof: CardAdminProof,
+        timestamp: number,
+        cursor?: string,
+        limit: number = 50
+    ): Promise<MailboxPullResult> {
+        if (Math.abs(Date.now() - timestamp) > this.config.messages.maxAgeSeconds * 1000) {
+            return { success: false, reason: 'STALE_REQUEST' };
+        }
         
-        try {
-            const cached = await this.redis.get(cacheKey);
-            if (cached) {
-                const bondStatus = JSON.parse(cached);
-                if (bondStatus.active) {
-                    this.logger.debug('Bond verification from cache', { cardId, senderCommit });
-                }
-            }
-            
-            const hasActiveBond = await this.retryOperation(async () => {
-                return await this.abuseEscrowContract.call('hasActiveBond', [
-                    this.hashToBytes32(cardId),
-                    this.hashToBytes32(senderCommit)
-                ]);
-            });
+        const challenge = this.mailboxChallenge(cardId, 'pull', String(timestamp));
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        const page = await this.mailbox.pull<MessagePayload>(cardId, cursor, limit);
+        return { success: true, ...page };
+    }
+    
+    /**
+     * Confirm receipt of a mailbox message; it is no longer returned by pullMailbox
+     * The card admin signs sha256(`selectconnect:mailbox:<cardId>:ack:<messageId>`)
+     */
+    async acknowledgeMailboxMessage(cardId: string, messageId: string, adminProof: CardAdminProof): Promise<MailboxActionResult> {
+        if (!await this.verifyCardAdmin(cardId, this.mailboxChallenge(cardId, 'ack', messageId), adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        const entry = await this.mailbox.acknowledge(cardId, messageId);
+        if (!entry) {
+            return { success: false, reason: 'MAILBOX_MESSAGE_NOT_FOUND' };
+        }
+        
+        await this.mailboxDeliveryQueue.remove(`mailbox:${messageId}`);
+        return { success: true, delivery: this.toDeliveryResult(messageId, entry) };
+    }
+    
+    /**
+     * Delete a mailbox message and its delivery status
+     * The card admin signs sha256(`selectconnect:mailbox:<cardId>:delete:<messageId>`)
+     */
+    async deleteMailboxMessage(cardId: string, messageId: string, adminProof: CardAdminProof): Promise<MailboxActionResult> {
+        if (!await this.verifyCardAdmin(cardId, this.mailboxChallenge(cardId, 'delete', messageId), adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        if (!await this.mailbox.remove(cardId, messageId)) {
+            return { success: false, reason: 'MAILBOX_MESSAGE_NOT_FOUND' };
+        }
+        
+        await this.mailboxDeliveryQueue.remove(`mailbox:${messageId}`);
+        return { success: true };
+    }
+    
+    private mailboxChallenge(cardId: string, action: 'pull' | 'ack' | 'delete', subject: string): string {
+        return createHash('sha256').update(`selectconnect:mailbox:${cardId}:${action}:${subject}`).digest('hex');
+    }
 
-            if (!hasActiveBond) {
-                await this.redis.setex(cacheKey, 60, JSON.stringify({ active: false }));
-                
-                return {
-                    verified: false,
-                    reason: 'NO_ACTIVE_BOND',
-                    requiredBondAmount: await this.getRequiredBondAmount(cardId, senderCommit)
-                };
-            }
+    /**
+     * Erase everything the relay holds about a card except evidence under open dispute
+     * The card admin signs sha256(`selectconnect:erase:card:<cardId>`)
+     */
+    async eraseCardData(cardId: string, adminProof: CardAdminProof): Promise<ErasureResult> {
+        const challenge = createHash('sha256').update(`selectconnect:erase:card:${cardId}`).digest('hex');
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
 
-            const reputation = await this.retryOperation(async () => {
-                return await this.abuseEscrowContract.call('getSenderReputation', [
-                    this.hashToBytes32(senderCommit)
-                ]);
-            });
+        const report = await this.retention.eraseCardData(cardId);
+        await this.audit.forget(cardId);
+        await this.audit.record('ERASURE', { kind: report.kind, reportId: report.reportId, subjectHash: report.subjectHash! });
+        return { success: true, report };
+    }
 
-            if (await this.isRateLimited(senderCommit, reputation)) {
-                return {
-                    verified: false,
-                    reason: 'RATE_LIMITED',
-                    retryAfter: await this.getRateLimitRetryTime(senderCommit)
-                };
-            }
+    /**
+     * Erase everything the relay holds about a sender commitment except evidence under open dispute
+     * The sender proves the commitment by opening it (see generateSenderCommitment)
+     */
+    async eraseSenderData(cardId: string, senderCommit: string, senderProof: SenderProof): Promise<ErasureResult> {
+        if (!this.verifySenderProof(cardId, senderCommit, senderProof)) {
+            return { success: false, reason: 'INVALID_SENDER_PROOF' };
+        }
 
-            const messageValid = await this.verifyMessageSignature(messagePayload);
-            if (!messageValid) {
-                this.logger.warn('Invalid message signature', { 
-                    cardId, 
-                    senderCommit, 
-                    messageHash: this.hashMessage(messagePayload) 
-                });
-                return {
-                    verified: false,
-                    reason: 'INVALID_SIGNATURE'
-                };
-            }
+        const report = await this.retention.eraseSenderData(senderCommit);
+        await this.audit.forget(senderCommit);
+        await this.audit.record('ERASURE', { kind: report.kind, reportId: report.reportId, subjectHash: report.subjectHash! });
+        return { success: true, report };
+    }
 
-            await this.redis.setex(cacheKey, this.CACHE_TTL, JSON.stringify({ 
-                active: true, 
-                reputation,
-                timestamp: Date.now()
-            }));
+    async getRetentionReport(reportId: string): Promise<RetentionReport | null> {
+        return await this.retention.getReport(reportId);
+    }
+
+    /**
+     * Audit trail of retention and erasure runs, oldest first
+     */
+    async listRetentionReports(cursor?: string, limit?: number): Promise<RetentionReportPage> {
+        return await this.retention.listReports(cursor, limit);
+    }
+
+    /**
+     * Audit log entries from fromSeq on; check them against the checkpoints with verifyAuditLog
+     */
+    async getAuditEntries(fromSeq: number, limit: number = 100): Promise<AuditEntry[]> {
+        return await this.audit.getEntries(fromSeq, limit);
+    }
+
+    async getAuditCheckpoints(fromSeq: number, limit: number = 100): Promise<AuditCheckpoint[]> {
+        return await this.audit.getCheckpoints(fromSeq, limit);
+    }
+
+    /**
+     * Sign a checkpoint over entries appended since the last one (also runs every 15 minutes)
+     */
+    async publishAuditCheckpoint(): Promise<AuditCheckpoint | null> {
+        return await this.audit.publishCheckpoint();
+    }
+
+    /**
+     * Register the private address used by the email channel for a card
+     * The card admin signs sha256(`selectconnect:email:<cardId>:<emailAddress>`)
+     */
+    async registerEmailRecipient(cardId: string, emailAddress: string, adminProof: CardAdminProof): Promise<boolean> {
+        const challenge = createHash('sha256').update(`selectconnect:email:${cardId}:${emailAddress}`).digest('hex');
+        const cardAdmin = await this.getCardAdmin(cardId);
+        
+        if (!verifyCardAdminProof(adminProof, challenge, cardAdmin)) {
+            this.logger.warn('Rejected email registration without valid admin proof', { cardId });
+            return false;
+        }
+        
+        const sealed = this.evidenceKeyring.seal(Buffer.from(emailAddress), `email:${cardId}`);
+        await this.store.set(`email_recipient:${cardId}`, JSON.stringify(sealed));
+        
+        this.logger.info('Email recipient registered', { cardId, alias: this.emailChannel.aliasFor(cardId) });
+        return true;
+    }
+    
+    /**
+     * Publish the X25519 key senders seal content to; the card then only accepts sealed messages
+     * The card admin signs sha256(`selectconnect:encryption-key:<cardId>:<publicKey>`)
+     */
+    async registerCardEncryptionKey(cardId: string, publicKey: string, adminProof: CardAdminProof): Promise<boolean> {
+        const normalized = publicKey.toLowerCase();
+        const challenge = createHash('sha256').update(`selectconnect:encryption-key:${cardId}:${normalized}`).digest('hex');
+        
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            this.logger.warn('Rejected encryption key registration without valid admin proof', { cardId });
+            return false;
+        }
+        
+        const key: CardEncryptionKey = { publicKey: normalized, keyId: encryptionKeyId(normalized), registeredAt: Date.now() };
+        await this.store.set(`card_encryption_key:${cardId}`, JSON.stringify(key));
+        
+        this.logger.info('Card encryption key registered', { cardId, keyId: key.keyId });
+        return true;
+    }
+    
+    async getCardEncryptionKey(cardId: string): Promise<CardEncryptionKey | null> {
+        const stored = await this.store.get(`card_encryption_key:${cardId}`);
+        return stored ? JSON.parse(stored) : null;
+    }
+    
+    /**
+     * Reason a message's content is unacceptable for the card's encryption mode, or null
+     */
+    private async checkContentSealing(messagePayload: MessagePayload): Promise<string | null> {
+        const cardKey = await this.getCardEncryptionKey(messagePayload.cardId);
+        
+        if (!messagePayload.contentCommitment) {
+            return cardKey ? 'E2E_REQUIRED' : null;
+        }
+        
+        const envelope = parseSealedEnvelope(messagePayload.content);
+        if (!envelope || !/^[0-9a-fA-F]{64}$/.test(messagePayload.contentCommitment)) {
+            return 'INVALID_SEALED_CONTENT';
+        }
+        if (!cardKey || envelope.keyId !== cardKey.keyId) {
+            return 'STALE_ENCRYPTION_KEY';
+        }
+        return null;
+    }
+    
+    /**
+     * Reason a message's attachments are unacceptable for the card, or null
+     * Cards with a minimum bond amount only take attachments on messages backed by a large enough bond
+     */
+    private async checkAttachments(messagePayload: MessagePayload, bondId: string): Promise<string | null> {
+        if (!messagePayload.attachments?.length) {
+            return null;
+        }
+        
+        const rejection = await this.attachments.check(messagePayload.cardId, messagePayload.attachments);
+        if (rejection) {
+            return rejection;
+        }
+        
+        const { minBondAmount } = await this.attachments.getPolicy(messagePayload.cardId);
+        if (minBondAmount) {
+            // Read from the ledger, since a thread's bond has usually been refunded by the reply that opened it
+            const bond = await this.bondIndex.getBond(bondId);
+            if (!bond || BigInt(bond.amount) < BigInt(minBondAmount)) {
+                return 'ATTACHMENT_BOND_TOO_LOW';
+            }
+        }
+        return null;
+    }
+    
+    /**
+     * Store an attachment a bonded sender wants to reference from a message to the card
+     * The sender signs sha256(`selectconnect:attachment-upload:<cardId>:<senderCommit>:<hash>:<timestamp>:<nonce>`);
+     * uploaded bytes count against the sender's and the card's byte quotas
+     */
+    async uploadAttachment(
+        cardId: string,
+        senderCommit: string,
+        mimeType: string,
+        data: Buffer,
+        proof: AttachmentUploadProof
+    ): Promise<AttachmentUploadResult> {
+        const freshness = this.replayGuard.checkFreshness(proof.timestamp);
+        if (!freshness.valid) {
+            return { success: false, reason: 'STALE_REQUEST' };
+        }
+        
+        const hash = createHash('sha256').update(data).digest('hex');
+        const challenge = createHash('sha256')
+            .update(`selectconnect:attachment-upload:${cardId}:${senderCommit}:${hash}:${proof.timestamp}:${proof.nonce}`)
+            .digest('hex');
+        const uploader = verifyProofSigner(proof, challenge);
+        if (!uploader) {
+            return { success: false, reason: 'INVALID_SIGNATURE' };
+        }
+        
+        // Only signed uploads may claim a nonce, as with messages
+        const replay = await this.replayGuard.consumeNonce(uploader, proof.nonce, proof.timestamp);
+        if (!replay.valid) {
+            return { success: false, reason: replay.reason };
+        }
+        
+        const bond = await this.bondCache.lookup(cardId, senderCommit);
+        this.metrics.bondCacheLookups.inc({ result: bond.source });
+        if (!bond.status.active) {
+            return { success: false, reason: 'NO_ACTIVE_BOND' };
+        }
+        
+        const quota = await this.rateLimiter.consumeBytes(cardId, senderCommit, data.length);
+        if (!quota.allowed) {
+            this.metrics.rateLimitHits.inc({ scope: 'upload' });
+            return { success: false, reason: 'UPLOAD_QUOTA_EXCEEDED', retryAfter: quota.retryAfter };
+        }
+        
+        const upload = await this.attachments.put(cardId, mimeType, data);
+        if (!upload.attachment) {
+            return { success: false, reason: upload.reason };
+        }
+        return { success: true, attachment: upload.attachment };
+    }
+    
+    /**
+     * Download an attachment delivered to the card
+     * The card admin signs sha256(`selectconnect:attachment:<cardId>:<hash>:<timestamp>`)
+     */
+    async downloadAttachment(
+        cardId: string,
+        hash: string,
+        adminProof: CardAdminProof,
+        timestamp: number
+    ): Promise<AttachmentDownloadResult> {
+        if (Math.abs(Date.now() - timestamp) > this.config.messages.maxAgeSeconds * 1000) {
+            return { success: false, reason: 'STALE_REQUEST' };
+        }
+        
+        const challenge = createHash('sha256').update(`selectconnect:attachment:${cardId}:${hash}:${timestamp}`).digest('hex');
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        const blob = await this.attachments.read(cardId, hash);
+        if (!blob) {
+            return { success: false, reason: 'ATTACHMENT_NOT_FOUND' };
+        }
+        return { success: true, ...blob };
+    }
+    
+    /**
+     * The card admin signs sha256(`selectconnect:attachments:<cardId>:<canonical policy JSON>`)
+     */
+    async setAttachmentPolicy(cardId: string, policy: Partial<CardAttachmentPolicy>, adminProof: CardAdminProof): Promise<boolean> {
+        const challenge = createHash('sha256')
+            .update(`selectconnect:attachments:${cardId}:${canonicalize(policy)}`)
+            .digest('hex');
+        
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            this.logger.warn('Rejected attachment policy update without valid admin proof', { cardId });
+            return false;
+        }
+        
+        await this.attachments.setPolicy(cardId, policy);
+        this.logger.info('Attachment policy updated', { cardId });
+        return true;
+    }
+    
+    async getAttachmentPolicy(cardId: string): Promise<CardAttachmentPolicy> {
+        return await this.attachments.getPolicy(cardId);
+    }
+    
+    /**
+     * VAPID public key clients need to create push subscriptions
+     */
+    async getPushPublicKey(): Promise<string> {
+        return await this.pushChannel.getPublicKey();
+    }
+    
+    /**
+     * Register a Web Push subscription for a card
+     * The card admin signs sha256(`selectconnect:push:<cardId>:<endpoint>`)
+     */
+    async registerPushSubscription(cardId: string, subscription: PushSubscription, adminProof: CardAdminProof): Promise<boolean> {
+        const challenge = createHash('sha256').update(`selectconnect:push:${cardId}:${subscription.endpoint}`).digest('hex');
+        const cardAdmin = await this.getCardAdmin(cardId);
+        
+        if (!verifyCardAdminProof(adminProof, challenge, cardAdmin)) {
+            this.logger.warn('Rejected push subscription without valid admin proof', { cardId });
+            return false;
+        }
+        
+        await this.pushChannel.subscribe(cardId, subscription);
+        return true;
+    }
+    
+    /**
+     * Execute a signed report/reply link from a forwarded email (each link works once)
+     */
+    async handleEmailAction(
+        action: EmailAction,
+        token: string
+    ): Promise<{ success: boolean; reason?: string; attestationId?: string; threadId?: string; spamReportStatus?: SpamReportStatus }> {
+        const claims = this.emailChannel.verifyActionToken(token);
+        if (!claims || claims.action !== action) {
+            return { success: false, reason: 'INVALID_ACTION_TOKEN' };
+        }
+        
+        const claimed = await this.store.setIfAbsent(
+            `email_action:${this.emailChannel.tokenFingerprint(token)}`,
+            '1',
+            Math.max(1, Math.ceil((claims.expiresAt - Date.now()) / 1000))
+        );
+        if (!claimed) {
+            return { success: false, reason: 'ACTION_ALREADY_USED' };
+        }
+        
+        if (action === 'reply') {
+            // The link was mailed to the card's recipient, so the reply also opens a thread
+            const thread = await this.recordEngagement(claims.cardId, claims.senderCommit, 'REPLY', true);
+            return { success: true, threadId: thread?.threadId };
+        }
+        
+        const cardAdmin = await this.getCardAdmin(claims.cardId);
+        const result = await this.recordAttestation(claims.cardId, claims.senderCommit, claims.evidenceHash, cardAdmin);
+        // Messages that came in through a trackable privacy route are also reported on-chain
+        const spamReport = await this.queueSpamReport(claims.evidenceHash, claims.cardId);
+        return {
+            success: result.success,
+            reason: result.reason,
+            attestationId: result.attestationId,
+            spamReportStatus: spamReport.status
+        };
+    }
+    
+    /**
+     * Report a message that arrived through a trackable privacy route as spam, on-chain
+     * The card admin signs sha256(`selectconnect:report-spam:<evidenceHash>`)
+     */
+    async reportSpam(evidenceHash: string, adminProof: CardAdminProof): Promise<SpamReportResult> {
+        const interaction = await this.getRouteInteraction(evidenceHash);
+        if (!interaction) {
+            return { success: false, reason: 'ROUTE_INTERACTION_NOT_FOUND' };
+        }
+        
+        const challenge = createHash('sha256').update(`selectconnect:report-spam:${evidenceHash}`).digest('hex');
+        if (!await this.verifyCardAdmin(interaction.cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        return await this.queueSpamReport(evidenceHash, interaction.cardId);
+    }
+    
+    /**
+     * Queue reportSpamViaRoute once per interaction; repeated clicks report the existing status
+     */
+    private async queueSpamReport(evidenceHash: string, cardId: string): Promise<SpamReportResult> {
+        const interaction = await this.getRouteInteraction(evidenceHash);
+        if (!interaction || interaction.cardId !== cardId) {
+            return { success: false, reason: 'ROUTE_INTERACTION_NOT_FOUND' };
+        }
+        
+        const { interactionId } = interaction;
+        if (!await this.store.setIfAbsent(`spam_report:${interactionId}`, 'QUEUED', this.evidenceTtl())) {
+            const status = await this.store.get(`spam_report:${interactionId}`) as SpamReportStatus;
+            return { success: true, interactionId, status, duplicate: true };
+        }
+        
+        await this.privacyRouteQueue.add('reportSpam', { evidenceHash }, {
+            jobId: `spam:${interactionId}`,
+            attempts: 5,
+            backoff: {
+                type: 'exponential',
+                delay: 5000
+            }
+        });
+        await this.audit.record('SPAM_REPORT', { cardId, senderCommit: interaction.senderCommit, evidenceHash, interactionId, outcome: 'QUEUED' });
+        return { success: true, interactionId, status: 'QUEUED' };
+    }
+    
+    async getRouteInteraction(evidenceHash: string): Promise<RouteInteraction | null> {
+        const stored = await this.store.get(`route_interaction:${evidenceHash}`);
+        return stored ? JSON.parse(stored) : null;
+    }
+    
+    /**
+     * Queue the accessViaPrivacyRoute call for a message that named the route it came through
+     */
+    private async trackRouteInteraction(messagePayload: MessagePayload, evidenceHash: string): Promise<void> {
+        if (!messagePayload.routeCode) {
+            return;
+        }
+        
+        await this.privacyRouteQueue.add('accessRoute', {
+            evidenceHash,
+            cardId: messagePayload.cardId,
+            senderCommit: messagePayload.senderCommit,
+            routeCode: messagePayload.routeCode
+        }, {
+            jobId: `route:${evidenceHash}`,
+            attempts: 5,
+            backoff: {
+                type: 'exponential',
+                delay: 5000
+            }
+        });
+    }
+    
+    /**
+     * Route codes are the 5-digit form shown to users or the full 32-byte code, as unprefixed hex
+     */
+    private routeCodeToBytes32(routeCode: string): string {
+        return /^[0-9]{5}$/.test(routeCode)
+            ? BigInt(routeCode).toString(16).padStart(64, '0')
+            : routeCode.replace(/^0x/i, '').toLowerCase();
+    }
+    
+    private parseRouteAccess(access: any): { cardId: string; isTrackable: boolean } {
+        if (Array.isArray(access)) {
+            return { cardId: String(access[0]), isTrackable: Boolean(access[2]) };
+        }
+        return { cardId: String(access?.cardId || ''), isTrackable: Boolean(access?.isTrackable) };
+    }
+    
+    /**
+     * Check that a forwarding attestation was issued by this relay for this exact message
+     */
+    checkForwardingAttestation(messagePayload: MessagePayload, forwardingAttestation: string): boolean {
+        const verification = verifyReceipt(forwardingAttestation, this.receiptSigner.getPublicKeys());
+        if (!verification.valid || verification.receipt!.type !== 'forwarding-attestation') {
+            return false;
+        }
+        
+        const claims = verification.receipt!.claims;
+        return claims.messageHash === this.hashMessage(messagePayload)
+            && Date.now() - Number(claims.timestamp) <= this.config.messages.maxAgeSeconds * 1000;
+    }
+    
+    /**
+     * Relay receipt public keys by key ID, for clients and arbitrators verifying receipts offline
+     */
+    getReceiptPublicKeys(): Record<string, string> {
+        return this.receiptSigner.getPublicKeys();
+    }
+    
+    /**
+     * Generate sender commitment with proper cryptographic security
+     */
+    generateSenderCommitment(cardId: string, senderDid: string, salt: string): string {
+        const hmac = createHmac('sha256', salt);
+        hmac.update(cardId);
+        hmac.update(senderDid);
+        return hmac.digest('hex');
+    }
+
+    /**
+     * Generate sender nullifier using proper PRF construction
+     */
+    async generateSenderNullifier(userWallet: MidnightSigner, cardId: string): Promise<string> {
+        try {
+            const message = `NoirCard-Nullifier-${cardId}`;
+            const signature = await userWallet.signMessage(message);
+            const secretKey = createHash('sha256').update(signature).digest();
+            
+            return createHmac('sha256', secretKey).update(cardId).digest('hex');
+        } catch (error) {
+            this.logger.error('Failed to generate sender nullifier', { error, cardId });
+            throw new Error('Nullifier generation failed');
+        }
+    }
+
+    /**
+     * Verify bond status with comprehensive caching and error handling
+     */
+    async verifyBondForMessage(
+        cardId: string,
+        senderCommit: string,
+        messagePayload: MessagePayload
+    ): Promise<BondVerificationResult> {
+        const result = await this.checkBondForMessage(cardId, senderCommit, messagePayload);
+        this.metrics.verifications.inc({ reason: result.verified ? 'VERIFIED' : result.reason || 'UNKNOWN' });
+        if (!result.verified && UNSIGNED_VERIFICATION_FAILURES.includes(result.reason || 'UNKNOWN')) {
+            return result;
+        }
+        await this.audit.record('VERIFICATION', {
+            cardId,
+            senderCommit,
+            messageHash: this.hashMessage(messagePayload),
+            outcome: result.verified ? 'VERIFIED' : result.reason || 'UNKNOWN'
+        });
+        return result;
+    }
+    
+    private async checkBondForMessage(
+        cardId: string,
+        senderCommit: string,
+        messagePayload: MessagePayload
+    ): Promise<BondVerificationResult> {
+        try {
+            const bond = await this.bondCache.lookup(cardId, senderCommit);
+            this.metrics.bondCacheLookups.inc({ result: bond.source });
+            if (bond.source !== 'MISS') {
+                this.logger.debug('Bond verification from cache', { cardId, senderCommit, source: bond.source, ageMs: bond.ageMs });
+            }
+
+            if (!bond.status.active) {
+                return {
+                    verified: false,
+                    reason: 'NO_ACTIVE_BOND',
+                    requiredBondAmount: await this.getRequiredBondAmount(cardId, senderCommit)
+                };
+            }
+
+            const signatureCheck = await this.verifyMessageSignature(messagePayload);
+            if (!signatureCheck.valid) {
+                this.logger.warn('Invalid message signature', { 
+                    cardId, 
+                    senderCommit, 
+                    reason: signatureCheck.reason,
+                    messageHash: this.hashMessage(messagePayload) 
+                });
+                return {
+                    verified: false,
+                    reason: signatureCheck.reason || 'INVALID_SIGNATURE'
+                };
+            }
+
+            // Only signed, fresh messages count against the sender's and the card's limits
+            const rateLimit = await this.checkRateLimit(cardId, senderCommit, bond.status.reputation!);
+            if (!rateLimit.allowed) {
+                this.metrics.rateLimitHits.inc({ scope: rateLimit.scope || 'unavailable' });
+                return {
+                    verified: false,
+                    reason: 'RATE_LIMITED',
+                    retryAfter: rateLimit.retryAfter
+                };
+            }
 
-            const bondId = await this.getBondId(cardId, senderCommit);
+            const sealingError = await this.checkContentSealing(messagePayload);
+            if (sealingError) {
+                this.logger.warn('Message content does not match the card\'s encryption mode', { cardId, reason: sealingError });
+                return {
+                    verified: false,
+                    reason: sealingError
+                };
+            }
+
+            const bondId = await this.bondIndex.resolveBondId(cardId, senderCommit);
+            if (!bondId) {
+                return {
+                    verified: false,
+                    reason: 'NO_ACTIVE_BOND',
+                    requiredBondAmount: await this.getRequiredBondAmount(cardId, senderCommit)
+                };
+            }
+            
+            const attachmentError = await this.checkAttachments(messagePayload, bondId);
+            if (attachmentError) {
+                this.logger.warn('Message attachments rejected by the card\'s policy', { cardId, reason: attachmentError });
+                return {
+                    verified: false,
+                    reason: attachmentError
+                };
+            }
             
             return {
                 verified: true,
@@ -333,6 +1414,59 @@ export class SelectConnectRelay {
         }
     }
 
+    /**
+     * Read a pair's bond status from AbuseEscrow; the soonest bond expiry bounds how long it is cached
+     */
+    private async loadBondStatus(cardId: string, senderCommit: string): Promise<BondStatus> {
+        const hasActiveBond = await this.retryOperation(async () => {
+            return await this.abuseEscrowContract.call('hasActiveBond', [
+                this.hashToBytes32(cardId),
+                this.hashToBytes32(senderCommit)
+            ]);
+        });
+        // Looked up either way, so the ledger poll knows the pair when a bond is posted for it
+        const [soonest] = await this.bondIndex.getActiveBonds(cardId, senderCommit);
+        if (!hasActiveBond) {
+            return { active: false };
+        }
+
+        const reputation = await this.retryOperation(async () => {
+            return await this.abuseEscrowContract.call('getSenderReputation', [
+                this.hashToBytes32(senderCommit)
+            ]);
+        });
+        const spamReports = Number(await this.store.get(`spam_reports:${senderCommit}`) || 0);
+
+        return { active: true, reputation: { ...this.parseReputation(reputation), spamReports }, expiresAt: soonest?.expiresAt };
+    }
+
+    /**
+     * Apply an AbuseEscrow bond event (posted, refunded, slashed, expired) to the bond cache and index
+     */
+    async handleBondEvent(event: BondEvent): Promise<void> {
+        // The event may be newer than the ledger snapshot the index reads pairs from
+        await this.bondIndex.invalidateLedger();
+        await this.applyBondEvent(event);
+    }
+
+    /**
+     * Drop the bond cache and index entries an event makes stale
+     */
+    private async applyBondEvent(event: BondEvent): Promise<void> {
+        await this.bondCache.handleEvent(event);
+        await this.bondIndex.invalidate(event.cardId, event.senderCommit);
+        if (event.bondId) {
+            await this.bondIndex.invalidateBond(event.bondId);
+        }
+    }
+
+    /**
+     * Bond cache hit, miss and invalidation counts since startup
+     */
+    getBondCacheStats(): BondCacheStats {
+        return this.bondCache.getStats();
+    }
+
     /**
      * Forward message with comprehensive error handling and evidence storage
      */
@@ -349,19 +1483,68 @@ export class SelectConnectRelay {
         }
 
         try {
+            if (!await this.replayGuard.claimForwarding(this.hashMessage(messagePayload))) {
+                this.logger.warn('Forwarding attestation replayed', {
+                    cardId: messagePayload.cardId,
+                    senderCommit: messagePayload.senderCommit
+                });
+                return {
+                    success: false,
+                    reason: 'REPLAYED',
+                    timestamp: Date.now()
+                };
+            }
+            
             const evidenceHash = this.createEvidenceHash(messagePayload);
             
             await this.storeEvidence(evidenceHash, {
-                contentFingerprint: this.generateContentFingerprint(messagePayload.content),
+                contentFingerprint: this.generateContentFingerprint(messagePayload),
+                contentCommitment: messagePayload.contentCommitment,
+                attachmentHashes: this.attachmentHashes(messagePayload),
                 timestamp: Date.now(),
                 transportSignature: messagePayload.signature,
                 senderCommit: messagePayload.senderCommit,
                 cardId: messagePayload.cardId
             });
             
-            const deliveryResult = await this.deliverToRecipient(messagePayload);
+            const moderation = await this.moderateMessage(messagePayload);
+            if (moderation.verdict === 'REJECT') {
+                await this.auditForward(messagePayload, evidenceHash, 'REJECTED', moderation.analyzer);
+                return {
+                    success: false,
+                    reason: 'MESSAGE_REJECTED',
+                    evidenceHash,
+                    moderation,
+                    timestamp: Date.now()
+                };
+            }
+            
+            if (moderation.verdict === 'QUARANTINE') {
+                const held = await this.moderation.quarantine(messagePayload, evidenceHash, moderation, messagePayload);
+                await this.trackRouteInteraction(messagePayload, evidenceHash);
+                const senderReceipt = await this.generateSenderReceipt(messagePayload, evidenceHash);
+                await this.recordReceipts(evidenceHash, { senderReceipt });
+                await this.auditForward(messagePayload, evidenceHash, 'QUARANTINED', moderation.analyzer);
+                return {
+                    success: true,
+                    evidenceHash,
+                    senderReceipt,
+                    deliveryResult: {
+                        status: 'QUARANTINED',
+                        quarantineId: held.quarantineId,
+                        timestamp: Date.now()
+                    },
+                    moderation,
+                    timestamp: Date.now()
+                };
+            }
+            
+            const deliveryResult = await this.deliverToRecipient(messagePayload, evidenceHash);
+            await this.trackRouteInteraction(messagePayload, evidenceHash);
             const senderReceipt = await this.generateSenderReceipt(messagePayload, evidenceHash);
             const recipientReceipt = await this.generateRecipientReceipt(messagePayload, evidenceHash);
+            await this.recordReceipts(evidenceHash, { senderReceipt, recipientReceipt });
+            await this.auditForward(messagePayload, evidenceHash, deliveryResult.status, deliveryResult.channel);
             
             this.logger.info('Message forwarded successfully', {
                 evidenceHash,
@@ -395,15 +1578,215 @@ export class SelectConnectRelay {
         }
     }
 
+    private async auditForward(messagePayload: MessagePayload, evidenceHash: string, outcome: string, via?: string): Promise<void> {
+        await this.audit.record('FORWARD', {
+            cardId: messagePayload.cardId,
+            senderCommit: messagePayload.senderCommit,
+            messageHash: this.hashMessage(messagePayload),
+            evidenceHash,
+            outcome,
+            via: via || null
+        });
+    }
+
+    /**
+     * Run the card's moderation chain over a verified message
+     */
+    private async moderateMessage(messagePayload: MessagePayload): Promise<ModerationDecision> {
+        // The relay cannot read sealed content; recipients report it with a reveal instead
+        const decision: ModerationDecision = messagePayload.contentCommitment
+            ? { verdict: 'ALLOW', reason: 'SEALED_CONTENT' }
+            : await this.moderation.evaluate(messagePayload);
+        this.metrics.moderationVerdicts.inc({ verdict: decision.verdict, analyzer: decision.analyzer || 'none' });
+        
+        if (decision.verdict !== 'ALLOW') {
+            this.logger.info('Message held back by moderation', {
+                cardId: messagePayload.cardId,
+                senderCommit: messagePayload.senderCommit,
+                verdict: decision.verdict,
+                analyzer: decision.analyzer,
+                reason: decision.reason
+            });
+        }
+        return decision;
+    }
+    
+    /**
+     * Replace a card's moderation policy
+     * The card admin signs sha256(`selectconnect:moderation:<cardId>:<canonical policy JSON>`)
+     */
+    async setModerationPolicy(cardId: string, policy: Partial<CardModerationPolicy>, adminProof: CardAdminProof): Promise<boolean> {
+        const challenge = createHash('sha256')
+            .update(`selectconnect:moderation:${cardId}:${canonicalize(policy)}`)
+            .digest('hex');
+        
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            this.logger.warn('Rejected moderation policy update without valid admin proof', { cardId });
+            return false;
+        }
+        
+        await this.moderation.setPolicy(cardId, policy);
+        this.logger.info('Moderation policy updated', { cardId });
+        return true;
+    }
+    
+    /**
+     * The card admin signs sha256(`selectconnect:read:<cardId>:moderation-policy:<timestamp>`)
+     */
+    async getModerationPolicy(cardId: string, adminProof: CardAdminProof, timestamp: number): Promise<ModerationPolicyResult> {
+        const refused = await this.checkCardRead(cardId, 'moderation-policy', adminProof, timestamp);
+        if (refused) {
+            return { success: false, reason: refused };
+        }
+        return { success: true, policy: await this.moderation.getPolicy(cardId) };
+    }
+    
+    /**
+     * Quarantined messages awaiting the card admin (metadata only)
+     * The card admin signs sha256(`selectconnect:read:<cardId>:quarantine:<timestamp>`)
+     */
+    async getQuarantinedMessages(cardId: string, adminProof: CardAdminProof, timestamp: number): Promise<QuarantineListResult> {
+        const refused = await this.checkCardRead(cardId, 'quarantine', adminProof, timestamp);
+        if (refused) {
+            return { success: false, reason: refused };
+        }
+        return { success: true, messages: await this.moderation.list(cardId) };
+    }
+    
+    /**
+     * Deliver a quarantined message after the card admin reviewed it
+     * The card admin signs sha256(`selectconnect:quarantine:<cardId>:release:<quarantineId>`)
+     */
+    async releaseQuarantinedMessage(cardId: string, quarantineId: string, adminProof: CardAdminProof): Promise<ForwardingResult> {
+        const challenge = this.quarantineChallenge(cardId, 'release', quarantineId);
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN', timestamp: Date.now() };
+        }
+        
+        const held = await this.moderation.take<MessagePayload>(cardId, quarantineId);
+        if (!held) {
+            return { success: false, reason: 'QUARANTINE_NOT_FOUND', timestamp: Date.now() };
+        }
+        
+        const { record, payload } = held;
+        if (record.threadId) {
+            const thread = await this.threads.get(record.threadId);
+            if (thread && thread.state !== 'CLOSED') {
+                await this.threads.append(thread, 'SENDER', payload);
+            }
+        }
+        const deliveryResult = await this.deliverToRecipient(payload, record.evidenceHash);
+        const recipientReceipt = await this.generateRecipientReceipt(payload, record.evidenceHash);
+        await this.recordReceipts(record.evidenceHash, { recipientReceipt });
+        this.logger.info('Quarantined message released', { quarantineId, cardId });
+        
+        return {
+            success: true,
+            evidenceHash: record.evidenceHash,
+            recipientReceipt,
+            deliveryResult,
+            timestamp: Date.now()
+        };
+    }
+    
+    /**
+     * Turn a quarantined message into an abuse attestation against the sender's bond
+     * The card admin signs sha256(`selectconnect:quarantine:<cardId>:report:<quarantineId>`)
+     */
+    async reportQuarantinedMessage(
+        cardId: string,
+        quarantineId: string,
+        adminProof: CardAdminProof,
+        challengeWindowHours: number = this.config.attestations.defaultChallengeWindowHours
+    ): Promise<AttestationResult> {
+        const challenge = this.quarantineChallenge(cardId, 'report', quarantineId);
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        const held = await this.moderation.take<MessagePayload>(cardId, quarantineId);
+        if (!held) {
+            return { success: false, reason: 'QUARANTINE_NOT_FOUND' };
+        }
+        
+        const { record } = held;
+        const result = await this.recordAttestation(
+            cardId,
+            record.senderCommit,
+            record.evidenceHash,
+            await this.getCardAdmin(cardId),
+            challengeWindowHours
+        );
+        await this.queueSpamReport(record.evidenceHash, cardId);
+        return result;
+    }
+    
+    private quarantineChallenge(cardId: string, action: 'release' | 'report', quarantineId: string): string {
+        return createHash('sha256').update(`selectconnect:quarantine:${cardId}:${action}:${quarantineId}`).digest('hex');
+    }
+    
+    private async verifyCardAdmin(cardId: string, challenge: string, adminProof: CardAdminProof): Promise<boolean> {
+        const cardAdmin = await this.getCardAdmin(cardId);
+        return verifyCardAdminProof(adminProof, challenge, cardAdmin);
+    }
+
+    /**
+     * Reason a read of card metadata is refused, or null
+     * The card admin signs sha256(`selectconnect:read:<cardId>:<resource>:<timestamp>`) within messages.maxAgeSeconds of the timestamp
+     */
+    private async checkCardRead(cardId: string, resource: string, adminProof: CardAdminProof, timestamp: number): Promise<string | null> {
+        if (Math.abs(Date.now() - timestamp) > this.config.messages.maxAgeSeconds * 1000) {
+            return 'STALE_REQUEST';
+        }
+        
+        const challenge = createHash('sha256').update(`selectconnect:read:${cardId}:${resource}:${timestamp}`).digest('hex');
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            return 'UNAUTHORIZED_CARD_ADMIN';
+        }
+        return null;
+    }
+
     /**
      * Attest abuse and schedule bond slashing with persistent job queue
+     * The attestor signs sha256(`selectconnect:attest:<cardId>:<senderCommit>:<evidenceHash>`) as attestorProof
      */
     async attestAbuse(
         cardId: string,
         senderCommit: string,
         evidenceHash: string,
         attestor: string,
-        challengeWindowHours: number = 24
+        challengeWindowHours: number = this.config.attestations.defaultChallengeWindowHours,
+        reveal?: ContentReveal,
+        attestorProof?: CardAdminProof
+    ): Promise<AttestationResult> {
+        // The card admin's address is public, so a bare attestor name proves nothing
+        if (!attestorProof) {
+            return { success: false, reason: 'ATTESTOR_PROOF_REQUIRED' };
+        }
+        
+        const challenge = createHash('sha256')
+            .update(`selectconnect:attest:${cardId}:${senderCommit}:${evidenceHash}`)
+            .digest('hex');
+        const signer = verifyProofSigner(attestorProof, challenge);
+        if (!signer || signer !== attestor.replace(/^0x/i, '').toLowerCase()) {
+            this.logger.warn('Abuse attestation with invalid attestor proof', { cardId, senderCommit, attestor });
+            return { success: false, reason: 'UNAUTHORIZED_ATTESTOR' };
+        }
+        
+        return await this.recordAttestation(cardId, senderCommit, evidenceHash, attestor, challengeWindowHours, reveal);
+    }
+    
+    /**
+     * Count an authorized attestation towards the card's quorum and queue the slash once it is met
+     * The attestor has already proved control of its key (signed proof, admin proof or email link)
+     */
+    private async recordAttestation(
+        cardId: string,
+        senderCommit: string,
+        evidenceHash: string,
+        attestor: string,
+        challengeWindowHours: number = this.config.attestations.defaultChallengeWindowHours,
+        reveal?: ContentReveal
     ): Promise<AttestationResult> {
         try {
             const isAuthorized = await this.verifyAttestorAuthorization(cardId, attestor);
@@ -419,9 +1802,41 @@ export class SelectConnectRelay {
                 };
             }
             
-            const bondId = await this.getBondId(cardId, senderCommit);
+            const policy = await this.quorum.getPolicy(cardId);
+            
+            const bondId = await this.bondIndex.resolveBondId(cardId, senderCommit);
+            if (!bondId) {
+                return {
+                    success: false,
+                    reason: 'BOND_NOT_FOUND'
+                };
+            }
+            
+            if (reveal) {
+                const evidence = await this.decryptEvidence(evidenceHash);
+                if (!evidence?.contentCommitment || evidence.cardId !== cardId || !verifyContentReveal(evidence.contentCommitment, reveal)) {
+                    this.logger.warn('Content reveal does not match the evidence commitment', { cardId, evidenceHash });
+                    return {
+                        success: false,
+                        reason: 'INVALID_REVEAL'
+                    };
+                }
+                
+                const sealed = this.evidenceKeyring.seal(Buffer.from(JSON.stringify(reveal)), `reveal:${evidenceHash}`);
+                await this.store.set(`evidence_reveal:${evidenceHash}`, JSON.stringify(sealed), this.evidenceTtl());
+            }
+            
+            let attestors = [attestor];
+            if (policy.threshold > 1) {
+                const vote = await this.quorum.vote({ cardId, senderCommit, evidenceHash, bondId }, attestor);
+                if (vote.outcome !== 'REACHED') {
+                    return await this.quorumVoteResult(vote.outcome, vote.status, attestor);
+                }
+                attestors = vote.status.attestors;
+            }
+            
             const challengeEndTime = Date.now() + (challengeWindowHours * 60 * 60 * 1000);
-            const attestationId = this.generateAttestationId(bondId, evidenceHash, attestor);
+            const attestationId = this.generateAttestationId(bondId, evidenceHash, attestors.join(','));
             
             await this.bondSlashingQueue.add('slashBond', {
                 bondId,
@@ -431,6 +1846,7 @@ export class SelectConnectRelay {
                 attestationId,
                 attestor
             }, {
+                jobId: attestationId,
                 delay: challengeEndTime - Date.now(),
                 attempts: 3,
                 backoff: {
@@ -439,25 +1855,42 @@ export class SelectConnectRelay {
                 }
             });
             
-            await this.redis.setex(
+            await this.store.set(
                 `attestation:${attestationId}`,
-                challengeWindowHours * 3600 + 86400,
                 JSON.stringify({
                     bondId,
                     evidenceHash,
                     attestor,
+                    attestors: attestors.length > 1 ? attestors : undefined,
                     challengeEndTime,
                     cardId,
                     senderCommit,
+                    disputeState: 'NONE',
+                    contentRevealed: Boolean(reveal) || undefined,
                     timestamp: Date.now()
-                })
+                } as AttestationRecord),
+                challengeWindowHours * 3600 + 86400
             );
+            await this.store.addToSet(`evidence_attestations:${evidenceHash}`, attestationId);
+            await this.store.expire(`evidence_attestations:${evidenceHash}`, this.evidenceTtl());
+            await this.audit.record('ATTESTATION', {
+                attestationId,
+                cardId,
+                senderCommit,
+                bondId,
+                evidenceHash,
+                attestor,
+                attestors: attestors.length,
+                challengeEndTime,
+                contentRevealed: Boolean(reveal)
+            });
             
             this.logger.info('Abuse attestation scheduled', {
                 attestationId,
                 bondId,
                 challengeEndTime,
-                attestor
+                attestor,
+                attestors: attestors.length
             });
             
             return {
@@ -483,28 +1916,334 @@ export class SelectConnectRelay {
             };
         }
     }
+    
+    /**
+     * Result for an attestation that did not complete a quorum
+     */
+    private async quorumVoteResult(outcome: QuorumVoteOutcome, quorum: QuorumStatus, attestor: string): Promise<AttestationResult> {
+        if (outcome !== 'PENDING') {
+            const reasons: Record<string, string> = {
+                ALREADY_REACHED: 'QUORUM_ALREADY_REACHED',
+                VOTE_WITHDRAWN: 'ATTESTATION_WITHDRAWN',
+                SENDER_MISMATCH: 'EVIDENCE_SENDER_MISMATCH'
+            };
+            return { success: false, reason: reasons[outcome], quorum };
+        }
+        
+        await this.audit.record('ATTESTATION', {
+            cardId: quorum.cardId,
+            senderCommit: quorum.senderCommit,
+            bondId: quorum.bondId,
+            evidenceHash: quorum.evidenceHash,
+            attestor,
+            quorum: 'PENDING',
+            attestors: quorum.attestors.length,
+            threshold: quorum.threshold
+        });
+        return { success: true, pending: true, bondId: quorum.bondId, quorum };
+    }
+    
+    /**
+     * Take back a guardian's attestation before the card's quorum is reached
+     * The attestor signs sha256(`selectconnect:attest-withdraw:<cardId>:<evidenceHash>`)
+     */
+    async withdrawAttestation(cardId: string, evidenceHash: string, attestorProof: CardAdminProof): Promise<QuorumActionResult> {
+        const challenge = createHash('sha256')
+            .update(`selectconnect:attest-withdraw:${cardId}:${evidenceHash}`)
+            .digest('hex');
+        const attestor = verifyProofSigner(attestorProof, challenge);
+        if (!attestor) {
+            return { success: false, reason: 'UNAUTHORIZED_ATTESTOR' };
+        }
+        
+        const outcome = await this.quorum.withdraw(cardId, evidenceHash, attestor);
+        const quorum = await this.quorum.getStatus(cardId, evidenceHash) || undefined;
+        if (outcome !== 'WITHDRAWN') {
+            return { success: false, reason: outcome, quorum };
+        }
+        
+        await this.audit.record('ATTESTATION', {
+            cardId,
+            senderCommit: quorum?.senderCommit ?? null,
+            evidenceHash,
+            attestor,
+            quorum: 'WITHDRAWN',
+            attestors: quorum?.attestors.length ?? 0
+        });
+        return { success: true, quorum };
+    }
+    
+    async getAttestationQuorum(cardId: string, evidenceHash: string): Promise<QuorumStatus | null> {
+        return await this.quorum.getStatus(cardId, evidenceHash);
+    }
+    
+    /**
+     * Let a card admin require M distinct guardians to attest within a window before a slash
+     * The card admin signs sha256(`selectconnect:quorum:<cardId>:<threshold>:<windowHours>`)
+     */
+    async setQuorumPolicy(cardId: string, policy: QuorumPolicy, adminProof: CardAdminProof): Promise<boolean> {
+        const challenge = createHash('sha256')
+            .update(`selectconnect:quorum:${cardId}:${policy.threshold}:${policy.windowHours}`)
+            .digest('hex');
+        if (!await this.verifyCardAdmin(cardId, challenge, adminProof)) {
+            this.logger.warn('Rejected quorum policy update without valid admin proof', { cardId });
+            return false;
+        }
+        
+        await this.quorum.setPolicy(cardId, policy);
+        this.logger.info('Attestation quorum policy updated', { cardId, ...policy });
+        return true;
+    }
+    
+    async getQuorumPolicy(cardId: string): Promise<QuorumPolicy> {
+        return await this.quorum.getPolicy(cardId);
+    }
+
+    /**
+     * Let the accused sender contest an attestation during its challenge window
+     * Pulls the queued slash and routes the case to the card admin and guardians
+     */
+    async disputeAttestation(
+        attestationId: string,
+        counterEvidenceHash: string,
+        senderProof: SenderProof
+    ): Promise<DisputeResult> {
+        try {
+            const attestation = await this.getAttestationRecord(attestationId);
+            if (!attestation) {
+                return { success: false, reason: 'ATTESTATION_NOT_FOUND' };
+            }
+            
+            if (attestation.disputeState !== 'NONE') {
+                return { success: false, reason: 'ALREADY_DISPUTED', disputeState: attestation.disputeState };
+            }
+            
+            if (Date.now() >= attestation.challengeEndTime) {
+                return { success: false, reason: 'CHALLENGE_WINDOW_CLOSED' };
+            }
+            
+            if (!this.verifySenderProof(attestation.cardId, attestation.senderCommit, senderProof)) {
+                this.logger.warn('Dispute rejected: invalid sender proof', {
+                    attestationId,
+                    cardId: attestation.cardId
+                });
+                return { success: false, reason: 'INVALID_SENDER_PROOF' };
+            }
+            
+            await this.bondSlashingQueue.remove(attestationId);
+            
+            const disputed: AttestationRecord = {
+                ...attestation,
+                disputeState: 'DISPUTED',
+                dispute: {
+                    counterEvidenceHash,
+                    disputedAt: Date.now()
+                }
+            };
+            await this.saveAttestationRecord(attestationId, disputed);
+            await this.store.addToSet(`disputes:${attestation.cardId}`, attestationId);
+            await this.audit.record('DISPUTE', { attestationId, bondId: attestation.bondId, counterEvidenceHash });
+            
+            this.logger.info('Attestation disputed, slash paused pending review', {
+                attestationId,
+                bondId: attestation.bondId,
+                cardId: attestation.cardId,
+                counterEvidenceHash
+            });
+            
+            return { success: true, attestationId, disputeState: 'DISPUTED' };
+            
+        } catch (error) {
+            this.logger.error('Attestation dispute failed', {
+                error: (error as Error).message,
+                attestationId,
+                stack: (error as Error).stack
+            });
+            
+            return {
+                success: false,
+                reason: 'DISPUTE_ERROR',
+                error: (error as Error).message
+            };
+        }
+    }
+    
+    /**
+     * List attestations awaiting a dispute decision for a card
+     * The card admin signs sha256(`selectconnect:read:<cardId>:disputes:<timestamp>`)
+     */
+    async getPendingDisputes(cardId: string, adminProof: CardAdminProof, timestamp: number): Promise<PendingDisputesResult> {
+        const refused = await this.checkCardRead(cardId, 'disputes', adminProof, timestamp);
+        if (refused) {
+            return { success: false, reason: refused };
+        }
+        return { success: true, attestationIds: await this.store.getSetMembers(`disputes:${cardId}`) };
+    }
+    
+    /**
+     * Decide a disputed attestation: uphold reschedules the slash, dismiss cancels it
+     * The card admin or a guardian signs sha256(`selectconnect:resolve:<attestationId>:<decision>:<graceHours>`)
+     */
+    async resolveDispute(
+        attestationId: string,
+        decision: 'UPHOLD' | 'DISMISS',
+        resolverProof: CardAdminProof,
+        graceHours: number = 0
+    ): Promise<DisputeResult> {
+        try {
+            const attestation = await this.getAttestationRecord(attestationId);
+            if (!attestation) {
+                return { success: false, reason: 'ATTESTATION_NOT_FOUND' };
+            }
+            
+            if (attestation.disputeState !== 'DISPUTED') {
+                return { success: false, reason: 'NOT_DISPUTED', disputeState: attestation.disputeState };
+            }
+            
+            const challenge = createHash('sha256')
+                .update(`selectconnect:resolve:${attestationId}:${decision}:${graceHours}`)
+                .digest('hex');
+            const resolver = verifyProofSigner(resolverProof, challenge);
+            if (!resolver || !await this.verifyAttestorAuthorization(attestation.cardId, resolver)) {
+                this.logger.warn('Unauthorized dispute resolution attempt', {
+                    attestationId,
+                    cardId: attestation.cardId,
+                    resolver
+                });
+                return { success: false, reason: 'UNAUTHORIZED_RESOLVER' };
+            }
+            
+            const disputeState = decision === 'UPHOLD' ? 'UPHELD' : 'DISMISSED';
+            let challengeEndTime: number | undefined;
+            
+            if (decision === 'UPHOLD') {
+                challengeEndTime = Date.now() + (graceHours * 60 * 60 * 1000);
+                await this.bondSlashingQueue.add('slashBond', {
+                    bondId: attestation.bondId,
+                    evidenceHash: attestation.evidenceHash,
+                    senderCommit: attestation.senderCommit,
+                    cardId: attestation.cardId,
+                    attestationId,
+                    attestor: attestation.attestor
+                }, {
+                    jobId: attestationId,
+                    delay: challengeEndTime - Date.now(),
+                    attempts: 3,
+                    backoff: {
+                        type: 'exponential',
+                        delay: 2000
+                    }
+                });
+            }
+            
+            await this.saveAttestationRecord(attestationId, {
+                ...attestation,
+                disputeState,
+                challengeEndTime: challengeEndTime ?? attestation.challengeEndTime,
+                dispute: {
+                    ...attestation.dispute!,
+                    resolvedBy: resolver,
+                    resolvedAt: Date.now()
+                }
+            });
+            await this.store.removeFromSet(`disputes:${attestation.cardId}`, attestationId);
+            await this.audit.record('DISPUTE_RESOLUTION', {
+                attestationId,
+                bondId: attestation.bondId,
+                decision,
+                resolver,
+                challengeEndTime: challengeEndTime ?? null
+            });
+            
+            this.logger.info('Dispute resolved', {
+                attestationId,
+                bondId: attestation.bondId,
+                decision,
+                resolver
+            });
+            
+            return { success: true, attestationId, disputeState, challengeEndTime };
+            
+        } catch (error) {
+            this.logger.error('Dispute resolution failed', {
+                error: (error as Error).message,
+                attestationId,
+                decision,
+                stack: (error as Error).stack
+            });
+            
+            return {
+                success: false,
+                reason: 'DISPUTE_ERROR',
+                error: (error as Error).message
+            };
+        }
+    }
 
     /**
      * Auto-refund bond when recipient engages normally
+     * A REPLY with adminProof over sha256(`selectconnect:engagement:<cardId>:<senderCommit>:REPLY`)
+     * also opens a conversation thread for follow-ups
      */
     async handleRecipientEngagement(
         cardId: string,
         senderCommit: string,
-        engagementType: 'REPLY' | 'ACCEPT' | 'POSITIVE_FEEDBACK'
-    ): Promise<void> {
+        engagementType: 'REPLY' | 'ACCEPT' | 'POSITIVE_FEEDBACK',
+        adminProof?: CardAdminProof
+    ): Promise<ConversationThread | null> {
+        let recipientVerified = false;
+        if (adminProof) {
+            const challenge = createHash('sha256')
+                .update(`selectconnect:engagement:${cardId}:${senderCommit}:${engagementType}`)
+                .digest('hex');
+            recipientVerified = await this.verifyCardAdmin(cardId, challenge, adminProof);
+            if (!recipientVerified) {
+                this.logger.warn('Engagement admin proof does not match the card admin', { cardId, senderCommit, engagementType });
+            }
+        }
+        
+        return await this.recordEngagement(cardId, senderCommit, engagementType, recipientVerified);
+    }
+    
+    /**
+     * Refund the bond behind an engagement; a reply proven to come from the recipient opens a thread
+     */
+    private async recordEngagement(
+        cardId: string,
+        senderCommit: string,
+        engagementType: 'REPLY' | 'ACCEPT' | 'POSITIVE_FEEDBACK',
+        recipientVerified: boolean
+    ): Promise<ConversationThread | null> {
         try {
-            const bondId = await this.getBondId(cardId, senderCommit);
+            const bondId = await this.bondIndex.resolveBondId(cardId, senderCommit);
+            if (!bondId) {
+                this.logger.debug('No active bond to refund', { cardId, senderCommit, engagementType });
+                return null;
+            }
+            
             const bond = await this.abuseEscrowContract.call('getBond', [bondId]);
             const now = Date.now();
             
             if (now <= bond.expiresAt && !bond.refunded && !bond.slashed) {
                 await this.abuseEscrowContract.call('refundBond', [bondId]);
+                await this.handleBondEvent({ type: 'REFUNDED', cardId, senderCommit, bondId });
+                await this.audit.record('REFUND', { cardId, senderCommit, bondId, engagementType });
                 this.logger.info(`Bond ${bondId} auto-refunded due to recipient engagement`, {
                     engagementType,
                     cardId,
                     senderCommit
                 });
             }
+            
+            if (engagementType !== 'REPLY' || !recipientVerified) {
+                return null;
+            }
+            
+            const thread = await this.threads.open(cardId, senderCommit, bondId);
+            if (thread) {
+                await this.audit.record('THREAD', { threadId: thread.threadId, cardId, senderCommit, bondId, outcome: 'OPENED' });
+            }
+            return thread;
         } catch (error) {
             this.logger.error('Failed to handle recipient engagement', {
                 error: (error as Error).message,
@@ -512,63 +2251,254 @@ export class SelectConnectRelay {
                 senderCommit,
                 engagementType
             });
+            return null;
         }
     }
 
     /**
-     * Rate limiting based on sender reputation with Redis backend
+     * Forward a sender's follow-up in an open thread; the thread's bond stands in for a new bond check
      */
-    private async isRateLimited(senderCommit: string, reputation: any): Promise<boolean> {
-        const rateLimitKey = `rate_limit:${senderCommit}`;
-        
+    async forwardThreadMessage(threadId: string, messagePayload: MessagePayload): Promise<ForwardingResult> {
         try {
-            const currentCount = parseInt(await this.redis.get(rateLimitKey) || '0');
+            const thread = await this.threads.get(threadId);
+            if (!thread) {
+                return { success: false, reason: 'THREAD_NOT_FOUND', timestamp: Date.now() };
+            }
+            if (thread.state === 'CLOSED') {
+                return { success: false, reason: 'THREAD_CLOSED', timestamp: Date.now() };
+            }
+            if (messagePayload.cardId !== thread.cardId || messagePayload.senderCommit !== thread.senderCommit) {
+                return { success: false, reason: 'THREAD_MISMATCH', timestamp: Date.now() };
+            }
+            if (messagePayload.senderAddress.replace(/^0x/i, '').toLowerCase() !== thread.senderAddress) {
+                // Only the key that sent the intro speaks for the sender
+                return { success: false, reason: 'UNAUTHORIZED_THREAD_SENDER', timestamp: Date.now() };
+            }
             
-            let maxRequests = 10;
-            if (reputation.slashedCount > 0) {
-                maxRequests = Math.max(1, 10 - reputation.slashedCount * 2);
+            const signatureCheck = await this.verifyMessageSignature(messagePayload);
+            if (!signatureCheck.valid) {
+                return { success: false, reason: signatureCheck.reason || 'INVALID_SIGNATURE', timestamp: Date.now() };
             }
             
-            if (currentCount >= maxRequests) {
-                this.logger.debug('Rate limit exceeded', {
-                    senderCommit,
-                    currentCount,
-                    maxRequests,
-                    slashedCount: reputation.slashedCount
-                });
-                return true;
+            const sealingError = await this.checkContentSealing(messagePayload);
+            if (sealingError) {
+                return { success: false, reason: sealingError, timestamp: Date.now() };
             }
             
-            await this.redis.multi()
-                .incr(rateLimitKey)
-                .expire(rateLimitKey, 3600)
-                .exec();
-                
-            return false;
+            const attachmentError = await this.checkAttachments(messagePayload, thread.bondId);
+            if (attachmentError) {
+                return { success: false, reason: attachmentError, timestamp: Date.now() };
+            }
+            
+            const rate = await this.threads.consume(threadId, 'SENDER');
+            if (!rate.allowed) {
+                this.metrics.rateLimitHits.inc({ scope: 'thread' });
+                return { success: false, reason: 'RATE_LIMITED', retryAfter: rate.retryAfter, timestamp: Date.now() };
+            }
+            
+            // Follow-ups keep evidence like intros, so the recipient can still report abuse
+            const evidenceHash = this.createEvidenceHash(messagePayload);
+            await this.storeEvidence(evidenceHash, {
+                contentFingerprint: this.generateContentFingerprint(messagePayload),
+                contentCommitment: messagePayload.contentCommitment,
+                attachmentHashes: this.attachmentHashes(messagePayload),
+                timestamp: Date.now(),
+                transportSignature: messagePayload.signature,
+                senderCommit: messagePayload.senderCommit,
+                cardId: messagePayload.cardId
+            });
+            
+            // Only the bond check is skipped in a thread; the card's moderation chain still applies
+            const moderation = await this.moderateMessage(messagePayload);
+            if (moderation.verdict === 'REJECT') {
+                await this.auditForward(messagePayload, evidenceHash, 'REJECTED', moderation.analyzer);
+                return {
+                    success: false,
+                    reason: 'MESSAGE_REJECTED',
+                    threadId,
+                    evidenceHash,
+                    moderation,
+                    timestamp: Date.now()
+                };
+            }
+            
+            if (moderation.verdict === 'QUARANTINE') {
+                // Joins the thread only if the card admin releases it
+                const held = await this.moderation.quarantine(messagePayload, evidenceHash, moderation, messagePayload, threadId);
+                const senderReceipt = await this.generateSenderReceipt(messagePayload, evidenceHash);
+                await this.recordReceipts(evidenceHash, { senderReceipt });
+                await this.auditForward(messagePayload, evidenceHash, 'QUARANTINED', moderation.analyzer);
+                return {
+                    success: true,
+                    threadId,
+                    evidenceHash,
+                    senderReceipt,
+                    deliveryResult: {
+                        status: 'QUARANTINED',
+                        quarantineId: held.quarantineId,
+                        timestamp: Date.now()
+                    },
+                    moderation,
+                    timestamp: Date.now()
+                };
+            }
+            
+            await this.threads.append(thread, 'SENDER', messagePayload);
+            const deliveryResult = await this.deliverToRecipient(messagePayload, evidenceHash);
+            const senderReceipt = await this.generateSenderReceipt(messagePayload, evidenceHash);
+            await this.recordReceipts(evidenceHash, { senderReceipt });
+            await this.auditForward(messagePayload, evidenceHash, deliveryResult.status, `thread:${threadId}`);
             
+            return {
+                success: true,
+                threadId,
+                evidenceHash,
+                senderReceipt,
+                deliveryResult,
+                timestamp: Date.now()
+            };
         } catch (error) {
-            this.logger.error('Rate limiting check failed', { error, senderCommit });
-            return false;
+            this.logger.error('Thread message forwarding failed', { error: (error as Error).message, threadId });
+            return { success: false, reason: 'FORWARDING_ERROR', error: (error as Error).message, timestamp: Date.now() };
         }
     }
 
     /**
-     * Get remaining time until rate limit resets
+     * Post the recipient's side of a thread for the sender to read
+     * The card admin signs sha256(`selectconnect:thread-reply:<threadId>:<nonce>:<timestamp>:<sha256(content)>`)
      */
-    private async getRateLimitRetryTime(senderCommit: string): Promise<number> {
-        const rateLimitKey = `rate_limit:${senderCommit}`;
-        try {
-            const ttl = await this.redis.ttl(rateLimitKey);
-            return Math.max(0, ttl);
-        } catch (error) {
-            this.logger.error('Failed to get rate limit TTL', { error, senderCommit });
-            return 3600;
+    async replyInThread(threadId: string, reply: ThreadReply, adminProof: CardAdminProof): Promise<ThreadActionResult> {
+        const thread = await this.threads.get(threadId);
+        if (!thread) {
+            return { success: false, reason: 'THREAD_NOT_FOUND' };
+        }
+        if (thread.state === 'CLOSED') {
+            return { success: false, reason: 'THREAD_CLOSED', thread };
+        }
+        
+        const contentHash = createHash('sha256').update(reply.content).digest('hex');
+        const challenge = createHash('sha256')
+            .update(`selectconnect:thread-reply:${threadId}:${reply.nonce}:${reply.timestamp}:${contentHash}`)
+            .digest('hex');
+        if (!await this.verifyCardAdmin(thread.cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        const replay = await this.replayGuard.consumeNonce(await this.getCardAdmin(thread.cardId), reply.nonce, reply.timestamp);
+        if (!replay.valid) {
+            return { success: false, reason: replay.reason };
+        }
+        
+        const rate = await this.threads.consume(threadId, 'RECIPIENT');
+        if (!rate.allowed) {
+            this.metrics.rateLimitHits.inc({ scope: 'thread' });
+            return { success: false, reason: 'RATE_LIMITED', retryAfter: rate.retryAfter };
+        }
+        
+        const posted = await this.threads.append(thread, 'RECIPIENT', reply);
+        return { success: true, thread, messageId: posted.messageId };
+    }
+
+    /**
+     * Page through a thread as either side
+     * The reader signs sha256(`selectconnect:thread-read:<threadId>:<timestamp>`) with the intro's sender key or the card admin key
+     */
+    async readThread(threadId: string, request: ThreadReadRequest): Promise<ThreadReadResult> {
+        const thread = await this.threads.get(threadId);
+        if (!thread) {
+            return { success: false, reason: 'THREAD_NOT_FOUND' };
+        }
+        
+        const freshness = this.replayGuard.checkFreshness(request.timestamp);
+        if (!freshness.valid) {
+            return { success: false, reason: 'STALE_REQUEST' };
+        }
+        
+        const challenge = createHash('sha256').update(`selectconnect:thread-read:${threadId}:${request.timestamp}`).digest('hex');
+        const reader = verifyProofSigner(request.proof, challenge);
+        const cardAdmin = String(await this.getCardAdmin(thread.cardId)).replace(/^0x/i, '').toLowerCase();
+        if (!reader || (reader !== thread.senderAddress && reader !== cardAdmin)) {
+            return { success: false, reason: 'UNAUTHORIZED_THREAD_READER' };
+        }
+        
+        const page = await this.threads.read<MessagePayload | ThreadReply>(threadId, request.cursor, Math.min(request.limit || 50, 200));
+        return { success: true, thread, ...page };
+    }
+
+    /**
+     * Let the recipient end a thread; the card admin signs sha256(`selectconnect:thread-close:<threadId>`)
+     */
+    async closeThread(threadId: string, adminProof: CardAdminProof): Promise<ThreadActionResult> {
+        const thread = await this.threads.get(threadId);
+        if (!thread) {
+            return { success: false, reason: 'THREAD_NOT_FOUND' };
+        }
+        
+        const challenge = createHash('sha256').update(`selectconnect:thread-close:${threadId}`).digest('hex');
+        if (!await this.verifyCardAdmin(thread.cardId, challenge, adminProof)) {
+            return { success: false, reason: 'UNAUTHORIZED_CARD_ADMIN' };
+        }
+        
+        const closed = (await this.threads.close(threadId))!;
+        await this.audit.record('THREAD', {
+            threadId,
+            cardId: thread.cardId,
+            senderCommit: thread.senderCommit,
+            bondId: thread.bondId,
+            outcome: 'CLOSED'
+        });
+        return { success: true, thread: closed };
+    }
+
+    /**
+     * Apply sender, card and pair rate limits using the sender's reputation tier
+     */
+    private async checkRateLimit(cardId: string, senderCommit: string, reputation: SenderReputation): Promise<RateLimitDecision> {
+        return await this.rateLimiter.consume(cardId, senderCommit, reputation);
+    }
+
+    /**
+     * Normalize the (totalBonds, slashedCount) tuple returned by getSenderReputation
+     */
+    private parseReputation(reputation: any): SenderReputation {
+        if (Array.isArray(reputation)) {
+            return { totalBonds: Number(reputation[0]), slashedCount: Number(reputation[1]) };
+        }
+        return {
+            totalBonds: Number(reputation?.totalBonds || 0),
+            slashedCount: Number(reputation?.slashedCount || 0)
+        };
+    }
+
+    /**
+     * Let a card admin set how many messages the card accepts per window
+     * The card admin signs sha256(`selectconnect:quota:<cardId>:<perCard>:<perSender>`)
+     */
+    async setCardRateQuota(cardId: string, quota: CardRateQuota, adminProof: CardAdminProof): Promise<boolean> {
+        const challenge = createHash('sha256')
+            .update(`selectconnect:quota:${cardId}:${quota.perCard}:${quota.perSender}`)
+            .digest('hex');
+        const cardAdmin = await this.getCardAdmin(cardId);
+        
+        if (!verifyCardAdminProof(adminProof, challenge, cardAdmin)) {
+            this.logger.warn('Rejected rate quota update without valid admin proof', { cardId });
+            return false;
         }
+        
+        await this.rateLimiter.setCardQuota(cardId, { perCard: quota.perCard, perSender: quota.perSender });
+        this.logger.info('Card rate quota updated', { cardId, ...quota });
+        return true;
+    }
+
+    async getCardRateQuota(cardId: string): Promise<CardRateQuota> {
+        return await this.rateLimiter.getCardQuota(cardId);
     }
 
     private createEvidenceHash(messagePayload: MessagePayload): string {
         const evidenceData = {
-            contentFingerprint: this.generateContentFingerprint(messagePayload.content),
+            contentFingerprint: this.generateContentFingerprint(messagePayload),
+            contentCommitment: messagePayload.contentCommitment,
+            attachmentHashes: this.attachmentHashes(messagePayload),
             timestamp: Date.now(),
             senderCommit: messagePayload.senderCommit,
             cardId: messagePayload.cardId
@@ -576,34 +2506,147 @@ export class SelectConnectRelay {
         return createHash('sha256').update(JSON.stringify(evidenceData)).digest('hex');
     }
 
-    private generateContentFingerprint(content: string): string {
-        return createHash('sha256').update(content).digest('hex').substring(0, 16);
+    /**
+     * Sealed messages are fingerprinted by the sender's commitment, never by ciphertext or plaintext
+     */
+    private generateContentFingerprint(messagePayload: MessagePayload): string {
+        return createHash('sha256')
+            .update(messagePayload.contentCommitment || messagePayload.content)
+            .digest('hex')
+            .substring(0, 16);
     }
 
     private async storeEvidence(evidenceHash: string, evidence: Evidence): Promise<void> {
         try {
-            const encryptedEvidence = this.encryptEvidence(evidence);
+            const encryptedEvidence = this.encryptEvidence(evidenceHash, evidence);
             
-            await this.redis.setex(
+            await this.store.set(
                 `evidence:${evidenceHash}`,
-                30 * 24 * 3600,
-                JSON.stringify(encryptedEvidence)
+                JSON.stringify(encryptedEvidence),
+                this.evidenceTtl()
             );
             
-            this.logger.debug('Evidence stored', { evidenceHash });
+            this.logger.debug('Evidence stored', { evidenceHash, keyId: encryptedEvidence.keyId });
         } catch (error) {
             this.logger.error('Failed to store evidence', { error, evidenceHash });
             throw error;
         }
     }
     
-    private encryptEvidence(evidence: Evidence): any {
-        const jsonStr = JSON.stringify(evidence);
-        return {
-            encrypted: Buffer.from(jsonStr).toString('base64'),
-            algorithm: 'base64',
-            timestamp: Date.now()
-        };
+    /**
+     * Evidence and the records kept beside it live as long as the evidence retention policy allows
+     */
+    private evidenceTtl(): number {
+        return this.config.retention.policies.evidence.maxAgeSeconds;
+    }
+    
+    /**
+     * Read back and decrypt stored evidence, or null if it has expired
+     */
+    async decryptEvidence(evidenceHash: string): Promise<Evidence | null> {
+        const stored = await this.store.get(`evidence:${evidenceHash}`);
+        if (!stored) {
+            return null;
+        }
+        
+        const record = JSON.parse(stored);
+        if (record.algorithm === 'base64') {
+            return JSON.parse(Buffer.from(record.encrypted, 'base64').toString('utf8'));
+        }
+        
+        const plaintext = this.evidenceKeyring.open(record as EncryptedEnvelope, evidenceHash);
+        return JSON.parse(plaintext.toString('utf8'));
+    }
+    
+    /**
+     * Export stored evidence for arbitration, encrypted to the requester's X25519 key
+     * The requester signs sha256(`selectconnect:evidence-export:<evidenceHash>:<encryptionPublicKey>`)
+     * with a key whose address is the card admin or an authorized guardian
+     */
+    async exportEvidenceBundle(evidenceHash: string, requester: EvidenceRequester): Promise<EvidenceExportResult> {
+        try {
+            const challenge = createHash('sha256')
+                .update(`selectconnect:evidence-export:${evidenceHash}:${requester.encryptionPublicKey}`)
+                .digest('hex');
+            const requesterAddress = verifyProofSigner(requester, challenge);
+            if (!requesterAddress) {
+                return { success: false, reason: 'INVALID_REQUESTER_PROOF' };
+            }
+            
+            const evidence = await this.decryptEvidence(evidenceHash);
+            if (!evidence) {
+                return { success: false, reason: 'EVIDENCE_NOT_FOUND' };
+            }
+            
+            if (!await this.verifyAttestorAuthorization(evidence.cardId, requesterAddress)) {
+                this.logger.warn('Unauthorized evidence export attempt', {
+                    evidenceHash,
+                    cardId: evidence.cardId,
+                    requester: requesterAddress
+                });
+                return { success: false, reason: 'UNAUTHORIZED_REQUESTER' };
+            }
+            
+            const storedReceipts = await this.store.get(`receipts:${evidenceHash}`);
+            const storedReveal = await this.store.get(`evidence_reveal:${evidenceHash}`);
+            const attestations: AttestationRecord[] = [];
+            for (const attestationId of await this.store.getSetMembers(`evidence_attestations:${evidenceHash}`)) {
+                const attestation = await this.getAttestationRecord(attestationId);
+                if (attestation) {
+                    attestations.push(attestation);
+                }
+            }
+            
+            const bundle = sealEvidenceBundle({
+                evidenceHash,
+                evidence,
+                receipts: storedReceipts ? JSON.parse(storedReceipts) : {},
+                attestations,
+                reveal: storedReveal
+                    ? JSON.parse(this.evidenceKeyring.open(JSON.parse(storedReveal), `reveal:${evidenceHash}`).toString('utf8'))
+                    : undefined,
+                exportedAt: Date.now()
+            }, {
+                cardId: evidence.cardId,
+                requester: requesterAddress,
+                encryptionPublicKey: requester.encryptionPublicKey
+            }, this.receiptSigner);
+            
+            this.logger.info('Evidence bundle exported', {
+                evidenceHash,
+                cardId: evidence.cardId,
+                requester: requesterAddress,
+                attestations: attestations.length
+            });
+            
+            return { success: true, bundle };
+            
+        } catch (error) {
+            this.logger.error('Evidence export failed', {
+                error: (error as Error).message,
+                evidenceHash,
+                stack: (error as Error).stack
+            });
+            
+            return {
+                success: false,
+                reason: 'EXPORT_ERROR',
+                error: (error as Error).message
+            };
+        }
+    }
+    
+    /**
+     * Keep the receipts issued for a message next to its evidence for later export
+     */
+    private async recordReceipts(evidenceHash: string, receipts: { senderReceipt?: string; recipientReceipt?: string }): Promise<void> {
+        const stored = await this.store.get(`receipts:${evidenceHash}`);
+        const merged = { ...(stored ? JSON.parse(stored) : {}), ...receipts };
+        await this.store.set(`receipts:${evidenceHash}`, JSON.stringify(merged), this.evidenceTtl());
+    }
+    
+    private encryptEvidence(evidenceHash: string, evidence: Evidence): EncryptedEnvelope {
+        return this.evidenceKeyring.seal(Buffer.from(JSON.stringify(evidence)), evidenceHash);
     }
 
     private async getRequiredBondAmount(cardId: string, senderCommit: string): Promise<string> {
@@ -611,53 +2654,51 @@ export class SelectConnectRelay {
             const cardPolicy = await this.retryOperation(async () => {
                 return await this.selectConnectContract.call('getCardPolicy', [cardId]);
             });
-            return cardPolicy.requiredBondAmount || "1000000";
+            return cardPolicy.requiredBondAmount || this.config.bonds.defaultRequiredAmount;
         } catch (error) {
             this.logger.error('Failed to get bond amount', { error, cardId });
-            return "1000000";
+            return this.config.bonds.defaultRequiredAmount;
         }
     }
     
-    private async verifyMessageSignature(messagePayload: MessagePayload): Promise<boolean> {
+    private async verifyMessageSignature(messagePayload: MessagePayload): Promise<MessageCheckResult> {
         try {
-            const messageHash = this.hashMessage(messagePayload);
-            const messageAge = Date.now() - messagePayload.timestamp;
-            
-            if (messageAge > 5 * 60 * 1000) {
-                this.logger.warn('Message too old', { messageAge, timestamp: messagePayload.timestamp });
-                return false;
+            const freshness = this.replayGuard.checkFreshness(messagePayload.timestamp);
+            if (!freshness.valid) {
+                this.logger.warn('Message timestamp outside clock skew tolerance', {
+                    skew: Date.now() - messagePayload.timestamp,
+                    timestamp: messagePayload.timestamp
+                });
+                return freshness;
             }
             
-            const duplicateKey = `msg:${messageHash}`;
-            const exists = await this.redis.exists(duplicateKey);
-            if (exists) {
-                this.logger.warn('Duplicate message detected', { messageHash });
-                return false;
+            const signatureCheck = verifySenderSignature(
+                messagePayload.senderKeyType,
+                messagePayload.senderPublicKey,
+                messagePayload.senderAddress,
+                this.hashMessage(messagePayload),
+                messagePayload.signature || ''
+            );
+            if (!signatureCheck.valid) {
+                return signatureCheck;
             }
             
-            await this.redis.setex(duplicateKey, 300, '1');
-            return Boolean(messagePayload.signature && messagePayload.signature.length > 0);
+            // Only signed messages may claim a nonce, so forgeries cannot burn a sender's nonces
+            return await this.replayGuard.consumeNonce(messagePayload.senderAddress, messagePayload.nonce, messagePayload.timestamp);
             
         } catch (error) {
             this.logger.error('Signature verification failed', { error });
-            return false;
+            return { valid: false, reason: 'INVALID_SIGNATURE' };
         }
     }
     
-    private async getBondId(cardId: string, senderCommit: string): Promise<string> {
-        const bondData = `${cardId}:${senderCommit}:${Date.now()}`;
-        return this.hashToBytes32(bondData);
-    }
-    
     private async generateForwardingAttestation(messagePayload: MessagePayload): Promise<string> {
-        const attestationData = {
+        return this.receiptSigner.sign('forwarding-attestation', {
             messageHash: this.hashMessage(messagePayload),
             timestamp: Date.now(),
             cardId: messagePayload.cardId,
-            senderCommit: messagePayload.senderCommit,
-            relaySignature: this.signReceipt(this.hashMessage(messagePayload))
-        };
-        return Buffer.from(JSON.stringify(attestationData)).toString('base64');
+            senderCommit: messagePayload.senderCommit
+        });
     }
     
     private generateAttestationId(bondId: string, evidenceHash: string, attestor: string): string {
@@ -665,93 +2706,246 @@ export class SelectConnectRelay {
         return createHash('sha256').update(attestationData).digest('hex');
     }
 
+    private async getAttestationRecord(attestationId: string): Promise<AttestationRecord | null> {
+        const stored = await this.store.get(`attestation:${attestationId}`);
+        return stored ? JSON.parse(stored) : null;
+    }
+    
+    private async saveAttestationRecord(attestationId: string, record: AttestationRecord): Promise<void> {
+        // Disputed records outlive the original challenge window until they are decided, and every
+        // record outlives its (possibly extended) challenge window by a day, as when it was created
+        const ttl = Math.max(
+            await this.store.ttl(`attestation:${attestationId}`),
+            record.disputeState === 'DISPUTED' ? 30 * 24 * 3600 : 86400,
+            Math.ceil((record.challengeEndTime - Date.now()) / 1000) + 86400
+        );
+        await this.store.set(`attestation:${attestationId}`, JSON.stringify(record), ttl);
+    }
+    
+    /**
+     * Check that the disputing party can open the sender commitment
+     */
+    private verifySenderProof(cardId: string, senderCommit: string, proof: SenderProof): boolean {
+        if (!proof || !proof.senderDid || !proof.salt) {
+            return false;
+        }
+        
+        const expected = Buffer.from(senderCommit, 'hex');
+        const actual = Buffer.from(this.generateSenderCommitment(cardId, proof.senderDid, proof.salt), 'hex');
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
     private async generateSenderReceipt(messagePayload: MessagePayload, evidenceHash: string): Promise<string> {
-        const receiptData = {
+        const attachmentHashes = this.attachmentHashes(messagePayload);
+        return this.receiptSigner.sign('sender-receipt', {
             messageHash: this.hashMessage(messagePayload),
             evidenceHash,
             timestamp: Date.now(),
             senderCommit: messagePayload.senderCommit,
             cardId: messagePayload.cardId,
-            relaySignature: this.signReceipt(evidenceHash)
-        };
-        return Buffer.from(JSON.stringify(receiptData)).toString('base64');
+            ...(attachmentHashes && { attachments: attachmentHashes.join(',') })
+        });
     }
     
     private async generateRecipientReceipt(messagePayload: MessagePayload, evidenceHash: string): Promise<string> {
-        const receiptData = {
-            messageFingerprint: this.generateContentFingerprint(messagePayload.content),
+        const attachmentHashes = this.attachmentHashes(messagePayload);
+        return this.receiptSigner.sign('recipient-receipt', {
+            messageFingerprint: this.generateContentFingerprint(messagePayload),
             evidenceHash,
             timestamp: Date.now(),
             cardId: messagePayload.cardId,
             senderCommit: messagePayload.senderCommit,
-            relaySignature: this.signReceipt(evidenceHash)
-        };
-        return Buffer.from(JSON.stringify(receiptData)).toString('base64');
+            ...(attachmentHashes && { attachments: attachmentHashes.join(',') })
+        });
+    }
+    
+    /**
+     * Blob hashes a message references, in message order; undefined without attachments
+     */
+    private attachmentHashes(messagePayload: MessagePayload): string[] | undefined {
+        return messagePayload.attachments?.length ? messagePayload.attachments.map(ref => ref.hash) : undefined;
     }
     
-    private signReceipt(evidenceHash: string): string {
-        return createHmac('sha256', this.relayPrivateKey).update(evidenceHash).digest('hex');
+    /**
+     * Store the message in the card's mailbox, then try each preferred channel in order
+     * Messages no channel accepts are retried in the background and stay pullable until retention lapses
+     */
+    private async deliverToRecipient(messagePayload: MessagePayload, evidenceHash: string): Promise<DeliveryResult> {
+        // A reply to this message can open a thread bound to the key that sent it
+        await this.threads.rememberSender(messagePayload.cardId, messagePayload.senderCommit, messagePayload.senderAddress);
+        if (messagePayload.attachments?.length) {
+            await this.attachments.grant(messagePayload.cardId, messagePayload.attachments);
+        }
+        
+        const entry = await this.mailbox.enqueue(messagePayload.cardId, messagePayload.senderCommit, evidenceHash, messagePayload);
+        const result = await this.attemptDelivery(entry.messageId, messagePayload, evidenceHash);
+        
+        if (result.status === 'QUEUED') {
+            await this.mailboxDeliveryQueue.add('deliverMessage', { messageId: entry.messageId, evidenceHash }, {
+                jobId: `mailbox:${entry.messageId}`,
+                delay: this.config.delivery.retryDelayMs,
+                attempts: this.config.delivery.maxAttempts,
+                backoff: {
+                    type: 'exponential',
+                    delay: this.config.delivery.retryDelayMs
+                }
+            });
+        }
+        
+        return result;
     }
-
-    private async deliverToRecipient(messagePayload: MessagePayload): Promise<any> {
+    
+    private async attemptDelivery(messageId: string, messagePayload: MessagePayload, evidenceHash: string): Promise<DeliveryResult> {
+        const { cardId } = messagePayload;
+        
+        for (const channel of await this.getDeliveryChannels(cardId)) {
+            try {
+                const delivery = await this.sendThroughChannel(messagePayload, channel, evidenceHash, messageId);
+                this.metrics.forwards.inc({ channel, outcome: delivery.success ? 'success' : 'failure' });
+                if (!delivery.success) {
+                    continue;
+                }
+                
+                const entry = await this.mailbox.recordAttempt(messageId, { channel, deliveryId: delivery.deliveryId });
+                
+                this.logger.info('Message delivered', { cardId, channel, messageId });
+                return this.toDeliveryResult(messageId, entry);
+                
+            } catch (error) {
+                this.metrics.forwards.inc({ channel, outcome: 'failure' });
+                this.logger.warn('Delivery channel failed', {
+                    error: (error as Error).message,
+                    cardId,
+                    channel,
+                    messageId
+                });
+            }
+        }
+        
+        const entry = await this.mailbox.recordAttempt(messageId);
+        this.logger.info('Message held in mailbox', { cardId, messageId, attempts: entry?.attempts });
+        return this.toDeliveryResult(messageId, entry);
+    }
+    
+    /**
+     * Send a freshly subscribed holder the card's mailbox messages that are undelivered or sent in-app but never acknowledged
+     */
+    private async deliverMailboxInApp(cardId: string): Promise<void> {
+        let cursor: string | undefined;
+        do {
+            const page = await this.mailbox.pull<MessagePayload>(cardId, cursor);
+            for (const { messageId, evidenceHash, status, channel, message } of page.messages) {
+                if (status !== 'QUEUED' && channel !== 'in-app') {
+                    continue;
+                }
+                const delivery = await this.sendThroughChannel(message, 'in-app', evidenceHash, messageId);
+                this.metrics.forwards.inc({ channel: 'in-app', outcome: delivery.success ? 'success' : 'failure' });
+                if (delivery.success) {
+                    await this.mailbox.recordAttempt(messageId, { channel: 'in-app', deliveryId: delivery.deliveryId });
+                }
+            }
+            cursor = page.cursor;
+        } while (cursor);
+    }
+    
+    /**
+     * Channels to try in order: `channels` from the card's delivery preferences, or its single `channel`
+     */
+    private async getDeliveryChannels(cardId: string): Promise<string[]> {
         try {
             const preferences = await this.retryOperation(async () => {
-                return await this.selectConnectContract.call('getDeliveryPreferences', [messagePayload.cardId]);
-            });
-            
-            const deliveryResult = await this.sendThroughChannel(messagePayload, preferences.channel);
-            
-            this.logger.info('Message delivered', {
-                cardId: messagePayload.cardId,
-                channel: preferences.channel,
-                delivered: deliveryResult.success
+                return await this.selectConnectContract.call('getDeliveryPreferences', [cardId]);
             });
             
-            return {
-                delivered: deliveryResult.success,
-                channel: preferences.channel,
-                timestamp: Date.now(),
-                deliveryId: deliveryResult.deliveryId
-            };
+            const channels: string[] = Array.isArray(preferences?.channels) && preferences.channels.length > 0
+                ? preferences.channels
+                : [preferences?.channel || 'in-app'];
+            return Array.from(new Set(channels));
             
         } catch (error) {
-            this.logger.error('Message delivery failed', {
+            // The message stays in the mailbox and the retry job reads the preferences again
+            this.logger.error('Failed to read delivery preferences', {
                 error: (error as Error).message,
-                cardId: messagePayload.cardId
+                cardId
             });
-            
-            return {
-                delivered: false,
-                error: (error as Error).message,
-                timestamp: Date.now()
-            };
+            return [];
+        }
+    }
+    
+    private toDeliveryResult(messageId: string, entry: MailboxEntry | null): DeliveryResult {
+        if (!entry) {
+            // Deleted by the recipient or dropped after retention while a delivery was in flight
+            return { status: 'EXPIRED', messageId, timestamp: Date.now() };
         }
+        
+        return {
+            status: entry.status,
+            messageId,
+            channel: entry.channel,
+            deliveryId: entry.deliveryId,
+            attempts: entry.attempts,
+            expiresAt: entry.expiresAt,
+            acknowledged: Boolean(entry.acknowledgedAt),
+            timestamp: Date.now()
+        };
     }
     
-    private async sendThroughChannel(messagePayload: MessagePayload, channel: string): Promise<any> {
+    private async sendThroughChannel(messagePayload: MessagePayload, channel: string, evidenceHash: string, messageId: string): Promise<any> {
         switch (channel) {
-            case 'email':
-                break;
+            case 'email': {
+                const recipient = await this.getEmailRecipient(messagePayload.cardId);
+                if (!recipient) {
+                    throw new Error('No email address registered for card');
+                }
+                return await this.emailChannel.send(recipient, {
+                    content: messagePayload.contentCommitment ? this.SEALED_CONTENT_NOTICE : messagePayload.content,
+                    senderCommit: messagePayload.senderCommit,
+                    cardId: messagePayload.cardId,
+                    timestamp: messagePayload.timestamp
+                }, evidenceHash);
+            }
             case 'push':
-                break;
+                return await this.pushChannel.send({
+                    content: messagePayload.content,
+                    contentCommitment: messagePayload.contentCommitment,
+                    senderCommit: messagePayload.senderCommit,
+                    cardId: messagePayload.cardId,
+                    timestamp: messagePayload.timestamp
+                });
             case 'in-app':
             default:
-                break;
+                // Offline recipients are served from the mailbox rather than the gateway's replay stream
+                return await this.inAppGateway.deliver({
+                    content: messagePayload.content,
+                    contentCommitment: messagePayload.contentCommitment,
+                    attachments: messagePayload.attachments,
+                    senderCommit: messagePayload.senderCommit,
+                    cardId: messagePayload.cardId,
+                    timestamp: messagePayload.timestamp
+                }, { queueIfOffline: false, reference: messageId });
         }
-        
-        return {
-            success: true,
-            deliveryId: randomBytes(16).toString('hex')
-        };
+    }
+
+    private async getEmailRecipient(cardId: string): Promise<string | null> {
+        const stored = await this.store.get(`email_recipient:${cardId}`);
+        if (!stored) {
+            return null;
+        }
+        return this.evidenceKeyring.open(JSON.parse(stored) as EncryptedEnvelope, `email:${cardId}`).toString('utf8');
+    }
+
+    private async getCardAdmin(cardId: string): Promise<string> {
+        return await this.retryOperation(async () => {
+            return await this.selectConnectContract.call('getCardAdmin', [cardId]);
+        });
     }
 
     private async verifyAttestorAuthorization(cardId: string, attestor: string): Promise<boolean> {
         try {
-            const cardAdmin = await this.retryOperation(async () => {
-                return await this.selectConnectContract.call('getCardAdmin', [cardId]);
-            });
+            const cardAdmin = await this.getCardAdmin(cardId);
             
-            if (cardAdmin.toLowerCase() === attestor.toLowerCase()) {
+            // Proven signer addresses are unprefixed lowercase hex
+            if (cardAdmin.replace(/^0x/i, '').toLowerCase() === attestor.replace(/^0x/i, '').toLowerCase()) {
                 return true;
             }
             
@@ -769,16 +2963,56 @@ export class SelectConnectRelay {
 }
 
 // Type definitions
-interface MessagePayload {
+export interface RelayOptions {
+    /** Defaults to defaultRelayConfig(); see loadRelayConfig */
+    config?: RelayConfig;
+    /** Storage and job queues to use instead of Redis/Bull */
+    backend?: RelayBackend;
+    evidenceKeyring?: EvidenceKeyring;
+    receiptSigner?: ReceiptSigner;
+    /** Defaults to JSON logs on the console and in relay-*.log */
+    logger?: winston.Logger;
+    channels?: RelayChannels;
+    /** Chain watcher reporting AbuseEscrow bond events, which invalidate cached bond status; defaults to polling bond_meta */
+    bondEvents?: BondEventSource;
+    moderation?: {
+        /** Replaces the default keyword, link and classifier chain */
+        analyzers?: ContentAnalyzer[];
+        classifier?: ContentClassifier;
+    };
+}
+
+export interface RelayChannels {
+    email?: EmailChannel;
+    pushSender?: PushSender;
+}
+
+export interface MessagePayload {
+    /** Plaintext, or a sealed envelope (see SealedContent) when contentCommitment is set */
     content: string;
+    /** E2E mode: sender's commitment to the plaintext, used for fingerprints and evidence */
+    contentCommitment?: string;
     senderCommit: string;
     cardId: string;
     senderAddress: string;
+    senderPublicKey: string;
+    senderKeyType: string; // 'ed25519' | 'secp256k1'
     signature: string;
     timestamp: number;
+    /** Random hex (at least 128 bits), signed with the message and accepted once per sender */
+    nonce: string;
+    /** Privacy route the sender reached the card through (5-digit or 32-byte hex), signed after nonce */
+    routeCode?: string;
+    /** Uploaded blobs, signed as `{hash, mimeType, size, filename}` in that key order */
+    attachments?: AttachmentRef[];
 }
 
-interface BondVerificationResult {
+export interface MessageCheckResult {
+    valid: boolean;
+    reason?: SignatureFailureReason | ReplayFailureReason;
+}
+
+export interface BondVerificationResult {
     verified: boolean;
     reason?: string;
     bondId?: string;
@@ -788,28 +3022,231 @@ interface BondVerificationResult {
     error?: string;
 }
 
-interface ForwardingResult {
+export interface ForwardingResult {
     success: boolean;
+    /** Set for follow-ups sent through a conversation thread */
+    threadId?: string;
     evidenceHash?: string;
     senderReceipt?: string;
     recipientReceipt?: string;
-    deliveryResult?: any;
+    deliveryResult?: DeliveryResult;
+    moderation?: ModerationDecision;
     timestamp: number;
     reason?: string;
     error?: string;
+    retryAfter?: number;
+}
+
+export interface ThreadReply {
+    content: string;
+    contentCommitment?: string;
+    nonce: string;
+    timestamp: number;
+}
+
+export interface ThreadReadRequest {
+    timestamp: number;
+    cursor?: string;
+    limit?: number;
+    proof: CardAdminProof;
+}
+
+export interface ThreadActionResult {
+    success: boolean;
+    reason?: string;
+    retryAfter?: number;
+    thread?: ConversationThread;
+    messageId?: string;
+}
+
+export interface ThreadReadResult extends Partial<ThreadPage<MessagePayload | ThreadReply>> {
+    success: boolean;
+    reason?: string;
+    thread?: ConversationThread;
+}
+
+export interface DeliveryResult {
+    status: MailboxStatus | 'QUARANTINED';
+    /** Mailbox ID the card admin can poll with getMailboxStatus */
+    messageId?: string;
+    quarantineId?: string;
+    /** Channel that accepted the message */
+    channel?: string;
+    deliveryId?: string;
+    attempts?: number;
+    expiresAt?: number;
+    acknowledged?: boolean;
+    timestamp: number;
+}
+
+export interface RouteInteraction {
+    /** interaction_tracking key created by accessViaPrivacyRoute */
+    interactionId: string;
+    /** 32-byte route code as passed to the contract */
+    routeCode: string;
+    cardId: string;
+    senderCommit: string;
+    recordedAt: number;
+}
+
+export type SpamReportStatus = 'QUEUED' | 'SUBMITTED';
+
+export interface SpamReportResult {
+    success: boolean;
+    reason?: string;
+    interactionId?: string;
+    status?: SpamReportStatus;
+    /** The interaction had already been reported */
+    duplicate?: boolean;
+}
+
+/**
+ * Sender's signature over an attachment upload, with the nonce and timestamp it covers
+ */
+export interface AttachmentUploadProof extends CardAdminProof {
+    nonce: string;
+    timestamp: number;
 }
 
-interface AttestationResult {
+export interface AttachmentUploadResult {
+    success: boolean;
+    reason?: string;
+    retryAfter?: number;
+    attachment?: StoredAttachment;
+}
+
+export interface AttachmentDownloadResult {
+    success: boolean;
+    reason?: string;
+    attachment?: StoredAttachment;
+    data?: Buffer;
+}
+
+export interface MailboxPullResult {
+    success: boolean;
+    messages?: MailboxMessage<MessagePayload>[];
+    cursor?: string;
+    reason?: string;
+}
+
+export interface MailboxActionResult {
+    success: boolean;
+    delivery?: DeliveryResult;
+    reason?: string;
+}
+
+export interface ModerationPolicyResult {
+    success: boolean;
+    policy?: CardModerationPolicy;
+    reason?: string;
+}
+
+export interface QuarantineListResult {
+    success: boolean;
+    messages?: QuarantinedMessage[];
+    reason?: string;
+}
+
+export interface PendingDisputesResult {
+    success: boolean;
+    attestationIds?: string[];
+    reason?: string;
+}
+
+export interface ErasureResult {
+    success: boolean;
+    report?: RetentionReport;
+    reason?: string;
+}
+
+export interface AttestationResult {
     success: boolean;
     attestationId?: string;
     challengeEndTime?: number;
     bondId?: string;
+    /** Counted towards the card's quorum, which is not yet reached */
+    pending?: boolean;
+    quorum?: QuorumStatus;
+    reason?: string;
+    error?: string;
+}
+
+export interface QuorumActionResult {
+    success: boolean;
+    reason?: string;
+    quorum?: QuorumStatus;
+}
+
+export interface RelayHealth {
+    healthy: boolean;
+    store: boolean;
+    queue: boolean;
+    contracts: boolean;
+    timestamp: number;
+}
+
+export type DisputeState = 'NONE' | 'DISPUTED' | 'UPHELD' | 'DISMISSED';
+
+export interface CardEncryptionKey {
+    /** Raw X25519 public key (hex) */
+    publicKey: string;
+    keyId: string;
+    registeredAt: number;
+}
+
+export interface EvidenceRequester extends CardAdminProof {
+    /** Raw X25519 public key (hex) the bundle is encrypted to */
+    encryptionPublicKey: string;
+}
+
+export interface EvidenceExportResult {
+    success: boolean;
+    bundle?: EvidenceBundle;
+    reason?: string;
+    error?: string;
+}
+
+export interface AttestationRecord {
+    bondId: string;
+    evidenceHash: string;
+    attestor: string;
+    /** Distinct guardians behind a quorum attestation; attestor is the one that completed it */
+    attestors?: string[];
+    challengeEndTime: number;
+    cardId: string;
+    senderCommit: string;
+    disputeState: DisputeState;
+    /** The recipient revealed sealed content matching the evidence commitment */
+    contentRevealed?: boolean;
+    dispute?: {
+        counterEvidenceHash: string;
+        disputedAt: number;
+        resolvedBy?: string;
+        resolvedAt?: number;
+    };
+    timestamp: number;
+}
+
+// Opening of the sender commitment (see generateSenderCommitment)
+export interface SenderProof {
+    senderDid: string;
+    salt: string;
+}
+
+export interface DisputeResult {
+    success: boolean;
+    attestationId?: string;
+    disputeState?: DisputeState;
+    challengeEndTime?: number;
     reason?: string;
     error?: string;
 }
 
-interface Evidence {
+export interface Evidence {
     contentFingerprint: string;
+    contentCommitment?: string;
+    /** Hashes of the message's attachment blobs */
+    attachmentHashes?: string[];
     timestamp: number;
     transportSignature: string;
     senderCommit: string;
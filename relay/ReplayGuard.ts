@@ -0,0 +1,88 @@
+import winston from 'winston';
+
+import { RelayStore } from './storage';
+
+/**
+ * Replay Guard - single-use nonces for signed relay messages
+ *
+ * Every message carries a random nonce that is part of the signed digest.
+ * The first verification of a (sender, nonce) pair claims it in the relay
+ * store; any later message reusing it is REPLAYED, even when its content is
+ * identical to an earlier one only by coincidence. Timestamps merely bound
+ * how long nonces must be remembered: a message outside the clock-skew
+ * tolerance, in either direction, is STALE, so a nonce can be forgotten once
+ * no message carrying it could still be accepted.
+ */
+
+export type ReplayFailureReason = 'REPLAYED' | 'STALE' | 'INVALID_NONCE';
+
+export interface ReplayGuardOptions {
+    /** Accepted difference between a message timestamp and the relay clock, either way */
+    clockSkewSeconds?: number;
+    /** How long a forwarding attestation is accepted after its verification */
+    maxAgeSeconds?: number;
+}
+
+export interface ReplayCheck {
+    valid: boolean;
+    reason?: ReplayFailureReason;
+}
+
+// At least 128 bits of randomness, hex encoded
+const NONCE_PATTERN = /^[0-9a-fA-F]{32,64}$/;
+
+export class ReplayGuard {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private readonly clockSkewMs: number;
+    /** Outlives the forwarding attestation, with the skew tolerance to spare */
+    private readonly forwardClaimSeconds: number;
+
+    constructor(store: RelayStore, logger: winston.Logger, options: ReplayGuardOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.clockSkewMs = (options.clockSkewSeconds || 600) * 1000;
+        this.forwardClaimSeconds = (options.maxAgeSeconds || 300) + (options.clockSkewSeconds || 600);
+    }
+
+    /**
+     * Reject timestamps outside the skew tolerance; cheap enough to run before signature checks
+     */
+    checkFreshness(timestamp: number): ReplayCheck {
+        return Number.isFinite(timestamp) && Math.abs(Date.now() - timestamp) <= this.clockSkewMs
+            ? { valid: true }
+            : { valid: false, reason: 'STALE' };
+    }
+
+    /**
+     * Claim a sender's nonce; call only after the message signature has been verified
+     */
+    async consumeNonce(senderAddress: string, nonce: string, timestamp: number): Promise<ReplayCheck> {
+        if (typeof nonce !== 'string' || !NONCE_PATTERN.test(nonce)) {
+            return { valid: false, reason: 'INVALID_NONCE' };
+        }
+
+        const freshness = this.checkFreshness(timestamp);
+        if (!freshness.valid) {
+            return freshness;
+        }
+
+        // The message stays acceptable until its timestamp leaves the window ahead of the relay clock
+        const ttlSeconds = Math.ceil((timestamp + this.clockSkewMs - Date.now()) / 1000) + 1;
+        const sender = senderAddress.replace(/^0x/, '').toLowerCase();
+        const claimed = await this.store.setIfAbsent(`nonce:${sender}:${nonce.toLowerCase()}`, String(timestamp), ttlSeconds);
+
+        if (!claimed) {
+            this.logger.warn('Replayed message nonce', { sender, nonce });
+            return { valid: false, reason: 'REPLAYED' };
+        }
+        return { valid: true };
+    }
+
+    /**
+     * Allow each verified message to be forwarded once
+     */
+    async claimForwarding(messageHash: string): Promise<boolean> {
+        return await this.store.setIfAbsent(`forwarded:${messageHash}`, '1', this.forwardClaimSeconds);
+    }
+}
@@ -0,0 +1,573 @@
+import { createHash, randomBytes } from 'crypto';
+import winston from 'winston';
+
+import { RelayStore } from './storage';
+
+/**
+ * Retention Engine - per-class retention policies and data erasure
+ *
+ * Relay data falls into classes (evidence, attestations, dedupe keys,
+ * rate-limit state, mailboxes, audit entries) that each have a maximum lifetime. Scheduled
+ * runs walk every class with incremental SCAN and cut any key without an
+ * expiry, or with a longer one, down to its class maximum; evidence side
+ * records whose evidence has already expired are deleted outright. Erasure
+ * runs delete everything the relay holds about one card or one sender
+ * commitment.
+ *
+ * Evidence tied to an open dispute is never deleted or shortened: an
+ * attestation is open while DISPUTED or still inside its challenge window,
+ * and its record, evidence, reveal and receipts are kept (and extended to
+ * the class maximum) until it is decided. Every run writes a report with
+ * per-class counts; erasure reports identify their subject only by hash.
+ */
+
+export type RetentionClass = 'evidence' | 'attestations' | 'dedupe' | 'rateLimits' | 'mailboxes' | 'audit';
+
+/** Report sections; card settings and bond caches are only touched by erasure */
+export type RetentionScope = RetentionClass | 'cardSettings' | 'caches';
+
+export type RetentionRunKind = 'SCHEDULED' | 'CARD_ERASURE' | 'SENDER_ERASURE';
+
+export interface RetentionPolicy {
+    /** Longest a key of this class may live from the run that first sees it */
+    maxAgeSeconds: number;
+    enabled: boolean;
+}
+
+export interface RetentionOptions {
+    policies?: Partial<Record<RetentionClass, Partial<RetentionPolicy>>>;
+    /** Keys requested per SCAN call */
+    scanBatchSize?: number;
+    /** How long run reports are kept */
+    reportRetentionSeconds?: number;
+}
+
+export interface RetentionCounts {
+    /** Keys examined */
+    scanned: number;
+    /** Keys whose lifetime was cut to the class maximum */
+    capped: number;
+    deleted: number;
+    /** Keys kept because an open dispute needs them */
+    preserved: number;
+}
+
+export interface RetentionReport {
+    reportId: string;
+    kind: RetentionRunKind;
+    /** sha256 of the erased cardId or senderCommit */
+    subjectHash?: string;
+    startedAt: number;
+    finishedAt: number;
+    /** Policies in force for a scheduled run */
+    policies?: Record<RetentionClass, RetentionPolicy>;
+    classes: Partial<Record<RetentionScope, RetentionCounts>>;
+    /** Open attestations whose evidence was held back */
+    openAttestations: number;
+    /** Keys that could not be processed; details are in the relay log */
+    failures: number;
+}
+
+export interface RetentionReportPage {
+    reports: RetentionReport[];
+    /** Pass back to fetch the next page; absent on the last page */
+    cursor?: string;
+}
+
+/**
+ * Reads the card and sender an evidence record belongs to, or null if it is gone
+ */
+export type EvidenceSubjectReader = (evidenceHash: string) => Promise<{ cardId: string; senderCommit: string } | null>;
+
+export const DEFAULT_RETENTION_POLICIES: Record<RetentionClass, RetentionPolicy> = {
+    evidence: { maxAgeSeconds: 30 * 24 * 3600, enabled: true },
+    attestations: { maxAgeSeconds: 30 * 24 * 3600, enabled: true },
+    dedupe: { maxAgeSeconds: 24 * 3600, enabled: true },
+    rateLimits: { maxAgeSeconds: 24 * 3600, enabled: true },
+    mailboxes: { maxAgeSeconds: 30 * 24 * 3600, enabled: true },
+    audit: { maxAgeSeconds: 365 * 24 * 3600, enabled: true }
+};
+
+const CLASS_PATTERNS: Record<RetentionClass, string[]> = {
+    evidence: ['evidence:*', 'evidence_reveal:*', 'evidence_attestations:*', 'receipts:*', 'route_interaction:*'],
+    attestations: ['attestation:*'],
+    dedupe: [
+        'nonce:*', 'forwarded:*', 'email_action:*',
+        'route_accessed:*', 'route_interaction_claim:*', 'spam_report:*', 'spam_report_counted:*'
+    ],
+    rateLimits: ['rate:*'],
+    mailboxes: [
+        'mailbox:*', 'mailbox_payload:*', 'mailbox_index:*',
+        'inapp:*', 'delivery:*',
+        'quarantine:*', 'quarantine_payload:*', 'quarantine_index:*',
+        'thread:*', 'thread_messages:*', 'thread_payload:*', 'thread_pair:*', 'thread_sender:*',
+        'attachment:*', 'attachment_access:*'
+    ],
+    audit: ['audit_entry:*', 'audit_subject:*']
+};
+
+// Keys stored alongside evidence:<hash> under the same hash
+const EVIDENCE_SIDE_PREFIXES = ['evidence_reveal', 'evidence_attestations', 'receipts', 'route_interaction'];
+
+interface OpenAttestations {
+    attestationIds: Set<string>;
+    evidenceHashes: Set<string>;
+}
+
+interface RetentionRun {
+    report: RetentionReport;
+    open: OpenAttestations;
+}
+
+export class RetentionEngine {
+    private store: RelayStore;
+    private logger: winston.Logger;
+    private readEvidenceSubject: EvidenceSubjectReader;
+    private readonly policies: Record<RetentionClass, RetentionPolicy>;
+    private readonly batchSize: number;
+    private readonly reportRetentionSeconds: number;
+    private readonly LOCK_KEY = 'retention:lock';
+    private readonly LOCK_TTL = 55 * 60; // released on completion; expires before the next hourly run
+    private readonly REPORT_INDEX = 'retention_reports';
+    private readonly MAX_INDEXED_REPORTS = 10000;
+
+    constructor(store: RelayStore, logger: winston.Logger, readEvidenceSubject: EvidenceSubjectReader, options: RetentionOptions = {}) {
+        this.store = store;
+        this.logger = logger;
+        this.readEvidenceSubject = readEvidenceSubject;
+        this.batchSize = options.scanBatchSize || 100;
+        this.reportRetentionSeconds = options.reportRetentionSeconds || 400 * 24 * 3600;
+
+        const overrides = options.policies || {};
+        this.policies = Object.fromEntries(
+            (Object.keys(DEFAULT_RETENTION_POLICIES) as RetentionClass[]).map(cls => [
+                cls,
+                { ...DEFAULT_RETENTION_POLICIES[cls], ...overrides[cls] }
+            ])
+        ) as Record<RetentionClass, RetentionPolicy>;
+    }
+
+    getPolicies(): Record<RetentionClass, RetentionPolicy> {
+        return this.policies;
+    }
+
+    /**
+     * Enforce every enabled policy; null when another relay instance is already running
+     */
+    async enforcePolicies(): Promise<RetentionReport | null> {
+        if (!await this.store.setIfAbsent(this.LOCK_KEY, String(Date.now()), this.LOCK_TTL)) {
+            this.logger.info('Retention run skipped: already in progress');
+            return null;
+        }
+
+        try {
+            const run = await this.begin('SCHEDULED');
+            run.report.policies = this.policies;
+
+            for (const cls of Object.keys(this.policies) as RetentionClass[]) {
+                const policy = this.policies[cls];
+                if (!policy.enabled) {
+                    continue;
+                }
+                for (const pattern of CLASS_PATTERNS[cls]) {
+                    await this.forEachKey(run, cls, pattern, key => this.enforce(run, cls, policy, key));
+                }
+            }
+
+            return await this.finish(run);
+        } finally {
+            await this.store.delete(this.LOCK_KEY);
+        }
+    }
+
+    /**
+     * Delete everything stored about a card except evidence under open dispute
+     */
+    async eraseCardData(cardId: string): Promise<RetentionReport> {
+        const run = await this.begin('CARD_ERASURE', cardId);
+
+        await this.eraseKeys(run, 'cardSettings', [
+            `email_recipient:${cardId}`,
+            `card_encryption_key:${cardId}`,
+            `moderation_policy:${cardId}`,
+            `rate_quota:${cardId}`,
+            `quorum_policy:${cardId}`,
+            `attachment_policy:${cardId}`,
+            `push_subs:${cardId}`
+        ]);
+        await this.eraseKeys(run, 'mailboxes', [`mailbox_index:${cardId}`, `inapp:${cardId}`]);
+        await this.eraseMailboxes(run, entry => entry.cardId === cardId);
+        await this.eraseQuarantine(run, record => record.cardId === cardId);
+        await this.eraseThreads(run, thread => thread.cardId === cardId);
+        await this.erasePattern(run, 'mailboxes', `thread_pair:${cardId}:*`);
+        await this.erasePattern(run, 'mailboxes', `thread_sender:${cardId}:*`);
+        await this.erasePattern(run, 'mailboxes', `attachment_access:${cardId}:*`);
+        await this.forEachKey(run, 'mailboxes', 'delivery:*', async key => {
+            if (await this.store.hashGet(key, 'cardId') === cardId) {
+                await this.eraseKeys(run, 'mailboxes', [key], false);
+            }
+        });
+
+        await this.erasePattern(run, 'rateLimits', `rate:card:${cardId}:*`);
+        await this.erasePattern(run, 'rateLimits', `rate:pair:${cardId}:*`);
+        await this.erasePattern(run, 'rateLimits', `rate:upload_card:${cardId}:*`);
+        await this.erasePattern(run, 'caches', `bond:${cardId}:*`);
+        await this.erasePattern(run, 'caches', `bond_index:${cardId}:*`);
+        await this.eraseBondPointers(run, pair => pair.startsWith(`${cardId}:`));
+
+        await this.eraseAttestations(run, record => record.cardId === cardId);
+        await this.eraseQuorumRounds(run, round => round.cardId === cardId);
+        await this.eraseEvidence(run, subject => subject.cardId === cardId);
+
+        return await this.finish(run);
+    }
+
+    /**
+     * Delete everything stored about a sender commitment except evidence under open dispute
+     *
+     * Nonce claims are keyed by sender address, which the relay cannot link to
+     * a commitment; they expire within the clock-skew window on their own.
+     */
+    async eraseSenderData(senderCommit: string): Promise<RetentionReport> {
+        const run = await this.begin('SENDER_ERASURE', senderCommit);
+
+        await this.eraseMailboxes(run, entry => entry.senderCommit === senderCommit);
+        await this.eraseQuarantine(run, record => record.senderCommit === senderCommit);
+        await this.eraseThreads(run, thread => thread.senderCommit === senderCommit);
+        await this.erasePattern(run, 'mailboxes', `thread_pair:*:${senderCommit}`);
+        await this.erasePattern(run, 'mailboxes', `thread_sender:*:${senderCommit}`);
+        await this.forEachKey(run, 'mailboxes', 'inapp:*', key => this.eraseInAppMessages(run, key, senderCommit));
+
+        await this.erasePattern(run, 'rateLimits', `rate:sender:${senderCommit}:*`);
+        await this.erasePattern(run, 'rateLimits', `rate:pair:*:${senderCommit}:*`);
+        await this.erasePattern(run, 'rateLimits', `rate:upload_sender:${senderCommit}:*`);
+        await this.erasePattern(run, 'caches', `bond:*:${senderCommit}`);
+        await this.erasePattern(run, 'caches', `bond_index:*:${senderCommit}`);
+        await this.eraseKeys(run, 'caches', [`spam_reports:${senderCommit}`]);
+        await this.eraseBondPointers(run, pair => pair.endsWith(`:${senderCommit}`));
+
+        await this.eraseAttestations(run, record => record.senderCommit === senderCommit);
+        await this.eraseQuorumRounds(run, round => round.senderCommit === senderCommit);
+        await this.eraseEvidence(run, subject => subject.senderCommit === senderCommit);
+
+        return await this.finish(run);
+    }
+
+    async getReport(reportId: string): Promise<RetentionReport | null> {
+        const stored = await this.store.get(this.reportKey(reportId));
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    /**
+     * Page through run reports, oldest first
+     */
+    async listReports(cursor?: string, limit: number = 20): Promise<RetentionReportPage> {
+        const entries = await this.store.readStream(this.REPORT_INDEX, cursor, limit);
+        const reports: RetentionReport[] = [];
+
+        for (const entry of entries) {
+            const report = await this.getReport(entry.fields.reportId);
+            if (report) {
+                reports.push(report);
+            }
+        }
+
+        return {
+            reports,
+            cursor: entries.length === limit ? entries[entries.length - 1].id : undefined
+        };
+    }
+
+    private async enforce(run: RetentionRun, cls: RetentionClass, policy: RetentionPolicy, key: string): Promise<void> {
+        const counts = this.counts(run, cls);
+        const ttl = await this.store.ttl(key);
+        if (ttl === -2) {
+            return;
+        }
+
+        if (this.isOpen(run, key)) {
+            if (ttl >= 0 && ttl < policy.maxAgeSeconds) {
+                await this.store.expire(key, policy.maxAgeSeconds);
+            }
+            counts.preserved++;
+            return;
+        }
+
+        const [prefix, evidenceHash] = splitKey(key);
+        if (EVIDENCE_SIDE_PREFIXES.includes(prefix) && await this.store.ttl(`evidence:${evidenceHash}`) === -2) {
+            counts.deleted += await this.store.delete(key);
+            return;
+        }
+
+        if (ttl === -1 || ttl > policy.maxAgeSeconds) {
+            await this.store.expire(key, policy.maxAgeSeconds);
+            counts.capped++;
+        }
+    }
+
+    private async eraseMailboxes(
+        run: RetentionRun,
+        matches: (entry: { cardId: string; senderCommit: string }) => boolean
+    ): Promise<void> {
+        await this.forEachKey(run, 'mailboxes', 'mailbox:*', async key => {
+            const entry = await this.readJson<{ cardId: string; senderCommit: string; streamId: string }>(key);
+            if (entry && matches(entry)) {
+                const [, messageId] = splitKey(key);
+                await this.store.deleteFromStream(`mailbox_index:${entry.cardId}`, entry.streamId);
+                await this.eraseKeys(run, 'mailboxes', [key, `mailbox_payload:${messageId}`], false);
+            }
+        });
+    }
+
+    private async eraseQuarantine(
+        run: RetentionRun,
+        matches: (record: { cardId: string; senderCommit: string }) => boolean
+    ): Promise<void> {
+        await this.forEachKey(run, 'mailboxes', 'quarantine:*', async key => {
+            const record = await this.readJson<{ cardId: string; senderCommit: string }>(key);
+            if (record && matches(record)) {
+                const [, quarantineId] = splitKey(key);
+                await this.store.removeFromSet(`quarantine_index:${record.cardId}`, quarantineId);
+                await this.eraseKeys(run, 'mailboxes', [key, `quarantine_payload:${quarantineId}`], false);
+            }
+        });
+    }
+
+    private async eraseThreads(
+        run: RetentionRun,
+        matches: (thread: { cardId: string; senderCommit: string }) => boolean
+    ): Promise<void> {
+        await this.forEachKey(run, 'mailboxes', 'thread:*', async key => {
+            const thread = await this.readJson<{ cardId: string; senderCommit: string }>(key);
+            if (thread && matches(thread)) {
+                const [, threadId] = splitKey(key);
+                await this.eraseKeys(run, 'mailboxes', [key, `thread_messages:${threadId}`], false);
+                await this.erasePattern(run, 'mailboxes', `thread_payload:${threadId}:*`);
+                await this.erasePattern(run, 'rateLimits', `thread_rate:${threadId}:*`);
+            }
+        });
+    }
+
+    /**
+     * Drop a sender's messages from one card's in-app replay stream
+     */
+    private async eraseInAppMessages(run: RetentionRun, streamKey: string, senderCommit: string): Promise<void> {
+        let after: string | undefined;
+        for (;;) {
+            const entries = await this.store.readStream(streamKey, after, this.batchSize);
+            for (const entry of entries) {
+                const message = JSON.parse(entry.fields.message || '{}');
+                if (message.senderCommit === senderCommit) {
+                    await this.store.deleteFromStream(streamKey, entry.id);
+                    await this.eraseKeys(run, 'mailboxes', [`delivery:${entry.fields.deliveryId}`], false);
+                }
+                after = entry.id;
+            }
+            if (entries.length < this.batchSize) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * Bond IDs and hashed ledger keys the bond index maps back to a "cardId:senderCommit" pair
+     */
+    private async eraseBondPointers(run: RetentionRun, matches: (pair: string) => boolean): Promise<void> {
+        for (const pattern of ['bond_index:bond:*', 'bond_index:pair:*']) {
+            await this.forEachKey(run, 'caches', pattern, async key => {
+                const pair = await this.store.get(key);
+                if (pair && matches(pair)) {
+                    await this.eraseKeys(run, 'caches', [key], false);
+                }
+            });
+        }
+    }
+
+    private async eraseAttestations(
+        run: RetentionRun,
+        matches: (record: { cardId: string; senderCommit: string }) => boolean
+    ): Promise<void> {
+        await this.forEachKey(run, 'attestations', 'attestation:*', async key => {
+            const record = await this.readJson<{ cardId: string; senderCommit: string }>(key);
+            if (!record || !matches(record)) {
+                return;
+            }
+            if (this.isOpen(run, key)) {
+                this.counts(run, 'attestations').preserved++;
+                return;
+            }
+            const [, attestationId] = splitKey(key);
+            await this.store.removeFromSet(`disputes:${record.cardId}`, attestationId);
+            await this.eraseKeys(run, 'attestations', [key], false);
+        });
+    }
+
+    /**
+     * Guardian votes collected towards an attestation quorum; rounds whose evidence is under open dispute are kept
+     */
+    private async eraseQuorumRounds(
+        run: RetentionRun,
+        matches: (round: { cardId: string; senderCommit: string }) => boolean
+    ): Promise<void> {
+        await this.forEachKey(run, 'attestations', 'attestation_quorum:*', async key => {
+            const round = await this.readJson<{ senderCommit: string }>(key);
+            const [, subject] = splitKey(key);
+            const separator = subject.lastIndexOf(':');
+            const cardId = subject.substring(0, separator);
+            const evidenceHash = subject.substring(separator + 1);
+            if (!round || !matches({ cardId, senderCommit: round.senderCommit })) {
+                return;
+            }
+            if (run.open.evidenceHashes.has(evidenceHash)) {
+                this.counts(run, 'attestations').preserved++;
+                return;
+            }
+            await this.eraseKeys(run, 'attestations', [key], false);
+            await this.eraseKeys(run, 'attestations', [
+                `attestation_votes:${subject}`,
+                `attestation_quorum_reached:${subject}`
+            ]);
+        });
+    }
+
+    private async eraseEvidence(
+        run: RetentionRun,
+        matches: (subject: { cardId: string; senderCommit: string }) => boolean
+    ): Promise<void> {
+        await this.forEachKey(run, 'evidence', 'evidence:*', async key => {
+            const [, evidenceHash] = splitKey(key);
+            const subject = await this.readEvidenceSubject(evidenceHash);
+            if (!subject || !matches(subject)) {
+                return;
+            }
+            if (run.open.evidenceHashes.has(evidenceHash)) {
+                this.counts(run, 'evidence').preserved++;
+                return;
+            }
+            await this.eraseKeys(run, 'evidence', [
+                key,
+                ...EVIDENCE_SIDE_PREFIXES.map(prefix => `${prefix}:${evidenceHash}`)
+            ], false);
+        });
+    }
+
+    private async erasePattern(run: RetentionRun, scope: RetentionScope, pattern: string): Promise<void> {
+        await this.forEachKey(run, scope, pattern, key => this.eraseKeys(run, scope, [key], false));
+    }
+
+    /**
+     * Delete keys and count them; keys found by a scan were already counted as scanned
+     */
+    private async eraseKeys(run: RetentionRun, scope: RetentionScope, keys: string[], countScanned: boolean = true): Promise<void> {
+        const counts = this.counts(run, scope);
+        if (countScanned) {
+            counts.scanned += keys.length;
+        }
+        counts.deleted += await this.store.delete(...keys);
+    }
+
+    private async forEachKey(
+        run: RetentionRun,
+        scope: RetentionScope,
+        pattern: string,
+        handle: (key: string) => Promise<void>
+    ): Promise<void> {
+        const counts = this.counts(run, scope);
+        for await (const keys of this.store.scan(pattern, this.batchSize)) {
+            for (const key of keys) {
+                counts.scanned++;
+                try {
+                    await handle(key);
+                } catch (error) {
+                    run.report.failures++;
+                    this.logger.error('Retention failed for key', { reportId: run.report.reportId, key, error });
+                }
+            }
+        }
+    }
+
+    private async begin(kind: RetentionRunKind, subject?: string): Promise<RetentionRun> {
+        return {
+            report: {
+                reportId: randomBytes(16).toString('hex'),
+                kind,
+                subjectHash: subject ? createHash('sha256').update(subject).digest('hex') : undefined,
+                startedAt: Date.now(),
+                finishedAt: 0,
+                classes: {},
+                openAttestations: 0,
+                failures: 0
+            },
+            open: await this.findOpenAttestations()
+        };
+    }
+
+    private async finish(run: RetentionRun): Promise<RetentionReport> {
+        const report = run.report;
+        report.finishedAt = Date.now();
+        report.openAttestations = run.open.attestationIds.size;
+
+        await this.store.set(this.reportKey(report.reportId), JSON.stringify(report), this.reportRetentionSeconds);
+        await this.store.appendToStream(this.REPORT_INDEX, { reportId: report.reportId }, this.MAX_INDEXED_REPORTS);
+
+        this.logger.info('Retention run completed', {
+            reportId: report.reportId,
+            kind: report.kind,
+            classes: report.classes,
+            failures: report.failures
+        });
+        return report;
+    }
+
+    /**
+     * Attestations that are disputed or can still be disputed, with the evidence they rest on
+     */
+    private async findOpenAttestations(): Promise<OpenAttestations> {
+        const open: OpenAttestations = { attestationIds: new Set(), evidenceHashes: new Set() };
+        const now = Date.now();
+
+        for await (const keys of this.store.scan('attestation:*', this.batchSize)) {
+            for (const key of keys) {
+                const record = await this.readJson<{ evidenceHash: string; disputeState: string; challengeEndTime: number }>(key);
+                const isOpen = record && (
+                    record.disputeState === 'DISPUTED' ||
+                    (record.disputeState === 'NONE' && record.challengeEndTime > now)
+                );
+                if (isOpen) {
+                    open.attestationIds.add(splitKey(key)[1]);
+                    open.evidenceHashes.add(record.evidenceHash);
+                }
+            }
+        }
+        return open;
+    }
+
+    private isOpen(run: RetentionRun, key: string): boolean {
+        const [prefix, id] = splitKey(key);
+        if (prefix === 'attestation') {
+            return run.open.attestationIds.has(id);
+        }
+        if (prefix === 'evidence' || EVIDENCE_SIDE_PREFIXES.includes(prefix)) {
+            return run.open.evidenceHashes.has(id);
+        }
+        return false;
+    }
+
+    private counts(run: RetentionRun, scope: RetentionScope): RetentionCounts {
+        return run.report.classes[scope] ||= { scanned: 0, capped: 0, deleted: 0, preserved: 0 };
+    }
+
+    private async readJson<T>(key: string): Promise<T | null> {
+        const stored = await this.store.get(key);
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    private reportKey(reportId: string): string {
+        return `retention_report:${reportId}`;
+    }
+}
+
+function splitKey(key: string): [string, string] {
+    const separator = key.indexOf(':');
+    return [key.substring(0, separator), key.substring(separator + 1)];
+}
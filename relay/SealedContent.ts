@@ -0,0 +1,195 @@
+import {
+    createCipheriv,
+    createDecipheriv,
+    createHash,
+    createPrivateKey,
+    createPublicKey,
+    diffieHellman,
+    generateKeyPairSync,
+    hkdfSync,
+    randomBytes,
+    timingSafeEqual
+} from 'crypto';
+
+/**
+ * Sealed Content - end-to-end encrypted message bodies
+ *
+ * Each card publishes an X25519 key. Senders encrypt `{content, salt}` to it
+ * (ephemeral ECDH, HKDF-SHA256, ChaCha20-Poly1305) and send the relay only
+ * the sealed envelope and a commitment, sha256 over a domain tag, the salt
+ * and the plaintext. The commitment is the AEAD's associated data, so the
+ * envelope cannot be re-paired with another commitment, and recipients must
+ * reject messages whose decrypted content does not match it. For an abuse
+ * report the recipient reveals plaintext and salt, which anyone can check
+ * against the commitment recorded in the evidence without the card's key.
+ *
+ * Envelope: `e2e1.<keyId>.<ephemeral public key hex>.<nonce b64url>.<ciphertext+tag b64url>`
+ */
+
+export interface SealedContent {
+    /** Envelope to send as MessagePayload.content */
+    content: string;
+    contentCommitment: string;
+}
+
+export interface ContentReveal {
+    plaintext: string;
+    /** Hex salt from inside the envelope */
+    salt: string;
+}
+
+export interface SealedEnvelope {
+    keyId: string;
+    ephemeralPublicKey: string;
+    nonce: Buffer;
+    ciphertext: Buffer;
+}
+
+const ENVELOPE_PREFIX = 'e2e1';
+const COMMITMENT_CONTEXT = 'selectconnect:content-commitment:v1\n';
+const HKDF_INFO = 'selectconnect:e2e:v1';
+const TAG_LENGTH = 16;
+
+// DER prefixes wrapping raw 32-byte X25519 keys as SubjectPublicKeyInfo / PKCS#8; shared with EvidenceBundle
+export const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+export const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+/**
+ * Key ID for a card's X25519 public key: first 8 bytes of its SHA-256, hex
+ */
+export function encryptionKeyId(publicKeyHex: string): string {
+    return createHash('sha256').update(Buffer.from(publicKeyHex, 'hex')).digest('hex').substring(0, 16);
+}
+
+export function computeContentCommitment(plaintext: string, saltHex: string): string {
+    return createHash('sha256')
+        .update(COMMITMENT_CONTEXT)
+        .update(Buffer.from(saltHex, 'hex'))
+        .update(plaintext, 'utf8')
+        .digest('hex');
+}
+
+/**
+ * Check a revealed plaintext against the commitment the sender signed
+ */
+export function verifyContentReveal(contentCommitment: string, reveal: ContentReveal): boolean {
+    if (typeof reveal?.plaintext !== 'string' || !/^[0-9a-fA-F]{64}$/.test(reveal.salt || '')) {
+        return false;
+    }
+    const expected = Buffer.from(computeContentCommitment(reveal.plaintext, reveal.salt), 'hex');
+    const actual = Buffer.from(contentCommitment, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Split an envelope into its parts, or null if it is not one
+ */
+export function parseSealedEnvelope(content: string): SealedEnvelope | null {
+    const parts = typeof content === 'string' ? content.split('.') : [];
+    if (parts.length !== 5 || parts[0] !== ENVELOPE_PREFIX) {
+        return null;
+    }
+
+    const [, keyId, ephemeralPublicKey, nonce, ciphertext] = parts;
+    const envelope = {
+        keyId,
+        ephemeralPublicKey,
+        nonce: Buffer.from(nonce, 'base64url'),
+        ciphertext: Buffer.from(ciphertext, 'base64url')
+    };
+
+    const wellFormed = /^[0-9a-f]{16}$/.test(keyId)
+        && /^[0-9a-f]{64}$/.test(ephemeralPublicKey)
+        && envelope.nonce.length === 12
+        && envelope.ciphertext.length > TAG_LENGTH;
+    return wellFormed ? envelope : null;
+}
+
+/**
+ * Encrypt a message to a card's published key (sender side)
+ */
+export function sealContent(plaintext: string, cardPublicKeyHex: string): SealedContent {
+    const recipientKey = Buffer.from(cardPublicKeyHex, 'hex');
+    if (recipientKey.length !== 32) {
+        throw new Error('Card encryption key must be a 32-byte X25519 key');
+    }
+
+    const salt = randomBytes(32).toString('hex');
+    const contentCommitment = computeContentCommitment(plaintext, salt);
+
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralPublicKey = (ephemeral.publicKey.export({ format: 'der', type: 'spki' }) as Buffer)
+        .subarray(X25519_SPKI_PREFIX.length);
+    const shared = diffieHellman({ privateKey: ephemeral.privateKey, publicKey: x25519PublicKey(recipientKey) });
+
+    const nonce = randomBytes(12);
+    const inner = Buffer.from(JSON.stringify({ content: plaintext, salt }), 'utf8');
+    const cipher = createCipheriv('chacha20-poly1305', deriveKey(shared, ephemeralPublicKey, recipientKey, HKDF_INFO), nonce, {
+        authTagLength: TAG_LENGTH
+    });
+    cipher.setAAD(Buffer.from(contentCommitment, 'hex'), { plaintextLength: inner.length });
+    const ciphertext = Buffer.concat([
+        cipher.update(inner),
+        cipher.final(),
+        cipher.getAuthTag()
+    ]);
+
+    return {
+        content: [
+            ENVELOPE_PREFIX,
+            encryptionKeyId(cardPublicKeyHex),
+            ephemeralPublicKey.toString('hex'),
+            nonce.toString('base64url'),
+            ciphertext.toString('base64url')
+        ].join('.'),
+        contentCommitment
+    };
+}
+
+/**
+ * Decrypt an envelope with the card's private key and check it against the commitment (recipient side)
+ */
+export function openSealedContent(content: string, contentCommitment: string, cardPrivateKeyHex: string): ContentReveal {
+    const envelope = parseSealedEnvelope(content);
+    if (!envelope) {
+        throw new Error('Not a sealed content envelope');
+    }
+
+    const privateKey = createPrivateKey({
+        key: Buffer.concat([X25519_PKCS8_PREFIX, Buffer.from(cardPrivateKeyHex, 'hex')]),
+        format: 'der',
+        type: 'pkcs8'
+    });
+    const recipientKey = (createPublicKey(privateKey).export({ format: 'der', type: 'spki' }) as Buffer)
+        .subarray(X25519_SPKI_PREFIX.length);
+    const ephemeralPublicKey = Buffer.from(envelope.ephemeralPublicKey, 'hex');
+    const shared = diffieHellman({ privateKey, publicKey: x25519PublicKey(ephemeralPublicKey) });
+
+    const decipher = createDecipheriv('chacha20-poly1305', deriveKey(shared, ephemeralPublicKey, recipientKey, HKDF_INFO), envelope.nonce, {
+        authTagLength: TAG_LENGTH
+    });
+    decipher.setAAD(Buffer.from(contentCommitment, 'hex'), { plaintextLength: envelope.ciphertext.length - TAG_LENGTH });
+    decipher.setAuthTag(envelope.ciphertext.subarray(-TAG_LENGTH));
+    const plaintext = Buffer.concat([
+        decipher.update(envelope.ciphertext.subarray(0, -TAG_LENGTH)),
+        decipher.final()
+    ]);
+
+    const { content: message, salt } = JSON.parse(plaintext.toString('utf8'));
+    const reveal = { plaintext: message, salt };
+    if (!verifyContentReveal(contentCommitment, reveal)) {
+        throw new Error('Decrypted content does not match its commitment');
+    }
+    return reveal;
+}
+
+export function x25519PublicKey(raw: Buffer) {
+    return createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, raw]), format: 'der', type: 'spki' });
+}
+
+/**
+ * HKDF-SHA256 over an ECDH secret, salted with both public keys; info separates the schemes using it
+ */
+export function deriveKey(shared: Buffer, ephemeralPublicKey: Buffer, recipientPublicKey: Buffer, info: string): Buffer {
+    return Buffer.from(hkdfSync('sha256', shared, Buffer.concat([ephemeralPublicKey, recipientPublicKey]), info, 32));
+}
@@ -0,0 +1,148 @@
+import { createHash, createPublicKey, verify, ECDH, KeyObject } from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+/**
+ * Sender signature verification for relayed messages
+ *
+ * Senders sign the canonical message digest produced by the relay's
+ * `hashMessage` with the key behind their `senderAddress`. The address is
+ * derived from the public key, so a payload that carries someone else's key
+ * is rejected before any signature math runs.
+ *
+ * The digest is signed as-is: Ed25519 over the 32 digest bytes, secp256k1 as
+ * a prehashed ECDSA signature (64-byte r||s) the way wallet signers produce
+ * it, without hashing the digest again.
+ */
+
+export type SenderKeyType = 'ed25519' | 'secp256k1';
+
+export type SignatureFailureReason = 'INVALID_SIGNATURE' | 'UNKNOWN_KEY_TYPE' | 'KEY_MISMATCH';
+
+export interface SignatureCheckResult {
+    valid: boolean;
+    reason?: SignatureFailureReason;
+}
+
+/**
+ * Signature by a card admin's key over a relay-issued challenge digest
+ */
+export interface CardAdminProof {
+    publicKey: string;
+    keyType: string;
+    signature: string;
+}
+
+export const SUPPORTED_KEY_TYPES: SenderKeyType[] = ['ed25519', 'secp256k1'];
+
+// DER prefix for a raw 32-byte Ed25519 public key wrapped as SubjectPublicKeyInfo
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export function isSupportedKeyType(keyType: string): keyType is SenderKeyType {
+    return (SUPPORTED_KEY_TYPES as string[]).includes(keyType);
+}
+
+/**
+ * Normalize a hex public key to its canonical byte form
+ * (raw 32 bytes for Ed25519, 33-byte compressed point for secp256k1)
+ */
+export function normalizePublicKey(keyType: SenderKeyType, publicKeyHex: string): Buffer {
+    const raw = Buffer.from(stripHexPrefix(publicKeyHex), 'hex');
+
+    if (keyType === 'ed25519') {
+        if (raw.length !== 32) {
+            throw new Error('Ed25519 public key must be 32 bytes');
+        }
+        return raw;
+    }
+
+    if (raw.length !== 33 && raw.length !== 65) {
+        throw new Error('secp256k1 public key must be 33 or 65 bytes');
+    }
+    return ECDH.convertKey(raw, 'secp256k1', undefined, undefined, 'compressed') as Buffer;
+}
+
+/**
+ * Derive the relay-level sender address for a public key
+ */
+export function deriveSenderAddress(keyType: SenderKeyType, publicKeyHex: string): string {
+    const canonical = normalizePublicKey(keyType, publicKeyHex);
+    return createHash('sha256').update(`${keyType}:`).update(canonical).digest('hex');
+}
+
+/**
+ * Verify a sender signature over a hex message digest
+ */
+export function verifySenderSignature(
+    keyType: string,
+    publicKeyHex: string,
+    senderAddress: string,
+    messageDigest: string,
+    signatureHex: string
+): SignatureCheckResult {
+    if (!isSupportedKeyType(keyType)) {
+        return { valid: false, reason: 'UNKNOWN_KEY_TYPE' };
+    }
+
+    let publicKey: Buffer;
+    try {
+        if (deriveSenderAddress(keyType, publicKeyHex) !== stripHexPrefix(senderAddress).toLowerCase()) {
+            return { valid: false, reason: 'KEY_MISMATCH' };
+        }
+        publicKey = normalizePublicKey(keyType, publicKeyHex);
+    } catch {
+        return { valid: false, reason: 'KEY_MISMATCH' };
+    }
+
+    try {
+        const digest = Buffer.from(messageDigest, 'hex');
+        const signature = Buffer.from(stripHexPrefix(signatureHex), 'hex');
+
+        // Wallets may emit high-S signatures; either form of a valid signature is accepted
+        const valid = keyType === 'ed25519'
+            ? verify(null, digest, ed25519KeyObject(publicKey), signature)
+            : secp256k1.verify(signature, digest, publicKey, { lowS: false });
+
+        return valid ? { valid: true } : { valid: false, reason: 'INVALID_SIGNATURE' };
+    } catch {
+        return { valid: false, reason: 'INVALID_SIGNATURE' };
+    }
+}
+
+/**
+ * Verify a proof against the key it carries and return that key's address, or null
+ */
+export function verifyProofSigner(proof: CardAdminProof, challengeDigest: string): string | null {
+    if (!proof || typeof proof.publicKey !== 'string' || typeof proof.signature !== 'string' || !isSupportedKeyType(proof.keyType)) {
+        return null;
+    }
+
+    let signerAddress: string;
+    try {
+        signerAddress = deriveSenderAddress(proof.keyType, proof.publicKey);
+    } catch {
+        return null;
+    }
+
+    const check = verifySenderSignature(proof.keyType, proof.publicKey, signerAddress, challengeDigest, proof.signature);
+    return check.valid ? signerAddress : null;
+}
+
+/**
+ * Check that a proof was produced by the key behind the card's admin address
+ */
+export function verifyCardAdminProof(proof: CardAdminProof, challengeDigest: string, cardAdmin: string): boolean {
+    const signerAddress = verifyProofSigner(proof, challengeDigest);
+    return signerAddress !== null && stripHexPrefix(String(cardAdmin)).toLowerCase() === signerAddress;
+}
+
+function ed25519KeyObject(raw: Buffer): KeyObject {
+    return createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, raw]),
+        format: 'der',
+        type: 'spki'
+    });
+}
+
+function stripHexPrefix(value: string): string {
+    return value.startsWith('0x') ? value.slice(2) : value;
+}
@@ -0,0 +1,55 @@
+import { createProvider } from '@midnight-ntwrk/midnight-js-sdk';
+
+import { loadRelayConfig, RelayConfigError } from './RelayConfig';
+import { RelayServer } from './RelayServer';
+import { createRelayLogger, SelectConnectRelay } from './RelayService';
+
+/**
+ * SelectConnect relay process entry point
+ *
+ * Starts the relay and its HTTP API from the config file and environment.
+ * SIGHUP reloads the configuration; storage and server settings need a restart.
+ */
+
+const logger = createRelayLogger();
+
+async function main(): Promise<void> {
+    const relaySecret = process.env.RELAY_SECRET_KEY;
+    if (!relaySecret) {
+        throw new Error('RELAY_SECRET_KEY is required');
+    }
+
+    const config = loadRelayConfig();
+    const provider = await createProvider(process.env.MIDNIGHT_RPC_URL || 'ws://localhost:9944');
+    // The provider has no AbuseEscrow event subscription, so the relay polls bond_meta for bond events
+    // (bonds.ledgerPollSeconds); deployments with a chain indexer can pass its events as options.bondEvents
+    const relay = new SelectConnectRelay(
+        provider,
+        process.env.ABUSE_ESCROW_ADDRESS || process.env.NEXT_PUBLIC_ABUSE_ESCROW_ADDRESS || '',
+        process.env.SELECTCONNECT_PROTOCOL_ADDRESS || process.env.NEXT_PUBLIC_SELECTCONNECT_ADDRESS || '',
+        relaySecret,
+        { config, logger }
+    );
+
+    const server = new RelayServer(relay, config.server.corsOrigin, config.server.operatorToken);
+    await server.start(config.server.port);
+    logger.info('SelectConnect relay API listening', { port: config.server.port });
+
+    process.on('SIGHUP', () => {
+        try {
+            relay.reloadConfig(loadRelayConfig());
+        } catch (error) {
+            // Keep running with the previous configuration
+            logger.error('Relay configuration not reloaded', {
+                error: error instanceof RelayConfigError ? error.message : error
+            });
+        }
+    });
+}
+
+main().catch(error => {
+    logger.error('Relay failed to start', { error: error instanceof RelayConfigError ? error.message : error });
+    // Let the file transports flush before exiting
+    logger.on('finish', () => process.exit(1));
+    logger.end();
+});
@@ -0,0 +1,58 @@
+import Bull from 'bull';
+import { RedisOptions } from 'ioredis';
+
+import { JobCounts, JobHandler, JobOptions, JobQueue } from './JobQueue';
+
+/**
+ * JobQueue backed by Bull (Redis)
+ */
+export class BullJobQueue implements JobQueue {
+    private queue: Bull.Queue;
+
+    constructor(name: string, redisConfig: RedisOptions) {
+        this.queue = new Bull(name, { redis: redisConfig });
+    }
+
+    async add<T>(name: string, data: T, options: JobOptions = {}): Promise<string> {
+        const job = await this.queue.add(name, data, options);
+        return String(job.id);
+    }
+
+    process<T>(name: string, handler: JobHandler<T>): void {
+        this.queue.process(name, async (job: Bull.Job<T>) => {
+            await handler({
+                id: String(job.id),
+                name: job.name,
+                data: job.data,
+                attemptsMade: job.attemptsMade
+            });
+        });
+    }
+
+    async remove(jobId: string): Promise<boolean> {
+        const job = await this.queue.getJob(jobId);
+        if (!job) {
+            return false;
+        }
+        await job.remove();
+        return true;
+    }
+
+    async getCounts(): Promise<JobCounts> {
+        const counts = await this.queue.getJobCounts();
+        return {
+            waiting: counts.waiting,
+            active: counts.active,
+            delayed: counts.delayed,
+            failed: counts.failed
+        };
+    }
+
+    async isReady(): Promise<void> {
+        await this.queue.isReady();
+    }
+
+    async close(): Promise<void> {
+        await this.queue.close();
+    }
+}
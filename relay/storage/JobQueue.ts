@@ -0,0 +1,46 @@
+/**
+ * Relay Job Queue Interface
+ *
+ * Delayed, retried background work (bond slashing after the challenge
+ * window, evidence re-wrapping after key rotation) goes through a JobQueue
+ * so it can run on Bull/Redis in production or in-process for tests.
+ */
+
+export interface JobOptions {
+    /** Stable ID so a job can be looked up and removed later */
+    jobId?: string;
+    /** Milliseconds to wait before the first attempt */
+    delay?: number;
+    attempts?: number;
+    backoff?: {
+        type: 'exponential' | 'fixed';
+        delay: number;
+    };
+}
+
+export interface QueuedJob<T = any> {
+    id: string;
+    name: string;
+    data: T;
+    attemptsMade: number;
+}
+
+export interface JobCounts {
+    waiting: number;
+    active: number;
+    delayed: number;
+    failed: number;
+}
+
+export type JobHandler<T = any> = (job: QueuedJob<T>) => Promise<void>;
+
+export interface JobQueue {
+    add<T>(name: string, data: T, options?: JobOptions): Promise<string>;
+    process<T>(name: string, handler: JobHandler<T>): void;
+    /** Remove a waiting or delayed job; returns false if it does not exist */
+    remove(jobId: string): Promise<boolean>;
+    /** Current queue depth by job state, for monitoring */
+    getCounts(): Promise<JobCounts>;
+    isReady(): Promise<void>;
+    close(): Promise<void>;
+}
@@ -0,0 +1,99 @@
+import { JobCounts, JobHandler, JobOptions, JobQueue, QueuedJob } from './JobQueue';
+
+interface ScheduledJob {
+    job: QueuedJob;
+    options: JobOptions;
+    timer: NodeJS.Timeout;
+    runAt: number;
+}
+
+/**
+ * In-process JobQueue using timers; jobs do not survive a restart
+ */
+export class MemoryJobQueue implements JobQueue {
+    private handlers: Map<string, JobHandler> = new Map();
+    private scheduled: Map<string, ScheduledJob> = new Map();
+    private active = 0;
+    private failed = 0;
+    private nextId = 1;
+
+    async add<T>(name: string, data: T, options: JobOptions = {}): Promise<string> {
+        const id = options.jobId || String(this.nextId++);
+        if (this.scheduled.has(id)) {
+            return id;
+        }
+
+        this.schedule({ id, name, data, attemptsMade: 0 }, options, options.delay || 0);
+        return id;
+    }
+
+    process<T>(name: string, handler: JobHandler<T>): void {
+        this.handlers.set(name, handler as JobHandler);
+    }
+
+    async remove(jobId: string): Promise<boolean> {
+        const scheduled = this.scheduled.get(jobId);
+        if (!scheduled) {
+            return false;
+        }
+        clearTimeout(scheduled.timer);
+        this.scheduled.delete(jobId);
+        return true;
+    }
+
+    async getCounts(): Promise<JobCounts> {
+        const now = Date.now();
+        const pending = Array.from(this.scheduled.values());
+        const delayed = pending.filter(scheduled => scheduled.runAt > now).length;
+        return {
+            // Running jobs stay scheduled until they finish
+            waiting: pending.length - delayed - this.active,
+            active: this.active,
+            delayed,
+            failed: this.failed
+        };
+    }
+
+    async isReady(): Promise<void> {
+        return;
+    }
+
+    async close(): Promise<void> {
+        for (const scheduled of this.scheduled.values()) {
+            clearTimeout(scheduled.timer);
+        }
+        this.scheduled.clear();
+    }
+
+    private schedule(job: QueuedJob, options: JobOptions, delay: number): void {
+        const timer = setTimeout(() => this.run(job, options), delay);
+        timer.unref();
+        this.scheduled.set(job.id, { job, options, timer, runAt: Date.now() + delay });
+    }
+
+    private async run(job: QueuedJob, options: JobOptions): Promise<void> {
+        const handler = this.handlers.get(job.name);
+        this.active++;
+
+        try {
+            if (!handler) {
+                throw new Error(`No handler registered for job ${job.name}`);
+            }
+            await handler(job);
+            this.scheduled.delete(job.id);
+        } catch {
+            const attemptsMade = job.attemptsMade + 1;
+            if (attemptsMade >= (options.attempts || 1)) {
+                this.scheduled.delete(job.id);
+                this.failed++;
+                return;
+            }
+
+            const base = options.backoff?.delay || 0;
+            const delay = options.backoff?.type === 'exponential' ? base * Math.pow(2, attemptsMade - 1) : base;
+            this.schedule({ ...job, attemptsMade }, options, delay);
+        } finally {
+            this.active--;
+        }
+    }
+}
@@ -0,0 +1,228 @@
+import { RelayStore, StreamEntry } from './RelayStore';
+
+/**
+ * In-process RelayStore for unit tests and single-node deployments
+ *
+ * Keys expire lazily on access and through a periodic sweep. Nothing is
+ * persisted, so evidence and attestations are lost on restart.
+ */
+
+type StoredValue = string | Set<string> | Map<string, string> | StreamEntry[];
+
+interface Entry {
+    value: StoredValue;
+    expiresAt?: number;
+}
+
+export class MemoryRelayStore implements RelayStore {
+    private entries: Map<string, Entry> = new Map();
+    private sweeper: NodeJS.Timeout;
+    private lastStreamId = { ms: 0, seq: 0 };
+
+    constructor(sweepIntervalMs: number = 60000) {
+        this.sweeper = setInterval(() => this.sweep(), sweepIntervalMs);
+        this.sweeper.unref();
+    }
+
+    async get(key: string): Promise<string | null> {
+        const entry = this.read(key);
+        return typeof entry?.value === 'string' ? entry.value : null;
+    }
+
+    async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+        this.entries.set(key, { value, expiresAt: this.expiryFor(ttlSeconds) });
+    }
+
+    async setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+        if (this.read(key)) {
+            return false;
+        }
+        await this.set(key, value, ttlSeconds);
+        return true;
+    }
+
+    async replace(key: string, value: string): Promise<void> {
+        const entry = this.read(key);
+        this.entries.set(key, { value, expiresAt: entry?.expiresAt });
+    }
+
+    async delete(...keys: string[]): Promise<number> {
+        let removed = 0;
+        for (const key of keys) {
+            if (this.read(key) && this.entries.delete(key)) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    async ttl(key: string): Promise<number> {
+        const entry = this.read(key);
+        if (!entry) {
+            return -2;
+        }
+        return entry.expiresAt === undefined ? -1 : Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    }
+
+    async expire(key: string, ttlSeconds: number): Promise<void> {
+        const entry = this.read(key);
+        if (entry) {
+            entry.expiresAt = this.expiryFor(ttlSeconds);
+        }
+    }
+
+    async increment(key: string, ttlSeconds: number, by: number = 1): Promise<number> {
+        // Read and write without yielding so concurrent callers never lose a count
+        const next = this.counter(key) + by;
+        this.entries.set(key, { value: String(next), expiresAt: this.expiryFor(ttlSeconds) });
+        return next;
+    }
+
+    async decrement(key: string, by: number = 1): Promise<number> {
+        const next = this.counter(key) - by;
+        this.entries.set(key, { value: String(next), expiresAt: this.read(key)?.expiresAt });
+        return next;
+    }
+
+    async *scan(pattern: string, batchSize: number = 100): AsyncIterable<string[]> {
+        const matcher = new RegExp('^' + pattern.split('*').map(escapeRegExp).join('.*') + '$');
+        const keys = Array.from(this.entries.keys()).filter(key => matcher.test(key) && this.read(key));
+
+        for (let i = 0; i < keys.length; i += batchSize) {
+            yield keys.slice(i, i + batchSize);
+        }
+    }
+
+    async addToSet(key: string, ...members: string[]): Promise<void> {
+        const set = this.container(key, () => new Set<string>()) as Set<string>;
+        members.forEach(member => set.add(member));
+    }
+
+    async removeFromSet(key: string, ...members: string[]): Promise<void> {
+        const entry = this.read(key);
+        if (entry?.value instanceof Set) {
+            members.forEach(member => (entry.value as Set<string>).delete(member));
+        }
+    }
+
+    async getSetMembers(key: string): Promise<string[]> {
+        const entry = this.read(key);
+        return entry?.value instanceof Set ? Array.from(entry.value) : [];
+    }
+
+    async hashSet(key: string, fields: Record<string, string>): Promise<void> {
+        const hash = this.container(key, () => new Map<string, string>()) as Map<string, string>;
+        Object.entries(fields).forEach(([field, value]) => hash.set(field, value));
+    }
+
+    async hashGet(key: string, field: string): Promise<string | null> {
+        const entry = this.read(key);
+        return entry?.value instanceof Map ? entry.value.get(field) ?? null : null;
+    }
+
+    async hashGetAll(key: string): Promise<Record<string, string>> {
+        const entry = this.read(key);
+        return entry?.value instanceof Map ? Object.fromEntries(entry.value) : {};
+    }
+
+    async hashDelete(key: string, ...fields: string[]): Promise<void> {
+        const entry = this.read(key);
+        if (entry?.value instanceof Map) {
+            fields.forEach(field => (entry.value as Map<string, string>).delete(field));
+        }
+    }
+
+    async appendToStream(key: string, fields: Record<string, string>, maxLength: number): Promise<string> {
+        const stream = this.container(key, () => []) as StreamEntry[];
+        const id = this.nextStreamId();
+        stream.push({ id, fields: { ...fields } });
+        if (stream.length > maxLength) {
+            stream.splice(0, stream.length - maxLength);
+        }
+        return id;
+    }
+
+    async readStream(key: string, afterId: string | undefined, count: number): Promise<StreamEntry[]> {
+        const entry = this.read(key);
+        if (!Array.isArray(entry?.value)) {
+            return [];
+        }
+        return entry!.value
+            .filter(item => afterId === undefined || compareStreamIds(item.id, afterId) > 0)
+            .slice(0, count)
+            .map(item => ({ id: item.id, fields: { ...item.fields } }));
+    }
+
+    async deleteFromStream(key: string, id: string): Promise<void> {
+        const entry = this.read(key);
+        if (Array.isArray(entry?.value)) {
+            const index = entry!.value.findIndex(item => item.id === id);
+            if (index >= 0) {
+                entry!.value.splice(index, 1);
+            }
+        }
+    }
+
+    async ping(): Promise<void> {
+        return;
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.sweeper);
+        this.entries.clear();
+    }
+
+    private read(key: string): Entry | undefined {
+        const entry = this.entries.get(key);
+        if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    private container(key: string, create: () => StoredValue): StoredValue {
+        const entry = this.read(key);
+        if (entry && typeof entry.value !== 'string') {
+            return entry.value;
+        }
+        const value = create();
+        this.entries.set(key, { value });
+        return value;
+    }
+
+    private counter(key: string): number {
+        const entry = this.read(key);
+        return typeof entry?.value === 'string' ? parseInt(entry.value) : 0;
+    }
+
+    private expiryFor(ttlSeconds?: number): number | undefined {
+        return ttlSeconds === undefined ? undefined : Date.now() + ttlSeconds * 1000;
+    }
+
+    private nextStreamId(): string {
+        const now = Date.now();
+        if (now > this.lastStreamId.ms) {
+            this.lastStreamId = { ms: now, seq: 0 };
+        } else {
+            this.lastStreamId.seq++;
+        }
+        return `${this.lastStreamId.ms}-${this.lastStreamId.seq}`;
+    }
+
+    private sweep(): void {
+        for (const key of Array.from(this.entries.keys())) {
+            this.read(key);
+        }
+    }
+}
+
+function compareStreamIds(a: string, b: string): number {
+    const [aMs, aSeq] = a.split('-').map(Number);
+    const [bMs, bSeq] = b.split('-').map(Number);
+    return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
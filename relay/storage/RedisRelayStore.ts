@@ -0,0 +1,128 @@
+import Redis, { RedisOptions } from 'ioredis';
+
+import { RelayStore, StreamEntry } from './RelayStore';
+
+/**
+ * RelayStore backed by Redis (ioredis)
+ */
+export class RedisRelayStore implements RelayStore {
+    private redis: Redis;
+
+    constructor(redisConfig: RedisOptions) {
+        this.redis = new Redis(redisConfig);
+    }
+
+    async get(key: string): Promise<string | null> {
+        return await this.redis.get(key);
+    }
+
+    async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+        if (ttlSeconds !== undefined) {
+            await this.redis.setex(key, ttlSeconds, value);
+        } else {
+            await this.redis.set(key, value);
+        }
+    }
+
+    async setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean> {
+        const result = ttlSeconds !== undefined
+            ? await this.redis.set(key, value, 'EX', ttlSeconds, 'NX')
+            : await this.redis.set(key, value, 'NX');
+        return result === 'OK';
+    }
+
+    async replace(key: string, value: string): Promise<void> {
+        await this.redis.set(key, value, 'KEEPTTL');
+    }
+
+    async delete(...keys: string[]): Promise<number> {
+        return keys.length > 0 ? await this.redis.del(...keys) : 0;
+    }
+
+    async ttl(key: string): Promise<number> {
+        return await this.redis.ttl(key);
+    }
+
+    async expire(key: string, ttlSeconds: number): Promise<void> {
+        await this.redis.expire(key, ttlSeconds);
+    }
+
+    async increment(key: string, ttlSeconds: number, by: number = 1): Promise<number> {
+        const results = await this.redis.multi()
+            .incrby(key, by)
+            .expire(key, ttlSeconds)
+            .exec();
+        return Number(results![0][1]);
+    }
+
+    async decrement(key: string, by: number = 1): Promise<number> {
+        return await this.redis.decrby(key, by);
+    }
+
+    async *scan(pattern: string, batchSize: number = 100): AsyncIterable<string[]> {
+        let cursor = '0';
+        do {
+            const [nextCursor, keys] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', batchSize);
+            cursor = nextCursor;
+            if (keys.length > 0) {
+                yield keys;
+            }
+        } while (cursor !== '0');
+    }
+
+    async addToSet(key: string, ...members: string[]): Promise<void> {
+        await this.redis.sadd(key, ...members);
+    }
+
+    async removeFromSet(key: string, ...members: string[]): Promise<void> {
+        await this.redis.srem(key, ...members);
+    }
+
+    async getSetMembers(key: string): Promise<string[]> {
+        return await this.redis.smembers(key);
+    }
+
+    async hashSet(key: string, fields: Record<string, string>): Promise<void> {
+        await this.redis.hset(key, fields);
+    }
+
+    async hashGet(key: string, field: string): Promise<string | null> {
+        return await this.redis.hget(key, field);
+    }
+
+    async hashGetAll(key: string): Promise<Record<string, string>> {
+        return await this.redis.hgetall(key);
+    }
+
+    async hashDelete(key: string, ...fields: string[]): Promise<void> {
+        await this.redis.hdel(key, ...fields);
+    }
+
+    async appendToStream(key: string, fields: Record<string, string>, maxLength: number): Promise<string> {
+        const args = Object.entries(fields).flat();
+        return (await this.redis.xadd(key, 'MAXLEN', '~', maxLength, '*', ...args)) as string;
+    }
+
+    async readStream(key: string, afterId: string | undefined, count: number): Promise<StreamEntry[]> {
+        const entries = await this.redis.xrange(key, afterId ? `(${afterId}` : '-', '+', 'COUNT', count);
+        return entries.map(([id, values]) => {
+            const fields: Record<string, string> = {};
+            for (let i = 0; i < values.length; i += 2) {
+                fields[values[i]] = values[i + 1];
+            }
+            return { id, fields };
+        });
+    }
+
+    async deleteFromStream(key: string, id: string): Promise<void> {
+        await this.redis.xdel(key, id);
+    }
+
+    async ping(): Promise<void> {
+        await this.redis.ping();
+    }
+
+    async close(): Promise<void> {
+        await this.redis.quit();
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * Relay Storage Interface
+ *
+ * Everything the relay keeps between requests goes through a RelayStore:
+ * the bond verification cache, rate-limit counters, message dedupe keys,
+ * encrypted evidence, attestation records and channel state (subscriptions,
+ * offline in-app streams). The operations are deliberately small so that a
+ * Redis deployment and a single-process in-memory store behave the same.
+ *
+ * TTLs are in seconds. `ttl()` follows Redis conventions: -2 when the key is
+ * missing and -1 when it has no expiry.
+ */
+
+export interface StreamEntry {
+    id: string;
+    fields: Record<string, string>;
+}
+
+export interface RelayStore {
+    // Plain values: caches, evidence, attestations, dedupe keys
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+    /** Set only when the key does not exist; used for dedupe and single-use claims */
+    setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean>;
+    /** Overwrite an existing value without touching its remaining TTL */
+    replace(key: string, value: string): Promise<void>;
+    delete(...keys: string[]): Promise<number>;
+    ttl(key: string): Promise<number>;
+    expire(key: string, ttlSeconds: number): Promise<void>;
+
+    // Counters: rate limiting
+    /** Increment a counter (by 1 unless given) and (re)set its TTL, returning the new value */
+    increment(key: string, ttlSeconds: number, by?: number): Promise<number>;
+    /** Take back an increment without touching the counter's TTL, returning the new value */
+    decrement(key: string, by?: number): Promise<number>;
+
+    // Key iteration for maintenance jobs
+    /** Iterate keys matching a glob pattern (only `*` is supported) in batches */
+    scan(pattern: string, batchSize?: number): AsyncIterable<string[]>;
+
+    // Sets
+    addToSet(key: string, ...members: string[]): Promise<void>;
+    removeFromSet(key: string, ...members: string[]): Promise<void>;
+    getSetMembers(key: string): Promise<string[]>;
+
+    // Hashes
+    hashSet(key: string, fields: Record<string, string>): Promise<void>;
+    hashGet(key: string, field: string): Promise<string | null>;
+    hashGetAll(key: string): Promise<Record<string, string>>;
+    hashDelete(key: string, ...fields: string[]): Promise<void>;
+
+    // Append-only streams
+    appendToStream(key: string, fields: Record<string, string>, maxLength: number): Promise<string>;
+    /** Read entries with IDs strictly greater than `afterId` (all entries when omitted) */
+    readStream(key: string, afterId: string | undefined, count: number): Promise<StreamEntry[]>;
+    deleteFromStream(key: string, id: string): Promise<void>;
+
+    ping(): Promise<void>;
+    close(): Promise<void>;
+}
@@ -0,0 +1,37 @@
+import { RedisOptions } from 'ioredis';
+
+import { BullJobQueue } from './BullJobQueue';
+import { JobQueue } from './JobQueue';
+import { MemoryJobQueue } from './MemoryJobQueue';
+import { MemoryRelayStore } from './MemoryRelayStore';
+import { RedisRelayStore } from './RedisRelayStore';
+import { RelayStore } from './RelayStore';
+
+export * from './RelayStore';
+export * from './JobQueue';
+export { RedisRelayStore } from './RedisRelayStore';
+export { MemoryRelayStore } from './MemoryRelayStore';
+export { BullJobQueue } from './BullJobQueue';
+export { MemoryJobQueue } from './MemoryJobQueue';
+
+/**
+ * Storage and job queues used by a SelectConnectRelay instance
+ */
+export interface RelayBackend {
+    store: RelayStore;
+    createQueue(name: string): JobQueue;
+}
+
+export function createRedisBackend(redisConfig: RedisOptions): RelayBackend {
+    return {
+        store: new RedisRelayStore(redisConfig),
+        createQueue: (name: string) => new BullJobQueue(name, redisConfig)
+    };
+}
+
+export function createMemoryBackend(): RelayBackend {
+    return {
+        store: new MemoryRelayStore(),
+        createQueue: () => new MemoryJobQueue()
+    };
+}
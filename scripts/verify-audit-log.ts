@@ -0,0 +1,94 @@
+/**
+ * Verify a relay's audit log: every entry's hash and chain link, and every
+ * signed checkpoint's Merkle root over the entries it covers.
+ *
+ * Usage: ts-node scripts/verify-audit-log.ts <relay-url> [--token operator-token] [--keys kid:hex,...] [--checkpoints saved.json]
+ *
+ * Entries are served to the relay operator only; --token defaults to RELAY_OPERATOR_TOKEN.
+ * --keys pins the relay's receipt public keys instead of trusting /v1/receipts/keys.
+ * --checkpoints checks against checkpoints saved earlier (a JSON array) rather than
+ * the relay's current ones, which is what detects a rewritten chain. Checkpoints
+ * over entries that have already expired are skipped.
+ */
+
+import { readFileSync } from 'fs';
+
+import { AuditCheckpoint, AuditEntry, verifyAuditLog } from '../relay/AuditLog';
+
+const PAGE_SIZE = 1000;
+
+async function fetchJson(url: string, token?: string): Promise<any> {
+    const response = await fetch(url, token ? { headers: { Authorization: `Bearer ${token}` } } : undefined);
+    if (!response.ok) {
+        throw new Error(`GET ${url} failed with ${response.status}`);
+    }
+    return await response.json();
+}
+
+async function fetchAll<T extends { seq?: number; toSeq?: number }>(url: string, field: string, token?: string): Promise<T[]> {
+    const items: T[] = [];
+    let from = 1;
+    for (;;) {
+        const page: T[] = (await fetchJson(`${url}?from=${from}&limit=${PAGE_SIZE}`, token))[field];
+        items.push(...page);
+        if (page.length < PAGE_SIZE) {
+            return items;
+        }
+        const last = page[page.length - 1];
+        from = (last.toSeq ?? last.seq!) + 1;
+    }
+}
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function parseKeys(value: string): Record<string, string> {
+    return Object.fromEntries(value.split(',').map(pair => {
+        const [keyId, publicKeyHex] = pair.trim().split(':');
+        if (!keyId || !publicKeyHex) {
+            throw new Error(`Malformed key entry: ${pair}`);
+        }
+        return [keyId, publicKeyHex];
+    }));
+}
+
+async function main(): Promise<void> {
+    const relayUrl = process.argv[2]?.replace(/\/$/, '');
+    if (!relayUrl || relayUrl.startsWith('--')) {
+        throw new Error('Usage: verify-audit-log <relay-url> [--token operator-token] [--keys kid:hex,...] [--checkpoints saved.json]');
+    }
+    const token = option('--token') || process.env.RELAY_OPERATOR_TOKEN;
+    if (!token) {
+        throw new Error('The operator token is required to read audit entries; pass --token or set RELAY_OPERATOR_TOKEN');
+    }
+
+    const pinnedKeys = option('--keys');
+    const keys = pinnedKeys ? parseKeys(pinnedKeys) : (await fetchJson(`${relayUrl}/v1/receipts/keys`)).keys;
+    if (!pinnedKeys) {
+        console.warn('Using receipt keys served by the relay; pass --keys to pin them');
+    }
+
+    const savedCheckpoints = option('--checkpoints');
+    const published: AuditCheckpoint[] = savedCheckpoints
+        ? JSON.parse(readFileSync(savedCheckpoints, 'utf8'))
+        : await fetchAll<AuditCheckpoint>(`${relayUrl}/v1/audit/checkpoints`, 'checkpoints');
+    const entries = await fetchAll<AuditEntry>(`${relayUrl}/v1/audit/entries`, 'entries', token);
+    const oldestSeq = entries.length > 0 ? entries[0].seq : 1;
+    const checkpoints = published.filter(checkpoint => checkpoint.fromSeq >= oldestSeq);
+
+    const result = verifyAuditLog(entries, checkpoints, keys);
+    console.log(`${entries.length} entries, ${checkpoints.length} checkpoints, checkpointed through #${result.checkpointedThrough}`);
+
+    if (!result.valid) {
+        result.problems.forEach(problem => console.error(`  #${problem.seq}: ${problem.reason}`));
+        process.exit(1);
+    }
+    console.log('Audit log intact');
+}
+
+main().catch(error => {
+    console.error('Audit log verification failed:', (error as Error).message);
+    process.exit(2);
+});
@@ -0,0 +1,138 @@
+/**
+ * Relay Test: Attachment Store
+ * Ensures blobs are stored once, sealed at rest, checked against card policy and readable only after delivery,
+ * and that uploads are signed by the sender and count against byte quotas
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import winston from 'winston';
+import { expect } from 'chai';
+import { AttachmentStore } from '../../relay/AttachmentStore';
+import { EvidenceKeyring } from '../../relay/EvidenceKeyring';
+import { defaultRelayConfig } from '../../relay/RelayConfig';
+import { AttachmentUploadProof } from '../../relay/RelayService';
+import { MemoryRelayStore } from '../../relay/storage';
+import { createSigner, createTestRelay, TEST_CARD, TEST_SENDER, TestRelay, TestSigner } from './relay-fixture';
+
+describe('AttachmentStore', () => {
+    const cardId = 'card-devcon-sarah';
+    const pdf = Buffer.from('%PDF-1.7\n% pitch deck for devcon\n');
+    let directory: string;
+    let store: MemoryRelayStore;
+    let attachments: AttachmentStore;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'attachments-'));
+        store = new MemoryRelayStore();
+        attachments = new AttachmentStore(
+            store,
+            winston.createLogger({ silent: true }),
+            new EvidenceKeyring({ test: randomBytes(32) }, 'test'),
+            { directory, maxBytes: 1024, maxPerMessage: 2 }
+        );
+    });
+
+    afterEach(async () => {
+        await store.close();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should store identical uploads once and keep them sealed on disk', async () => {
+        const first = await attachments.put(cardId, 'application/pdf', pdf);
+        const second = await attachments.put('card-other', 'application/pdf', pdf);
+        expect(second.attachment).to.deep.equal(first.attachment);
+
+        const { hash } = first.attachment!;
+        const onDisk = await readFile(join(directory, hash.substring(0, 2), hash), 'utf8');
+        expect(onDisk.includes('pitch deck')).to.equal(false);
+
+        // Blobs are only readable by cards a message carrying them was delivered to
+        expect(await attachments.read(cardId, hash)).to.equal(null);
+        await attachments.grant(cardId, [{ hash, mimeType: 'application/pdf', size: pdf.length }]);
+        expect((await attachments.read(cardId, hash))!.data.equals(pdf)).to.equal(true);
+        expect(await attachments.read('card-other', hash)).to.equal(null);
+    });
+
+    it('should enforce the card\'s types and sizes and reject disguised content', async () => {
+        await attachments.setPolicy(cardId, { allowedMimeTypes: ['image/png'], maxBytes: 16 });
+
+        expect((await attachments.put(cardId, 'application/pdf', pdf)).reason).to.equal('ATTACHMENT_TYPE_NOT_ALLOWED');
+        expect((await attachments.put(cardId, 'image/png', Buffer.concat([Buffer.from('89504e470d0a1a0a', 'hex'), randomBytes(32)]))).reason)
+            .to.equal('ATTACHMENT_TOO_LARGE');
+        expect((await attachments.put(cardId, 'image/png', Buffer.from('BEGIN:VCARD'))).reason).to.equal('ATTACHMENT_CONTENT_MISMATCH');
+
+        await attachments.setPolicy(cardId, { enabled: false });
+        expect((await attachments.put(cardId, 'application/pdf', pdf)).reason).to.equal('ATTACHMENTS_DISABLED');
+    });
+
+    it('should check message references against stored blobs and prune lapsed files', async () => {
+        const { hash, size } = (await attachments.put(cardId, 'application/pdf', pdf)).attachment!;
+        const ref = { hash, mimeType: 'application/pdf', size };
+
+        expect(await attachments.check(cardId, [ref])).to.equal(null);
+        expect(await attachments.check(cardId, [ref, ref, ref])).to.equal('TOO_MANY_ATTACHMENTS');
+        expect(await attachments.check(cardId, [{ ...ref, size: size + 1 }])).to.equal('ATTACHMENT_MISMATCH');
+        expect(await attachments.check(cardId, [{ ...ref, hash: 'ab'.repeat(32) }])).to.equal('ATTACHMENT_NOT_FOUND');
+
+        expect(await attachments.prune()).to.equal(0);
+        await store.delete(`attachment:${hash}`);
+        expect(await attachments.prune()).to.equal(1);
+    });
+});
+
+describe('Attachment uploads', () => {
+    const pdf = Buffer.from('%PDF-1.7\n% pitch deck for devcon\n');
+    let directory: string;
+    let t: TestRelay;
+    let sender: TestSigner;
+
+    const blobHash = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+    const uploadProof = (data: Buffer, fields: Partial<AttachmentUploadProof> = {}): AttachmentUploadProof => {
+        const timestamp = fields.timestamp ?? Date.now();
+        const nonce = fields.nonce ?? randomBytes(16).toString('hex');
+        return {
+            ...sender.prove(`selectconnect:attachment-upload:${TEST_CARD}:${TEST_SENDER}:${blobHash(data)}:${timestamp}:${nonce}`),
+            nonce,
+            timestamp
+        };
+    };
+    const upload = (data: Buffer, proof = uploadProof(data)) =>
+        t.relay.uploadAttachment(TEST_CARD, TEST_SENDER, 'application/pdf', data, proof);
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'attachments-'));
+        sender = createSigner();
+        const config = defaultRelayConfig();
+        config.storage.attachmentDirectory = directory;
+        config.rateLimits.uploadQuota = { perSender: 100, perCard: 1000 };
+        t = await createTestRelay({}, { config });
+    });
+
+    afterEach(async () => {
+        await t.close();
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should only store uploads signed by the sender and refuse a replayed proof', async () => {
+        const proof = uploadProof(pdf);
+        expect((await upload(Buffer.concat([pdf, Buffer.from('%%EOF')]), proof)).reason).to.equal('INVALID_SIGNATURE');
+        expect((await upload(pdf, uploadProof(pdf, { timestamp: Date.now() - 3600_000 }))).reason).to.equal('STALE_REQUEST');
+
+        expect((await upload(pdf, proof)).attachment!.hash).to.equal(blobHash(pdf));
+        expect((await upload(pdf, proof)).reason).to.equal('REPLAYED');
+    });
+
+    it('should count uploaded bytes against the sender\'s quota', async () => {
+        // The fixture PDF is 33 bytes, so the 100-byte quota takes three uploads
+        for (let i = 0; i < 3; i++) {
+            expect((await upload(pdf)).success).to.equal(true);
+        }
+        const limited = await upload(pdf);
+        expect(limited.reason).to.equal('UPLOAD_QUOTA_EXCEEDED');
+        expect(limited.retryAfter!).to.be.greaterThan(0);
+    });
+});
+
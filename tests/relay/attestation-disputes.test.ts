@@ -0,0 +1,93 @@
+/**
+ * Relay Test: Attestation Disputes
+ * Ensures a dispute pauses the slash, only a proven card admin or guardian can decide it and the record outlives the slash
+ */
+
+import { createHmac } from 'crypto';
+import { expect } from 'chai';
+import { cardReadProof, createSigner, createTestRelay, sha256, TEST_CARD, TestRelay } from './relay-fixture';
+
+describe('Attestation disputes', () => {
+    const senderProof = { senderDid: 'did:midnight:alex', salt: 'f00dfeed' };
+    const senderCommit = createHmac('sha256', senderProof.salt).update(TEST_CARD).update(senderProof.senderDid).digest('hex');
+    const evidenceHash = sha256('evidence-1');
+    let t: TestRelay;
+    let attestationId: string;
+
+    const slashCalls = () => t.calls.filter(call => call.method === 'slashBond');
+    const record = async () => JSON.parse((await t.store.get(`attestation:${attestationId}`))!);
+    const resolveProof = (decision: string, graceHours: number, signer = t.admin) =>
+        signer.prove(`selectconnect:resolve:${attestationId}:${decision}:${graceHours}`);
+    const pendingDisputes = async (signer = t.admin) => {
+        const { adminProof, timestamp } = cardReadProof(signer, TEST_CARD, 'disputes');
+        return await t.relay.getPendingDisputes(TEST_CARD, adminProof, timestamp);
+    };
+
+    beforeEach(async () => {
+        t = await createTestRelay({
+            queryLedger: () => [['bond-1', [sha256(TEST_CARD), sha256(senderCommit), 10n, Date.now() + 3600_000, false, false]]]
+        });
+        const attestorProof = t.admin.prove(`selectconnect:attest:${TEST_CARD}:${senderCommit}:${evidenceHash}`);
+        const attested = await t.relay.attestAbuse(TEST_CARD, senderCommit, evidenceHash, t.admin.address, 24, undefined, attestorProof);
+        expect(attested.success).to.equal(true);
+        attestationId = attested.attestationId!;
+
+        const disputed = await t.relay.disputeAttestation(attestationId, sha256('counter'), senderProof);
+        expect(disputed.disputeState).to.equal('DISPUTED');
+    });
+
+    afterEach(async () => {
+        await t.close();
+    });
+
+    it('should pause the slash while disputed and skip a job that was already running', async () => {
+        expect(t.queue('bond slashing').pending).to.deep.equal([]);
+        expect((await t.relay.disputeAttestation(attestationId, sha256('counter'), senderProof)).reason).to.equal('ALREADY_DISPUTED');
+        expect((await pendingDisputes()).attestationIds).to.deep.equal([attestationId]);
+        expect((await pendingDisputes(createSigner())).reason).to.equal('UNAUTHORIZED_CARD_ADMIN');
+
+        // A worker that picked the job up before the dispute landed must not slash
+        await t.queue('bond slashing').add('slashBond', { bondId: 'bond-1', evidenceHash, senderCommit, cardId: TEST_CARD, attestationId });
+        expect(await t.queue('bond slashing').runPending()).to.deep.equal([]);
+        expect(slashCalls()).to.deep.equal([]);
+
+        const [skipped] = (await t.relay.getAuditEntries(1, 100)).filter(entry => entry.type === 'SLASH');
+        expect(skipped.data.outcome).to.equal('SKIPPED');
+    });
+
+    it('should only accept a resolution signed by the card admin or a guardian', async () => {
+        const sender = createSigner();
+        expect((await t.relay.resolveDispute(attestationId, 'DISMISS', resolveProof('DISMISS', 0, sender))).reason)
+            .to.equal('UNAUTHORIZED_RESOLVER');
+        // The proof covers the decision and the grace period
+        expect((await t.relay.resolveDispute(attestationId, 'UPHOLD', resolveProof('DISMISS', 0))).reason).to.equal('UNAUTHORIZED_RESOLVER');
+        expect((await t.relay.resolveDispute(attestationId, 'UPHOLD', resolveProof('UPHOLD', 48), 0)).reason).to.equal('UNAUTHORIZED_RESOLVER');
+        expect((await record()).disputeState).to.equal('DISPUTED');
+
+        const dismissed = await t.relay.resolveDispute(attestationId, 'DISMISS', resolveProof('DISMISS', 0));
+        expect(dismissed.disputeState).to.equal('DISMISSED');
+        expect((await record()).dispute.resolvedBy).to.equal(t.admin.address);
+        expect(t.queue('bond slashing').pending).to.deep.equal([]);
+        expect((await t.relay.resolveDispute(attestationId, 'UPHOLD', resolveProof('UPHOLD', 0))).reason).to.equal('NOT_DISPUTED');
+    });
+
+    it('should reschedule the slash after the grace period when upheld', async () => {
+        const upheld = await t.relay.resolveDispute(attestationId, 'UPHOLD', resolveProof('UPHOLD', 2), 2);
+        expect(upheld.disputeState).to.equal('UPHELD');
+        expect(upheld.challengeEndTime).to.be.closeTo(Date.now() + 2 * 3600_000, 1000);
+
+        const [job] = t.queue('bond slashing').pending;
+        expect(job.options.delay).to.be.closeTo(2 * 3600_000, 1000);
+
+        expect(await t.queue('bond slashing').runPending()).to.deep.equal([]);
+        expect(slashCalls().map(call => call.args[0])).to.deep.equal(['bond-1']);
+        expect((await pendingDisputes()).attestationIds).to.deep.equal([]);
+    });
+
+    it('should keep an upheld record until a day past the extended challenge window', async () => {
+        const upheld = await t.relay.resolveDispute(attestationId, 'UPHOLD', resolveProof('UPHOLD', 720), 720);
+        expect(upheld.disputeState).to.equal('UPHELD');
+
+        expect(await t.store.ttl(`attestation:${attestationId}`)).to.be.closeTo(31 * 24 * 3600, 5);
+    });
+});
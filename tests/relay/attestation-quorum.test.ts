@@ -0,0 +1,64 @@
+/**
+ * Relay Test: Attestation Quorum
+ * Ensures a slash needs M distinct guardians within the window and withdrawn votes stay out
+ */
+
+import winston from 'winston';
+import { expect } from 'chai';
+import { AttestationQuorum } from '../../relay/AttestationQuorum';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('AttestationQuorum', () => {
+    const round = { cardId: 'card-shared', senderCommit: 'ab', evidenceHash: 'e1', bondId: 'bond-1' };
+    let store: MemoryRelayStore;
+    let quorum: AttestationQuorum;
+
+    beforeEach(async () => {
+        store = new MemoryRelayStore();
+        quorum = new AttestationQuorum(store, winston.createLogger({ silent: true }));
+        await quorum.setPolicy('card-shared', { threshold: 2, windowHours: 24 });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should count each guardian once and report the quorum exactly once', async () => {
+        expect((await quorum.vote(round, '0xGuardianA')).outcome).to.equal('PENDING');
+        // Same key under another spelling is still one guardian
+        expect((await quorum.vote(round, 'guardiana')).outcome).to.equal('PENDING');
+
+        const reached = await quorum.vote(round, 'guardianb');
+        expect(reached.outcome).to.equal('REACHED');
+        expect(reached.status.attestors).to.deep.equal(['guardiana', 'guardianb']);
+
+        expect((await quorum.vote(round, 'guardianc')).outcome).to.equal('ALREADY_REACHED');
+        expect(await quorum.withdraw('card-shared', 'e1', 'guardiana')).to.equal('QUORUM_REACHED');
+        expect((await quorum.getStatus('card-shared', 'e1'))!.state).to.equal('REACHED');
+    });
+
+    it('should drop withdrawn votes and keep them from being re-added', async () => {
+        await quorum.vote(round, 'guardiana');
+        expect(await quorum.withdraw('card-shared', 'e1', 'guardiana')).to.equal('WITHDRAWN');
+        expect(await quorum.withdraw('card-shared', 'e1', 'guardiana')).to.equal('NOT_ATTESTED');
+        expect(await quorum.withdraw('card-shared', 'e2', 'guardiana')).to.equal('ROUND_NOT_FOUND');
+
+        expect((await quorum.vote(round, 'guardiana')).outcome).to.equal('VOTE_WITHDRAWN');
+        const vote = await quorum.vote(round, 'guardianb');
+        expect(vote.outcome).to.equal('PENDING');
+        expect(vote.status.attestors).to.deep.equal(['guardianb']);
+    });
+
+    it('should start a new round after the window and reject votes for another sender', async () => {
+        await quorum.setPolicy('card-shared', { threshold: 3, windowHours: 1 });
+        await quorum.vote(round, 'guardiana');
+
+        expect((await quorum.vote({ ...round, senderCommit: 'cd' }, 'guardianb')).outcome).to.equal('SENDER_MISMATCH');
+
+        // The round's keys expire with the window
+        await store.delete('attestation_quorum:card-shared:e1', 'attestation_votes:card-shared:e1');
+        const vote = await quorum.vote(round, 'guardianb');
+        expect(vote.status.attestors).to.deep.equal(['guardianb']);
+        expect(vote.status.threshold).to.equal(3);
+    });
+});
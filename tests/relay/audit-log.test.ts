@@ -0,0 +1,107 @@
+/**
+ * Relay Test: Audit Log
+ * Ensures edits, gaps and rewritten chains are caught by verifyAuditLog, and that entries
+ * name subjects only by erasable keyed hashes and expire
+ */
+
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+import { expect } from 'chai';
+import { AuditEntry, AuditLog, hashAuditEntry, verifyAuditLog } from '../../relay/AuditLog';
+import { ReceiptSigner } from '../../relay/RelayReceipts';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('AuditLog', () => {
+    const signer = new ReceiptSigner(randomBytes(32));
+    const keys = signer.getPublicKeys();
+    let store: MemoryRelayStore;
+    let audit: AuditLog;
+
+    beforeEach(async () => {
+        store = new MemoryRelayStore();
+        audit = new AuditLog(store, winston.createLogger({ silent: true }), signer, { subjectLookupKey: randomBytes(32) });
+
+        await audit.record('VERIFICATION', { cardId: 'card-1', senderCommit: 'ab', outcome: 'VERIFIED' });
+        await audit.record('FORWARD', { cardId: 'card-1', senderCommit: 'ab', outcome: 'DELIVERED' });
+        await audit.record('ATTESTATION', { attestationId: 'att-1', bondId: 'bond-1' });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should chain entries and verify them against a signed checkpoint', async () => {
+        await Promise.all([
+            audit.record('SLASH', { attestationId: 'att-1', outcome: 'SLASHED' }),
+            audit.record('REFUND', { bondId: 'bond-2' })
+        ]);
+        const checkpoint = (await audit.publishCheckpoint())!;
+        const entries = await audit.getEntries(1, 100);
+
+        expect(entries.map(entry => entry.seq)).to.deep.equal([1, 2, 3, 4, 5]);
+        expect(checkpoint.toSeq).to.equal(5);
+        expect(await audit.publishCheckpoint()).to.equal(null);
+        expect(verifyAuditLog(entries, [checkpoint], keys)).to.deep.equal({ valid: true, problems: [], checkpointedThrough: 5 });
+    });
+
+    it('should report edited, missing and re-hashed entries', async () => {
+        const checkpoint = (await audit.publishCheckpoint())!;
+        const entries = await audit.getEntries(1, 100);
+
+        const edited = entries.map(entry => ({ ...entry, data: { ...entry.data } }));
+        edited[1].data.outcome = 'REJECTED';
+        expect(verifyAuditLog(edited, [checkpoint], keys).problems).to.deep.equal([
+            { seq: 2, reason: 'EDITED_ENTRY' },
+            { seq: 1, reason: 'CHECKPOINT_MISMATCH' }
+        ]);
+
+        expect(verifyAuditLog([entries[0], entries[2]], [checkpoint], keys).problems).to.deep.equal([
+            { seq: 2, reason: 'GAP' },
+            { seq: 2, reason: 'GAP' }
+        ]);
+
+        // Re-hashing the edited entry moves the break to the next link
+        const rehashed: AuditEntry = { ...edited[1], hash: hashAuditEntry(edited[1]) };
+        expect(verifyAuditLog([entries[0], rehashed, entries[2]], [], keys).problems).to.deep.equal([
+            { seq: 3, reason: 'BROKEN_CHAIN' }
+        ]);
+    });
+
+    it('should reject checkpoints not signed by the relay', async () => {
+        const checkpoint = (await audit.publishCheckpoint())!;
+        const entries = await audit.getEntries(1, 100);
+
+        expect(verifyAuditLog(entries, [{ ...checkpoint, toSeq: 2 }], keys).problems).to.deep.equal([
+            { seq: 1, reason: 'INVALID_CHECKPOINT' }
+        ]);
+        expect(verifyAuditLog(entries, [checkpoint], new ReceiptSigner(randomBytes(32)).getPublicKeys()).valid).to.equal(false);
+    });
+
+    it('should record cards and senders by keyed hashes that erasure unlinks', async () => {
+        const [verification, forward] = await audit.getEntries(1, 2);
+        const cardHash = await audit.subjectHash('card-1');
+
+        expect(verification.data).to.deep.equal({ outcome: 'VERIFIED', cardHash, senderHash: await audit.subjectHash('ab') });
+        expect(forward.data.cardHash).to.equal(cardHash);
+        expect(JSON.stringify(await audit.getEntries(1, 100))).not.to.include('card-1');
+
+        await audit.forget('card-1');
+        expect(await audit.subjectHash('card-1')).not.to.equal(cardHash);
+        expect(verifyAuditLog(await audit.getEntries(1, 100), [], keys).valid).to.equal(true);
+    });
+
+    it('should expire entries and serve what is left from the oldest one kept', async () => {
+        audit.configure(3600);
+        const entry = (await audit.record('REFUND', { cardId: 'card-1', senderCommit: 'ab', bondId: 'bond-2' }))!;
+        expect(await store.ttl(`audit_entry:${entry.seq}`)).to.equal(3600);
+        // Subject keys are kept as long as the newest entry that names them
+        for await (const batch of store.scan('audit_subject:*')) {
+            expect(await Promise.all(batch.map(key => store.ttl(key)))).to.deep.equal([3600, 3600]);
+        }
+
+        await store.delete('audit_entry:1', 'audit_entry:2');
+        expect((await audit.getEntries(1, 100)).map(kept => kept.seq)).to.deep.equal([3, 4]);
+        // Nothing left to checkpoint from the start of the chain
+        expect(await audit.publishCheckpoint()).to.equal(null);
+    });
+});
@@ -0,0 +1,97 @@
+/**
+ * Relay Test: Bond Cache
+ * Ensures concurrent misses load once, answers respect bond expiry and contract events invalidate
+ */
+
+import winston from 'winston';
+import { expect } from 'chai';
+import { BondCache, BondStatus } from '../../relay/BondCache';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('BondCache', () => {
+    const reputation = { totalBonds: 4, slashedCount: 0 };
+    let store: MemoryRelayStore;
+    let loads: string[];
+    let statuses: Record<string, BondStatus>;
+    let cache: BondCache;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        loads = [];
+        statuses = {};
+        cache = new BondCache(store, winston.createLogger({ silent: true }), async (cardId, senderCommit) => {
+            loads.push(`${cardId}:${senderCommit}`);
+            await new Promise(resolve => setTimeout(resolve, 20));
+            return statuses[`${cardId}:${senderCommit}`] || { active: false };
+        }, { cacheTtlSeconds: 300, negativeCacheTtlSeconds: 60 });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should load once for concurrent misses and serve later lookups from the store', async () => {
+        statuses['card-1:ab'] = { active: true, reputation, expiresAt: Date.now() + 3600_000 };
+
+        const lookups = await Promise.all([1, 2, 3].map(() => cache.lookup('card-1', 'ab')));
+        expect(loads).to.deep.equal(['card-1:ab']);
+        expect(lookups.map(lookup => lookup.source).sort()).to.deep.equal(['COALESCED', 'COALESCED', 'MISS']);
+
+        const hit = await cache.lookup('card-1', 'ab');
+        expect(hit.source).to.equal('HIT');
+        expect(hit.status.reputation).to.deep.equal(reputation);
+
+        const negative = [await cache.lookup('card-2', 'ab'), await cache.lookup('card-2', 'ab')];
+        expect(negative.map(lookup => lookup.source)).to.deep.equal(['MISS', 'NEGATIVE_HIT']);
+        expect(cache.getStats()).to.deep.equal({ hits: 1, negativeHits: 1, misses: 2, coalesced: 2, invalidations: 0, hitRatio: 4 / 6 });
+    });
+
+    it('should not answer from an entry past its bond expiry', async () => {
+        statuses['card-1:ab'] = { active: true, reputation, expiresAt: Date.now() + 1500 };
+        await cache.lookup('card-1', 'ab');
+        expect((await cache.lookup('card-1', 'ab')).source).to.equal('HIT');
+
+        // Bond expires within a second, so the entry is never cached
+        statuses['card-1:cd'] = { active: true, reputation, expiresAt: Date.now() + 500 };
+        await cache.lookup('card-1', 'cd');
+        expect((await cache.lookup('card-1', 'cd')).source).to.equal('MISS');
+    });
+
+    it('should drop the pair on refund and the sender\'s entries on slash', async () => {
+        const expiresAt = Date.now() + 3600_000;
+        statuses['card-1:ab'] = { active: true, reputation, expiresAt };
+        statuses['card-2:ab'] = { active: true, reputation, expiresAt };
+        await cache.lookup('card-1', 'ab');
+        await cache.lookup('card-2', 'ab');
+
+        await cache.handleEvent({ type: 'REFUNDED', cardId: 'card-1', senderCommit: 'ab' });
+        expect((await cache.lookup('card-1', 'ab')).source).to.equal('MISS');
+        expect((await cache.lookup('card-2', 'ab')).source).to.equal('HIT');
+
+        await cache.handleEvent({ type: 'SLASHED', cardId: 'card-1', senderCommit: 'ab', bondId: 'bond-1' });
+        expect((await cache.lookup('card-1', 'ab')).source).to.equal('MISS');
+        expect((await cache.lookup('card-2', 'ab')).source).to.equal('MISS');
+        expect(cache.getStats().invalidations).to.equal(3);
+    });
+
+    it('should not cache a load that an event invalidated while it was in flight', async () => {
+        const expiresAt = Date.now() + 3600_000;
+        statuses['card-1:ab'] = { active: true, reputation, expiresAt };
+        statuses['card-2:ab'] = { active: true, reputation, expiresAt };
+
+        const refunded = cache.lookup('card-1', 'ab');
+        const slashed = cache.lookup('card-2', 'ab');
+        await cache.handleEvent({ type: 'REFUNDED', cardId: 'card-1', senderCommit: 'ab' });
+        await cache.handleEvent({ type: 'SLASHED', cardId: 'card-9', senderCommit: 'ab' });
+
+        // Callers already waiting get the load's answer, but it is not written back
+        expect((await refunded).status.active).to.equal(true);
+        expect((await slashed).source).to.equal('MISS');
+        expect(await store.get('bond:card-1:ab')).to.equal(null);
+        expect(await store.get('bond:card-2:ab')).to.equal(null);
+
+        statuses['card-1:ab'] = { active: false };
+        expect((await cache.lookup('card-1', 'ab')).status.active).to.equal(false);
+        expect(await store.get('bond:card-1:ab')).to.not.equal(null);
+    });
+});
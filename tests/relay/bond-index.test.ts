@@ -0,0 +1,127 @@
+/**
+ * Relay Test: Bond Index
+ * Ensures the soonest-expiring live bond backs a pair's messages, bond events drop stale views and ledger polls report changes
+ */
+
+import winston from 'winston';
+import { expect } from 'chai';
+import { BondIndex, BondLedgerRow } from '../../relay/BondIndex';
+import { MemoryRelayStore } from '../../relay/storage';
+import { createSigner, createTestRelay, sha256, signedMessage, TEST_CARD, TEST_SENDER } from './relay-fixture';
+
+describe('BondIndex', () => {
+    const bond = (bondId: string, expiresIn: number, flags: Partial<BondLedgerRow> = {}): BondLedgerRow => ({
+        bondId,
+        cardKey: sha256('card-1'),
+        senderKey: sha256('ab'),
+        amount: '10',
+        expiresAt: Date.now() + expiresIn,
+        refunded: false,
+        slashed: false,
+        ...flags
+    });
+    let store: MemoryRelayStore;
+    let ledger: BondLedgerRow[];
+    let reads: number;
+    let index: BondIndex;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        reads = 0;
+        index = new BondIndex(store, winston.createLogger({ silent: true }), async () => {
+            reads++;
+            return ledger;
+        }, sha256);
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should resolve the soonest-expiring live bond and serve it from the index', async () => {
+        ledger = [
+            bond('late', 7200_000),
+            bond('refunded', 60_000, { refunded: true }),
+            bond('slashed', 60_000, { slashed: true }),
+            bond('lapsed', -1000),
+            bond('soon', 3600_000)
+        ];
+
+        expect(await index.resolveBondId('card-1', 'ab')).to.equal('soon');
+        expect((await index.getActiveBonds('card-1', 'ab')).map(b => b.bondId)).to.deep.equal(['soon', 'late']);
+        expect(reads).to.equal(1);
+        expect(await store.ttl('bond_index:card-1:ab')).to.be.within(299, 300);
+    });
+
+    it('should read the ledger again once a bond is invalidated', async () => {
+        ledger = [bond('soon', 3600_000), bond('late', 7200_000)];
+        await index.resolveBondId('card-1', 'ab');
+
+        ledger = [bond('soon', 3600_000, { refunded: true }), bond('late', 7200_000)];
+        expect(await index.resolveBondId('card-1', 'ab')).to.equal('soon');
+
+        await index.invalidateBond('soon');
+        await index.invalidateLedger();
+        expect(await index.resolveBondId('card-1', 'ab')).to.equal('late');
+        expect(await store.get('bond_index:bond:soon')).to.equal(null);
+        expect(reads).to.equal(2);
+    });
+
+    it('should cut every pair\'s view from one ledger read', async () => {
+        ledger = [bond('card-1', 3600_000), bond('card-2', 3600_000, { cardKey: sha256('card-2') })];
+
+        const resolved = await Promise.all(['card-1', 'card-2', 'card-3'].map(cardId => index.resolveBondId(cardId, 'ab')));
+        expect(resolved).to.deep.equal(['card-1', 'card-2', null]);
+        expect(reads).to.equal(1);
+    });
+
+    it('should report bonds posted, refunded, slashed and expired since the last poll for pairs it has looked up', async () => {
+        ledger = [bond('refunding', 3600_000), bond('slashing', 3600_000), bond('expiring', 1000), bond('unknown-pair', 3600_000, { senderKey: sha256('cd') })];
+        await index.resolveBondId('card-1', 'ab');
+        expect(await index.poll()).to.deep.equal([]);
+
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        ledger = [
+            bond('refunding', 3600_000, { refunded: true }),
+            bond('slashing', 3600_000, { slashed: true }),
+            bond('expiring', -100),
+            bond('unknown-pair', 3600_000, { senderKey: sha256('cd'), slashed: true }),
+            bond('posted', 7200_000)
+        ];
+        const events = await index.poll();
+        expect(events.map(event => [event.type, event.bondId])).to.deep.equal([
+            ['REFUNDED', 'refunding'],
+            ['SLASHED', 'slashing'],
+            ['EXPIRED', 'expiring'],
+            ['POSTED', 'posted']
+        ]);
+        expect(events.every(event => event.cardId === 'card-1' && event.senderCommit === 'ab')).to.equal(true);
+        expect(await index.poll()).to.deep.equal([]);
+    });
+
+    it('should pick the pair\'s bond out of bond_meta and move on after a slash event', async () => {
+        const now = Date.now();
+        const meta = (cardId: string, senderCommit: string, expiresAt: number, slashed = false) =>
+            [sha256(cardId), sha256(senderCommit), 10n, expiresAt, false, slashed];
+        let bondMeta: [string, any[]][] = [
+            ['bond-late', meta(TEST_CARD, TEST_SENDER, now + 7200_000)],
+            ['bond-other-sender', meta(TEST_CARD, 'ffff', now + 60_000)],
+            ['bond-other-card', meta('card-other', TEST_SENDER, now + 60_000)],
+            ['bond-soon', meta(TEST_CARD, TEST_SENDER, now + 3600_000)]
+        ];
+        const { relay, close } = await createTestRelay({ queryLedger: () => bondMeta });
+        const sender = createSigner();
+        try {
+            const first = await relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER }));
+            expect(first.bondId).to.equal('bond-soon');
+
+            bondMeta = bondMeta.map(([bondId, entry]) => [bondId, bondId === 'bond-soon' ? meta(TEST_CARD, TEST_SENDER, now + 3600_000, true) : entry]);
+            await relay.handleBondEvent({ type: 'SLASHED', cardId: TEST_CARD, senderCommit: TEST_SENDER, bondId: 'bond-soon' });
+
+            const second = await relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER }));
+            expect(second.bondId).to.equal('bond-late');
+        } finally {
+            await close();
+        }
+    });
+});
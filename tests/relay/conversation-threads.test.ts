@@ -0,0 +1,130 @@
+/**
+ * Relay Test: Conversation Threads
+ * Ensures threads bind to the intro's sender, page in order and limit each side separately,
+ * and that follow-ups go through the card's moderation chain
+ */
+
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+import { expect } from 'chai';
+import { EvidenceKeyring } from '../../relay/EvidenceKeyring';
+import { ConversationThreads } from '../../relay/ConversationThreads';
+import { MemoryRelayStore } from '../../relay/storage';
+import { cardReadProof, createSigner, createTestRelay, signedMessage, TEST_CARD, TEST_SENDER, TestRelay, TestSigner } from './relay-fixture';
+
+describe('ConversationThreads', () => {
+    const cardId = 'card-devcon-sarah';
+    const senderCommit = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+    let store: MemoryRelayStore;
+    let threads: ConversationThreads;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        threads = new ConversationThreads(
+            store,
+            winston.createLogger({ silent: true }),
+            new EvidenceKeyring({ test: randomBytes(32) }, 'test'),
+            { ttlSeconds: 3600, messagesPerWindow: 2, windowSeconds: 3600 }
+        );
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should only open for a delivered intro and reuse the open thread', async () => {
+        expect(await threads.open(cardId, senderCommit, 'bond-1')).to.equal(null);
+
+        await threads.rememberSender(cardId, senderCommit, '0xABCDEF');
+        const thread = (await threads.open(cardId, senderCommit, 'bond-1'))!;
+        expect(thread.senderAddress).to.equal('abcdef');
+        expect(thread.state).to.equal('OPEN');
+        expect((await threads.open(cardId, senderCommit, 'bond-1'))!.threadId).to.equal(thread.threadId);
+
+        // A reply after closing starts a fresh thread
+        expect((await threads.close(thread.threadId))!.state).to.equal('CLOSED');
+        expect((await threads.get(thread.threadId))!.state).to.equal('CLOSED');
+        expect((await threads.open(cardId, senderCommit, 'bond-1'))!.threadId).to.not.equal(thread.threadId);
+    });
+
+    it('should page through both sides of the conversation in order', async () => {
+        await threads.rememberSender(cardId, senderCommit, 'abcdef');
+        const thread = (await threads.open(cardId, senderCommit, 'bond-1'))!;
+        await threads.append(thread, 'SENDER', { content: 'hello again' });
+        await threads.append(thread, 'RECIPIENT', { content: 'hi' });
+        await threads.append(thread, 'SENDER', { content: 'coffee?' });
+
+        const page = await threads.read<{ content: string }>(thread.threadId, undefined, 2);
+        expect(page.messages.map(m => `${m.direction}:${m.message.content}`)).to.deep.equal(['SENDER:hello again', 'RECIPIENT:hi']);
+
+        const next = await threads.read<{ content: string }>(thread.threadId, page.cursor, 2);
+        expect(next.messages.map(m => m.message.content)).to.deep.equal(['coffee?']);
+        expect(next.cursor).to.equal(undefined);
+
+        // Payloads are sealed at rest
+        const [entry] = await store.readStream(`thread_messages:${thread.threadId}`, undefined, 1);
+        const stored = (await store.get(`thread_payload:${thread.threadId}:${entry.fields.payloadId}`))!;
+        expect(stored.includes('hello again')).to.equal(false);
+    });
+
+    it('should limit each side per window independently', async () => {
+        expect((await threads.consume('t1', 'SENDER')).allowed).to.equal(true);
+        expect((await threads.consume('t1', 'SENDER')).allowed).to.equal(true);
+
+        const limited = await threads.consume('t1', 'SENDER');
+        expect(limited.allowed).to.equal(false);
+        expect(limited.retryAfter!).to.be.greaterThan(0);
+
+        expect((await threads.consume('t1', 'RECIPIENT')).allowed).to.equal(true);
+        expect((await threads.consume('t2', 'SENDER')).allowed).to.equal(true);
+    });
+});
+
+describe('Thread follow-up moderation', () => {
+    let t: TestRelay;
+    let sender: TestSigner;
+    let threadId: string;
+
+    const followUp = (content: string) =>
+        t.relay.forwardThreadMessage(threadId, signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER, content }));
+    const threadContents = async () => {
+        const timestamp = Date.now();
+        const page = await t.relay.readThread(threadId, { timestamp, proof: t.admin.prove(`selectconnect:thread-read:${threadId}:${timestamp}`) });
+        return page.messages!.map(entry => (entry.message as { content: string }).content);
+    };
+
+    beforeEach(async () => {
+        sender = createSigner();
+        t = await createTestRelay({
+            getBond: () => ({ expiresAt: Date.now() + 3600_000, refunded: false, slashed: false })
+        });
+        const intro = signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER });
+        expect((await t.relay.forwardMessage(intro, await t.relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, intro))).success).to.equal(true);
+        const replyProof = t.admin.prove(`selectconnect:engagement:${TEST_CARD}:${TEST_SENDER}:REPLY`);
+        threadId = (await t.relay.handleRecipientEngagement(TEST_CARD, TEST_SENDER, 'REPLY', replyProof))!.threadId;
+
+        await t.store.set(`moderation_policy:${TEST_CARD}`, JSON.stringify({ rejectKeywords: ['wire transfer'], quarantineKeywords: ['crypto'] }));
+    });
+
+    afterEach(async () => {
+        await t.close();
+    });
+
+    it('should reject and quarantine follow-ups like intros and add released ones to the thread', async () => {
+        const rejected = await followUp('Send a wire transfer today');
+        expect(rejected).to.include({ success: false, reason: 'MESSAGE_REJECTED', threadId });
+
+        const held = await followUp('Want to hear about crypto?');
+        expect(held.success).to.equal(true);
+        expect(held.deliveryResult!.status).to.equal('QUARANTINED');
+        expect((await followUp('Coffee tomorrow?')).deliveryResult!.status).to.not.equal('QUARANTINED');
+        expect(await threadContents()).to.deep.equal(['Coffee tomorrow?']);
+
+        const { adminProof, timestamp } = cardReadProof(t.admin, TEST_CARD, 'quarantine');
+        const [record] = (await t.relay.getQuarantinedMessages(TEST_CARD, adminProof, timestamp)).messages!;
+        expect(record).to.include({ quarantineId: held.deliveryResult!.quarantineId, threadId });
+        const releaseProof = t.admin.prove(`selectconnect:quarantine:${TEST_CARD}:release:${record.quarantineId}`);
+        expect((await t.relay.releaseQuarantinedMessage(TEST_CARD, record.quarantineId, releaseProof)).success).to.equal(true);
+        expect(await threadContents()).to.deep.equal(['Coffee tomorrow?', 'Want to hear about crypto?']);
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Relay Test: Email Delivery Channel
+ * Sends through a local SMTP sink and checks the card holder's privacy guarantees
+ */
+
+import { AddressInfo } from 'net';
+import nodemailer from 'nodemailer';
+import { SMTPServer } from 'smtp-server';
+import winston from 'winston';
+import { expect } from 'chai';
+import { EmailChannel } from '../../relay/EmailChannel';
+
+describe('EmailChannel', () => {
+    let sink: SMTPServer;
+    let received: { from: string; to: string[]; raw: string }[];
+    let channel: EmailChannel;
+
+    const message = {
+        content: 'Hi! Met you at DevCon, would love to talk about your ZK talk.',
+        senderCommit: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+        cardId: 'card-devcon-sarah',
+        timestamp: Date.now()
+    };
+
+    beforeEach(async () => {
+        received = [];
+        sink = new SMTPServer({
+            authOptional: true,
+            disabledCommands: ['STARTTLS'],
+            onData(stream, session, callback) {
+                let raw = '';
+                stream.on('data', chunk => (raw += chunk.toString()));
+                stream.on('end', () => {
+                    received.push({
+                        from: (session.envelope.mailFrom as { address: string }).address,
+                        to: session.envelope.rcptTo.map(r => r.address),
+                        raw
+                    });
+                    callback();
+                });
+            }
+        });
+        await new Promise<void>(resolve => sink.listen(0, '127.0.0.1', () => resolve()));
+
+        const port = (sink.server.address() as AddressInfo).port;
+        channel = new EmailChannel({
+            transport: nodemailer.createTransport({ host: '127.0.0.1', port, secure: false, ignoreTLS: true }),
+            aliasDomain: 'relay.test',
+            publicUrl: 'http://relay.test',
+            linkSecret: 'test-link-secret'
+        }, winston.createLogger({ silent: true }));
+    });
+
+    afterEach(async () => {
+        await new Promise<void>(resolve => sink.close(() => resolve()));
+    });
+
+    it('should deliver from the card alias without exposing the real address', async () => {
+        const result = await channel.send('sarah.private@example.com', message, 'ee'.repeat(32));
+
+        expect(result.success).to.equal(true);
+        expect(received).to.have.length(1);
+        expect(received[0].to).to.deep.equal(['sarah.private@example.com']);
+        expect(received[0].from).to.equal(channel.aliasFor(message.cardId));
+        expect(received[0].from).to.match(/^card-[0-9a-f]{12}@relay\.test$/);
+        expect(received[0].raw).to.contain('/v1/email-actions/report');
+        expect(received[0].raw).to.contain('/v1/email-actions/reply');
+    });
+
+    it('should round-trip signed action tokens and reject tampering', () => {
+        const token = channel.createActionToken('report', message.cardId, message.senderCommit, 'ee'.repeat(32));
+        const claims = channel.verifyActionToken(token);
+
+        expect(claims).to.include({ action: 'report', cardId: message.cardId, senderCommit: message.senderCommit });
+        expect(channel.verifyActionToken(token.replace(/^./, c => (c === 'A' ? 'B' : 'A')))).to.equal(null);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * Relay Test: Evidence Bundles
+ * Ensures exported evidence opens only for the requester and detects tampering
+ */
+
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { expect } from 'chai';
+import { EvidenceBundleContents, openEvidenceBundle, sealEvidenceBundle, verifyEvidenceBundle } from '../../relay/EvidenceBundle';
+import { ReceiptSigner } from '../../relay/RelayReceipts';
+
+function x25519KeyPair() {
+    const { publicKey, privateKey } = generateKeyPairSync('x25519');
+    return {
+        publicKey: (publicKey.export({ format: 'der', type: 'spki' }) as Buffer).subarray(12).toString('hex'),
+        privateKey: (privateKey.export({ format: 'der', type: 'pkcs8' }) as Buffer).subarray(16).toString('hex')
+    };
+}
+
+describe('EvidenceBundle', () => {
+    const signer = new ReceiptSigner(randomBytes(32));
+    const evidenceHash = 'ef'.repeat(32);
+    const requester = x25519KeyPair();
+    const contents: EvidenceBundleContents = {
+        evidenceHash,
+        evidence: {
+            contentFingerprint: 'ab'.repeat(32),
+            timestamp: 1700000000000,
+            transportSignature: 'cd'.repeat(32),
+            senderCommit: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+            cardId: 'card-devcon-sarah'
+        },
+        receipts: {
+            senderReceipt: signer.sign('sender-receipt', { evidenceHash, timestamp: 1700000000000 })
+        },
+        attestations: [],
+        exportedAt: 1700000500000
+    };
+    const recipient = {
+        cardId: 'card-devcon-sarah',
+        requester: '8ba1f109551bd432803012645ac136ddd64dba72',
+        encryptionPublicKey: requester.publicKey
+    };
+
+    it('should open for the requester with the pinned relay keys', () => {
+        const bundle = sealEvidenceBundle(contents, recipient, signer);
+        const opened = openEvidenceBundle(bundle, requester.privateKey, signer.getPublicKeys());
+
+        expect(verifyEvidenceBundle(bundle, signer.getPublicKeys()).valid).to.equal(true);
+        expect(opened.valid).to.equal(true);
+        expect(opened.contents).to.deep.equal(contents);
+    });
+
+    it('should reject altered archives and other decryption keys', () => {
+        const bundle = sealEvidenceBundle(contents, recipient, signer);
+        const relabelled = { ...bundle, cardId: 'card-someone-else' };
+        const otherKey = x25519KeyPair();
+
+        expect(verifyEvidenceBundle(relabelled).reason).to.equal('MANIFEST_MISMATCH');
+        expect(verifyEvidenceBundle(bundle, new ReceiptSigner(randomBytes(32)).getPublicKeys()).reason).to.equal('INVALID_MANIFEST');
+        expect(openEvidenceBundle(bundle, otherKey.privateKey).reason).to.equal('DECRYPTION_FAILED');
+    });
+});
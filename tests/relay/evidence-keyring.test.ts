@@ -0,0 +1,104 @@
+/**
+ * Relay Test: Evidence Keyring
+ * Ensures envelopes only open in their own context and survive a master key rotation
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import winston from 'winston';
+import { expect } from 'chai';
+import { AttachmentStore } from '../../relay/AttachmentStore';
+import { ConversationThreads } from '../../relay/ConversationThreads';
+import { EvidenceKeyring } from '../../relay/EvidenceKeyring';
+import { defaultRelayConfig } from '../../relay/RelayConfig';
+import { createTestRelay, sha256 } from './relay-fixture';
+
+describe('EvidenceKeyring', () => {
+    const v1 = randomBytes(32);
+    const v2 = randomBytes(32);
+    const evidence = Buffer.from(JSON.stringify({ content: 'Hi, we met at the devcon booth' }));
+
+    it('should open an envelope only in the context it was sealed for', () => {
+        const keyring = new EvidenceKeyring({ v1 }, 'v1');
+        const envelope = keyring.seal(evidence, 'evidence-1');
+
+        expect(keyring.open(envelope, 'evidence-1').equals(evidence)).to.equal(true);
+        expect(Buffer.from(envelope.ciphertext, 'base64').includes(Buffer.from('devcon'))).to.equal(false);
+
+        // The context is bound as AAD, so an envelope copied under another hash does not open
+        expect(() => keyring.open(envelope, 'evidence-2')).to.throw();
+        const flipped = Buffer.from(envelope.ciphertext, 'base64');
+        flipped[0] ^= 1;
+        expect(() => keyring.open({ ...envelope, ciphertext: flipped.toString('base64') }, 'evidence-1')).to.throw();
+        expect(() => keyring.open({ ...envelope, keyId: 'v2' }, 'evidence-1')).to.throw('Unknown evidence master key');
+    });
+
+    it('should re-wrap data keys under the active key without touching the ciphertext', () => {
+        const envelope = new EvidenceKeyring({ v1 }, 'v1').seal(evidence, 'evidence-1');
+        const rotated = new EvidenceKeyring({ v1, v2 }, 'v2');
+
+        const rewrapped = rotated.rewrap(envelope)!;
+        expect(rewrapped.keyId).to.equal('v2');
+        expect(rewrapped.ciphertext).to.equal(envelope.ciphertext);
+        expect(rotated.rewrap(rewrapped)).to.equal(null);
+
+        // Once re-wrapped, the retired key can be dropped
+        expect(new EvidenceKeyring({ v2 }, 'v2').open(rewrapped, 'evidence-1').equals(evidence)).to.equal(true);
+        expect(() => new EvidenceKeyring({ v1: randomBytes(16) }, 'v1')).to.throw('must be 32 bytes');
+    });
+
+    it('should re-wrap stored evidence and legacy records after rotation', async () => {
+        const { relay, store, queue, close } = await createTestRelay({}, { evidenceKeyring: new EvidenceKeyring({ v1, v2 }, 'v2') });
+        try {
+            const current = sha256('evidence-current');
+            const legacy = sha256('evidence-legacy');
+            await store.set(`evidence:${current}`, JSON.stringify(new EvidenceKeyring({ v1 }, 'v1').seal(evidence, current)));
+            await store.set(`evidence:${legacy}`, JSON.stringify({ algorithm: 'base64', encrypted: evidence.toString('base64') }));
+
+            // Scheduled by the constructor because the keyring holds a retired key
+            expect(await queue('evidence rewrap').runPending()).to.deep.equal([]);
+
+            for (const evidenceHash of [current, legacy]) {
+                expect(JSON.parse((await store.get(`evidence:${evidenceHash}`))!).keyId).to.equal('v2');
+                expect(await relay.decryptEvidence(evidenceHash)).to.deep.equal(JSON.parse(evidence.toString()));
+            }
+        } finally {
+            await close();
+        }
+    });
+
+    it('should re-wrap thread messages and attachment blobs after rotation', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'attachments-'));
+        const config = defaultRelayConfig();
+        config.storage.attachmentDirectory = directory;
+        const { store, queue, close } = await createTestRelay({}, { evidenceKeyring: new EvidenceKeyring({ v1, v2 }, 'v2'), config });
+        try {
+            // Sealed before the rotation
+            const logger = winston.createLogger({ silent: true });
+            const retired = new EvidenceKeyring({ v1 }, 'v1');
+            const threads = new ConversationThreads(store, logger, retired, { ttlSeconds: 3600, messagesPerWindow: 5, windowSeconds: 3600 });
+            await threads.rememberSender('card-1', 'sender-1', '0xabcdef');
+            const thread = (await threads.open('card-1', 'sender-1', 'bond-1'))!;
+            await threads.append(thread, 'SENDER', { content: 'hello again' });
+            const pdf = Buffer.from('%PDF-1.7\n% pitch deck\n');
+            const { hash } = (await new AttachmentStore(store, logger, retired, { directory, maxBytes: 1024, maxPerMessage: 2 })
+                .put('card-1', 'application/pdf', pdf)).attachment!;
+
+            expect(await queue('evidence rewrap').runPending()).to.deep.equal([]);
+
+            // Readable once the retired key is dropped
+            const current = new EvidenceKeyring({ v2 }, 'v2');
+            const page = await new ConversationThreads(store, logger, current, { ttlSeconds: 3600, messagesPerWindow: 5, windowSeconds: 3600 })
+                .read<{ content: string }>(thread.threadId, undefined, 10);
+            expect(page.messages.map(m => m.message.content)).to.deep.equal(['hello again']);
+            const blob = JSON.parse(await readFile(join(directory, hash.substring(0, 2), hash), 'utf8'));
+            expect(blob.keyId).to.equal('v2');
+            expect(current.open(blob, `attachment:${hash}`).equals(pdf)).to.equal(true);
+        } finally {
+            await close();
+            await rm(directory, { recursive: true, force: true });
+        }
+    });
+});
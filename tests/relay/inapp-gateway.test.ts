@@ -0,0 +1,214 @@
+/**
+ * Relay Test: In-App Delivery Gateway
+ * Ensures only the card admin can subscribe, sends do not wait for acks and unacked messages replay once,
+ * and that the relay sends a new subscriber what its mailbox holds for the card
+ */
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import winston from 'winston';
+import WebSocket from 'ws';
+import { expect } from 'chai';
+import { InAppGateway, InAppMessage } from '../../relay/InAppGateway';
+import { MemoryRelayStore } from '../../relay/storage';
+import { cardReadProof, createSigner, createTestRelay, signedMessage, TEST_CARD, TEST_SENDER, TestRelay, TestSigner } from './relay-fixture';
+
+/**
+ * Open a socket to the gateway and return a reader for its frames, in order
+ */
+async function connect(http: Server, clients: WebSocket[]) {
+    const socket = new WebSocket(`ws://127.0.0.1:${(http.address() as AddressInfo).port}/v1/ws`);
+    clients.push(socket);
+    const frames: any[] = [];
+    const waiting: ((frame: any) => void)[] = [];
+    socket.on('message', data => {
+        const frame = JSON.parse(data.toString());
+        const waiter = waiting.shift();
+        waiter ? waiter(frame) : frames.push(frame);
+    });
+    const next = () => frames.length > 0
+        ? Promise.resolve(frames.shift())
+        : new Promise<any>(resolve => waiting.push(resolve));
+    const { nonce } = await next();
+    return { socket, next, nonce, pending: () => frames.length };
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('InAppGateway', () => {
+    const cardId = 'card-devcon-sarah';
+    const message: InAppMessage = { content: 'Hi, we met at the devcon booth', senderCommit: 'ab', cardId, timestamp: 1 };
+    let admin: TestSigner;
+    let store: MemoryRelayStore;
+    let gateway: InAppGateway;
+    let http: Server;
+    let acks: string[];
+    let subscribed: string[];
+    let clients: WebSocket[];
+
+    const subscribe = async (signer: TestSigner = admin) => {
+        const client = await connect(http, clients);
+        const proof = signer.prove(`selectconnect:subscribe:${cardId}:${client.nonce}`);
+        client.socket.send(JSON.stringify({ type: 'subscribe', cardId, ...proof }));
+        return { ...client, reply: await client.next() };
+    };
+
+    beforeEach(async () => {
+        admin = createSigner();
+        store = new MemoryRelayStore();
+        acks = [];
+        subscribed = [];
+        clients = [];
+        gateway = new InAppGateway(store, winston.createLogger({ silent: true }), async () => admin.address, {
+            onAcknowledged: async (_cardId, deliveryId, reference) => {
+                acks.push(`${deliveryId}:${reference}`);
+            },
+            onSubscribed: async subscribedCard => {
+                subscribed.push(subscribedCard);
+            }
+        });
+        http = createServer();
+        gateway.attach(http);
+        await new Promise<void>(resolve => http.listen(0, resolve));
+    });
+
+    afterEach(async () => {
+        clients.forEach(socket => socket.terminate());
+        await gateway.close();
+        await new Promise(resolve => http.close(resolve));
+        await store.close();
+    });
+
+    it('should only subscribe a key that proves the card admin for this connection\'s challenge', async () => {
+        const impostor = await subscribe(createSigner());
+        expect(impostor.reply).to.deep.equal({ type: 'error', code: 'UNAUTHORIZED_SUBSCRIPTION', cardId });
+
+        // A proof for another connection's nonce is not accepted
+        const first = await connect(http, clients);
+        const second = await connect(http, clients);
+        second.socket.send(JSON.stringify({ type: 'subscribe', cardId, ...admin.prove(`selectconnect:subscribe:${cardId}:${first.nonce}`) }));
+        expect((await second.next()).code).to.equal('UNAUTHORIZED_SUBSCRIPTION');
+
+        expect(subscribed).to.deep.equal([]);
+
+        expect((await subscribe()).reply).to.deep.equal({ type: 'subscribed', cardId });
+        await settle();
+        expect(subscribed).to.deep.equal([cardId]);
+    });
+
+    it('should return SENT without waiting and record the ack when it arrives', async () => {
+        const client = await subscribe();
+
+        const started = Date.now();
+        const delivery = await gateway.deliver(message, { reference: 'mailbox-1' });
+        expect(delivery.status).to.equal('SENT');
+        expect(Date.now() - started).to.be.below(1000);
+
+        const frame = await client.next();
+        expect(frame).to.deep.equal({ type: 'message', cardId, deliveryId: delivery.deliveryId, message });
+
+        client.socket.send(JSON.stringify({ type: 'ack', deliveryId: delivery.deliveryId }));
+        await settle();
+        expect(await gateway.getDeliveryStatus(delivery.deliveryId)).to.equal('ACKNOWLEDGED');
+        expect(acks).to.deep.equal([`${delivery.deliveryId}:mailbox-1`]);
+
+        // Nothing left to replay once acknowledged
+        const reconnected = await subscribe();
+        await settle();
+        expect(reconnected.pending()).to.equal(0);
+    });
+
+    it('should replay queued and unacknowledged messages on reconnect until acked', async () => {
+        const queued = await gateway.deliver(message);
+        expect(queued.status).to.equal('QUEUED');
+
+        const client = await subscribe();
+        expect((await client.next()).deliveryId).to.equal(queued.deliveryId);
+
+        // Sent live but never acked: replayed exactly once on the next subscription
+        const sent = await gateway.deliver(message);
+        expect((await client.next()).deliveryId).to.equal(sent.deliveryId);
+        client.socket.send(JSON.stringify({ type: 'ack', deliveryId: queued.deliveryId }));
+        await settle();
+        client.socket.close();
+
+        const reconnected = await subscribe();
+        expect((await reconnected.next()).deliveryId).to.equal(sent.deliveryId);
+        await settle();
+        expect(reconnected.pending()).to.equal(0);
+    });
+
+    it('should fail OFFLINE and keep no replay copy when the caller keeps the message', async () => {
+        const offline = await gateway.deliver(message, { queueIfOffline: false });
+        expect(offline).to.deep.equal({ success: false, deliveryId: offline.deliveryId, status: 'OFFLINE' });
+
+        const client = await subscribe();
+        const sent = await gateway.deliver(message, { queueIfOffline: false });
+        expect(sent.status).to.equal('SENT');
+        expect((await client.next()).deliveryId).to.equal(sent.deliveryId);
+        client.socket.close();
+
+        // The caller's mailbox serves it again, so the gateway must not
+        const reconnected = await subscribe();
+        await settle();
+        expect(reconnected.pending()).to.equal(0);
+    });
+});
+
+describe('SelectConnectRelay in-app subscriptions', () => {
+    let t: TestRelay;
+    let http: Server;
+    let clients: WebSocket[];
+
+    const subscribe = async () => {
+        const client = await connect(http, clients);
+        client.socket.send(JSON.stringify({ type: 'subscribe', cardId: TEST_CARD, ...t.admin.prove(`selectconnect:subscribe:${TEST_CARD}:${client.nonce}`) }));
+        expect(await client.next()).to.deep.equal({ type: 'subscribed', cardId: TEST_CARD });
+        return client;
+    };
+
+    beforeEach(async () => {
+        t = await createTestRelay();
+        clients = [];
+        http = createServer();
+        t.relay.attachRealtimeGateway(http);
+        await new Promise<void>(resolve => http.listen(0, resolve));
+    });
+
+    afterEach(async () => {
+        clients.forEach(socket => socket.terminate());
+        await t.relay.detachRealtimeGateway();
+        await new Promise(resolve => http.close(resolve));
+        await t.close();
+    });
+
+    it('should send a new subscriber the mailbox messages held while it was offline until they are acked', async () => {
+        const message = signedMessage(createSigner(), { cardId: TEST_CARD, senderCommit: TEST_SENDER });
+        const forwarded = await t.relay.forwardMessage(message, await t.relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, message));
+        const messageId = forwarded.deliveryResult!.messageId!;
+        expect(forwarded.deliveryResult!.status).to.equal('QUEUED');
+
+        const client = await subscribe();
+        const frame = await client.next();
+        expect(frame.message.content).to.equal(message.content);
+        const mailboxStatus = async () => {
+            const { adminProof, timestamp } = cardReadProof(t.admin, TEST_CARD, `mailbox:${messageId}`);
+            return (await t.relay.getMailboxStatus(TEST_CARD, messageId, adminProof, timestamp)).delivery!;
+        };
+        expect(await mailboxStatus()).to.include({ status: 'DELIVERED', channel: 'in-app', deliveryId: frame.deliveryId });
+
+        // Sent but not acked: the next subscription gets it again
+        client.socket.close();
+        const reconnected = await subscribe();
+        const resent = await reconnected.next();
+        expect(resent.message.content).to.equal(message.content);
+
+        reconnected.socket.send(JSON.stringify({ type: 'ack', deliveryId: resent.deliveryId }));
+        await settle();
+        expect((await mailboxStatus()).acknowledged).to.equal(true);
+
+        const later = await subscribe();
+        await settle();
+        expect(later.pending()).to.equal(0);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Relay Test: Mailbox
+ * Ensures messages wait for offline recipients and leave only when acknowledged
+ */
+
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+import { expect } from 'chai';
+import { EvidenceKeyring } from '../../relay/EvidenceKeyring';
+import { Mailbox } from '../../relay/Mailbox';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('Mailbox', () => {
+    const cardId = 'card-devcon-sarah';
+    const senderCommit = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+    let store: MemoryRelayStore;
+    let mailbox: Mailbox;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        mailbox = new Mailbox(
+            store,
+            winston.createLogger({ silent: true }),
+            new EvidenceKeyring({ test: randomBytes(32) }, 'test'),
+            { retentionSeconds: 3600 }
+        );
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should page through pending messages until they are acknowledged', async () => {
+        const first = await mailbox.enqueue(cardId, senderCommit, 'aa'.repeat(32), { content: 'first' });
+        const second = await mailbox.enqueue(cardId, senderCommit, 'bb'.repeat(32), { content: 'second' });
+
+        const page = await mailbox.pull<{ content: string }>(cardId, undefined, 1);
+        expect(page.messages.map(m => m.message.content)).to.deep.equal(['first']);
+
+        const next = await mailbox.pull<{ content: string }>(cardId, page.cursor, 1);
+        expect(next.messages.map(m => m.messageId)).to.deep.equal([second.messageId]);
+
+        await mailbox.recordAttempt(first.messageId, { channel: 'push', deliveryId: 'd1' });
+        await mailbox.acknowledge(cardId, first.messageId);
+
+        const remaining = await mailbox.pull(cardId);
+        expect(remaining.messages.map(m => m.messageId)).to.deep.equal([second.messageId]);
+        expect((await mailbox.get(first.messageId))!.status).to.equal('DELIVERED');
+        expect((await mailbox.get(second.messageId))!.status).to.equal('QUEUED');
+    });
+
+    it('should report undelivered messages past retention as expired', async () => {
+        const entry = await mailbox.enqueue(cardId, senderCommit, 'cc'.repeat(32), { content: 'late' });
+        const realNow = Date.now;
+        Date.now = () => realNow() + 2 * 3600 * 1000;
+
+        try {
+            expect((await mailbox.get(entry.messageId))!.status).to.equal('EXPIRED');
+            expect((await mailbox.pull(cardId)).messages.length).to.equal(0);
+        } finally {
+            Date.now = realNow;
+        }
+    });
+});
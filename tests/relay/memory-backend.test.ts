@@ -0,0 +1,57 @@
+/**
+ * Relay Test: In-Memory Storage Backend
+ * Checks the Redis semantics the relay relies on without a live Redis
+ */
+
+import { expect } from 'chai';
+import { MemoryJobQueue, MemoryRelayStore } from '../../relay/storage';
+
+describe('Memory backend', () => {
+    let store: MemoryRelayStore;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should claim dedupe keys once and keep TTLs on replace', async () => {
+        expect(await store.setIfAbsent('msg:abc', '1', 300)).to.equal(true);
+        expect(await store.setIfAbsent('msg:abc', '1', 300)).to.equal(false);
+
+        await store.replace('msg:abc', '2');
+        expect(await store.get('msg:abc')).to.equal('2');
+        expect(await store.ttl('msg:abc')).to.be.within(299, 300);
+        expect(await store.ttl('missing')).to.equal(-2);
+    });
+
+    it('should read streams after a given entry', async () => {
+        const first = await store.appendToStream('inapp:card', { deliveryId: 'a' }, 10);
+        await store.appendToStream('inapp:card', { deliveryId: 'b' }, 10);
+
+        const entries = await store.readStream('inapp:card', first, 10);
+        expect(entries.map(entry => entry.fields.deliveryId)).to.deep.equal(['b']);
+    });
+
+    it('should retry failed jobs and let delayed jobs be removed', async () => {
+        const queue = new MemoryJobQueue();
+        const attempts: number[] = [];
+
+        queue.process('slashBond', async job => {
+            attempts.push(job.attemptsMade);
+            if (job.attemptsMade === 0) {
+                throw new Error('transient');
+            }
+        });
+
+        await queue.add('slashBond', {}, { attempts: 3, backoff: { type: 'fixed', delay: 5 } });
+        await queue.add('slashBond', {}, { jobId: 'disputed', delay: 50 });
+        expect(await queue.remove('disputed')).to.equal(true);
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(attempts).to.deep.equal([0, 1]);
+        await queue.close();
+    });
+});
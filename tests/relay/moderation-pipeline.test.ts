@@ -0,0 +1,78 @@
+/**
+ * Relay Test: Moderation Pipeline
+ * Ensures the worst messages are held back before they reach the card holder
+ */
+
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+import { expect } from 'chai';
+import { EvidenceKeyring } from '../../relay/EvidenceKeyring';
+import { compileModerationPattern, ContentClassifier, ModerationPipeline } from '../../relay/ModerationPipeline';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('ModerationPipeline', () => {
+    const cardId = 'card-dating-alex';
+    const senderCommit = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+    let store: MemoryRelayStore;
+    let pipeline: ModerationPipeline;
+
+    const classifier: ContentClassifier = {
+        classify: async content => ({ label: 'harassment', score: content.includes('worthless') ? 0.99 : 0.1 })
+    };
+
+    beforeEach(async () => {
+        store = new MemoryRelayStore();
+        pipeline = new ModerationPipeline(
+            store,
+            winston.createLogger({ silent: true }),
+            new EvidenceKeyring({ test: randomBytes(32) }, 'test'),
+            ModerationPipeline.defaultAnalyzers(classifier)
+        );
+        await pipeline.setPolicy(cardId, { quarantineKeywords: ['investment'], links: 'QUARANTINE', allowedLinkDomains: ['linkedin.com'] });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should allow, quarantine or reject according to the card policy', async () => {
+        const verdict = async (content: string) => (await pipeline.evaluate({ cardId, senderCommit, content })).verdict;
+
+        expect(await verdict('Loved your talk, here is my profile www.linkedin.com/in/sam')).to.equal('ALLOW');
+        expect(await verdict('Great investment opportunity for you')).to.equal('QUARANTINE');
+        expect(await verdict('Check https://bit.ly/xyz')).to.equal('QUARANTINE');
+        expect(await verdict('You are worthless, check https://bit.ly/xyz')).to.equal('REJECT');
+    });
+
+    it('should hand a quarantined message back exactly once', async () => {
+        const input = { cardId, senderCommit, content: 'Great investment opportunity' };
+        const held = await pipeline.quarantine(input, 'ee'.repeat(32), await pipeline.evaluate(input), input);
+
+        expect((await pipeline.list(cardId)).map(m => m.quarantineId)).to.deep.equal([held.quarantineId]);
+        expect((await pipeline.take(cardId, held.quarantineId))!.payload).to.deep.equal(input);
+        expect(await pipeline.take(cardId, held.quarantineId)).to.equal(null);
+        expect(await pipeline.list(cardId)).to.deep.equal([]);
+    });
+
+    it('should refuse patterns that can backtrack catastrophically', async () => {
+        for (const pattern of ['(a+)+$', '(\\w*x?){2,}', '((ab)*c)+', '(?:[a-z]+\\s?)*!', 'x'.repeat(201)]) {
+            expect(() => compileModerationPattern(pattern), pattern).to.throw(SyntaxError);
+        }
+        for (const pattern of ['(ab)+', '[(a+)]+', '\\(a+\\)+', 'crypto\\s+(wallet|seed)', '(?<coin>btc|eth)']) {
+            expect(() => compileModerationPattern(pattern), pattern).to.not.throw();
+        }
+
+        let error: Error | undefined;
+        await pipeline.setPolicy(cardId, { rejectPatterns: ['seed phrase', '(a|aa+)*b'] }).catch(e => { error = e; });
+        expect(error).to.be.instanceOf(SyntaxError);
+        expect((await pipeline.getPolicy(cardId)).rejectPatterns).to.deep.equal([]);
+    });
+
+    it('should match patterns against the start of long messages only', async () => {
+        await pipeline.setPolicy(cardId, { rejectPatterns: ['seed\\s+phrase'] });
+        const verdict = async (content: string) => (await pipeline.evaluate({ cardId, senderCommit, content })).verdict;
+
+        expect(await verdict('Send me your SEED  phrase')).to.equal('REJECT');
+        expect(await verdict(`${'a'.repeat(10_000)} seed phrase`)).to.equal('ALLOW');
+    });
+});
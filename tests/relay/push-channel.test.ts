@@ -0,0 +1,136 @@
+/**
+ * Relay Test: Web Push Channel
+ * Ensures payloads are encrypted to the subscription, fit one record and gone subscriptions are pruned
+ */
+
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from 'crypto';
+import winston from 'winston';
+import webpush from 'web-push';
+import { expect } from 'chai';
+import { EvidenceKeyring } from '../../relay/EvidenceKeyring';
+import { PushChannel, PushRequest } from '../../relay/PushChannel';
+import { MemoryRelayStore } from '../../relay/storage';
+
+/**
+ * A browser-side subscription that can decrypt what the relay sends it (RFC 8291)
+ */
+function createSubscriber(endpoint: string) {
+    const ecdh = createECDH('prime256v1');
+    const publicKey = ecdh.generateKeys();
+    const auth = randomBytes(16);
+
+    return {
+        subscription: { endpoint, keys: { p256dh: publicKey.toString('base64url'), auth: auth.toString('base64url') } },
+        decrypt(body: Buffer): any {
+            const salt = body.subarray(0, 16);
+            const keyIdLength = body[20];
+            const serverKey = body.subarray(21, 21 + keyIdLength);
+            const record = body.subarray(21 + keyIdLength);
+
+            const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), publicKey, serverKey]);
+            const ikm = Buffer.from(hkdfSync('sha256', ecdh.computeSecret(serverKey), auth, keyInfo, 32));
+            const key = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+            const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+            const decipher = createDecipheriv('aes-128-gcm', key, nonce);
+            decipher.setAuthTag(record.subarray(record.length - 16));
+            const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+            // The last record ends with a 0x02 delimiter followed by zero padding
+            return JSON.parse(padded.subarray(0, padded.lastIndexOf(2)).toString('utf8'));
+        }
+    };
+}
+
+describe('PushChannel', () => {
+    const cardId = 'card-devcon-sarah';
+    const message = { content: 'Hi, we met at the devcon booth', senderCommit: 'ab', cardId, timestamp: 1 };
+    let store: MemoryRelayStore;
+    let requests: PushRequest[];
+    let responses: Record<string, number[]>;
+    let channel: PushChannel;
+
+    const retry = async <T>(operation: () => Promise<T>): Promise<T> => {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await operation();
+            } catch (error) {
+                if (attempt === 3) {
+                    throw error;
+                }
+            }
+        }
+    };
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        requests = [];
+        responses = {};
+        channel = new PushChannel(store, winston.createLogger({ silent: true }), new EvidenceKeyring({ v1: randomBytes(32) }, 'v1'), retry, {
+            vapidKeys: webpush.generateVAPIDKeys(),
+            sender: async request => {
+                requests.push(request);
+                return { statusCode: responses[request.endpoint]?.shift() ?? 201 };
+            }
+        });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should encrypt the notification to the subscription\'s keys', async () => {
+        const subscriber = createSubscriber('https://push.example/device-1');
+        await channel.subscribe(cardId, subscriber.subscription);
+
+        const delivery = await channel.send(message);
+        expect(delivery).to.include({ success: true, accepted: 1, pruned: 0 });
+
+        const [request] = requests;
+        expect(request.headers['Content-Encoding']).to.equal('aes128gcm');
+        expect(request.headers['Authorization']).to.match(/^vapid t=/);
+        expect(request.body!.includes(Buffer.from('devcon'))).to.equal(false);
+        expect(subscriber.decrypt(request.body!)).to.deep.equal({
+            type: 'bonded-intro',
+            deliveryId: delivery.deliveryId,
+            cardId,
+            senderCommit: 'ab',
+            timestamp: 1,
+            preview: message.content
+        });
+    });
+
+    it('should keep multi-byte previews within one record and leave sealed content out', async () => {
+        const subscriber = createSubscriber('https://push.example/device-1');
+        await channel.subscribe(cardId, subscriber.subscription);
+
+        await channel.send({ ...message, content: '👋"'.repeat(2000) });
+        expect(requests[0].body!.length).to.be.at.most(4096);
+        const { preview } = subscriber.decrypt(requests[0].body!);
+        expect(preview.length).to.be.above(1000);
+        expect(preview).to.match(/^(👋")+$/u);
+
+        await channel.send({ ...message, contentCommitment: 'cd'.repeat(32) });
+        expect(subscriber.decrypt(requests[1].body!).preview).to.equal('');
+    });
+
+    it('should retry transient failures and prune subscriptions the push service reports gone', async () => {
+        const flaky = createSubscriber('https://push.example/flaky');
+        const gone = createSubscriber('https://push.example/gone');
+        await channel.subscribe(cardId, flaky.subscription);
+        await channel.subscribe(cardId, gone.subscription);
+        responses[flaky.subscription.endpoint] = [503, 429, 201];
+        responses[gone.subscription.endpoint] = [410];
+
+        const delivery = await channel.send(message);
+        expect(delivery).to.include({ success: true, accepted: 1, pruned: 1 });
+        expect(requests.filter(request => request.endpoint === flaky.subscription.endpoint).length).to.equal(3);
+
+        const remaining = Object.values(await store.hashGetAll(`push_subs:${cardId}`)).map(value => JSON.parse(value).endpoint);
+        expect(remaining).to.deep.equal([flaky.subscription.endpoint]);
+
+        await channel.unsubscribe(cardId, flaky.subscription.endpoint);
+        let error: Error | undefined;
+        await channel.send(message).catch(e => { error = e; });
+        expect(error!.message).to.equal('No push subscriptions registered for card');
+    });
+});
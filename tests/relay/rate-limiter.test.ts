@@ -0,0 +1,106 @@
+/**
+ * Relay Test: Sliding-Window Rate Limiter
+ * Ensures a flooded card is protected even when every sender stays under its own limit
+ */
+
+import winston from 'winston';
+import { expect } from 'chai';
+import { RateLimiter } from '../../relay/RateLimiter';
+import { MemoryRelayStore } from '../../relay/storage';
+import { createSigner, createTestRelay, signedMessage, TEST_CARD, TEST_SENDER } from './relay-fixture';
+
+describe('RateLimiter', () => {
+    const newSender = { totalBonds: 0, slashedCount: 0 };
+    let store: MemoryRelayStore;
+    let limiter: RateLimiter;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        limiter = new RateLimiter(store, winston.createLogger({ silent: true }), { windowSeconds: 3600 });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should place senders in tiers from their bond and slash history', () => {
+        expect(limiter.tierFor({ totalBonds: 25, slashedCount: 0 }).name).to.equal('TRUSTED');
+        expect(limiter.tierFor({ totalBonds: 25, slashedCount: 1 }).name).to.equal('PROBATION');
+        expect(limiter.tierFor({ totalBonds: 2, slashedCount: 6 }).name).to.equal('RESTRICTED');
+    });
+
+    it('should demote senders that recipients reported as spam', () => {
+        expect(limiter.tierFor({ totalBonds: 25, slashedCount: 0, spamReports: 1 }).name).to.equal('ESTABLISHED');
+        expect(limiter.tierFor({ totalBonds: 25, slashedCount: 0, spamReports: 3 }).name).to.equal('PROBATION');
+        expect(limiter.tierFor({ totalBonds: 1, slashedCount: 0, spamReports: 2 }).name).to.equal('NEW');
+    });
+
+    it('should enforce the card quota across many senders with a retry hint', async () => {
+        await limiter.setCardQuota('card-keynote-speaker', { perCard: 3, perSender: 1 });
+
+        for (const sender of ['s1', 's2', 's3']) {
+            expect((await limiter.consume('card-keynote-speaker', sender, newSender)).allowed).to.equal(true);
+        }
+
+        const decision = await limiter.consume('card-keynote-speaker', 's4', newSender);
+        expect(decision).to.include({ allowed: false, scope: 'card' });
+        expect(decision.retryAfter).to.be.within(1, 3600);
+    });
+
+    it('should admit exactly the limit when requests race and take rejected ones back out', async () => {
+        // NEW senders may send two messages to one card per window
+        const decisions = await Promise.all([1, 2, 3, 4, 5].map(() => limiter.consume('card-1', 's1', newSender)));
+        expect(decisions.filter(decision => decision.allowed).length).to.equal(2);
+        expect(decisions.filter(decision => !decision.allowed).every(decision => decision.scope === 'pair')).to.equal(true);
+
+        const window = Math.floor(Date.now() / 3600_000);
+        expect(await store.get(`rate:pair:card-1:s1:${window}`)).to.equal('2');
+        expect(await store.get(`rate:card:card-1:${window}`)).to.equal('2');
+        expect(await store.ttl(`rate:pair:card-1:s1:${window}`)).to.be.within(7199, 7200);
+    });
+
+    it('should count upload bytes against the sender\'s and the card\'s byte quotas', async () => {
+        limiter = new RateLimiter(store, winston.createLogger({ silent: true }), {
+            windowSeconds: 3600,
+            uploadQuota: { perSender: 1000, perCard: 1500 }
+        });
+
+        expect((await limiter.consumeBytes('card-1', 's1', 600)).allowed).to.equal(true);
+        expect((await limiter.consumeBytes('card-1', 's1', 400)).allowed).to.equal(true);
+        expect(await limiter.consumeBytes('card-1', 's1', 1)).to.include({ allowed: false, scope: 'sender' });
+        expect((await limiter.consumeBytes('card-1', 's2', 500)).allowed).to.equal(true);
+
+        const decision = await limiter.consumeBytes('card-1', 's3', 1);
+        expect(decision).to.include({ allowed: false, scope: 'card' });
+        expect(decision.retryAfter).to.be.within(1, 3600);
+        // Larger than the quota itself: never accepted, so no retry hint
+        expect(await limiter.consumeBytes('card-2', 's4', 2000)).to.deep.equal({ allowed: false, scope: 'sender' });
+
+        const window = Math.floor(Date.now() / 3600_000);
+        expect(await store.get(`rate:upload_card:card-1:${window}`)).to.equal('1500');
+        expect(await store.get(`rate:upload_sender:s1:${window}`)).to.equal('1000');
+    });
+
+    it('should not count forged or replayed messages against the sender', async () => {
+        const { relay, close } = await createTestRelay();
+        const sender = createSigner();
+        const verify = (message = signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER })) =>
+            relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, message);
+        try {
+            for (let i = 0; i < 3; i++) {
+                const forged = { ...signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER }), content: 'Spoofed' };
+                expect((await verify(forged)).reason).to.equal('INVALID_SIGNATURE');
+            }
+
+            // The fixture's sender is ESTABLISHED, so three messages per window reach the card
+            const first = signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER });
+            expect((await verify(first)).verified).to.equal(true);
+            expect((await verify(first)).reason).to.equal('REPLAYED');
+            expect((await verify()).verified).to.equal(true);
+            expect((await verify()).verified).to.equal(true);
+            expect(await verify()).to.include({ verified: false, reason: 'RATE_LIMITED' });
+        } finally {
+            await close();
+        }
+    });
+});
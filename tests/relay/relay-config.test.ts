@@ -0,0 +1,63 @@
+/**
+ * Relay Test: Relay Config
+ * Ensures file and env settings are layered, validated and split into reloadable and structural
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { expect } from 'chai';
+import { defaultRelayConfig, loadRelayConfig, RelayConfigError, structuralChanges } from '../../relay/RelayConfig';
+
+describe('RelayConfig', () => {
+    const writeConfig = (contents: unknown) => {
+        const file = join(mkdtempSync(join(tmpdir(), 'relay-config-')), 'relay.json');
+        writeFileSync(file, JSON.stringify(contents));
+        return file;
+    };
+
+    it('should layer the file over defaults and env over the file', () => {
+        const file = writeConfig({
+            bonds: { defaultRequiredAmount: '2500000' },
+            attestations: { defaultChallengeWindowHours: 48 },
+            messages: { clockSkewSeconds: 120 }
+        });
+
+        const config = loadRelayConfig({
+            file,
+            env: { RELAY_CLOCK_SKEW_SECONDS: '300', REDIS_PASSWORD: 'secret', RELAY_EVIDENCE_RETENTION_DAYS: '60' }
+        });
+
+        expect(config.bonds.defaultRequiredAmount).to.equal('2500000');
+        expect(config.bonds.cacheTtlSeconds).to.equal(300);
+        expect(config.attestations.defaultChallengeWindowHours).to.equal(48);
+        expect(config.messages.clockSkewSeconds).to.equal(300);
+        expect(config.storage.redis.password).to.equal('secret');
+        expect(config.retention.policies.evidence.maxAgeSeconds).to.equal(60 * 24 * 3600);
+    });
+
+    it('should name every invalid setting and where it came from', () => {
+        const file = writeConfig({ bonds: { cacheTTL: 60 }, delivery: { maxAttempts: 0 } });
+
+        try {
+            loadRelayConfig({ file, env: { REDIS_PORT: 'six', RELAY_STORAGE: 'disk' } });
+            expect.fail('expected a RelayConfigError');
+        } catch (error) {
+            expect(error instanceof RelayConfigError).to.equal(true);
+            const problems = (error as RelayConfigError).problems.join('\n');
+            expect(problems.includes('bonds.cacheTTL: unknown setting')).to.equal(true);
+            expect(problems.includes('delivery.maxAttempts: must be >= 1')).to.equal(true);
+            expect(problems.includes('storage.redis.port (from REDIS_PORT)')).to.equal(true);
+            expect(problems.includes('storage.backend (from RELAY_STORAGE)')).to.equal(true);
+        }
+    });
+
+    it('should report structural changes that need a restart', () => {
+        const current = defaultRelayConfig();
+        const next = defaultRelayConfig();
+        next.storage.redis.host = 'redis.internal';
+        next.bonds.cacheTtlSeconds = 60;
+
+        expect(structuralChanges(current, next)).to.deep.equal(['storage.redis.host']);
+    });
+});
@@ -0,0 +1,202 @@
+/**
+ * Relay Test Fixture
+ * An in-memory SelectConnectRelay over a scripted contract, with job queues the test drains by hand
+ */
+
+import { createHash, generateKeyPairSync, KeyObject, randomBytes, sign } from 'crypto';
+import winston from 'winston';
+import { SelectConnectRelay, MessagePayload, RelayOptions } from '../../relay/RelayService';
+import { CardAdminProof, deriveSenderAddress } from '../../relay/SignatureVerifier';
+import { JobCounts, JobHandler, JobOptions, JobQueue, MemoryRelayStore, QueuedJob, RelayBackend } from '../../relay/storage';
+
+export const sha256 = (input: string): string => createHash('sha256').update(input).digest('hex');
+
+/**
+ * JobQueue that only runs jobs when the test asks, ignoring delays
+ */
+export class ManualJobQueue implements JobQueue {
+    readonly pending: { job: QueuedJob; options: JobOptions }[] = [];
+    private handlers: Map<string, JobHandler> = new Map();
+
+    async add<T>(name: string, data: T, options: JobOptions = {}): Promise<string> {
+        const id = options.jobId || randomBytes(8).toString('hex');
+        if (!this.pending.some(entry => entry.job.id === id)) {
+            this.pending.push({ job: { id, name, data, attemptsMade: 0 }, options });
+        }
+        return id;
+    }
+
+    process<T>(name: string, handler: JobHandler<T>): void {
+        this.handlers.set(name, handler as JobHandler);
+    }
+
+    async remove(jobId: string): Promise<boolean> {
+        const index = this.pending.findIndex(entry => entry.job.id === jobId);
+        if (index === -1) {
+            return false;
+        }
+        this.pending.splice(index, 1);
+        return true;
+    }
+
+    async getCounts(): Promise<JobCounts> {
+        return { waiting: this.pending.length, active: 0, delayed: 0, failed: 0 };
+    }
+
+    async isReady(): Promise<void> {
+        return;
+    }
+
+    async close(): Promise<void> {
+        this.pending.length = 0;
+    }
+
+    /**
+     * Run every pending job once; failed jobs stay queued until their attempts are used up
+     */
+    async runPending(): Promise<Error[]> {
+        const errors: Error[] = [];
+        for (const entry of this.pending.splice(0)) {
+            try {
+                await this.handlers.get(entry.job.name)!(entry.job);
+            } catch (error) {
+                errors.push(error as Error);
+                const attemptsMade = entry.job.attemptsMade + 1;
+                if (attemptsMade < (entry.options.attempts || 1)) {
+                    this.pending.push({ job: { ...entry.job, attemptsMade }, options: entry.options });
+                }
+            }
+        }
+        return errors;
+    }
+}
+
+export interface TestSigner {
+    publicKey: string;
+    address: string;
+    /** Proof over sha256 of a challenge string, as clients sign relay challenges */
+    prove(challenge: string): CardAdminProof;
+    signDigest(digest: string): string;
+}
+
+export function createSigner(): TestSigner {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const raw = (publicKey.export({ format: 'der', type: 'spki' }) as Buffer).subarray(12).toString('hex');
+    const signDigest = (digest: string) => sign(null, Buffer.from(digest, 'hex'), privateKey as KeyObject).toString('hex');
+    return {
+        publicKey: raw,
+        address: deriveSenderAddress('ed25519', raw),
+        prove: challenge => ({ publicKey: raw, keyType: 'ed25519', signature: signDigest(sha256(challenge)) }),
+        signDigest
+    };
+}
+
+/**
+ * Proof and timestamp for reading a card's metadata, as the card admin signs it
+ */
+export function cardReadProof(signer: TestSigner, cardId: string, resource: string): { adminProof: CardAdminProof; timestamp: number } {
+    const timestamp = Date.now();
+    return { adminProof: signer.prove(`selectconnect:read:${cardId}:${resource}:${timestamp}`), timestamp };
+}
+
+/**
+ * Message payload signed the way senders sign it (see hashMessage)
+ */
+export function signedMessage(sender: TestSigner, fields: Partial<MessagePayload> & { cardId: string; senderCommit: string }): MessagePayload {
+    const payload = {
+        content: 'Hi, we met at the devcon booth',
+        timestamp: Date.now(),
+        nonce: randomBytes(16).toString('hex'),
+        ...fields
+    } as MessagePayload;
+    const digest = sha256(JSON.stringify({
+        content: payload.content,
+        contentCommitment: payload.contentCommitment,
+        senderCommit: payload.senderCommit,
+        cardId: payload.cardId,
+        timestamp: payload.timestamp,
+        nonce: payload.nonce,
+        routeCode: payload.routeCode,
+        attachments: payload.attachments?.map(({ hash, mimeType, size, filename }) => ({ hash, mimeType, size, filename }))
+    }));
+    return {
+        ...payload,
+        senderAddress: sender.address,
+        senderPublicKey: sender.publicKey,
+        senderKeyType: 'ed25519',
+        signature: sender.signDigest(digest)
+    };
+}
+
+export type ContractMethod = (args: any[]) => any;
+
+export interface TestRelay {
+    relay: SelectConnectRelay;
+    store: MemoryRelayStore;
+    /** Card admin of every card */
+    admin: TestSigner;
+    /** Contract calls in order, for both contracts */
+    calls: { method: string; args: any[] }[];
+    queue(name: string): ManualJobQueue;
+    close(): Promise<void>;
+}
+
+export const TEST_CARD = 'card-devcon-sarah';
+export const TEST_SENDER = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+
+/**
+ * Relay whose card admin is a fresh key and whose TEST_SENDER holds one bond on TEST_CARD
+ */
+export async function createTestRelay(
+    contract: Record<string, ContractMethod> = {},
+    options: RelayOptions = {}
+): Promise<TestRelay> {
+    const admin = createSigner();
+    const calls: { method: string; args: any[] }[] = [];
+    const methods: Record<string, ContractMethod> = {
+        getCardAdmin: () => admin.address,
+        getDeliveryPreferences: () => ({ channels: ['in-app'] }),
+        isAuthorizedGuardian: () => false,
+        getSenderReputation: () => [5, 0],
+        queryLedger: () => [
+            ['bond-1', [sha256(TEST_CARD), sha256(TEST_SENDER), 10n, Date.now() + 3600_000, false, false]]
+        ],
+        ...contract
+    };
+    const provider: any = {
+        getContract: async () => ({
+            call: async (method: string, args: any[]) => {
+                calls.push({ method, args });
+                return methods[method] ? await methods[method](args) : true;
+            }
+        })
+    };
+
+    const store = new MemoryRelayStore();
+    const queues: Map<string, ManualJobQueue> = new Map();
+    const backend: RelayBackend = {
+        store,
+        createQueue: name => {
+            const queue = new ManualJobQueue();
+            queues.set(name, queue);
+            return queue;
+        }
+    };
+
+    const relay = new SelectConnectRelay(provider, 'abuse-escrow', 'selectconnect', randomBytes(32).toString('hex'), {
+        backend,
+        logger: winston.createLogger({ silent: true }),
+        ...options
+    });
+    // Contracts are attached asynchronously by the constructor
+    await new Promise(resolve => setImmediate(resolve));
+
+    return {
+        relay,
+        store,
+        admin,
+        calls,
+        queue: name => queues.get(name)!,
+        close: () => relay.close()
+    };
+}
@@ -0,0 +1,71 @@
+/**
+ * Relay Test: Metrics
+ * Ensures verification, forwarding and queue activity shows up in the relay's Prometheus registry
+ */
+
+import { expect } from 'chai';
+import { RelayMetrics } from '../../relay/RelayMetrics';
+import { createSigner, createTestRelay, ManualJobQueue, signedMessage, TEST_CARD, TEST_SENDER, TestRelay } from './relay-fixture';
+
+describe('RelayMetrics', () => {
+    let t: TestRelay;
+
+    /**
+     * Value of one sample in the text exposition, or undefined when it was never recorded
+     */
+    const sample = async (line: string): Promise<number | undefined> => {
+        const { body } = await t.relay.getMetrics();
+        const match = body.split('\n').find(entry => entry.startsWith(`${line} `));
+        return match === undefined ? undefined : Number(match.slice(line.length + 1));
+    };
+
+    beforeEach(async () => {
+        t = await createTestRelay();
+    });
+
+    afterEach(async () => {
+        await t.close();
+    });
+
+    it('should count verification outcomes and bond cache lookups', async () => {
+        const sender = createSigner();
+        const message = signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER });
+        expect((await t.relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, message)).verified).to.equal(true);
+        const tampered = { ...signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER }), content: 'Changed in transit' };
+        expect((await t.relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, tampered)).reason).to.equal('INVALID_SIGNATURE');
+
+        expect(await sample('relay_bond_verifications_total{reason="VERIFIED"}')).to.equal(1);
+        expect(await sample('relay_bond_verifications_total{reason="INVALID_SIGNATURE"}')).to.equal(1);
+        expect(await sample('relay_bond_cache_lookups_total{result="MISS"}')).to.equal(1);
+        expect(await sample('relay_bond_cache_lookups_total{result="HIT"}')).to.equal(1);
+    });
+
+    it('should count forwards by channel and read queue depth at scrape time', async () => {
+        const message = signedMessage(createSigner(), { cardId: TEST_CARD, senderCommit: TEST_SENDER });
+        const verification = await t.relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, message);
+
+        // Nobody is subscribed in-app, so the message waits in the mailbox for a retry
+        const forwarded = await t.relay.forwardMessage(message, verification);
+        expect(forwarded.deliveryResult!.status).to.equal('QUEUED');
+        expect(await sample('relay_forwards_total{channel="in-app",outcome="failure"}')).to.equal(1);
+        expect(await sample('relay_forwards_total{channel="in-app",outcome="success"}')).to.equal(undefined);
+        expect(await sample('relay_queue_jobs{queue="mailbox_delivery",state="waiting"}')).to.equal(1);
+
+        t.queue('mailbox delivery').pending.length = 0;
+        expect(await sample('relay_queue_jobs{queue="mailbox_delivery",state="waiting"}')).to.equal(0);
+    });
+
+    it('should report every state of every queue it is given', async () => {
+        const queue = new ManualJobQueue();
+        await queue.add('deliverMessage', {});
+        await queue.add('deliverMessage', {});
+        const metrics = new RelayMetrics({ mailbox_delivery: queue });
+
+        const body = await metrics.registry.metrics();
+        expect(body).to.include('relay_queue_jobs{queue="mailbox_delivery",state="waiting"} 2');
+        for (const state of ['active', 'delayed', 'failed']) {
+            expect(body).to.include(`relay_queue_jobs{queue="mailbox_delivery",state="${state}"} 0`);
+        }
+        expect(metrics.contentType).to.match(/^text\/plain/);
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Relay Test: HTTP API
+ * Ensures routes that can slash a bond refuse callers who cannot prove their key,
+ * that card metadata, retention reports and audit entries are only shown to the card admin and the operator,
+ * and that unsigned verification failures leave no audit entry
+ */
+
+import { createHmac } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { expect } from 'chai';
+import { RelayServer } from '../../relay/RelayServer';
+import { cardReadProof, createSigner, createTestRelay, sha256, signedMessage, TEST_CARD, TestRelay } from './relay-fixture';
+
+describe('RelayServer', () => {
+    const senderProof = { senderDid: 'did:midnight:alex', salt: 'f00dfeed' };
+    const senderCommit = createHmac('sha256', senderProof.salt).update(TEST_CARD).update(senderProof.senderDid).digest('hex');
+    const evidenceHash = sha256('evidence-1');
+    const operatorToken = 'operator-token-for-tests';
+    let t: TestRelay;
+    let http: Server;
+
+    const post = async (path: string, body: unknown) => {
+        const response = await fetch(`http://127.0.0.1:${(http.address() as AddressInfo).port}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() as any };
+    };
+    const get = async (path: string, headers: Record<string, string> = {}) => {
+        const response = await fetch(`http://127.0.0.1:${(http.address() as AddressInfo).port}${path}`, { headers });
+        return { status: response.status, body: await response.json() as any };
+    };
+    const attest = (proof?: unknown) => post('/v1/attestations', {
+        cardId: TEST_CARD,
+        senderCommit,
+        evidenceHash,
+        attestor: t.admin.address,
+        ...(proof !== undefined && { attestorProof: proof })
+    });
+
+    beforeEach(async () => {
+        t = await createTestRelay({
+            queryLedger: () => [['bond-1', [sha256(TEST_CARD), sha256(senderCommit), 10n, Date.now() + 3600_000, false, false]]]
+        });
+        http = new RelayServer(t.relay, undefined, operatorToken).getApp().listen(0);
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => http.close(resolve));
+        await t.close();
+    });
+
+    it('should refuse unsigned and forged abuse attestations naming the card admin', async () => {
+        const unsigned = await attest();
+        expect(unsigned.status).to.equal(401);
+        expect(unsigned.body.error.code).to.equal('ATTESTOR_PROOF_REQUIRED');
+
+        // Signed by another key while claiming the admin's public address
+        const forged = await attest(createSigner().prove(`selectconnect:attest:${TEST_CARD}:${senderCommit}:${evidenceHash}`));
+        expect(forged.status).to.equal(403);
+        expect(forged.body.error.code).to.equal('UNAUTHORIZED_ATTESTOR');
+
+        const otherEvidence = await attest(t.admin.prove(`selectconnect:attest:${TEST_CARD}:${senderCommit}:${sha256('other')}`));
+        expect(otherEvidence.status).to.equal(403);
+        expect(t.queue('bond slashing').pending).to.deep.equal([]);
+
+        const signed = await attest(t.admin.prove(`selectconnect:attest:${TEST_CARD}:${senderCommit}:${evidenceHash}`));
+        expect(signed.status).to.equal(201);
+        expect(t.queue('bond slashing').pending.length).to.equal(1);
+    });
+
+    it('should refuse dispute decisions that are unsigned or signed by anyone but the admin', async () => {
+        const { body: attested } = await attest(t.admin.prove(`selectconnect:attest:${TEST_CARD}:${senderCommit}:${evidenceHash}`));
+        const { attestationId } = attested;
+        expect((await post(`/v1/attestations/${attestationId}/dispute`, { counterEvidenceHash: sha256('counter'), senderProof })).status)
+            .to.equal(200);
+
+        const unsigned = await post(`/v1/attestations/${attestationId}/resolve`, { decision: 'UPHOLD', graceHours: 0 });
+        expect(unsigned.status).to.equal(401);
+        expect(unsigned.body.error.code).to.equal('RESOLVER_PROOF_REQUIRED');
+
+        // The accused sender cannot dismiss its own dispute
+        const accused = createSigner();
+        const dismissed = await post(`/v1/attestations/${attestationId}/resolve`, {
+            decision: 'DISMISS',
+            resolverProof: accused.prove(`selectconnect:resolve:${attestationId}:DISMISS:0`)
+        });
+        expect(dismissed.status).to.equal(403);
+        expect(dismissed.body.error.code).to.equal('UNAUTHORIZED_RESOLVER');
+
+        const upheld = await post(`/v1/attestations/${attestationId}/resolve`, {
+            decision: 'UPHOLD',
+            graceHours: 0,
+            resolverProof: t.admin.prove(`selectconnect:resolve:${attestationId}:UPHOLD:0`)
+        });
+        expect(upheld.status).to.equal(200);
+        expect(upheld.body.disputeState).to.equal('UPHELD');
+    });
+
+    it('should only show a card\'s quarantine, disputes and moderation policy to its admin', async () => {
+        const unsigned = await post(`/v1/cards/${TEST_CARD}/quarantine/read`, { timestamp: Date.now() });
+        expect(unsigned.status).to.equal(401);
+        expect(unsigned.body.error.code).to.equal('ADMIN_PROOF_REQUIRED');
+
+        const forged = await post(`/v1/cards/${TEST_CARD}/quarantine/read`, cardReadProof(createSigner(), TEST_CARD, 'quarantine'));
+        expect(forged.status).to.equal(403);
+        expect(forged.body.error.code).to.equal('UNAUTHORIZED_CARD_ADMIN');
+
+        // The proof names what is read
+        expect((await post(`/v1/cards/${TEST_CARD}/disputes/read`, cardReadProof(t.admin, TEST_CARD, 'quarantine'))).status).to.equal(403);
+
+        const stale = { ...cardReadProof(t.admin, TEST_CARD, 'quarantine'), timestamp: Date.now() - 3600_000 };
+        expect((await post(`/v1/cards/${TEST_CARD}/quarantine/read`, stale)).body.error.code).to.equal('STALE_REQUEST');
+
+        const quarantine = await post(`/v1/cards/${TEST_CARD}/quarantine/read`, cardReadProof(t.admin, TEST_CARD, 'quarantine'));
+        expect(quarantine.status).to.equal(200);
+        expect(quarantine.body.messages).to.deep.equal([]);
+        expect((await post(`/v1/cards/${TEST_CARD}/disputes/read`, cardReadProof(t.admin, TEST_CARD, 'disputes'))).body.attestationIds)
+            .to.deep.equal([]);
+        expect((await post(`/v1/cards/${TEST_CARD}/moderation-policy/read`, cardReadProof(t.admin, TEST_CARD, 'moderation-policy'))).status)
+            .to.equal(200);
+    });
+
+    it('should only list retention reports for the operator\'s token', async () => {
+        expect((await get('/v1/retention/reports')).status).to.equal(401);
+        const wrong = await get('/v1/retention/reports', { Authorization: 'Bearer not-the-operator' });
+        expect(wrong.status).to.equal(401);
+        expect(wrong.body.error.code).to.equal('OPERATOR_AUTH_REQUIRED');
+
+        const listed = await get('/v1/retention/reports', { Authorization: `Bearer ${operatorToken}` });
+        expect(listed.status).to.equal(200);
+        expect((await get('/v1/retention/reports/unknown', { Authorization: `Bearer ${operatorToken}` })).status).to.equal(404);
+    });
+
+    it('should only serve audit entries to the operator and leave unsigned verification failures out', async () => {
+        const message = signedMessage(createSigner(), { cardId: TEST_CARD, senderCommit });
+        const forged = await post('/v1/bonds/verify', { cardId: TEST_CARD, senderCommit, message: { ...message, content: 'Forged' } });
+        expect(forged.body.error.code).to.equal('INVALID_SIGNATURE');
+        expect(await t.relay.getAuditEntries(1, 100)).to.deep.equal([]);
+        expect((await post('/v1/bonds/verify', { cardId: TEST_CARD, senderCommit, message })).status).to.equal(200);
+
+        expect((await get('/v1/audit/entries')).status).to.equal(401);
+        expect((await get('/v1/audit/checkpoints')).status).to.equal(200);
+
+        const { status, body } = await get('/v1/audit/entries', { Authorization: `Bearer ${operatorToken}` });
+        expect(status).to.equal(200);
+        expect(body.entries.map((entry: any) => [entry.type, entry.data.outcome])).to.deep.equal([['VERIFICATION', 'VERIFIED']]);
+        expect(JSON.stringify(body.entries)).not.to.include(TEST_CARD).and.not.to.include(senderCommit);
+    });
+});
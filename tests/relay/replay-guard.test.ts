@@ -0,0 +1,52 @@
+/**
+ * Relay Test: Replay Guard
+ * Ensures each signed nonce is accepted once, drifting clocks are tolerated and forwarding claims outlive their attestation
+ */
+
+import { randomBytes } from 'crypto';
+import winston from 'winston';
+import { expect } from 'chai';
+import { ReplayGuard } from '../../relay/ReplayGuard';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('ReplayGuard', () => {
+    const sender = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+    let store: MemoryRelayStore;
+    let guard: ReplayGuard;
+
+    beforeEach(() => {
+        store = new MemoryRelayStore();
+        guard = new ReplayGuard(store, winston.createLogger({ silent: true }), { clockSkewSeconds: 600 });
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should accept a nonce once per sender', async () => {
+        const nonce = randomBytes(16).toString('hex');
+        const now = Date.now();
+
+        expect((await guard.consumeNonce(sender, nonce, now)).valid).to.equal(true);
+        expect((await guard.consumeNonce(sender.substring(2).toUpperCase(), nonce, now)).reason).to.equal('REPLAYED');
+        expect((await guard.consumeNonce('0x1111111111111111111111111111111111111111', nonce, now)).valid).to.equal(true);
+        expect((await guard.consumeNonce(sender, randomBytes(16).toString('hex'), now)).valid).to.equal(true);
+    });
+
+    it('should tolerate clock skew in both directions and reject beyond it', async () => {
+        const minutes = (n: number) => n * 60 * 1000;
+
+        expect((await guard.consumeNonce(sender, randomBytes(16).toString('hex'), Date.now() - minutes(8))).valid).to.equal(true);
+        expect((await guard.consumeNonce(sender, randomBytes(16).toString('hex'), Date.now() + minutes(8))).valid).to.equal(true);
+        expect((await guard.consumeNonce(sender, randomBytes(16).toString('hex'), Date.now() - minutes(11))).reason).to.equal('STALE');
+        expect((await guard.consumeNonce(sender, 'not-a-nonce', Date.now())).reason).to.equal('INVALID_NONCE');
+    });
+
+    it('should hold forwarding claims for the attestation lifetime plus the skew tolerance', async () => {
+        const reloaded = new ReplayGuard(store, winston.createLogger({ silent: true }), { clockSkewSeconds: 120, maxAgeSeconds: 900 });
+
+        expect(await reloaded.claimForwarding('ab')).to.equal(true);
+        expect(await reloaded.claimForwarding('ab')).to.equal(false);
+        expect(await store.ttl('forwarded:ab')).to.equal(1020);
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * Relay Test: Retention Engine
+ * Ensures policies cap key lifetimes and erasure spares evidence under open dispute
+ */
+
+import winston from 'winston';
+import { expect } from 'chai';
+import { RetentionEngine } from '../../relay/RetentionEngine';
+import { MemoryRelayStore } from '../../relay/storage';
+
+describe('RetentionEngine', () => {
+    const cardId = 'card-devcon-sarah';
+    const senderCommit = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+    const subjects: Record<string, { cardId: string; senderCommit: string }> = {
+        disputed: { cardId, senderCommit },
+        settled: { cardId, senderCommit }
+    };
+    let store: MemoryRelayStore;
+    let engine: RetentionEngine;
+
+    const attestation = (evidenceHash: string, disputeState: string) => JSON.stringify({
+        evidenceHash,
+        cardId,
+        senderCommit,
+        disputeState,
+        challengeEndTime: Date.now() - 1000
+    });
+
+    beforeEach(async () => {
+        store = new MemoryRelayStore();
+        engine = new RetentionEngine(
+            store,
+            winston.createLogger({ silent: true }),
+            async evidenceHash => (await store.get(`evidence:${evidenceHash}`)) ? subjects[evidenceHash] : null,
+            { policies: { dedupe: { maxAgeSeconds: 60 } } }
+        );
+
+        await store.set('attestation:a1', attestation('disputed', 'DISPUTED'), 3600);
+        await store.set('attestation:a2', attestation('settled', 'UPHELD'), 3600);
+        for (const hash of ['disputed', 'settled']) {
+            await store.set(`evidence:${hash}`, 'sealed', 3600);
+            await store.set(`receipts:${hash}`, '{}', 3600);
+        }
+        await store.set(`email_recipient:${cardId}`, 'sealed');
+        await store.set(`rate:pair:${cardId}:${senderCommit}:1`, '3', 7200);
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should cap lifetimes, drop orphaned evidence records and keep a report', async () => {
+        await store.set('forwarded:m1', '1');
+        await store.set('evidence_reveal:gone', 'sealed');
+
+        const report = (await engine.enforcePolicies())!;
+
+        expect(await store.ttl('forwarded:m1')).to.equal(60);
+        expect(await store.get('evidence_reveal:gone')).to.equal(null);
+        expect(report.classes.dedupe!.capped).to.equal(1);
+        expect(report.classes.evidence!.deleted).to.equal(1);
+        expect(report.openAttestations).to.equal(1);
+        expect((await engine.listReports()).reports.map(r => r.reportId)).to.deep.equal([report.reportId]);
+    });
+
+    it('should erase a card but keep evidence tied to an open dispute', async () => {
+        const report = await engine.eraseCardData(cardId);
+
+        expect(await store.get(`email_recipient:${cardId}`)).to.equal(null);
+        expect(await store.get(`rate:pair:${cardId}:${senderCommit}:1`)).to.equal(null);
+        expect(await store.get('attestation:a2')).to.equal(null);
+        expect(await store.get('evidence:settled')).to.equal(null);
+        expect(await store.get('receipts:settled')).to.equal(null);
+        expect(await store.get('attestation:a1')).to.not.equal(null);
+        expect(await store.get('evidence:disputed')).to.not.equal(null);
+        expect(report.classes.evidence!.preserved).to.equal(1);
+        expect(report.subjectHash!.includes(cardId)).to.equal(false);
+    });
+
+    it('should erase a sender commitment across cards', async () => {
+        await store.set(`rate:sender:${senderCommit}:1`, '5', 7200);
+
+        await engine.eraseSenderData(senderCommit);
+
+        expect(await store.get(`rate:sender:${senderCommit}:1`)).to.equal(null);
+        expect(await store.get(`rate:pair:${cardId}:${senderCommit}:1`)).to.equal(null);
+        expect(await store.get('evidence:settled')).to.equal(null);
+        expect(await store.get('evidence:disputed')).to.not.equal(null);
+        expect(await store.get(`email_recipient:${cardId}`)).to.equal('sealed');
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * Relay Test: Sealed Content
+ * Ensures E2E messages open only for the card and reveals bind to the commitment
+ */
+
+import { generateKeyPairSync } from 'crypto';
+import { expect } from 'chai';
+import { openSealedContent, parseSealedEnvelope, sealContent, verifyContentReveal } from '../../relay/SealedContent';
+
+function x25519KeyPair() {
+    const { publicKey, privateKey } = generateKeyPairSync('x25519');
+    return {
+        publicKey: (publicKey.export({ format: 'der', type: 'spki' }) as Buffer).subarray(12).toString('hex'),
+        privateKey: (privateKey.export({ format: 'der', type: 'pkcs8' }) as Buffer).subarray(16).toString('hex')
+    };
+}
+
+describe('SealedContent', () => {
+    const card = x25519KeyPair();
+    const plaintext = 'Hi Sarah, we met at the ZK panel - would love to compare notes on nullifiers.';
+
+    it('should open for the card key and yield a reveal matching the commitment', () => {
+        const sealed = sealContent(plaintext, card.publicKey);
+        const reveal = openSealedContent(sealed.content, sealed.contentCommitment, card.privateKey);
+
+        expect(sealed.content.includes('nullifiers')).to.equal(false);
+        expect(parseSealedEnvelope(sealed.content)).to.not.equal(null);
+        expect(reveal.plaintext).to.equal(plaintext);
+        expect(verifyContentReveal(sealed.contentCommitment, reveal)).to.equal(true);
+    });
+
+    it('should reject other keys, swapped commitments and altered reveals', () => {
+        const sealed = sealContent(plaintext, card.publicKey);
+        const other = sealContent('something else', card.publicKey);
+        const reveal = openSealedContent(sealed.content, sealed.contentCommitment, card.privateKey);
+
+        expect(() => openSealedContent(sealed.content, sealed.contentCommitment, x25519KeyPair().privateKey)).to.throw();
+        expect(() => openSealedContent(sealed.content, other.contentCommitment, card.privateKey)).to.throw();
+        expect(verifyContentReveal(sealed.contentCommitment, { ...reveal, plaintext: 'Hi Sarah!' })).to.equal(false);
+    });
+});
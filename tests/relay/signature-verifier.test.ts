@@ -0,0 +1,68 @@
+/**
+ * Relay Test: Sender Signature Verification
+ * Ensures forged or mis-keyed messages are rejected with distinct reasons
+ */
+
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { expect } from 'chai';
+import { deriveSenderAddress, verifySenderSignature } from '../../relay/SignatureVerifier';
+
+describe('SignatureVerifier', () => {
+    const digest = createHash('sha256').update('hello bonded intro').digest('hex');
+
+    function ed25519Sender() {
+        const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+        const publicKeyHex = (publicKey.export({ format: 'der', type: 'spki' }) as Buffer).subarray(12).toString('hex');
+        return {
+            publicKeyHex,
+            address: deriveSenderAddress('ed25519', publicKeyHex),
+            sign: (d: string) => sign(null, Buffer.from(d, 'hex'), privateKey).toString('hex')
+        };
+    }
+
+    // Signs the digest directly, as wallet signers do
+    function secp256k1Sender() {
+        const privateKey = secp256k1.utils.randomPrivateKey();
+        const publicKeyHex = Buffer.from(secp256k1.getPublicKey(privateKey, false)).toString('hex');
+        return {
+            publicKeyHex,
+            address: deriveSenderAddress('secp256k1', publicKeyHex),
+            sign: (d: string) => secp256k1.sign(d, privateKey).toCompactHex()
+        };
+    }
+
+    it('should accept valid Ed25519 and secp256k1 signatures', () => {
+        for (const [keyType, sender] of [['ed25519', ed25519Sender()], ['secp256k1', secp256k1Sender()]] as const) {
+            const result = verifySenderSignature(keyType, sender.publicKeyHex, sender.address, digest, sender.sign(digest));
+            expect(result.valid).to.equal(true);
+        }
+    });
+
+    it('should reject a signature over a different digest', () => {
+        const sender = ed25519Sender();
+        const otherDigest = createHash('sha256').update('tampered').digest('hex');
+        const result = verifySenderSignature('ed25519', sender.publicKeyHex, sender.address, digest, sender.sign(otherDigest));
+        expect(result).to.deep.equal({ valid: false, reason: 'INVALID_SIGNATURE' });
+    });
+
+    it('should not hash a secp256k1 digest a second time', () => {
+        const sender = secp256k1Sender();
+        const rehashed = createHash('sha256').update(Buffer.from(digest, 'hex')).digest('hex');
+        const result = verifySenderSignature('secp256k1', sender.publicKeyHex, sender.address, digest, sender.sign(rehashed));
+        expect(result).to.deep.equal({ valid: false, reason: 'INVALID_SIGNATURE' });
+    });
+
+    it('should reject a key that does not belong to the sender address', () => {
+        const sender = ed25519Sender();
+        const impostor = ed25519Sender();
+        const result = verifySenderSignature('ed25519', impostor.publicKeyHex, sender.address, digest, impostor.sign(digest));
+        expect(result).to.deep.equal({ valid: false, reason: 'KEY_MISMATCH' });
+    });
+
+    it('should reject unsupported key types', () => {
+        const sender = ed25519Sender();
+        const result = verifySenderSignature('rsa', sender.publicKeyHex, sender.address, digest, sender.sign(digest));
+        expect(result).to.deep.equal({ valid: false, reason: 'UNKNOWN_KEY_TYPE' });
+    });
+});
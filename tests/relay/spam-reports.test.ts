@@ -0,0 +1,114 @@
+/**
+ * Relay Test: Privacy Route Spam Reports
+ * Ensures each routed message claims its own interaction and is reported on-chain once
+ */
+
+import { expect } from 'chai';
+import { createSigner, createTestRelay, sha256, signedMessage, TEST_CARD, TEST_SENDER, TestRelay, TestSigner } from './relay-fixture';
+
+describe('Privacy route spam reports', () => {
+    const routeCode = '12345';
+    const routeKey = BigInt(routeCode).toString(16).padStart(64, '0');
+    let t: TestRelay;
+    let sender: TestSigner;
+    let interactions: [string, any[]][];
+    let reportErrors: Error[];
+
+    const interaction = (interactionId: string, timestamp: number, reportedAsSpam = false): [string, any[]] =>
+        [interactionId, [routeKey, sha256(TEST_SENDER), timestamp, 'MESSAGE', reportedAsSpam]];
+    const callsTo = (method: string) => t.calls.filter(call => call.method === method);
+    const reportProof = (evidenceHash: string) => t.admin.prove(`selectconnect:report-spam:${evidenceHash}`);
+
+    /**
+     * Verify and forward a message sent through the route; returns its evidence hash
+     */
+    const sendThroughRoute = async (): Promise<string> => {
+        const message = signedMessage(sender, { cardId: TEST_CARD, senderCommit: TEST_SENDER, routeCode });
+        const forwarded = await t.relay.forwardMessage(message, await t.relay.verifyBondForMessage(TEST_CARD, TEST_SENDER, message));
+        expect(forwarded.success).to.equal(true);
+        return forwarded.evidenceHash!;
+    };
+
+    beforeEach(async () => {
+        sender = createSigner();
+        interactions = [];
+        reportErrors = [];
+        t = await createTestRelay({
+            accessViaPrivacyRoute: () => [sha256(TEST_CARD), 'MESSAGE', true],
+            queryLedger: ([table]) => table === 'interaction_tracking'
+                ? interactions
+                : [['bond-1', [sha256(TEST_CARD), sha256(TEST_SENDER), 10n, Date.now() + 3600_000, false, false]]],
+            reportSpamViaRoute: () => {
+                const error = reportErrors.shift();
+                if (error) {
+                    throw error;
+                }
+                return true;
+            }
+        });
+    });
+
+    afterEach(async () => {
+        await t.close();
+    });
+
+    it('should claim the newest unclaimed interaction per message and retry until it is visible', async () => {
+        interactions = [interaction('int-old', 1), interaction('int-reported', 3, true)];
+        const first = await sendThroughRoute();
+        const second = await sendThroughRoute();
+
+        // The second access is not in the ledger yet
+        expect((await t.queue('privacy routes').runPending()).map(error => error.message))
+            .to.deep.equal(['Interaction not found in interaction_tracking']);
+        expect((await t.relay.getRouteInteraction(first))!.interactionId).to.equal('int-old');
+
+        interactions.push(interaction('int-new', 2));
+        expect(await t.queue('privacy routes').runPending()).to.deep.equal([]);
+        expect((await t.relay.getRouteInteraction(second))!.interactionId).to.equal('int-new');
+
+        // A retry goes straight to the ledger instead of opening the circuit again
+        expect(callsTo('accessViaPrivacyRoute').length).to.equal(2);
+    });
+
+    it('should queue one report per interaction however often it is reported', async () => {
+        interactions = [interaction('int-1', 1)];
+        const evidenceHash = await sendThroughRoute();
+        await t.queue('privacy routes').runPending();
+
+        expect((await t.relay.reportSpam(sha256('unknown'), reportProof(sha256('unknown')))).reason).to.equal('ROUTE_INTERACTION_NOT_FOUND');
+        expect((await t.relay.reportSpam(evidenceHash, createSigner().prove(`selectconnect:report-spam:${evidenceHash}`))).reason)
+            .to.equal('UNAUTHORIZED_CARD_ADMIN');
+
+        expect(await t.relay.reportSpam(evidenceHash, reportProof(evidenceHash)))
+            .to.deep.equal({ success: true, interactionId: 'int-1', status: 'QUEUED' });
+        expect(await t.relay.reportSpam(evidenceHash, reportProof(evidenceHash)))
+            .to.deep.equal({ success: true, interactionId: 'int-1', status: 'QUEUED', duplicate: true });
+        expect(t.queue('privacy routes').pending.map(entry => entry.job.id)).to.deep.equal(['spam:int-1']);
+
+        expect(await t.queue('privacy routes').runPending()).to.deep.equal([]);
+        expect(callsTo('reportSpamViaRoute').map(call => call.args)).to.deep.equal([[routeKey, sha256(TEST_SENDER), 'int-1', evidenceHash]]);
+        expect((await t.relay.reportSpam(evidenceHash, reportProof(evidenceHash))).status).to.equal('SUBMITTED');
+        expect(t.queue('privacy routes').pending).to.deep.equal([]);
+    });
+
+    it('should count the report once and drop the sender\'s cached reputation', async () => {
+        interactions = [interaction('int-1', 1)];
+        const evidenceHash = await sendThroughRoute();
+        await t.queue('privacy routes').runPending();
+        expect(callsTo('getSenderReputation').length).to.equal(1);
+
+        // The first submission went through but its confirmation was lost
+        reportErrors = [new Error('network timeout'), new Error('Interaction already reported')];
+        await t.relay.reportSpam(evidenceHash, reportProof(evidenceHash));
+        expect((await t.queue('privacy routes').runPending()).map(error => error.message)).to.deep.equal(['network timeout']);
+        expect(await t.store.get(`spam_reports:${TEST_SENDER}`)).to.equal(null);
+
+        expect(await t.queue('privacy routes').runPending()).to.deep.equal([]);
+        expect(await t.store.get(`spam_reports:${TEST_SENDER}`)).to.equal('1');
+
+        await sendThroughRoute();
+        expect(callsTo('getSenderReputation').length).to.equal(2);
+        const [submitted] = (await t.relay.getAuditEntries(1, 100)).filter(entry => entry.type === 'SPAM_REPORT' && entry.data.outcome === 'SUBMITTED');
+        expect(submitted.data).to.include({ interactionId: 'int-1', attempt: 2 });
+    });
+});